@@ -1,35 +1,52 @@
+import { promises as fs } from 'fs';
 import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
 import request from 'supertest';
-import { Router } from '@routing/Router';
+import { Application, createApp } from '@routing';
 import { TimezoneController } from '@controllers/TimezoneController';
 import { HealthcheckController } from '@controllers/HealthcheckController';
+import { DocsController } from '@controllers/DocsController';
+import { ApiKeyController } from '@controllers/ApiKeyController';
+import { MetricsController } from '@controllers/MetricsController';
+import { TimezoneWebSocket } from '@controllers/TimezoneWebSocket';
+import { ApiKeyService, HealthService, JsonFileApiKeyStore } from '@services';
+import { ServiceRegistry } from '@shared';
 
 describe('API Integration Tests', () => {
-  let server: http.Server;
+  let application: Application;
   let app: http.Server;
-
-  beforeAll(() => {
-    // Create router and register controllers
-    const router = new Router();
-    router.registerController(new TimezoneController());
-    router.registerController(new HealthcheckController());
-
-    // Create HTTP server
-    server = http.createServer((req, res) => {
-      router.handleRequest(req, res);
+  let keysDirectory: string;
+
+  beforeAll(async () => {
+    // Keys live in a temporary store, with a bootstrap admin key
+    keysDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'api-keys-'));
+
+    application = createApp({
+      // Settings only come from the test, not from the environment or the jest command line
+      config: { defaults: { defaultTimezone: 'Asia/Tokyo' }, env: {}, argv: [] },
+      controllers: [TimezoneController, HealthcheckController, DocsController, ApiKeyController, MetricsController],
+      webSockets: [TimezoneWebSocket],
+      providers: [
+        {
+          provide: ApiKeyService,
+          useValue: new ApiKeyService({
+            store: new JsonFileApiKeyStore(path.join(keysDirectory, 'api-keys.json')),
+            adminKey: 'admin-key',
+          }),
+        },
+      ],
+      // The server's default anonymous scopes
+      router: { auth: { anonymousScopes: ['time:read', 'health:read', 'metrics:read'] } },
     });
 
-    app = server;
+    app = application.server;
   });
 
   afterAll(async () => {
-    if (server) {
-      await new Promise<void>((resolve) => {
-        server.close(() => {
-          resolve();
-        });
-      });
-    }
+    await application.close();
+    ServiceRegistry.getInstance().clear();
+    await fs.rm(keysDirectory, { recursive: true, force: true });
   });
 
   describe('Health Check Endpoints', () => {
@@ -48,6 +65,27 @@ describe('API Integration Tests', () => {
         expect(response.body.endpoints).toHaveProperty('/time/{timezone}');
       });
 
+      it('should derive the endpoint listing from the registered routes', async () => {
+        const response = await request(app)
+          .get('/')
+          .expect(200);
+
+        expect(response.body.endpoints).toEqual({
+          '/time': 'Get current time in the default timezone',
+          '/time/{timezone}': 'Get current time in specified timezone',
+          '/healthcheck': 'Health check endpoint',
+          '/health/live': 'Liveness probe, down when the process should be restarted',
+          '/health/ready': 'Readiness probe, down while the server cannot serve traffic or shuts down',
+          '/': 'API information',
+          '/openapi.json': 'OpenAPI 3.1 document',
+          '/asyncapi.json': 'AsyncAPI 2.6 document',
+          '/admin/api-keys': 'POST: Create an API key; GET: List API keys',
+          '/admin/api-keys/{id}': 'Revoke an API key',
+          '/metrics': 'Metrics in the Prometheus text format',
+        });
+        expect(response.body.documentation).toBe('/openapi.json');
+      });
+
       it('should include CORS headers', async () => {
         const response = await request(app)
           .get('/')
@@ -79,7 +117,141 @@ describe('API Integration Tests', () => {
     });
   });
 
+  describe('Health Probes', () => {
+    let health: HealthService;
+
+    beforeEach(() => {
+      health = new HealthService();
+      ServiceRegistry.getInstance().registerService(HealthService, health);
+    });
+
+    it('should answer 200 with the result of every indicator', async () => {
+      health.addIndicator('readiness', { name: 'database', check: () => ({ status: 'up', details: { pool: 4 } }) });
+
+      const response = await request(app)
+        .get('/health/ready')
+        .expect(200)
+        .expect('Cache-Control', 'no-store');
+
+      expect(response.body).toEqual({
+        status: 'up',
+        checks: { database: { status: 'up', details: { pool: 4 } } },
+        timestamp: expect.any(String),
+      });
+    });
+
+    it('should answer 503 when an indicator is down', async () => {
+      health.addIndicator('liveness', { name: 'event_loop', check: () => ({ status: 'down', details: { lag_ms: 2400 } }) });
+
+      const response = await request(app).get('/health/live').expect(503);
+
+      expect(response.body).toMatchObject({ status: 'down', checks: { event_loop: { status: 'down' } } });
+      await request(app).get('/health/ready').expect(200);
+    });
+
+    it('should fail readiness only once a shutdown begins', async () => {
+      health.beginShutdown();
+
+      const response = await request(app).get('/health/ready').expect(503);
+      expect(response.body.checks.shutdown).toEqual({ status: 'down', details: { message: 'Server is shutting down' } });
+      await request(app).get('/health/live').expect(200);
+    });
+  });
+
+  describe('Documentation Endpoints', () => {
+    describe('GET /openapi.json', () => {
+      it('should describe every route', async () => {
+        const response = await request(app)
+          .get('/openapi.json')
+          .expect(200)
+          .expect('Content-Type', /application\/json/);
+
+        expect(response.body.openapi).toBe('3.1.0');
+        expect(response.body.info).toMatchObject({ title: 'Timezone Server API' });
+        expect(Object.keys(response.body.paths)).toEqual([
+          '/time',
+          '/time/{timezone}',
+          '/healthcheck',
+          '/health/live',
+          '/health/ready',
+          '/',
+          '/openapi.json',
+          '/asyncapi.json',
+          '/admin/api-keys',
+          '/admin/api-keys/{id}',
+          '/metrics'
+        ]);
+      });
+
+      it('should document parameters and responses of the timezone route', async () => {
+        const response = await request(app)
+          .get('/openapi.json')
+          .expect(200);
+
+        const operation = response.body.paths['/time/{timezone}'].get;
+
+        expect(operation.summary).toBe('Get current time in specified timezone');
+        expect(operation.parameters).toEqual([
+          expect.objectContaining({ name: 'timezone', in: 'path', required: true })
+        ]);
+        expect(operation.responses['200'].content['application/json'].schema.required).toEqual([
+          'timezone',
+          'current_time',
+          'timestamp'
+        ]);
+        expect(operation.responses['400'].content['application/json'].schema).toEqual({
+          $ref: '#/components/schemas/ErrorResponse'
+        });
+      });
+    });
+
+    describe('GET /asyncapi.json', () => {
+      it('should describe the Socket.io events', async () => {
+        const response = await request(app)
+          .get('/asyncapi.json')
+          .expect(200)
+          .expect('Content-Type', /application\/json/);
+
+        expect(response.body.asyncapi).toBe('2.6.0');
+        expect(Object.keys(response.body.channels).sort()).toEqual([
+          'change-timezone',
+          'error',
+          'get-time',
+          'subscribe',
+          'subscribe-timezone',
+          'time-update',
+          'unsubscribe'
+        ]);
+        expect(response.body.channels.subscribe.publish.message.payload).toMatchObject({
+          type: 'object',
+          properties: {
+            timezones: { type: 'array', minItems: 1, maxItems: 50 },
+            granularity: { enum: ['second', 'minute', 'hour', 'offset-change'] }
+          },
+          required: ['timezones']
+        });
+        expect(response.body.channels['subscribe-timezone'].publish.message.payload).toMatchObject({
+          type: 'object',
+          required: ['timezone']
+        });
+        expect(response.body.channels['time-update'].subscribe.operationId).toBe('onTimeUpdate');
+        expect(response.body.channels.error.subscribe.message.oneOf).toHaveLength(2);
+      });
+    });
+  });
+
   describe('Timezone Endpoints', () => {
+    describe('GET /time', () => {
+      it('should return the time in the configured default timezone', async () => {
+        const response = await request(app)
+          .get('/time')
+          .expect(200);
+
+        expect(response.body).toHaveProperty('timezone', 'Asia/Tokyo');
+        expect(response.body.current_time).toMatch(/\+09:00$/);
+      });
+    });
+
     describe('GET /time/:timezone', () => {
       it('should return time for valid timezone (UTC)', async () => {
         const response = await request(app)
@@ -137,9 +309,12 @@ describe('API Integration Tests', () => {
           .expect(400)
           .expect('Content-Type', /application\/json/);
 
-        expect(response.body).toHaveProperty('error', 'Invalid timezone');
-        expect(response.body).toHaveProperty('message');
-        expect(response.body).toHaveProperty('requested_timezone', 'Invalid/Timezone');
+        expect(response.body).toEqual({
+          error: 'Invalid timezone',
+          code: 'INVALID_TIMEZONE',
+          message: "The timezone identifier 'Invalid/Timezone' is not valid",
+          details: { requested_timezone: 'Invalid/Timezone' },
+        });
       });
 
 
@@ -242,8 +417,98 @@ describe('API Integration Tests', () => {
         .expect(400);
 
       // All error responses should have the same structure
-      expect(Object.keys(response.body).sort()).toEqual(['error', 'message', 'requested_timezone']);
+      expect(Object.keys(response.body).sort()).toEqual(['code', 'details', 'error', 'message']);
       expect(response.body.error).toBe('Invalid timezone');
+      expect(response.body.code).toBe('INVALID_TIMEZONE');
+    });
+  });
+
+  describe('Metrics Endpoint', () => {
+    // Value of a sample, other tests answer the same routes too
+    const sample = (text: string, series: string) =>
+      Number(text.split('\n').find((line) => line.startsWith(`${series} `))?.slice(series.length + 1) ?? 0);
+    const series = '{method="GET",route="/time/*timezone",status="400"}';
+
+    it('should count requests by route template and status', async () => {
+      const before = (await request(app).get('/metrics').expect(200)).text;
+
+      await request(app).get('/time/Europe/Paris').expect(200);
+      await request(app).get('/time/Mars/Olympus').expect(400);
+
+      const response = await request(app)
+        .get('/metrics')
+        .expect(200)
+        .expect('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+
+      expect(response.text).toContain('# TYPE http_requests_total counter\n');
+      expect(sample(response.text, `http_requests_total${series}`)).toBe(sample(before, `http_requests_total${series}`) + 1);
+      expect(sample(response.text, `http_request_duration_seconds_count${series}`)).toBe(
+        sample(before, `http_request_duration_seconds_count${series}`) + 1,
+      );
+      expect(response.text).not.toContain('Europe/Paris');
+    });
+
+    it('should expose process stats', async () => {
+      const response = await request(app).get('/metrics').expect(200);
+
+      expect(response.text).toMatch(/^process_resident_memory_bytes \d+$/m);
+      expect(response.text).toMatch(/^process_cpu_user_seconds_total [\d.e-]+$/m);
+      expect(response.text).toContain(`nodejs_version_info{version="${process.version}"} 1`);
+    });
+  });
+
+  describe('API Key Administration', () => {
+    it('should require the admin scope', async () => {
+      await request(app).get('/admin/api-keys').expect(401);
+
+      const { body } = await request(app)
+        .post('/admin/api-keys')
+        .set('X-API-Key', 'admin-key')
+        .send({ name: 'Reader', scopes: ['time:read'] })
+        .expect(200);
+
+      const response = await request(app).get('/admin/api-keys').set('X-API-Key', body.key).expect(403);
+      expect(response.body.code).toBe('INSUFFICIENT_SCOPE');
+    });
+
+    it('should create, list and revoke keys', async () => {
+      const created = await request(app)
+        .post('/admin/api-keys')
+        .set('Authorization', 'Bearer admin-key')
+        .send({ name: 'Dashboard', scopes: ['time:read', 'health:read'] })
+        .expect(200);
+
+      expect(created.body).toMatchObject({ name: 'Dashboard', scopes: ['time:read', 'health:read'] });
+      await request(app).get('/time/Etc/UTC').set('X-API-Key', created.body.key).expect(200);
+
+      const listed = await request(app).get('/admin/api-keys').set('X-API-Key', 'admin-key').expect(200);
+      expect(listed.body).toContainEqual(expect.objectContaining({ id: created.body.id, prefix: created.body.prefix }));
+      expect(JSON.stringify(listed.body)).not.toContain(created.body.key);
+
+      await request(app).delete(`/admin/api-keys/${created.body.id}`).set('X-API-Key', 'admin-key').expect(200);
+      await request(app).get('/time/Etc/UTC').set('X-API-Key', created.body.key).expect(401);
+    });
+
+    it('should reject scopes given as a string', async () => {
+      const response = await request(app)
+        .post('/admin/api-keys')
+        .set('X-API-Key', 'admin-key')
+        .send({ name: 'Reader', scopes: 'time:read' })
+        .expect(400);
+
+      expect(response.body.details).toEqual([{ location: 'body', field: 'scopes', message: 'must be an array' }]);
+    });
+
+    it('should validate new keys and report unknown ids', async () => {
+      const invalid = await request(app)
+        .post('/admin/api-keys')
+        .set('X-API-Key', 'admin-key')
+        .send({ name: '', scopes: ['Not A Scope'] })
+        .expect(400);
+      expect(invalid.body.code).toBe('VALIDATION_FAILED');
+
+      const missing = await request(app).delete('/admin/api-keys/unknown').set('X-API-Key', 'admin-key').expect(404);
+      expect(missing.body.code).toBe('API_KEY_NOT_FOUND');
     });
   });
 });
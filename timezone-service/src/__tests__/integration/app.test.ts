@@ -0,0 +1,204 @@
+import { HealthcheckController } from '@controllers/HealthcheckController';
+import { OffsetChangeWebSocket } from '@controllers/OffsetChangeWebSocket';
+import { TimezoneController } from '@controllers/TimezoneController';
+import { TimezoneWebSocket } from '@controllers/TimezoneWebSocket';
+import { Application, createApp, rateLimit } from '@routing';
+import { RealtimeGateway } from '@routing/RealtimeGateway';
+import { ApiKeyService, ConfigService, InvalidConfigException, TickScheduler } from '@services';
+import { BODY, ConflictException, HEADER, Logger, POST, Principal, ServiceRegistry } from '@shared';
+import * as http from 'http';
+
+class NotesController {
+  @POST('/notes')
+  create(@BODY() note: { text: string }, @HEADER('x-author') author: string | undefined) {
+    return { ...note, author };
+  }
+}
+
+// Quiet and reproducible settings, not taken from the environment or the jest command line
+const config = { env: {}, argv: [], defaults: { logLevel: 'error' as const } };
+const router = { auth: { anonymousScopes: ['time:read'] } };
+
+describe('createApp', () => {
+  let app: Application;
+
+  afterEach(async () => {
+    await app?.close();
+  });
+
+  describe('inject', () => {
+    beforeEach(() => {
+      app = createApp({
+        config,
+        router,
+        controllers: [TimezoneController, NotesController],
+        notFound: new ConflictException('Nothing here'),
+      });
+    });
+
+    it('should answer requests without listening on a port', async () => {
+      const response = await app.inject({ url: '/time/Asia/Tokyo' });
+
+      expect(app.server.listening).toBe(false);
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toMatch(/application\/json/);
+      expect(response.json()).toMatchObject({ timezone: 'Asia/Tokyo' });
+    });
+
+    it('should send bodies as JSON with the given headers', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/notes',
+        headers: { 'X-Author': 'ada' },
+        body: { text: 'hello' },
+      });
+
+      expect(response.json()).toEqual({ text: 'hello', author: 'ada' });
+    });
+
+    it('should answer unknown paths with the notFound exception', async () => {
+      const response = await app.inject({ url: '/nowhere' });
+
+      expect(response.statusCode).toBe(409);
+      expect(response.json()).toMatchObject({ message: 'Nothing here' });
+    });
+  });
+
+  describe('listen and close', () => {
+    it('should serve on a port until closed, then destroy the services', async () => {
+      const destroyed = jest.fn();
+      app = createApp({
+        config,
+        router,
+        controllers: [TimezoneController],
+        providers: [
+          {
+            provide: Map,
+            useFactory: (settings: ConfigService) => ({ settings, onModuleDestroy: destroyed }),
+            inject: [ConfigService],
+          },
+        ],
+      });
+
+      const { port } = await app.listen(0, '127.0.0.1');
+      const status = await new Promise<number | undefined>((resolve) =>
+        http.get(`http://127.0.0.1:${port}/time/Etc/UTC`, (res) => {
+          res.resume();
+          resolve(res.statusCode);
+        }),
+      );
+
+      const scheduler = ServiceRegistry.getInstance().getService<TickScheduler>(TickScheduler);
+
+      expect(status).toBe(200);
+      expect(ServiceRegistry.getInstance().getOrCreateService(Map)).toEqual({
+        settings: app.config,
+        onModuleDestroy: destroyed,
+      });
+      await expect(app.close()).resolves.toBe(0);
+      expect(app.server.listening).toBe(false);
+      expect(destroyed).toHaveBeenCalledWith('close');
+      expect(scheduler?.isRunning()).toBe(false);
+      expect(ServiceRegistry.getInstance().getService(TickScheduler)).toBeUndefined();
+    });
+
+    it('should pass event streams through the router middleware', async () => {
+      app = createApp({
+        config,
+        webSockets: [TimezoneWebSocket],
+        router: { ...router, middleware: [rateLimit({ limit: 1, window: '1m' })] },
+      });
+      const { port } = await app.listen(0, '127.0.0.1');
+      const open = () =>
+        new Promise<http.IncomingMessage>((resolve) =>
+          http.get(`http://127.0.0.1:${port}/time/live/Etc/UTC`, { headers: { 'X-Request-Id': 'stream-1' } }, resolve),
+        );
+
+      const stream = await open();
+      stream.destroy();
+      const limited = await open();
+      limited.resume();
+
+      expect(stream.statusCode).toBe(200);
+      expect(stream.headers['content-type']).toMatch(/text\/event-stream/);
+      expect(stream.headers['x-request-id']).toBe('stream-1');
+      expect(limited.statusCode).toBe(429);
+    });
+
+    it('should start the next app afresh after closing one', async () => {
+      app = createApp({ config, controllers: [HealthcheckController] });
+      const { logger } = app;
+      await app.close();
+
+      app = createApp({ config, controllers: [HealthcheckController] });
+      await app.listen(0, '127.0.0.1');
+      const response = await app.inject({ url: '/health/ready' });
+
+      expect(app.logger).not.toBe(logger);
+      expect(response.statusCode).toBe(200);
+      expect(Object.keys(response.json<{ checks: object }>().checks)).toEqual(['socket_io', 'timezone_data', 'config']);
+    });
+
+    it('should keep the services registered before the app', async () => {
+      const logger = new Logger();
+      ServiceRegistry.getInstance().registerService(Logger, logger);
+      app = createApp({ config, providers: [{ provide: Map, useValue: new Map() }] });
+      await app.close();
+
+      expect(ServiceRegistry.getInstance().getService(Logger)).toBe(logger);
+      expect(ServiceRegistry.getInstance().getService(Map)).toBeUndefined();
+      ServiceRegistry.getInstance().clear();
+    });
+  });
+
+  describe('services', () => {
+    it('should register the config and let providers replace the defaults', () => {
+      const logger = new Logger();
+      app = createApp({ config, providers: [{ provide: Logger, useValue: logger }] });
+
+      expect(ServiceRegistry.getInstance().getService(ConfigService)).toBe(app.config);
+      expect(app.logger).toBe(logger);
+    });
+
+    it('should reject invalid settings', () => {
+      expect(() => createApp({ config: { ...config, env: { PORT: 'eighty' } } })).toThrow(InvalidConfigException);
+    });
+
+    it('should serve every @Controller class when no controllers are listed', async () => {
+      app = createApp({ config, router });
+
+      expect((await app.inject({ url: '/time/Etc/UTC' })).statusCode).toBe(200);
+      expect((await app.inject({ method: 'POST', url: '/notes', body: {} })).statusCode).toBe(404);
+    });
+
+    it('should answer health probes without credentials when anonymous clients have no scopes', async () => {
+      app = createApp({ config, controllers: [HealthcheckController] });
+
+      expect((await app.inject({ url: '/health/live' })).statusCode).toBe(200);
+      expect((await app.inject({ url: '/healthcheck' })).statusCode).toBe(401);
+    });
+
+    it('should only serve the listed WebSocket controllers', () => {
+      app = createApp({ config, webSockets: [TimezoneWebSocket] });
+      const gateway = ServiceRegistry.getInstance().getOrCreateService<RealtimeGateway>(RealtimeGateway);
+
+      expect(gateway.matchPath('/time/live/Etc/UTC')?.controllerClass).toBe(TimezoneWebSocket);
+      expect(gateway.matchPath('/time/offset-changes')).toBeUndefined();
+      expect(OffsetChangeWebSocket).toBeDefined();
+    });
+
+    it('should authenticate realtime clients with the API keys and anonymous scopes of the router', async () => {
+      const dashboard: Principal = { id: 'dashboard', type: 'api-key', scopes: ['time:read'] };
+      const apiKeys = { authenticate: jest.fn(({ apiKey }) => (apiKey === 'issued-key' ? dashboard : undefined)) };
+      const gateway = () => ServiceRegistry.getInstance().getOrCreateService<RealtimeGateway>(RealtimeGateway);
+
+      app = createApp({ config, providers: [{ provide: ApiKeyService, useValue: apiKeys }] });
+      await expect(gateway().authenticate({})).rejects.toMatchObject({ status: 401, code: 'AUTHENTICATION_REQUIRED' });
+      await expect(gateway().authenticate({ apiKey: 'issued-key' })).resolves.toBe(dashboard);
+      await app.close();
+
+      app = createApp({ config, router });
+      await expect(gateway().authenticate({})).resolves.toBeUndefined();
+    });
+  });
+});
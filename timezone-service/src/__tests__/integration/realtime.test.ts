@@ -0,0 +1,299 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { io as ioClient } from 'socket.io-client';
+import WebSocket from 'ws';
+import { EventStreamServer } from '@routing/EventStreamServer';
+import { NativeWebSocketServer } from '@routing/NativeWebSocketServer';
+import { RealtimeGateway } from '@routing/RealtimeGateway';
+import { Router } from '@routing/Router';
+import { SocketServer } from '@routing/SocketIOServer';
+import { TimezoneController } from '@controllers/TimezoneController';
+import '@controllers/OffsetChangeWebSocket';
+import '@controllers/TimezoneWebSocket';
+import { HandshakeAuthenticator } from '@services';
+import { ServiceRegistry } from '@shared';
+
+interface Frame {
+  event: string;
+  id?: number;
+  data?: any;
+  error?: any;
+}
+
+// Poll until the lookup finds something, messages arrive asynchronously
+const waitFor = async <T>(find: () => T | undefined): Promise<T> => {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const found = find();
+    if (found !== undefined) return found;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error('Timed out waiting for the expected message');
+};
+
+describe('Realtime transports', () => {
+  let server: http.Server;
+  let nativeWebSocketServer: NativeWebSocketServer;
+  let eventStreamServer: EventStreamServer;
+  let socketServer: SocketServer;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const router = new Router({ auth: { anonymousScopes: ['time:read'] } });
+    router.registerController(TimezoneController);
+    eventStreamServer = new EventStreamServer();
+
+    server = http.createServer(async (req, res) => {
+      (await eventStreamServer.handleRequest(req, res)) || (await router.handleRequest(req, res));
+    });
+    nativeWebSocketServer = new NativeWebSocketServer(server);
+    socketServer = new SocketServer(server);
+
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    // Also cleans the WebSocket controllers up
+    socketServer.cleanup();
+    nativeWebSocketServer.cleanup();
+    eventStreamServer.cleanup();
+
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  describe('WebSocket', () => {
+    const open = async (path: string) => {
+      const ws = new WebSocket(`ws://${baseUrl}${path}`);
+      const frames: Frame[] = [];
+      ws.on('message', (raw: Buffer) => frames.push(JSON.parse(raw.toString())));
+      await new Promise((resolve, reject) => {
+        ws.once('open', resolve);
+        ws.once('error', reject);
+      });
+      return { ws, frames };
+    };
+
+    const closed = (ws: WebSocket) =>
+      new Promise<number>((resolve) => ws.once('close', (code: number) => resolve(code)));
+
+    it('should subscribe to the timezone of the path', async () => {
+      const { ws, frames } = await open('/time/live/Asia/Tokyo');
+
+      const update = await waitFor(() => frames.find((frame) => frame.event === 'time-update'));
+      expect(update.data).toMatchObject({
+        type: 'time_update',
+        times: [{ timezone: 'Asia/Tokyo', utc_offset: '+09:00' }],
+      });
+
+      ws.close();
+      await closed(ws);
+    });
+
+    it('should acknowledge events sent with an id', async () => {
+      const { ws, frames } = await open('/time/live/Etc/UTC');
+
+      ws.send(JSON.stringify({ event: 'subscribe', data: { timezones: ['Europe/Paris'] }, id: 1 }));
+      ws.send(JSON.stringify({ event: 'subscribe', data: { timezones: [] }, id: 2 }));
+
+      const ack = await waitFor(() => frames.find((frame) => frame.event === 'ack' && frame.id === 1));
+      expect(ack.data).toEqual({
+        subscriptions: [
+          { timezone: 'Etc/UTC', granularity: 'second' },
+          { timezone: 'Europe/Paris', granularity: 'second' },
+        ],
+      });
+
+      const rejected = await waitFor(() => frames.find((frame) => frame.event === 'ack' && frame.id === 2));
+      expect(rejected.error).toMatchObject({ code: 'VALIDATION_FAILED' });
+
+      ws.close();
+      await closed(ws);
+    });
+
+    it('should report malformed messages and unknown events', async () => {
+      const { ws, frames } = await open('/time/live');
+
+      ws.send('not json');
+      ws.send(JSON.stringify({ event: 'launch-rocket' }));
+
+      await waitFor(() => (frames.length === 2 ? frames : undefined));
+      expect(frames).toEqual([
+        { event: 'error', data: expect.objectContaining({ code: 'INVALID_MESSAGE' }) },
+        { event: 'error', data: expect.objectContaining({ code: 'UNKNOWN_EVENT', message: "Unknown event 'launch-rocket'" }) },
+      ]);
+
+      ws.close();
+      await closed(ws);
+    });
+
+    it('should only dispatch events to the controller of the path', async () => {
+      const { ws, frames } = await open('/time/offset-changes');
+
+      ws.send(JSON.stringify({ event: 'get-time', id: 1 }));
+
+      const ack = await waitFor(() => frames.find((frame) => frame.event === 'ack' && frame.id === 1));
+      expect(ack.error).toMatchObject({ code: 'UNKNOWN_EVENT', message: "Unknown event 'get-time'" });
+
+      ws.close();
+      await closed(ws);
+    });
+
+    it('should reject connections to invalid timezones', async () => {
+      const { ws, frames } = await open('/time/live/Mars/Olympus');
+
+      expect(await closed(ws)).toBe(1008);
+      expect(frames).toEqual([{ event: 'error', data: expect.objectContaining({ code: 'VALIDATION_FAILED' }) }]);
+    });
+
+    it('should close connections sending messages over 64 KiB', async () => {
+      const { ws } = await open('/time/live/Etc/UTC');
+
+      ws.send(JSON.stringify({ event: 'subscribe', data: { timezones: ['x'.repeat(64 * 1024)] } }));
+
+      expect(await closed(ws)).toBe(1009);
+    });
+
+    it('should forget closed connections', async () => {
+      const { ws } = await open('/time/live/Etc/UTC');
+      expect(nativeWebSocketServer.getConnectionCount()).toBe(1);
+
+      ws.close();
+      await closed(ws);
+
+      await waitFor(() => (nativeWebSocketServer.getConnectionCount() === 0 ? true : undefined));
+    });
+  });
+
+  describe('Server-Sent Events', () => {
+    const get = (path: string) =>
+      new Promise<{ req: http.ClientRequest; res: http.IncomingMessage; body: () => string; ended: Promise<void> }>(
+        (resolve) => {
+          const req = http.get(`http://${baseUrl}${path}`, (res) => {
+            let body = '';
+            res.setEncoding('utf8');
+            res.on('data', (chunk: string) => (body += chunk));
+            const ended = new Promise<void>((done) => res.on('end', done));
+            resolve({ req, res, body: () => body, ended });
+          });
+        },
+      );
+
+    it('should stream time updates for the timezone of the path', async () => {
+      const { req, res, body } = await get('/time/live/Europe/London?granularity=minute');
+
+      expect(res.statusCode).toBe(200);
+      expect(res.headers['content-type']).toBe('text/event-stream; charset=utf-8');
+      expect(res.headers['cache-control']).toBe('no-cache');
+
+      const event = await waitFor(() => body().match(/event: time-update\ndata: (.+)\n\n/)?.[1]);
+      expect(JSON.parse(event)).toMatchObject({
+        type: 'time_update',
+        times: [{ timezone: 'Europe/London' }],
+      });
+
+      req.destroy();
+      await waitFor(() => (eventStreamServer.getConnectionCount() === 0 ? true : undefined));
+    });
+
+    it('should answer rejected connections with an error response', async () => {
+      const { res, body, ended } = await get('/time/live/Mars/Olympus');
+
+      expect(res.statusCode).toBe(400);
+      expect(res.headers['content-type']).toMatch(/application\/json/);
+
+      await ended;
+      expect(JSON.parse(body())).toMatchObject({ code: 'VALIDATION_FAILED' });
+      expect(eventStreamServer.getConnectionCount()).toBe(0);
+    });
+
+    it('should leave other routes to the router', async () => {
+      const { res, body, ended } = await get('/time/Etc/UTC');
+
+      expect(res.statusCode).toBe(200);
+      await ended;
+      expect(JSON.parse(body())).toMatchObject({ timezone: 'Etc/UTC' });
+    });
+  });
+
+  describe('Socket.io', () => {
+    // Each WebSocket controller is served on the namespaces of its path
+    const connect = (namespace: string, query: Record<string, string> = {}) =>
+      ioClient(`http://${baseUrl}${namespace}`, { query, transports: ['websocket'], forceNew: true, reconnection: false });
+
+    it('should run the controller of the namespace with its path parameters', async () => {
+      const socket = connect('/time/live/Europe/Paris', { timezones: 'Asia/Tokyo' });
+      const updates: any[] = [];
+      socket.on('time-update', (update) => updates.push(update));
+
+      const update = await waitFor(() => updates[0]);
+      expect(update.times.map(({ timezone }: { timezone: string }) => timezone)).toEqual(['Europe/Paris', 'Asia/Tokyo']);
+      await expect(socket.timeout(200).emitWithAck('subscribe-offset-changes', { timezones: ['Europe/London'] })).rejects.toThrow(
+        'operation has timed out',
+      );
+
+      socket.disconnect();
+    });
+
+    it('should refuse the main namespace', async () => {
+      const socket = connect('/');
+
+      const error = await new Promise<Error & { data?: any }>((resolve) => socket.once('connect_error', resolve));
+      expect(error.data).toMatchObject({ code: 'NOT_FOUND' });
+
+      socket.disconnect();
+    });
+  });
+
+  describe('authentication', () => {
+    const gateway = () => ServiceRegistry.getInstance().getOrCreateService<RealtimeGateway>(RealtimeGateway);
+
+    beforeAll(() => {
+      gateway().useAuthentication({
+        authenticator: new HandshakeAuthenticator({
+          apiKeys: { 'reader-key': { id: 'reader', scopes: ['time:read'] } },
+        }),
+        rules: [{ room: 'timezone-*', scopes: ['time:read'] }],
+      });
+    });
+
+    afterAll(() => {
+      gateway().useAuthentication(undefined);
+    });
+
+    it('should refuse WebSocket upgrades without credentials', async () => {
+      const ws = new WebSocket(`ws://${baseUrl}/time/live/Etc/UTC`);
+
+      const res = await new Promise<http.IncomingMessage>((resolve) =>
+        ws.once('unexpected-response', (_req: http.ClientRequest, response: http.IncomingMessage) => resolve(response)),
+      );
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => (body += chunk));
+      await new Promise((resolve) => res.on('end', resolve));
+
+      expect(res.statusCode).toBe(401);
+      expect(JSON.parse(body)).toMatchObject({ code: 'AUTHENTICATION_REQUIRED' });
+    });
+
+    it('should accept WebSocket clients sending an X-API-Key header', async () => {
+      const ws = new WebSocket(`ws://${baseUrl}/time/live/Etc/UTC`, { headers: { 'X-API-Key': 'reader-key' } });
+      const frames: Frame[] = [];
+      ws.on('message', (raw: Buffer) => frames.push(JSON.parse(raw.toString())));
+
+      await waitFor(() => frames.find((frame) => frame.event === 'time-update'));
+
+      ws.close();
+      await new Promise((resolve) => ws.once('close', resolve));
+    });
+
+    it('should answer event streams with the authentication error', async () => {
+      const res = await new Promise<http.IncomingMessage>((resolve) =>
+        http.get(`http://${baseUrl}/time/live/Etc/UTC?apiKey=guessed-key`, resolve),
+      );
+      res.resume();
+
+      expect(res.statusCode).toBe(401);
+      expect(eventStreamServer.getConnectionCount()).toBe(0);
+    });
+  });
+});
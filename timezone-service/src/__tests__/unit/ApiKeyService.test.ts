@@ -0,0 +1,116 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ApiKeyRecord, ApiKeyService, ApiKeyStore, ConfigService, JsonFileApiKeyStore } from '@services';
+import { ServiceRegistry } from '@shared';
+
+class MemoryStore implements ApiKeyStore {
+  saved: ApiKeyRecord[][] = [];
+
+  constructor(private records: ApiKeyRecord[] = []) {}
+
+  load() {
+    return Promise.resolve(structuredClone(this.records));
+  }
+
+  save(records: ApiKeyRecord[]) {
+    this.records = structuredClone(records);
+    this.saved.push(this.records);
+    return Promise.resolve();
+  }
+}
+
+describe('ApiKeyService', () => {
+  let store: MemoryStore;
+  let service: ApiKeyService;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    service = new ApiKeyService({ store, adminKey: 'bootstrap-admin' });
+  });
+
+  it('should create keys that authenticate with their scopes', async () => {
+    const created = await service.create('Dashboard', ['time:read', 'time:read']);
+
+    expect(created.key).toMatch(/^tzk_[\w-]{32}$/);
+    expect(created).toMatchObject({ name: 'Dashboard', prefix: created.key.slice(0, 8), scopes: ['time:read'] });
+    await expect(service.authenticate({ apiKey: created.key })).resolves.toEqual({
+      id: created.id,
+      type: 'api-key',
+      scopes: ['time:read'],
+    });
+  });
+
+  it('should only store the hash of a key', async () => {
+    const { key } = await service.create('Dashboard', []);
+    const [record] = store.saved[0];
+
+    expect(JSON.stringify(store.saved)).not.toContain(key);
+    expect(record.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await service.list()).toEqual([expect.not.objectContaining({ hash: expect.anything() })]);
+  });
+
+  it('should refuse revoked and unknown keys', async () => {
+    const { id, key } = await service.create('Dashboard', ['time:read']);
+
+    const revoked = await service.revoke(id);
+
+    expect(revoked.revoked_at).toEqual(expect.any(String));
+    await expect(service.authenticate({ apiKey: key })).resolves.toBeUndefined();
+    await expect(service.authenticate({ apiKey: 'tzk_guessed' })).resolves.toBeUndefined();
+    await expect(service.revoke('missing')).rejects.toMatchObject({ status: 404, code: 'API_KEY_NOT_FOUND' });
+  });
+
+  it('should accept the bootstrap admin key', async () => {
+    await expect(service.authenticate({ apiKey: 'bootstrap-admin' })).resolves.toEqual({
+      id: 'admin',
+      type: 'api-key',
+      scopes: ['admin'],
+    });
+    expect(store.saved).toEqual([]);
+  });
+
+  it('should keep concurrent changes', async () => {
+    await Promise.all([service.create('One', []), service.create('Two', [])]);
+
+    expect((await new ApiKeyService({ store }).list()).map(({ name }) => name)).toEqual(['One', 'Two']);
+  });
+});
+
+describe('JsonFileApiKeyStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'api-keys-'));
+  });
+
+  afterEach(async () => {
+    ServiceRegistry.getInstance().clear();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should start empty and persist records to the file', async () => {
+    const file = path.join(directory, 'nested', 'api-keys.json');
+    const first = new ApiKeyService({ store: new JsonFileApiKeyStore(file) });
+
+    expect(await first.list()).toEqual([]);
+    const { key } = await first.create('Dashboard', ['time:read']);
+
+    const second = new ApiKeyService({ store: new JsonFileApiKeyStore(file) });
+    await expect(second.authenticate({ apiKey: key })).resolves.toMatchObject({ scopes: ['time:read'] });
+    expect(JSON.parse(await fs.readFile(file, 'utf8')).keys).toHaveLength(1);
+  });
+
+  it('should use the key file and admin key of the settings', async () => {
+    const file = path.join(directory, 'keys.json');
+    const registry = ServiceRegistry.getInstance();
+    registry.registerService(ConfigService, new ConfigService({ env: { ADMIN_API_KEY: 'bootstrap-admin' }, argv: ['--api-keys-file', file] }));
+
+    const service = registry.getOrCreateService<ApiKeyService>(ApiKeyService);
+    await expect(service.authenticate({ apiKey: 'bootstrap-admin' })).resolves.toMatchObject({ scopes: ['admin'] });
+    await service.create('Dashboard', ['time:read']);
+
+    expect(JSON.parse(await fs.readFile(file, 'utf8')).keys).toEqual([expect.objectContaining({ name: 'Dashboard' })]);
+  });
+});
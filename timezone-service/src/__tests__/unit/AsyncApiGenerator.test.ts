@@ -0,0 +1,92 @@
+import { AsyncApiGenerator } from '@routing/AsyncApiGenerator';
+import { Emits, OnEvent, WebSocket, s } from '@shared';
+
+@WebSocket('/chat/:room')
+@Emits('message', s.object({ text: s.string() }), {
+  summary: 'A message posted to the room',
+})
+@Emits('error', s.object({ message: s.string() }), {
+  description: 'The room is full',
+})
+class ChatWebSocket {
+  @OnEvent('send-message', s.object({ text: s.string({ min: 1 }) }), {
+    summary: 'Post a message to the room',
+  })
+  @OnEvent('typing')
+  onConnect() {}
+}
+
+@WebSocket('/presence')
+@Emits('error', s.object({ code: s.string() }), {
+  description: 'Presence is unavailable',
+})
+class PresenceWebSocket {}
+
+// Declared without @WebSocket, so it is not part of the documented protocol
+@Emits('ignored')
+class PlainClass {}
+
+describe('AsyncApiGenerator', () => {
+  const document = new AsyncApiGenerator().generate({
+    title: 'Chat',
+    version: '1.0.0',
+  });
+
+  it('should produce an AsyncAPI 2.6 document', () => {
+    expect([ChatWebSocket, PresenceWebSocket, PlainClass]).toHaveLength(3);
+    expect(document).toMatchObject({
+      asyncapi: '2.6.0',
+      info: { title: 'Chat', version: '1.0.0' },
+      defaultContentType: 'application/json',
+    });
+    expect(Object.keys(document.channels).sort()).toEqual([
+      'error',
+      'message',
+      'send-message',
+      'typing',
+    ]);
+  });
+
+  it('should describe events clients send as publish operations', () => {
+    expect(document.channels['send-message']).toEqual({
+      publish: {
+        operationId: 'sendMessage',
+        summary: 'Post a message to the room',
+        message: {
+          name: 'send-message',
+          contentType: 'application/json',
+          summary: 'Post a message to the room',
+          payload: {
+            type: 'object',
+            properties: { text: { type: 'string', minLength: 1 } },
+            required: ['text'],
+          },
+        },
+      },
+    });
+    expect(document.channels.typing).toEqual({
+      publish: {
+        operationId: 'typing',
+        message: { name: 'typing', contentType: 'application/json' },
+      },
+    });
+  });
+
+  it('should describe events the server emits as subscribe operations', () => {
+    expect(document.channels.message.subscribe).toMatchObject({
+      operationId: 'onMessage',
+      message: {
+        payload: { properties: { text: { type: 'string' } } },
+      },
+    });
+  });
+
+  it('should merge declarations of the same event into alternatives', () => {
+    expect(document.channels.error.subscribe!.message).toEqual({
+      oneOf: [
+        expect.objectContaining({ description: 'The room is full' }),
+        expect.objectContaining({ description: 'Presence is unavailable' }),
+      ],
+    });
+  });
+});
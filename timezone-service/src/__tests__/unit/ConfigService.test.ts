@@ -0,0 +1,175 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ConfigService, InvalidConfigException } from '@services';
+
+describe('ConfigService', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'config-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const writeFile = async (name: string, content: string) => {
+    const file = path.join(directory, name);
+    await fs.writeFile(file, content);
+    return file;
+  };
+
+  const problemsOf = (create: () => unknown): string[] => {
+    try {
+      create();
+    } catch (error) {
+      if (error instanceof InvalidConfigException) return error.problems;
+      throw error;
+    }
+    throw new Error('Expected the configuration to be rejected');
+  };
+
+  it('should use the defaults without other sources', () => {
+    const config = new ConfigService({ env: {}, argv: [] });
+
+    expect(config.getAll()).toEqual({
+      env: 'development',
+      port: 3000,
+      host: '::',
+      corsOrigins: ['*'],
+      tickIntervalMs: 1000,
+      shutdownTimeoutMs: 10000,
+      logLevel: 'info',
+      defaultTimezone: 'Etc/UTC',
+      realtimeApiKeys: {},
+      anonymousScopes: ['time:read', 'health:read', 'metrics:read'],
+      rateLimitPerMinute: 600,
+      trustProxy: false,
+      apiKeysFile: path.join('data', 'api-keys.json'),
+    });
+  });
+
+  it('should let the file, environment and command line override each other in that order', async () => {
+    const file = await writeFile('config.yaml', 'port: 4000\nhost: 127.0.0.1\nlogLevel: debug\ntickIntervalMs: 2s\n');
+
+    const config = new ConfigService({
+      env: { CONFIG_FILE: file, PORT: '5000', CORS_ORIGINS: 'https://a.example, https://b.example', NODE_ENV: 'test' },
+      argv: ['--port=6000', '--default-timezone', 'Europe/Paris', '--shutdown-timeout', '30s'],
+    });
+
+    expect(config.getAll()).toEqual({
+      env: 'test',
+      port: 6000,
+      host: '127.0.0.1',
+      corsOrigins: ['https://a.example', 'https://b.example'],
+      tickIntervalMs: 2000,
+      shutdownTimeoutMs: 30000,
+      logLevel: 'debug',
+      defaultTimezone: 'Europe/Paris',
+      realtimeApiKeys: {},
+      anonymousScopes: ['time:read', 'health:read', 'metrics:read'],
+      rateLimitPerMinute: 600,
+      trustProxy: false,
+      apiKeysFile: path.join('data', 'api-keys.json'),
+    });
+  });
+
+  it('should read bare numbers of environment variables and flags as milliseconds', () => {
+    expect(new ConfigService({ env: { TICK_INTERVAL: '500', SHUTDOWN_TIMEOUT: '5000' }, argv: [] }).getAll()).toMatchObject({
+      tickIntervalMs: 500,
+      shutdownTimeoutMs: 5000,
+    });
+    expect(new ConfigService({ env: {}, argv: ['--tick-interval=250', '--shutdown-timeout', '0'] }).getAll()).toMatchObject({
+      tickIntervalMs: 250,
+      shutdownTimeoutMs: 0,
+    });
+  });
+
+  it('should read JSON files named by --config', async () => {
+    const file = await writeFile('config.json', JSON.stringify({ corsOrigins: ['https://clock.example'] }));
+
+    expect(new ConfigService({ env: {}, argv: ['--config', file] }).get('corsOrigins')).toEqual(['https://clock.example']);
+  });
+
+  it('should report every invalid value with its source', async () => {
+    const file = await writeFile('invalid.yml', 'defaultTimezone: Mars/Olympus\nverbose: true\n');
+
+    expect(
+      problemsOf(
+        () =>
+          new ConfigService({
+            file,
+            env: { PORT: 'eighty', LOG_LEVEL: 'loud', CORS_ORIGINS: 'example.com' },
+            argv: ['--tick-interval', 'soon', '--verbose'],
+          }),
+      ),
+    ).toEqual([
+      "Unknown command line argument '--verbose'",
+      "corsOrigins[0] (CORS_ORIGINS): must be * or an origin like https://example.com, got 'example.com'",
+      "tickIntervalMs (--tick-interval): Invalid duration 'soon', expected milliseconds or e.g. '30s', '1m'",
+      'port (PORT): must be a number',
+      'logLevel (LOG_LEVEL): must be one of: debug, info, warn, error',
+      'defaultTimezone (invalid.yml): must be a valid timezone identifier',
+      'verbose (invalid.yml): is not allowed',
+    ]);
+  });
+
+  it('should read realtime API keys as JSON from environment variables and flags', async () => {
+    const grant = { id: 'dashboard', scopes: ['time:read'] };
+    const file = await writeFile('keys.yaml', 'realtimeApiKeys:\n  file-key: { id: dashboard, scopes: [time:read] }\n');
+
+    expect(new ConfigService({ env: { REALTIME_API_KEYS: JSON.stringify({ 'env-key': grant }) }, argv: [] }).get('realtimeApiKeys')).toEqual({
+      'env-key': grant,
+    });
+    expect(new ConfigService({ env: {}, argv: [`--realtime-api-keys=${JSON.stringify({ 'flag-key': grant })}`] }).get('realtimeApiKeys')).toEqual({
+      'flag-key': grant,
+    });
+    expect(new ConfigService({ file, env: {}, argv: [] }).get('realtimeApiKeys')).toEqual({ 'file-key': grant });
+  });
+
+  it('should report invalid realtime API keys', () => {
+    expect(problemsOf(() => new ConfigService({ env: { REALTIME_API_KEYS: '{"my-key": ' }, argv: [] }))).toEqual([
+      expect.stringMatching(/^realtimeApiKeys \(REALTIME_API_KEYS\): must be a JSON object, /),
+    ]);
+    expect(
+      problemsOf(() => new ConfigService({ env: { REALTIME_API_KEYS: '{"my-key": {"id": "dashboard", "scopes": "time:read"}}' }, argv: [] })),
+    ).toEqual(['realtimeApiKeys.my-key.scopes (REALTIME_API_KEYS): must be an array']);
+  });
+
+  it('should read the authentication, rate limit and proxy settings', async () => {
+    const file = await writeFile('auth.yaml', 'anonymousScopes: [time:read]\nrateLimitPerMinute: 60\n');
+
+    expect(
+      new ConfigService({
+        env: { API_ANONYMOUS_SCOPES: '', TRUST_PROXY: 'true', REALTIME_TOKEN_SECRET: 's3cret', ADMIN_API_KEY: 'bootstrap' },
+        argv: ['--rate-limit-per-minute', '120', '--api-keys-file', '/var/lib/keys.json'],
+      }).getAll(),
+    ).toMatchObject({
+      anonymousScopes: [],
+      rateLimitPerMinute: 120,
+      trustProxy: true,
+      realtimeTokenSecret: 's3cret',
+      apiKeysFile: '/var/lib/keys.json',
+      adminApiKey: 'bootstrap',
+    });
+    expect(new ConfigService({ file, env: {}, argv: ['--trust-proxy=0'] }).getAll()).toMatchObject({
+      anonymousScopes: ['time:read'],
+      rateLimitPerMinute: 60,
+      trustProxy: false,
+    });
+    expect(
+      problemsOf(() => new ConfigService({ env: { RATE_LIMIT_PER_MINUTE: '0', TRUST_PROXY: 'yes' }, argv: [] })),
+    ).toEqual([
+      'rateLimitPerMinute (RATE_LIMIT_PER_MINUTE): must be greater than or equal to 1',
+      'trustProxy (TRUST_PROXY): must be a boolean',
+    ]);
+  });
+
+  it('should report unreadable files', () => {
+    const [problem] = problemsOf(() => new ConfigService({ file: path.join(directory, 'missing.yaml'), env: {}, argv: [] }));
+
+    expect(problem).toMatch(/^Cannot read config file .*missing\.yaml: ENOENT/);
+  });
+});
@@ -0,0 +1,74 @@
+import { HandshakeAuthenticator, signToken, verifyToken } from '@services';
+import { Principal } from '@shared';
+
+describe('signed tokens', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should round-trip the claims of a token', () => {
+    const token = signToken({ sub: 'device-7', scopes: ['time:read'] }, 'secret');
+
+    expect(token).toMatch(/^[\w-]+\.[\w-]+$/);
+    expect(verifyToken(token, 'secret')).toEqual({ sub: 'device-7', scopes: ['time:read'] });
+  });
+
+  it('should reject tokens signed with another secret or changed payloads', () => {
+    const token = signToken({ sub: 'device-7' }, 'secret');
+    const [, signature] = token.split('.');
+    const forged = `${Buffer.from(JSON.stringify({ sub: 'admin' })).toString('base64url')}.${signature}`;
+
+    expect(() => verifyToken(token, 'other-secret')).toThrow('The token is not valid: signature mismatch');
+    expect(() => verifyToken(forged, 'secret')).toThrow('The token is not valid: signature mismatch');
+    expect(() => verifyToken('not-a-token', 'secret')).toThrow(
+      'The token is not valid: expected <payload>.<signature>',
+    );
+  });
+
+  it('should reject expired tokens', () => {
+    jest.useFakeTimers({ now: new Date('2024-03-01T12:00:00Z') });
+    const token = signToken({ sub: 'device-7' }, 'secret', 60);
+
+    expect(verifyToken(token, 'secret').exp).toBe(Date.parse('2024-03-01T12:01:00Z') / 1000);
+
+    jest.setSystemTime(new Date('2024-03-01T12:01:00Z'));
+    expect(() => verifyToken(token, 'secret')).toThrow(expect.objectContaining({ code: 'TOKEN_EXPIRED', status: 401 }));
+  });
+});
+
+describe('HandshakeAuthenticator', () => {
+  const authenticator = new HandshakeAuthenticator({
+    apiKeys: { 'dashboard-key': { id: 'dashboard', scopes: ['time:read'] } },
+    tokenSecret: 'secret',
+  });
+
+  it('should authenticate configured API keys', () => {
+    expect(authenticator.authenticate({ apiKey: 'dashboard-key' })).toEqual({
+      id: 'dashboard',
+      type: 'api-key',
+      scopes: ['time:read'],
+    });
+    expect(authenticator.authenticate({ apiKey: 'unknown-key' })).toBeUndefined();
+  });
+
+  it('should authenticate signed tokens', () => {
+    const token = signToken({ sub: 'device-7' }, 'secret');
+
+    expect(authenticator.authenticate({ token })).toEqual({ id: 'device-7', type: 'token', scopes: [] });
+  });
+
+  it('should not accept tokens without a secret', () => {
+    const token = signToken({ sub: 'device-7' }, 'secret');
+
+    expect(new HandshakeAuthenticator({ apiKeys: { 'dashboard-key': { id: 'dashboard', scopes: [] } } }).authenticate({ token })).toBeUndefined();
+  });
+
+  it('should fall back to the API keys of the HTTP routes without realtime keys or a secret', async () => {
+    const dashboard: Principal = { id: 'dashboard', type: 'api-key', scopes: ['time:read'] };
+    const fallback = { authenticate: jest.fn(() => Promise.resolve(dashboard)) };
+
+    await expect(new HandshakeAuthenticator({ fallback }).authenticate({ apiKey: 'tzk_issued' })).resolves.toBe(dashboard);
+    expect(fallback.authenticate).toHaveBeenCalledWith({ apiKey: 'tzk_issued' });
+    expect(authenticator.authenticate({ apiKey: 'tzk_issued' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,137 @@
+import {
+  ConfigIndicator,
+  ConfigService,
+  EventLoopLagIndicator,
+  HealthService,
+  MemoryIndicator,
+  TimezoneDataIndicator,
+} from '@services';
+import { ServiceRegistry } from '@shared';
+
+const up = (name: string) => ({ name, check: () => ({ status: 'up' as const }) });
+
+describe('HealthService', () => {
+  let health: HealthService;
+
+  beforeEach(() => {
+    ServiceRegistry.getInstance().clear();
+    health = new HealthService({ timeoutMs: 50 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('check', () => {
+    it('should be up when every indicator of the kind is up', async () => {
+      jest.useFakeTimers({ now: new Date('2024-03-10T12:00:00.000Z'), doNotFake: ['setTimeout', 'clearTimeout'] });
+      health.addIndicator('readiness', up('database'));
+      health.addIndicator('readiness', {
+        name: 'cache',
+        check: async () => ({ status: 'up', details: { entries: 3 } }),
+      });
+      health.addIndicator('liveness', { name: 'broken', check: () => ({ status: 'down' }) });
+
+      await expect(health.check('readiness')).resolves.toEqual({
+        status: 'up',
+        checks: {
+          database: { status: 'up' },
+          cache: { status: 'up', details: { entries: 3 } },
+        },
+        timestamp: '2024-03-10T12:00:00.000Z',
+      });
+    });
+
+    it('should report failing, throwing and slow indicators as down', async () => {
+      health.addIndicator('liveness', up('database'));
+      health.addIndicator('liveness', {
+        name: 'cache',
+        check: () => {
+          throw new Error('connection refused');
+        },
+      });
+      health.addIndicator('liveness', {
+        name: 'queue',
+        check: () => new Promise((resolve) => setTimeout(() => resolve({ status: 'up' }), 1000).unref()),
+      });
+
+      const report = await health.check('liveness');
+
+      expect(report.status).toBe('down');
+      expect(report.checks).toEqual({
+        database: { status: 'up' },
+        cache: { status: 'down', details: { message: 'connection refused' } },
+        queue: { status: 'down', details: { message: 'Timed out after 50ms' } },
+      });
+    });
+
+    it('should fail readiness but not liveness once shutting down', async () => {
+      health.addIndicator('readiness', up('database'));
+      health.addIndicator('liveness', up('event_loop'));
+
+      health.beginShutdown();
+
+      expect(health.isShuttingDown()).toBe(true);
+      await expect(health.check('readiness')).resolves.toMatchObject({
+        status: 'down',
+        checks: { database: { status: 'up' }, shutdown: { status: 'down' } },
+      });
+      await expect(health.check('liveness')).resolves.toMatchObject({ status: 'up' });
+    });
+
+    it('should stop running removed indicators', async () => {
+      const remove = health.addIndicator('readiness', { name: 'broken', check: () => ({ status: 'down' }) });
+      remove();
+
+      await expect(health.check('readiness')).resolves.toEqual(expect.objectContaining({ status: 'up', checks: {} }));
+    });
+  });
+
+  describe('indicators', () => {
+    it('should measure the event loop lag', async () => {
+      const indicator = new EventLoopLagIndicator(1000);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const result = indicator.check();
+      indicator.dispose();
+
+      expect(result).toEqual({ status: 'up', details: { lag_ms: expect.any(Number), max_lag_ms: 1000 } });
+    });
+
+    it('should compare the heap with its limit', () => {
+      expect(new MemoryIndicator().check()).toMatchObject({
+        status: 'up',
+        details: { heap_used_bytes: expect.any(Number), heap_limit_bytes: expect.any(Number) },
+      });
+      expect(new MemoryIndicator(0).check().status).toBe('down');
+    });
+
+    it('should find the timezone rules of the runtime', () => {
+      expect(new TimezoneDataIndicator().check()).toEqual({
+        status: 'up',
+        details: { icu: process.versions.icu, tz: process.versions.tz },
+      });
+    });
+
+    it('should report invalid settings as down', async () => {
+      health.addIndicator('readiness', new ConfigIndicator());
+      ServiceRegistry.getInstance().registerService(ConfigService, new ConfigService({ env: {}, argv: [] }));
+
+      await expect(health.check('readiness')).resolves.toMatchObject({
+        checks: { config: { status: 'up', details: { env: 'development' } } },
+      });
+
+      ServiceRegistry.getInstance().clear();
+      process.env.PORT = 'eighty';
+      try {
+        const report = await health.check('readiness');
+        expect(report.checks.config).toEqual({
+          status: 'down',
+          details: { message: expect.stringContaining('port (PORT): must be a number') },
+        });
+      } finally {
+        process.env.PORT = '3000';
+      }
+    });
+  });
+});
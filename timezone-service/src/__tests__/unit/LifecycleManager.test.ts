@@ -0,0 +1,166 @@
+import { LifecycleManager } from '@routing/LifecycleManager';
+import { RealtimeGateway } from '@routing/RealtimeGateway';
+import { HealthService } from '@services';
+import { Logger, RealtimeConnection, ServiceRegistry, WebSocket } from '@shared';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+// Controller of the realtime client notified on shutdown, without handlers
+@WebSocket('/clock')
+class ClockWebSocket {}
+
+// Server answering /slow after `delayMs`, every other path at once
+const createServer = (delayMs: number): http.Server =>
+  http.createServer((req, res) => {
+    if (req.url === '/slow') {
+      setTimeout(() => res.end('slow'), delayMs).unref();
+    } else {
+      res.end('fast');
+    }
+  });
+
+const listen = (server: http.Server): Promise<number> =>
+  new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)));
+
+const get = (port: number, path: string): Promise<number | undefined> =>
+  new Promise((resolve) => {
+    const agent = new http.Agent({ keepAlive: true });
+    http
+      .get({ port, path, host: '127.0.0.1', agent }, (res) => {
+        res.resume();
+        res.on('end', () => resolve(res.statusCode));
+      })
+      .on('error', () => resolve(undefined));
+  });
+
+describe('LifecycleManager', () => {
+  let server: http.Server;
+  let exit: jest.Mock;
+
+  beforeEach(() => {
+    ServiceRegistry.getInstance().clear();
+    exit = jest.fn();
+  });
+
+  afterEach(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('should drain open requests, notify realtime clients and destroy services before exiting', async () => {
+    server = createServer(100);
+    const port = await listen(server);
+    const lifecycle = new LifecycleManager(server, {
+      exit,
+      reconnectAfterMs: 500,
+    });
+    const order: string[] = [];
+
+    const connection = {
+      id: 'c-1',
+      query: {},
+      params: {},
+      logger: new Logger(),
+      emit: jest.fn(),
+    };
+    await ServiceRegistry.getInstance()
+      .getOrCreateService<RealtimeGateway>(RealtimeGateway)
+      .connect(connection as unknown as RealtimeConnection, ClockWebSocket);
+    ServiceRegistry.getInstance().registerService(Object, {
+      onModuleDestroy: (signal: string) => {
+        order.push(`destroy:${signal}`);
+      },
+    });
+    lifecycle.onShutdown(() => {
+      order.push('hook');
+    });
+
+    await get(port, '/fast'); // leaves an idle keep-alive connection
+    const slow = get(port, '/slow');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const shutdown = lifecycle.shutdown('SIGTERM');
+    order.push('shutdown');
+
+    expect(ServiceRegistry.getInstance().getOrCreateService<HealthService>(HealthService).isShuttingDown()).toBe(true);
+    expect(connection.emit).toHaveBeenCalledWith('server-shutdown', {
+      reason: 'Server is shutting down',
+      reconnect: true,
+      reconnect_after_ms: 500,
+    });
+    await expect(get(port, '/fast')).resolves.toBeUndefined();
+    await expect(slow).resolves.toBe(200);
+    await expect(shutdown).resolves.toBe(0);
+
+    expect(order).toEqual(['hook', 'shutdown', 'destroy:SIGTERM']);
+    expect(server.listening).toBe(false);
+    expect(exit).not.toHaveBeenCalled();
+  });
+
+  it('should close requests still open after the drain timeout and exit with 1', async () => {
+    server = createServer(10 * 1000);
+    const port = await listen(server);
+    const lifecycle = new LifecycleManager(server, {
+      exit,
+      drainTimeoutMs: 50,
+    });
+
+    const slow = get(port, '/slow');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    await expect(lifecycle.shutdown('SIGINT')).resolves.toBe(1);
+    await expect(slow).resolves.toBeUndefined();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Open requests did not finish in time'));
+  });
+
+  it('should exit with 1 when a hook or service fails', async () => {
+    server = createServer(0);
+    await listen(server);
+    const lifecycle = new LifecycleManager(server, { exit });
+    const destroyed = jest.fn();
+
+    lifecycle.onShutdown(() => {
+      throw new Error('transport stuck');
+    });
+    ServiceRegistry.getInstance().registerService(Object, {
+      onModuleDestroy: destroyed,
+    });
+    ServiceRegistry.getInstance().registerService(Map, {
+      onModuleDestroy: () => Promise.reject(new Error('flush failed')),
+    });
+
+    await expect(lifecycle.shutdown('SIGTERM')).resolves.toBe(1);
+    expect(destroyed).toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Shutdown hook error'));
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Service shutdown error'));
+  });
+
+  it('should exit after a shutdown on a signal, and at once on a second signal', async () => {
+    server = createServer(10 * 1000);
+    const port = await listen(server);
+    const lifecycle = new LifecycleManager(server, {
+      exit,
+      signals: ['SIGUSR2'],
+    });
+    const removeHandlers = lifecycle.handleSignals();
+
+    const slow = get(port, '/slow');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    try {
+      process.emit('SIGUSR2', 'SIGUSR2');
+      expect(lifecycle.isShuttingDown()).toBe(true);
+      expect(exit).not.toHaveBeenCalled();
+
+      process.emit('SIGUSR2', 'SIGUSR2');
+      expect(exit).toHaveBeenCalledWith(1);
+    } finally {
+      removeHandlers();
+      server.closeAllConnections();
+      await slow;
+      await lifecycle.shutdown('SIGUSR2');
+    }
+
+    expect(process.listenerCount('SIGUSR2')).toBe(0);
+  });
+});
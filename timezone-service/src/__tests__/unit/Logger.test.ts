@@ -0,0 +1,75 @@
+import { Logger } from '@shared';
+
+const consoleLog = console.log as jest.Mock;
+const consoleError = console.error as jest.Mock;
+
+describe('Logger', () => {
+  beforeEach(() => {
+    consoleLog.mockClear();
+    consoleError.mockClear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should skip lines below its level', () => {
+    const logger = new Logger({ level: 'warn', format: 'json' });
+
+    logger.debug('noise');
+    logger.info('noise');
+    logger.error('failed');
+
+    expect(consoleLog).not.toHaveBeenCalled();
+    expect(consoleError).toHaveBeenCalledTimes(1);
+    expect(logger.isLevelEnabled('info')).toBe(false);
+    expect(logger.isLevelEnabled('error')).toBe(true);
+  });
+
+  it('should write JSON lines with the fields of the logger and the call', () => {
+    jest.useFakeTimers({ now: new Date('2024-03-10T12:00:00.000Z') });
+    const logger = new Logger({ format: 'json', fields: { service: 'timezone' } }).child({ request_id: 'req-1' });
+
+    logger.info('Request completed', { status: 200 });
+
+    expect(JSON.parse(consoleLog.mock.calls[0][0])).toEqual({
+      time: '2024-03-10T12:00:00.000Z',
+      level: 'info',
+      message: 'Request completed',
+      service: 'timezone',
+      request_id: 'req-1',
+      status: 200,
+    });
+  });
+
+  it('should serialise errors with their stack', () => {
+    const logger = new Logger({ format: 'json' });
+    const error = new Error('database unavailable');
+
+    logger.error('Lookup failed', { error });
+
+    expect(JSON.parse(consoleError.mock.calls[0][0]).error).toEqual({
+      name: 'Error',
+      message: 'database unavailable',
+      stack: error.stack,
+    });
+  });
+
+  it('should write readable lines in the pretty format', () => {
+    jest.useFakeTimers({ now: new Date('2024-03-10T12:00:00.000Z') });
+    const logger = new Logger({ format: 'pretty' });
+
+    logger.info('Client subscribed', { timezones: ['Asia/Tokyo'], transport: 'websocket' });
+
+    expect(consoleLog).toHaveBeenCalledWith(
+      '12:00:00.000 INFO  Client subscribed timezones=["Asia/Tokyo"] transport=websocket',
+    );
+  });
+
+  it('should keep the level and format in child loggers', () => {
+    const child = new Logger({ level: 'error', format: 'json' }).child({ connection_id: 'c-1' });
+
+    expect(child.level).toBe('error');
+    expect(child.format).toBe('json');
+  });
+});
@@ -0,0 +1,120 @@
+import { MetricsRegistry } from '@services';
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry({ processMetrics: false });
+  });
+
+  describe('counters and gauges', () => {
+    it('should render a series per combination of labels', () => {
+      const requests = registry.counter('jobs_total', 'Finished jobs', { labelNames: ['queue', 'status'] });
+
+      requests.inc({ queue: 'mail', status: 'ok' });
+      requests.inc({ status: 'ok', queue: 'mail' }, 2);
+      requests.inc({ queue: 'mail', status: 'failed' });
+
+      expect(registry.render()).toBe(
+        [
+          '# HELP jobs_total Finished jobs',
+          '# TYPE jobs_total counter',
+          'jobs_total{queue="mail",status="ok"} 3',
+          'jobs_total{queue="mail",status="failed"} 1',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should reject decrements of counters and unexpected labels', () => {
+      const requests = registry.counter('jobs_total', 'Finished jobs', { labelNames: ['queue'] });
+
+      expect(() => requests.inc({ queue: 'mail' }, -1)).toThrow('Counter jobs_total cannot decrease');
+      expect(() => requests.inc({ queue: 'mail', status: 'ok' })).toThrow(
+        'Metric jobs_total expects the labels [queue], got [queue, status]',
+      );
+    });
+
+    it('should move gauges both ways', () => {
+      const connections = registry.gauge('connections', 'Open connections');
+
+      connections.inc();
+      connections.inc({}, 2);
+      connections.dec();
+
+      expect(registry.render()).toContain('\nconnections 2\n');
+    });
+
+    it('should escape label values and help texts', () => {
+      registry.gauge('paths', 'Paths with a \\ in\nthem', { labelNames: ['path'] }).set({ path: 'C:\\"tmp"\n' }, 1);
+
+      expect(registry.render()).toBe(
+        ['# HELP paths Paths with a \\\\ in\\nthem', '# TYPE paths gauge', 'paths{path="C:\\\\\\"tmp\\"\\n"} 1', ''].join('\n'),
+      );
+    });
+  });
+
+  describe('histograms', () => {
+    it('should render cumulative buckets, the sum and the count', () => {
+      const latency = registry.histogram('latency_seconds', 'Latency', { labelNames: ['route'], buckets: [1, 0.1] });
+
+      latency.observe({ route: '/time' }, 0.05);
+      latency.observe({ route: '/time' }, 0.5);
+      latency.observe({ route: '/time' }, 3);
+
+      expect(registry.render()).toBe(
+        [
+          '# HELP latency_seconds Latency',
+          '# TYPE latency_seconds histogram',
+          'latency_seconds_bucket{route="/time",le="0.1"} 1',
+          'latency_seconds_bucket{route="/time",le="1"} 2',
+          'latency_seconds_bucket{route="/time",le="+Inf"} 3',
+          'latency_seconds_sum{route="/time"} 3.55',
+          'latency_seconds_count{route="/time"} 3',
+          '',
+        ].join('\n'),
+      );
+    });
+  });
+
+  describe('registration', () => {
+    it('should return the registered metric for a known name', () => {
+      const first = registry.counter('jobs_total', 'Finished jobs');
+
+      expect(registry.counter('jobs_total', 'Finished jobs')).toBe(first);
+      expect(() => registry.gauge('jobs_total', 'Finished jobs')).toThrow(
+        'Metric jobs_total is already registered as a counter',
+      );
+      expect(() => registry.gauge('jobs-total', 'Finished jobs')).toThrow("Invalid metric name 'jobs-total'");
+    });
+
+    it('should run collectors before rendering until they are removed', () => {
+      const queued = registry.gauge('queued', 'Queued jobs');
+      let size = 4;
+      const removeCollector = registry.addCollector(() => queued.set({}, size));
+
+      expect(registry.render()).toContain('\nqueued 4\n');
+
+      removeCollector();
+      size = 7;
+      expect(registry.render()).toContain('\nqueued 4\n');
+    });
+
+    it('should keep rendering when a collector fails', () => {
+      registry.gauge('queued', 'Queued jobs').set({}, 1);
+      registry.addCollector(() => {
+        throw new Error('queue unavailable');
+      });
+
+      expect(registry.render()).toContain('\nqueued 1\n');
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Metrics collector error'));
+    });
+
+    it('should register the process metrics by default', () => {
+      const output = new MetricsRegistry().render();
+
+      expect(output).toMatch(/^process_start_time_seconds \d+$/m);
+      expect(output).toMatch(/^nodejs_heap_size_used_bytes \d+$/m);
+    });
+  });
+});
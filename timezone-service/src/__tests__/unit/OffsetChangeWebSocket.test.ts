@@ -0,0 +1,244 @@
+import { OffsetChangeWebSocket } from '@controllers/OffsetChangeWebSocket';
+import { RealtimeGateway } from '@routing/RealtimeGateway';
+import { TickScheduler, TimezoneService } from '@services';
+import { Logger, RealtimeConnection, RoutingRegistry } from '@shared';
+
+const createMockSocket = (id: string): jest.Mocked<RealtimeConnection> =>
+  ({
+    id,
+    transport: 'socket.io',
+    params: {},
+    query: {},
+    logger: new Logger(),
+    emit: jest.fn(),
+    join: jest.fn(),
+    leave: jest.fn(),
+  }) as any;
+
+// Europe/London switches from GMT to BST at 2023-03-26T01:00:00Z
+const LONDON_SPRING_FORWARD = '2023-03-26T01:00:00.000Z';
+
+describe('OffsetChangeWebSocket', () => {
+  let offsetChangeWebSocket: OffsetChangeWebSocket;
+  let mockGateway: jest.Mocked<RealtimeGateway>;
+  let tickScheduler: TickScheduler;
+  let mockSocket: jest.Mocked<RealtimeConnection>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2023-03-25T00:59:59.500Z'));
+
+    mockSocket = createMockSocket('socket-1');
+    mockGateway = { emitToRoom: jest.fn() } as any;
+    tickScheduler = new TickScheduler();
+
+    offsetChangeWebSocket = new OffsetChangeWebSocket(new TimezoneService(), tickScheduler, mockGateway, new Logger());
+  });
+
+  afterEach(() => {
+    offsetChangeWebSocket.cleanup();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('handler metadata', () => {
+    it('should declare its handlers', () => {
+      const handlers = RoutingRegistry.getInstance().getWebSocketHandlers(OffsetChangeWebSocket);
+
+      expect(handlers.map(handler => [handler.kind, handler.event, handler.handler])).toEqual([
+        ['connect', 'connect', 'onConnect'],
+        ['message', 'subscribe-offset-changes', 'subscribe'],
+        ['message', 'unsubscribe-offset-changes', 'unsubscribe'],
+        ['disconnect', 'disconnect', 'onDisconnect'],
+      ]);
+    });
+
+    it('should validate advance warnings', () => {
+      const handlers = RoutingRegistry.getInstance().getWebSocketHandlers(OffsetChangeWebSocket);
+      const subscribe = handlers.find(handler => handler.event === 'subscribe-offset-changes')!;
+
+      expect(subscribe.payload!.validate({ timezones: ['Europe/London'], warnings: [0] })).toEqual([
+        { path: 'warnings[0]', message: 'must be greater than or equal to 1' },
+      ]);
+      expect(subscribe.payload!.validate({ timezones: ['Europe/London'], warnings: [1440, 60] })).toEqual([]);
+    });
+  });
+
+  describe('onConnect', () => {
+    it('should subscribe with the timezones and warnings of the query string', async () => {
+      await offsetChangeWebSocket.onConnect('Europe/London', [1440, 60], mockSocket);
+
+      expect(mockSocket.join).toHaveBeenCalledWith('offset-change-Europe/London');
+      expect(mockSocket.join).toHaveBeenCalledWith('offset-warning-Europe/London-1440');
+      expect(mockSocket.join).toHaveBeenCalledWith('offset-warning-Europe/London-60');
+      expect(offsetChangeWebSocket.getSubscribedTimezones()).toEqual(['Europe/London']);
+    });
+
+    it('should leave connections without timezones unsubscribed', async () => {
+      await offsetChangeWebSocket.onConnect(undefined, [60], mockSocket);
+
+      expect(mockSocket.join).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should join the timezone rooms and return the next transition', async () => {
+      const result = await offsetChangeWebSocket.subscribe(['Europe/London', 'Asia/Tokyo'], [60, 1440], mockSocket);
+
+      expect(result).toEqual({
+        subscriptions: [
+          {
+            timezone: 'Europe/London',
+            warnings: [1440, 60],
+            next_transition: { at: LONDON_SPRING_FORWARD, offset_before: '+00:00', offset_after: '+01:00' },
+          },
+          { timezone: 'Asia/Tokyo', warnings: [1440, 60], next_transition: null },
+        ],
+      });
+      expect(mockSocket.join).toHaveBeenCalledWith('offset-change-Europe/London');
+      expect(mockSocket.join).toHaveBeenCalledWith('offset-warning-Europe/London-1440');
+      expect(mockSocket.join).toHaveBeenCalledWith('offset-warning-Europe/London-60');
+      expect(tickScheduler.isRunning()).toBe(true);
+    });
+
+    it('should replace the warnings of a subscribed timezone', async () => {
+      await offsetChangeWebSocket.subscribe(['Europe/London'], [1440], mockSocket);
+      const result = await offsetChangeWebSocket.subscribe(['Europe/London'], [60], mockSocket);
+
+      expect(result.subscriptions).toEqual([expect.objectContaining({ timezone: 'Europe/London', warnings: [60] })]);
+      expect(mockSocket.leave).toHaveBeenCalledWith('offset-warning-Europe/London-1440');
+    });
+
+    it('should limit the number of timezones per socket', async () => {
+      const timezones = Array.from({ length: 50 }, (_, index) => `Zone/${index}`);
+      jest.spyOn(TimezoneService.prototype, 'getNextOffsetTransition').mockReturnValue(undefined);
+      await offsetChangeWebSocket.subscribe(timezones, undefined, mockSocket);
+
+      await expect(offsetChangeWebSocket.subscribe(['Europe/London'], undefined, mockSocket)).rejects.toMatchObject({
+        status: 400,
+        code: 'TOO_MANY_SUBSCRIPTIONS',
+      });
+    });
+  });
+
+  describe('offset-change events', () => {
+    it('should warn when the advance notice is reached', async () => {
+      await offsetChangeWebSocket.subscribe(['Europe/London'], [1440], mockSocket);
+
+      jest.advanceTimersByTime(500);
+
+      expect(mockGateway.emitToRoom).toHaveBeenCalledTimes(1);
+      expect(mockGateway.emitToRoom).toHaveBeenCalledWith('offset-warning-Europe/London-1440', 'offset-change', {
+        type: 'offset_change',
+        phase: 'upcoming',
+        timezone: 'Europe/London',
+        transition_at: LONDON_SPRING_FORWARD,
+        offset_before: '+00:00',
+        offset_after: '+01:00',
+        notice_minutes: 1440,
+        timestamp: '2023-03-25T01:00:00.000Z',
+      });
+
+      // Each warning is sent once
+      jest.advanceTimersByTime(5000);
+      expect(mockGateway.emitToRoom).toHaveBeenCalledTimes(1);
+    });
+
+    it('should emit the change exactly at the transition', async () => {
+      jest.setSystemTime(new Date('2023-03-26T00:59:58.500Z'));
+      await offsetChangeWebSocket.subscribe(['Europe/London'], undefined, mockSocket);
+
+      // Tick at 00:59:59
+      jest.advanceTimersByTime(1000);
+      expect(mockGateway.emitToRoom).not.toHaveBeenCalled();
+
+      // Tick at 01:00:00
+      jest.advanceTimersByTime(500);
+
+      expect(mockGateway.emitToRoom).toHaveBeenCalledWith('offset-change-Europe/London', 'offset-change', {
+        type: 'offset_change',
+        phase: 'changed',
+        timezone: 'Europe/London',
+        transition_at: LONDON_SPRING_FORWARD,
+        offset_before: '+00:00',
+        offset_after: '+01:00',
+        timestamp: LONDON_SPRING_FORWARD,
+      });
+    });
+
+    it('should look up the following transition after a change', async () => {
+      jest.setSystemTime(new Date('2023-03-26T00:59:59.500Z'));
+      await offsetChangeWebSocket.subscribe(['Europe/London'], undefined, mockSocket);
+
+      jest.advanceTimersByTime(500);
+      const result = await offsetChangeWebSocket.subscribe(['Europe/London'], undefined, createMockSocket('socket-2'));
+
+      expect(result.subscriptions[0].next_transition).toEqual({
+        at: '2023-10-29T01:00:00.000Z',
+        offset_before: '+01:00',
+        offset_after: '+00:00',
+      });
+    });
+
+    it('should not send warnings whose time has already passed', async () => {
+      jest.setSystemTime(new Date('2023-03-26T00:00:00.500Z'));
+      await offsetChangeWebSocket.subscribe(['Europe/London'], [1440, 30], mockSocket);
+
+      jest.advanceTimersByTime(30 * 60 * 1000);
+
+      expect(mockGateway.emitToRoom).toHaveBeenCalledTimes(1);
+      expect(mockGateway.emitToRoom).toHaveBeenCalledWith(
+        'offset-warning-Europe/London-30',
+        'offset-change',
+        expect.objectContaining({ phase: 'upcoming', notice_minutes: 30 })
+      );
+    });
+  });
+
+  describe('unsubscribe', () => {
+    it('should leave the rooms of the given timezones', async () => {
+      await offsetChangeWebSocket.subscribe(['Europe/London', 'America/New_York'], [60], mockSocket);
+
+      const result = await offsetChangeWebSocket.unsubscribe(['Europe/London'], mockSocket);
+
+      expect(result.subscriptions.map(subscription => subscription.timezone)).toEqual(['America/New_York']);
+      expect(mockSocket.leave).toHaveBeenCalledWith('offset-change-Europe/London');
+      expect(mockSocket.leave).toHaveBeenCalledWith('offset-warning-Europe/London-60');
+      expect(offsetChangeWebSocket.getSubscribedTimezones()).toEqual(['America/New_York']);
+    });
+
+    it('should stop checking once nothing is subscribed', async () => {
+      await offsetChangeWebSocket.subscribe(['Europe/London'], undefined, mockSocket);
+
+      await offsetChangeWebSocket.unsubscribe(undefined, mockSocket);
+
+      expect(tickScheduler.isRunning()).toBe(false);
+    });
+
+    it('should reject sockets that did not subscribe', async () => {
+      await expect(offsetChangeWebSocket.unsubscribe(undefined, mockSocket)).rejects.toMatchObject({
+        code: 'NOT_SUBSCRIBED',
+      });
+    });
+  });
+
+  describe('onDisconnect', () => {
+    it('should keep timezones watched by other sockets', async () => {
+      await offsetChangeWebSocket.subscribe(['Europe/London'], undefined, mockSocket);
+      await offsetChangeWebSocket.subscribe(['Europe/London', 'America/New_York'], undefined, createMockSocket('socket-2'));
+
+      offsetChangeWebSocket.onDisconnect(mockSocket);
+
+      expect(offsetChangeWebSocket.getSubscribedTimezones()).toEqual(['Europe/London', 'America/New_York']);
+    });
+
+    it('should stop checking when the last socket disconnects', async () => {
+      await offsetChangeWebSocket.subscribe(['Europe/London'], undefined, mockSocket);
+
+      offsetChangeWebSocket.onDisconnect(mockSocket);
+
+      expect(offsetChangeWebSocket.getSubscribedTimezones()).toEqual([]);
+      expect(tickScheduler.isRunning()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { OpenApiGenerator } from '@routing/OpenApiGenerator';
+import {
+  ApiOperation,
+  ApiResponse,
+  Auth,
+  BODY,
+  DELETE,
+  GET,
+  HEADER,
+  PARAM,
+  POST,
+  QUERY,
+  Validate,
+  WebSocket,
+  s,
+} from '@shared';
+
+class RemindersController {
+  @GET('/reminders/:id(\\d+)')
+  @ApiOperation({ summary: 'Get a reminder', tags: ['Reminders'] })
+  @ApiResponse(200, {
+    description: 'The reminder',
+    schema: s.object({ id: s.number(), text: s.string() }),
+  })
+  @ApiResponse(404, { description: 'Reminder not found' })
+  get(
+    @PARAM('id') id: number,
+    @QUERY('verbose') verbose: boolean,
+    @HEADER('X-Request-Id') requestId: string,
+  ) {
+    return { id, verbose, requestId };
+  }
+
+  @POST('/reminders')
+  @Validate({
+    body: s.object({ text: s.string({ min: 1 }) }),
+    query: s.object({ dryRun: s.boolean().optional() }),
+  })
+  create() {
+    return {};
+  }
+
+  @DELETE('/reminders/:id(\\d+)')
+  @Auth('reminders:write')
+  @ApiOperation({ summary: 'Delete a reminder', deprecated: true })
+  remove(@BODY('reason', { required: true }) reason: string) {
+    return { reason };
+  }
+
+  @GET('/reports/:year?')
+  reports() {
+    return [];
+  }
+
+  @GET('/files/*path')
+  file() {
+    return {};
+  }
+}
+
+@WebSocket('/reminders/live/:id')
+class RemindersWebSocket {}
+
+describe('OpenApiGenerator', () => {
+  const generator = new OpenApiGenerator();
+  const document = generator.generate({ title: 'Reminders', version: '2.0.0' });
+
+  it('should produce an OpenAPI 3.1 document', () => {
+    expect(RemindersController).toBeDefined();
+    expect(document.openapi).toBe('3.1.0');
+    expect(document.info).toEqual({ title: 'Reminders', version: '2.0.0' });
+    expect(document.components.schemas.ErrorResponse).toMatchObject({
+      required: ['error', 'code', 'message'],
+    });
+  });
+
+  it('should convert route patterns to OpenAPI paths', () => {
+    expect(Object.keys(document.paths)).toEqual([
+      '/reminders/{id}',
+      '/reminders',
+      '/reports',
+      '/reports/{year}',
+      '/files/{path}',
+    ]);
+    expect(Object.keys(document.paths['/reminders/{id}'])).toEqual([
+      'get',
+      'delete',
+    ]);
+  });
+
+  it('should document parameters from decorators', () => {
+    const operation = document.paths['/reminders/{id}'].get!;
+
+    expect(operation).toMatchObject({
+      operationId: 'RemindersController.get',
+      summary: 'Get a reminder',
+      tags: ['Reminders'],
+    });
+    expect(operation.parameters).toEqual([
+      {
+        name: 'id',
+        in: 'path',
+        required: true,
+        schema: { type: 'string', pattern: '^(?:\\d+)$' },
+      },
+      {
+        name: 'verbose',
+        in: 'query',
+        required: false,
+        schema: { type: 'boolean' },
+      },
+      {
+        name: 'x-request-id',
+        in: 'header',
+        required: false,
+        schema: { type: 'string' },
+      },
+    ]);
+  });
+
+  it('should document declared responses with error schemas', () => {
+    const { responses } = document.paths['/reminders/{id}'].get!;
+
+    expect(Object.keys(responses)).toEqual(['200', '400', '404']);
+    expect(responses['200'].content!['application/json'].schema).toEqual({
+      type: 'object',
+      properties: { id: { type: 'number' }, text: { type: 'string' } },
+      required: ['id', 'text'],
+    });
+    expect(responses['404'].content!['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/ErrorResponse',
+    });
+  });
+
+  it('should document request bodies and query from @Validate schemas', () => {
+    const operation = document.paths['/reminders'].post!;
+
+    expect(operation.tags).toEqual(['Reminders']);
+    expect(operation.parameters).toEqual([
+      {
+        name: 'dryRun',
+        in: 'query',
+        required: false,
+        schema: { type: 'boolean' },
+      },
+    ]);
+    expect(operation.requestBody).toEqual({
+      required: true,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: { text: { type: 'string', minLength: 1 } },
+            required: ['text'],
+          },
+        },
+      },
+    });
+    expect(operation.responses).toEqual({
+      '200': { description: 'Successful response' },
+      '400': {
+        description: 'Invalid request input',
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/ErrorResponse' },
+          },
+        },
+      },
+    });
+  });
+
+  it('should document request bodies from @BODY parameters', () => {
+    const operation = document.paths['/reminders/{id}'].delete!;
+
+    expect(operation.deprecated).toBe(true);
+    expect(operation.requestBody).toEqual({
+      required: true,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: { reason: { type: 'string' } },
+            required: ['reason'],
+          },
+        },
+      },
+    });
+  });
+
+  it('should document the security of routes protected with @Auth', () => {
+    const operation = document.paths['/reminders/{id}'].delete!;
+
+    expect(document.components.securitySchemes).toEqual({
+      apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      bearer: { type: 'http', scheme: 'bearer' },
+    });
+    expect(operation.security).toEqual([{ apiKey: ['reminders:write'] }, { bearer: ['reminders:write'] }]);
+    expect(operation.responses['401'].description).toBe('Missing or unknown API key');
+    expect(operation.responses['403'].description).toBe('API key without the scopes: reminders:write');
+    expect(document.paths['/reminders'].post!.security).toBeUndefined();
+  });
+
+  it('should document optional parameters and catch-alls', () => {
+    expect(document.paths['/reports'].get!.operationId).toBe(
+      'RemindersController.reports',
+    );
+    expect(document.paths['/reports/{year}'].get!.operationId).toBe(
+      'RemindersController.reports_1',
+    );
+    expect(document.paths['/files/{path}'].get!.parameters).toEqual([
+      {
+        name: 'path',
+        in: 'path',
+        required: true,
+        description: 'Remaining path, may contain slashes',
+        schema: { type: 'string' },
+      },
+    ]);
+  });
+
+  it('should list endpoints and Socket.io paths', () => {
+    expect(RemindersWebSocket).toBeDefined();
+    expect(generator.listEndpoints()).toEqual({
+      '/reminders/{id}': 'GET: Get a reminder; DELETE: Delete a reminder',
+      '/reminders': 'POST',
+      '/reports': 'GET',
+      '/reports/{year}': 'GET',
+      '/files/{path}': 'GET',
+    });
+    expect(generator.listWebSockets()).toEqual(['/reminders/live/{id}']);
+  });
+});
@@ -0,0 +1,84 @@
+import { MemoryRateLimitStore, RateLimiter, takeToken } from '@services';
+import { parseDuration } from '@shared';
+
+const policy = { limit: 2, windowMs: 1000 };
+
+describe('RateLimiter', () => {
+  describe('takeToken', () => {
+    it('should start full and refill continuously', () => {
+      const first = takeToken(undefined, policy, 0);
+      expect(first.result).toEqual({ allowed: true, limit: 2, remaining: 1, resetMs: 500, retryAfterMs: 0 });
+
+      const second = takeToken(first.bucket, policy, 0);
+      const third = takeToken(second.bucket, policy, 100);
+      expect(third.result).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: 400 });
+
+      expect(takeToken(third.bucket, policy, 500).result).toMatchObject({ allowed: true, remaining: 0 });
+    });
+
+    it('should never refill past the limit', () => {
+      const { bucket } = takeToken(undefined, policy, 0);
+
+      expect(takeToken(bucket, policy, 60 * 1000).result).toMatchObject({ remaining: 1, resetMs: 500 });
+    });
+  });
+
+  describe('MemoryRateLimitStore', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should keep a bucket per key and drop the full ones', async () => {
+      jest.useFakeTimers({ now: 0 });
+      const store = new MemoryRateLimitStore();
+
+      await store.take('a', policy);
+      await store.take('a', policy);
+      await expect(store.take('a', policy)).resolves.toMatchObject({ allowed: false });
+      await expect(store.take('b', policy)).resolves.toMatchObject({ allowed: true });
+
+      jest.setSystemTime(60 * 1000);
+      await store.take('c', policy);
+
+      expect(store.getSize()).toBe(1);
+    });
+  });
+
+  describe('consume', () => {
+    it('should allow calls when the store fails', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const limiter = new RateLimiter({ store: { take: () => Promise.reject(new Error('connection refused')) } });
+
+      await expect(limiter.consume('ip:127.0.0.1', policy)).resolves.toMatchObject({ allowed: true, remaining: 2 });
+      expect(errorSpy).toHaveBeenCalled();
+
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('client keys', () => {
+    it('should prefer the principal over the address', () => {
+      const limiter = new RateLimiter();
+
+      expect(limiter.clientKey({ id: 'dashboard', type: 'api-key', scopes: [] }, '10.0.0.1')).toBe('principal:dashboard');
+      expect(limiter.clientKey(undefined, '10.0.0.1')).toBe('ip:10.0.0.1');
+    });
+
+    it('should only read X-Forwarded-For behind a trusted proxy', () => {
+      const headers = { 'x-forwarded-for': '203.0.113.7, 10.0.0.2' };
+
+      expect(new RateLimiter().clientAddress(headers, '10.0.0.1')).toBe('10.0.0.1');
+      expect(new RateLimiter({ trustProxy: true }).clientAddress(headers, '10.0.0.1')).toBe('203.0.113.7');
+    });
+  });
+
+  describe('parseDuration', () => {
+    it('should read milliseconds and durations with a unit', () => {
+      expect(parseDuration(250)).toBe(250);
+      expect(parseDuration('30s')).toBe(30 * 1000);
+      expect(parseDuration('1h')).toBe(60 * 60 * 1000);
+      expect(() => parseDuration('soon')).toThrow("Invalid duration 'soon'");
+      expect(() => parseDuration(0)).toThrow();
+    });
+  });
+});
@@ -0,0 +1,313 @@
+import { ConnectionRooms } from '@routing/ConnectionRooms';
+import { RealtimeGateway } from '@routing/RealtimeGateway';
+import { MetricsRegistry } from '@services';
+import {
+  ConnectedPrincipal,
+  ConnectedSocket,
+  Logger,
+  MessageBody,
+  OnConnect,
+  OnDisconnect,
+  Principal,
+  RateLimit,
+  RealtimeConnection,
+  ServiceRegistry,
+  SubscribeMessage,
+  WebSocket,
+  requestCredentials,
+  s,
+} from '@shared';
+
+const connected: string[] = [];
+
+@WebSocket('/rooms/:room')
+class RoomWebSocket {
+  @OnConnect(s.object({ room: s.string({ min: 3 }) }))
+  async onConnect(@MessageBody('room') room: string, @ConnectedSocket() connection: RealtimeConnection) {
+    connected.push(`room:${room}`);
+    await connection.join(room);
+  }
+
+  @SubscribeMessage('shout')
+  shout(@MessageBody() text: string) {
+    return text.toUpperCase();
+  }
+
+  @SubscribeMessage('whoami')
+  whoami(@ConnectedPrincipal() principal: Principal | undefined) {
+    return principal?.id;
+  }
+}
+
+@WebSocket('/throttled')
+class ThrottledWebSocket {
+  @SubscribeMessage('ping')
+  @RateLimit(1, '1m')
+  ping() {
+    return 'pong';
+  }
+}
+
+@WebSocket('/lobby')
+class LobbyWebSocket {
+  @OnConnect()
+  onConnect(@MessageBody('nickname') nickname: string | undefined) {
+    connected.push(`lobby:${nickname}`);
+  }
+
+  @OnDisconnect()
+  onDisconnect() {
+    connected.push('lobby:left');
+  }
+}
+
+const createConnection = (
+  params: Record<string, string> = {},
+  query: Record<string, string> = {},
+  principal?: Principal,
+): jest.Mocked<RealtimeConnection> =>
+  ({
+    id: 'connection-1',
+    transport: 'websocket',
+    params,
+    query,
+    principal,
+    logger: new Logger(),
+    join: jest.fn(),
+    leave: jest.fn(),
+    emit: jest.fn(),
+    disconnect: jest.fn(),
+  }) as any;
+
+describe('RealtimeGateway', () => {
+  let gateway: RealtimeGateway;
+
+  // Connect a client to a controller, as the transports do once its path matched
+  const connectTo = async (controllerClass: new () => unknown, connection = createConnection({ room: 'general' })) => {
+    await gateway.connect(connection, controllerClass);
+    return connection;
+  };
+
+  beforeEach(() => {
+    ServiceRegistry.getInstance().clear();
+    gateway = new RealtimeGateway();
+    connected.length = 0;
+  });
+
+  describe('matchPath', () => {
+    it('should find the WebSocket controller of a path with its parameters', () => {
+      expect(gateway.matchPath('/rooms/general')).toEqual({
+        controllerClass: RoomWebSocket,
+        params: { room: 'general' },
+      });
+      expect(gateway.matchPath('/lobby')).toEqual({ controllerClass: LobbyWebSocket, params: {} });
+      expect(gateway.matchPath('/unknown')).toBeUndefined();
+    });
+
+    it('should match the paths of controllers decorated or selected later', () => {
+      expect(gateway.matchPath('/late')).toBeUndefined();
+
+      @WebSocket('/late')
+      class LateWebSocket {}
+
+      expect(gateway.matchPath('/late')).toEqual({ controllerClass: LateWebSocket, params: {} });
+
+      gateway.useWebSockets([LobbyWebSocket]);
+
+      expect(gateway.matchPath('/late')).toBeUndefined();
+      expect(gateway.matchPath('/lobby')).toEqual({ controllerClass: LobbyWebSocket, params: {} });
+    });
+  });
+
+  describe('connect', () => {
+    it('should run the connect handlers of the matched controller with the path parameters and query', async () => {
+      const connection = createConnection({ room: 'general' }, { nickname: 'ada' });
+
+      await gateway.connect(connection, RoomWebSocket);
+
+      expect(connected).toEqual(['room:general']);
+      expect(connection.join).toHaveBeenCalledWith('general');
+    });
+
+    it('should dispatch events and the disconnect only to the controller of the connection', async () => {
+      const lobby = await connectTo(LobbyWebSocket, createConnection({}, { room: 'general', nickname: 'ada' }));
+      const room = await connectTo(RoomWebSocket);
+
+      await expect(gateway.handleMessage(lobby, 'shout', 'hello')).rejects.toMatchObject({ code: 'UNKNOWN_EVENT' });
+      await expect(gateway.handleMessage(room, 'shout', 'hello')).resolves.toBe('HELLO');
+      await gateway.disconnect(room, 'transport close');
+      await expect(gateway.handleMessage(room, 'shout', 'hello')).rejects.toMatchObject({ code: 'UNKNOWN_EVENT' });
+
+      expect(connected).toEqual(['lobby:ada', 'room:general']);
+    });
+
+    it('should reject connections with invalid parameters', async () => {
+      await expect(gateway.connect(createConnection({ room: 'x' }), RoomWebSocket)).rejects.toMatchObject({
+        code: 'VALIDATION_FAILED',
+        message: 'Payload room must be at least 3 characters',
+      });
+      expect(connected).toEqual([]);
+    });
+  });
+
+  describe('handleMessage', () => {
+    it('should return the result of the event handler', async () => {
+      await expect(gateway.handleMessage(await connectTo(RoomWebSocket), 'shout', 'hello')).resolves.toBe('HELLO');
+    });
+
+    it('should reject events once the rate limit bucket of the client is empty', async () => {
+      const connection = await connectTo(ThrottledWebSocket, { ...createConnection(), address: '10.0.0.1' });
+      const other = await connectTo(ThrottledWebSocket, { ...createConnection(), address: '10.0.0.2' });
+
+      await expect(gateway.handleMessage(connection, 'ping', undefined)).resolves.toBe('pong');
+      await expect(gateway.handleMessage(connection, 'ping', undefined)).rejects.toMatchObject({
+        status: 429,
+        code: 'RATE_LIMITED',
+        details: { limit: 1, retry_after: 60 },
+      });
+      await expect(gateway.handleMessage(other, 'ping', undefined)).resolves.toBe('pong');
+    });
+
+    it('should reject unknown events', async () => {
+      await expect(gateway.handleMessage(await connectTo(RoomWebSocket), 'whisper', 'hello')).rejects.toMatchObject({
+        code: 'UNKNOWN_EVENT',
+      });
+    });
+  });
+
+  describe('authentication', () => {
+    const reader: Principal = { id: 'reader', type: 'api-key', scopes: ['time:read'] };
+    const authenticator = { authenticate: jest.fn((credentials) => (credentials.apiKey === 'key' ? reader : undefined)) };
+
+    it('should accept every client while authentication is not configured', async () => {
+      await expect(gateway.authenticate({})).resolves.toBeUndefined();
+      expect(() => gateway.authorizeRoom(createConnection(), 'private-ops')).not.toThrow();
+    });
+
+    it('should require known credentials', async () => {
+      gateway.useAuthentication({ authenticator });
+
+      await expect(gateway.authenticate({ apiKey: 'key' })).resolves.toBe(reader);
+      await expect(gateway.authenticate({ apiKey: 'guess' })).rejects.toMatchObject({
+        status: 401,
+        code: 'INVALID_CREDENTIALS',
+      });
+      await expect(gateway.authenticate({})).rejects.toMatchObject({ status: 401, code: 'AUTHENTICATION_REQUIRED' });
+    });
+
+    it('should let anonymous clients in with the anonymous scopes', async () => {
+      gateway.useAuthentication({
+        authenticator,
+        anonymousScopes: ['time:read'],
+        rules: [
+          { namespace: '/admin', scopes: ['admin'] },
+          { room: 'timezone-*', scopes: ['time:read'] },
+        ],
+      });
+
+      await expect(gateway.authenticate({})).resolves.toBeUndefined();
+      await expect(gateway.authenticate({}, '/admin')).rejects.toMatchObject({ status: 403, code: 'INSUFFICIENT_SCOPE' });
+      expect(() => gateway.authorizeRoom(createConnection(), 'timezone-Asia/Tokyo')).not.toThrow();
+    });
+
+    it('should check the scopes of namespace and room rules with wildcards', async () => {
+      gateway.useAuthentication({
+        authenticator,
+        rules: [
+          { namespace: '/admin', scopes: ['admin'] },
+          { room: 'timezone-*', scopes: ['time:read'] },
+        ],
+      });
+
+      await expect(gateway.authenticate({ apiKey: 'key' }, '/admin')).rejects.toMatchObject({
+        status: 403,
+        code: 'INSUFFICIENT_SCOPE',
+      });
+      expect(() => gateway.authorizeRoom(createConnection({}, {}, reader), 'timezone-Asia/Tokyo')).not.toThrow();
+      expect(() => gateway.authorizeRoom(createConnection(), 'timezone-Asia/Tokyo')).toThrow(
+        "Access to room 'timezone-Asia/Tokyo' requires the scopes: time:read",
+      );
+      expect(() => gateway.authorizeRoom(createConnection(), 'timezones')).not.toThrow();
+    });
+
+    it('should inject the principal of the connection', async () => {
+      const connection = await connectTo(RoomWebSocket, createConnection({ room: 'general' }, {}, reader));
+
+      await expect(gateway.handleMessage(connection, 'whoami', undefined)).resolves.toBe('reader');
+    });
+
+    it('should read credentials from headers before the query string', () => {
+      expect(requestCredentials({ 'x-api-key': 'key' }, { token: 'query-token' })).toEqual({ apiKey: 'key' });
+      expect(requestCredentials({ authorization: 'Bearer abc.def' }, {})).toEqual({ token: 'abc.def' });
+      expect(requestCredentials({}, { token: 'query-token' })).toEqual({ token: 'query-token' });
+    });
+  });
+
+  describe('emitToRoom', () => {
+    it('should broadcast to every transport', () => {
+      const socketIO = { emitToRoom: jest.fn() };
+      const rooms = new ConnectionRooms<{ send: jest.Mock }>((event, data) => JSON.stringify({ event, data }));
+      const member = { send: jest.fn() };
+      rooms.join('general', member);
+
+      gateway.addBroadcaster(socketIO);
+      const removeRooms = gateway.addBroadcaster(rooms);
+      gateway.emitToRoom('general', 'news', { text: 'hi' });
+      removeRooms();
+      gateway.emitToRoom('general', 'news', { text: 'again' });
+
+      expect(socketIO.emitToRoom).toHaveBeenCalledTimes(2);
+      expect(member.send.mock.calls).toEqual([['{"event":"news","data":{"text":"hi"}}']]);
+    });
+
+    it('should stop sending to members that left', () => {
+      const rooms = new ConnectionRooms<{ send: jest.Mock }>((event) => event);
+      const member = { send: jest.fn() };
+      rooms.join('general', member);
+      rooms.join('random', member);
+
+      rooms.leaveAll(member);
+      rooms.emitToRoom('general', 'news', undefined);
+
+      expect(member.send).not.toHaveBeenCalled();
+      expect(rooms.getMembers('random')).toEqual([]);
+    });
+  });
+
+  describe('emitToAll', () => {
+    it('should emit to connected clients until they disconnect', async () => {
+      const first = createConnection();
+      const second = createConnection({ room: 'general' });
+      await gateway.connect(first, LobbyWebSocket);
+      await gateway.connect(second, RoomWebSocket);
+
+      await gateway.disconnect(first, 'transport close');
+      gateway.emitToAll('server-shutdown', { reconnect: true });
+
+      expect(first.emit).not.toHaveBeenCalled();
+      expect(second.emit).toHaveBeenCalledWith('server-shutdown', { reconnect: true });
+    });
+  });
+
+  describe('metrics', () => {
+    const render = () => ServiceRegistry.getInstance().getOrCreateService<MetricsRegistry>(MetricsRegistry).render();
+
+    it('should count broadcasts by event', () => {
+      gateway.emitToRoom('general', 'news', { text: 'hi' });
+      gateway.emitToRoom('random', 'news', { text: 'hi' });
+
+      expect(render()).toContain('\nrealtime_emits_total{event="news"} 2\n');
+    });
+
+    it('should report open connections per transport until the transport is removed', () => {
+      let open = 3;
+      const untrack = gateway.trackConnections('websocket', () => open);
+
+      expect(render()).toContain('\nrealtime_connections{transport="websocket"} 3\n');
+
+      untrack();
+      open = 5;
+      expect(render()).toContain('\nrealtime_connections{transport="websocket"} 0\n');
+    });
+  });
+});
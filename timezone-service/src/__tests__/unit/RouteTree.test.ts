@@ -0,0 +1,144 @@
+import { RouteTree } from '@routing/RouteTree';
+
+describe('RouteTree', () => {
+  const lookup = (tree: RouteTree<string>, path: string, method = 'GET') => {
+    const result = tree.find(path)?.get(method as 'GET');
+    return result ? { route: result.value, params: result.params } : null;
+  };
+
+  it('should match static routes sharing a compressed prefix', () => {
+    const tree = new RouteTree<string>();
+    tree.insert('GET', '/api/v1/users', 'users');
+    tree.insert('GET', '/api/v1/teams', 'teams');
+    tree.insert('GET', '/api', 'api');
+
+    expect(lookup(tree, '/api/v1/users')).toEqual({
+      route: 'users',
+      params: {},
+    });
+    expect(lookup(tree, '/api/v1/teams/')).toEqual({
+      route: 'teams',
+      params: {},
+    });
+    expect(lookup(tree, '/api')).toEqual({ route: 'api', params: {} });
+    expect(lookup(tree, '/api/v1')).toBeNull();
+    expect(lookup(tree, '/api/v2/users')).toBeNull();
+  });
+
+  it('should prefer static segments over parameters', () => {
+    const tree = new RouteTree<string>();
+    tree.insert('GET', '/users/:id', 'byId');
+    tree.insert('GET', '/users/me', 'me');
+
+    expect(lookup(tree, '/users/me')).toEqual({ route: 'me', params: {} });
+    expect(lookup(tree, '/users/42')).toEqual({
+      route: 'byId',
+      params: { id: '42' },
+    });
+  });
+
+  it('should backtrack to a parameter when the static branch does not match', () => {
+    const tree = new RouteTree<string>();
+    tree.insert('GET', '/users/me', 'me');
+    tree.insert('GET', '/users/:id/posts', 'posts');
+
+    expect(lookup(tree, '/users/me/posts')).toEqual({
+      route: 'posts',
+      params: { id: 'me' },
+    });
+  });
+
+  it('should try regex-constrained parameters before plain ones', () => {
+    const tree = new RouteTree<string>();
+    tree.insert('GET', '/items/:slug', 'bySlug');
+    tree.insert('GET', '/items/:id(\\d+)', 'byId');
+
+    expect(lookup(tree, '/items/17')).toEqual({
+      route: 'byId',
+      params: { id: '17' },
+    });
+    expect(lookup(tree, '/items/chair')).toEqual({
+      route: 'bySlug',
+      params: { slug: 'chair' },
+    });
+  });
+
+  it('should anchor regex constraints to the whole segment', () => {
+    const tree = new RouteTree<string>();
+    tree.insert('GET', '/items/:id(\\d+)', 'byId');
+
+    expect(lookup(tree, '/items/17a')).toBeNull();
+  });
+
+  it('should register optional parameters with and without the segment', () => {
+    const tree = new RouteTree<string>();
+    tree.insert('GET', '/reports/:year?', 'reports');
+
+    expect(lookup(tree, '/reports')).toEqual({ route: 'reports', params: {} });
+    expect(lookup(tree, '/reports/2024')).toEqual({
+      route: 'reports',
+      params: { year: '2024' },
+    });
+  });
+
+  it('should capture the remaining segments with a catch-all', () => {
+    const tree = new RouteTree<string>();
+    tree.insert('GET', '/time/*timezone', 'time');
+    tree.insert('GET', '/time/:timezone/offset', 'offset');
+
+    expect(lookup(tree, '/time/America/Argentina/Buenos_Aires')).toEqual({
+      route: 'time',
+      params: { timezone: 'America/Argentina/Buenos_Aires' },
+    });
+    expect(lookup(tree, '/time/UTC/offset')).toEqual({
+      route: 'offset',
+      params: { timezone: 'UTC' },
+    });
+    expect(lookup(tree, '/time')).toBeNull();
+  });
+
+  it('should decode path segments', () => {
+    const tree = new RouteTree<string>();
+    tree.insert('GET', '/time/:timezone', 'time');
+
+    expect(lookup(tree, '/time/Etc%2FUTC')).toEqual({
+      route: 'time',
+      params: { timezone: 'Etc/UTC' },
+    });
+  });
+
+  it('should return every method registered for the matched path', () => {
+    const tree = new RouteTree<string>();
+    tree.insert('GET', '/items/:id', 'get');
+    tree.insert('DELETE', '/items/:key', 'delete');
+
+    const routes = tree.find('/items/5');
+
+    expect([...routes!.keys()]).toEqual(['GET', 'DELETE']);
+    expect(routes!.get('DELETE')!.params).toEqual({ key: '5' });
+  });
+
+  it('should reject duplicate routes at registration', () => {
+    const tree = new RouteTree<string>();
+    tree.insert('GET', '/items/:id', 'first');
+    tree.insert('POST', '/items/:id', 'create');
+
+    expect(() => tree.insert('GET', '/items/:key', 'second')).toThrow(
+      'Duplicate route GET /items/:key conflicts with GET /items/:id',
+    );
+    expect(() => tree.insert('GET', '/items/:id?', 'optional')).toThrow(
+      'Duplicate route GET /items/:id? conflicts with GET /items/:id',
+    );
+  });
+
+  it('should reject malformed patterns', () => {
+    const tree = new RouteTree<string>();
+
+    expect(() => tree.insert('GET', '/files/*path/meta', 'x')).toThrow(
+      'Catch-all parameter *path must be the last segment of /files/*path/meta',
+    );
+    expect(() => tree.insert('GET', '/files/:', 'x')).toThrow(
+      "Invalid route segment ':' in /files/:",
+    );
+  });
+});
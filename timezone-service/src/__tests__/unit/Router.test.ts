@@ -0,0 +1,797 @@
+import { rateLimit } from '@routing/middleware';
+import { Router } from '@routing/Router';
+import { InvalidTimezoneException } from '@services';
+import {
+  Auth,
+  BODY,
+  Catch,
+  ConflictException,
+  Controller,
+  DELETE,
+  ExceptionFilter,
+  GET,
+  HEAD,
+  HEADER,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OPTIONS,
+  PARAM,
+  PATCH,
+  POST,
+  PUT,
+  Principal,
+  QUERY,
+  REQ,
+  RES,
+  RateLimit,
+  RequestContext,
+  ServiceRegistry,
+  UseFilters,
+  Validate,
+  s,
+  sendJsonResponse,
+} from '@shared';
+import * as http from 'http';
+import request from 'supertest';
+
+class ItemsController {
+  @GET('/items')
+  list() {
+    return [{ id: '1' }];
+  }
+
+  @POST('/items')
+  create() {
+    return { created: true };
+  }
+
+  @GET('/items/:id')
+  findOne(@PARAM('id') id: string) {
+    return { id };
+  }
+
+  @PUT('/items/:id')
+  replace(@PARAM('id') id: string) {
+    return { id, replaced: true };
+  }
+
+  @PATCH('/items/:id')
+  update(@PARAM('id') id: string) {
+    return { id, updated: true };
+  }
+
+  @DELETE('/items/:id')
+  remove(@PARAM('id') id: string) {
+    return { id, deleted: true };
+  }
+}
+
+class ReportsController {
+  @GET('/reports')
+  list() {
+    return { reports: [] };
+  }
+
+  @HEAD('/reports')
+  head(@RES() res: http.ServerResponse) {
+    res.setHeader('X-Report-Count', '0');
+    res.end();
+  }
+
+  @OPTIONS('/reports')
+  options(@RES() res: http.ServerResponse) {
+    res.statusCode = 200;
+    res.end(JSON.stringify({ custom: true }));
+  }
+}
+
+class InputsController {
+  @GET('/inputs/query')
+  query(
+    @QUERY('limit') limit: number,
+    @QUERY('verbose') verbose: boolean,
+    @QUERY('since') since: Date,
+    @QUERY('tags') tags: string[],
+    @QUERY('format') format: string,
+  ) {
+    return {
+      limit,
+      verbose,
+      since: since?.toISOString(),
+      tags,
+      format,
+    };
+  }
+
+  @GET('/inputs/required')
+  required(@QUERY('format', { required: true }) format: string) {
+    return { format };
+  }
+
+  @GET('/inputs/path/:id')
+  path(@PARAM('id') id: number) {
+    return { id };
+  }
+
+  @GET('/inputs/header')
+  header(@HEADER('X-Request-Id') requestId: string) {
+    return { requestId };
+  }
+
+  @POST('/inputs/body')
+  body(@BODY() body: unknown, @BODY('name') name: string) {
+    return { body, name };
+  }
+
+  @POST('/inputs/required-body')
+  requiredBody(@BODY(undefined, { required: true }) body: unknown) {
+    return { body };
+  }
+
+  @GET('/inputs/raw')
+  raw(@REQ() req: http.IncomingMessage, @RES() res: http.ServerResponse) {
+    res.statusCode = 202;
+    res.end(JSON.stringify({ url: req.url }));
+  }
+}
+
+class ValidatedController {
+  @POST('/validated/:zone')
+  @Validate({
+    params: s.object({ zone: s.timezone() }),
+    query: s.object({ format: s.enum(['iso', 'unix']).optional() }),
+    body: s.object({ count: s.number({ min: 1, max: 5 }) }),
+  })
+  create(@PARAM('zone') zone: string, @BODY('count') count: number) {
+    return { zone, count };
+  }
+}
+
+@Catch(ConflictException)
+class ConflictFilter implements ExceptionFilter<ConflictException> {
+  catch(exception: ConflictException, context: RequestContext) {
+    sendJsonResponse(context.res, 409, {
+      handledBy: 'controller',
+      code: exception.code,
+    });
+  }
+}
+
+@Catch(InvalidTimezoneException)
+class RouteTimezoneFilter implements ExceptionFilter<InvalidTimezoneException> {
+  catch(exception: InvalidTimezoneException, context: RequestContext) {
+    sendJsonResponse(context.res, 422, {
+      handledBy: 'route',
+      details: exception.details,
+    });
+  }
+}
+
+@UseFilters(ConflictFilter)
+class FailingController {
+  @GET('/failing/conflict')
+  conflict() {
+    throw new ConflictException('Reminder already exists', {
+      code: 'REMINDER_EXISTS',
+    });
+  }
+
+  @GET('/failing/timezone')
+  @UseFilters(new RouteTimezoneFilter())
+  timezone() {
+    throw new InvalidTimezoneException('Mars/Olympus');
+  }
+
+  @GET('/failing/missing')
+  missing() {
+    throw new NotFoundException('Reminder not found');
+  }
+
+  @GET('/failing/crash')
+  crash() {
+    throw new Error('database password is hunter2');
+  }
+}
+
+@Auth('reports:read')
+class ProtectedController {
+  @GET('/protected/reports')
+  list() {
+    return [{ id: 'r1' }];
+  }
+
+  @DELETE('/protected/reports')
+  @Auth('reports:write')
+  purge() {
+    return { purged: true };
+  }
+}
+
+class AccountController {
+  @GET('/account')
+  @Auth()
+  account() {
+    return { account: true };
+  }
+}
+
+@Auth('quota:read')
+@RateLimit(3, '1m')
+class QuotaController {
+  @GET('/quota/search')
+  search() {
+    return { results: [] };
+  }
+
+  @GET('/quota/export')
+  @RateLimit(1, '1h')
+  export() {
+    return { exported: true };
+  }
+}
+
+class LoggingController {
+  @GET('/logged')
+  logged(logger: Logger) {
+    logger.info('Looking up reminders');
+    return { logged: true };
+  }
+}
+
+@Injectable({ scope: 'request' })
+class RequestCounter {
+  count = 0;
+}
+
+const GREETING = Symbol('greeting');
+
+class InjectionController {
+  @GET('/injected')
+  injected(counter: RequestCounter, again: RequestCounter, @Inject(GREETING) greeting: string) {
+    counter.count++;
+    return { count: again.count, same: counter === again, greeting };
+  }
+}
+
+@Injectable()
+class GreetingService {
+  greet(name: string) {
+    return `Hello, ${name}`;
+  }
+}
+
+@Controller('/greetings/')
+class GreetingController {
+  constructor(private greetings: GreetingService) {}
+
+  @GET('/')
+  index() {
+    return { greeting: this.greetings.greet('world') };
+  }
+
+  @GET(':name')
+  greet(@PARAM('name') name: string) {
+    return { greeting: this.greetings.greet(name) };
+  }
+}
+
+describe('Router', () => {
+  let app: http.Server;
+
+  beforeAll(() => {
+    const router = new Router({ bodyLimit: 64 });
+    router.registerController(new ItemsController());
+    router.registerController(new ReportsController());
+    router.registerController(new InputsController());
+    router.registerController(new ValidatedController());
+    router.registerController(new FailingController());
+    router.useGlobalFilters({
+      catch(exception: unknown, context: RequestContext) {
+        if (!(exception instanceof NotFoundException)) throw exception;
+        sendJsonResponse(context.res, 404, { handledBy: 'global' });
+      },
+    });
+
+    app = http.createServer((req, res) => {
+      void router.handleRequest(req, res).then((handled) => {
+        if (!handled) {
+          res.statusCode = 404;
+          res.end();
+        }
+      });
+    });
+  });
+
+  describe('HTTP verb decorators', () => {
+    it('should dispatch POST requests', async () => {
+      const response = await request(app).post('/items').expect(200);
+      expect(response.body).toEqual({ created: true });
+    });
+
+    it('should dispatch PUT, PATCH and DELETE requests with params', async () => {
+      const put = await request(app).put('/items/7').expect(200);
+      const patch = await request(app).patch('/items/7').expect(200);
+      const del = await request(app).delete('/items/7').expect(200);
+
+      expect(put.body).toEqual({ id: '7', replaced: true });
+      expect(patch.body).toEqual({ id: '7', updated: true });
+      expect(del.body).toEqual({ id: '7', deleted: true });
+    });
+
+    it('should advertise every supported verb in CORS headers', async () => {
+      const response = await request(app).get('/items').expect(200);
+      expect(response.headers['access-control-allow-methods']).toBe(
+        'GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS',
+      );
+    });
+  });
+
+  describe('HEAD handling', () => {
+    it('should answer HEAD with the GET handler and no body', async () => {
+      const response = await request(app).head('/items/3').expect(200);
+
+      expect(response.headers['content-type']).toMatch(/application\/json/);
+      expect(response.headers['content-length']).toBe(
+        String(Buffer.byteLength(JSON.stringify({ id: '3' }))),
+      );
+      expect(response.text).toBeUndefined();
+    });
+
+    it('should prefer an explicit HEAD handler', async () => {
+      const response = await request(app).head('/reports').expect(200);
+      expect(response.headers['x-report-count']).toBe('0');
+    });
+  });
+
+  describe('405 Method Not Allowed', () => {
+    it('should return 405 with an Allow header when the verb does not match', async () => {
+      const response = await request(app).post('/items/3').expect(405);
+
+      expect(response.headers['allow']).toBe(
+        'GET, PUT, PATCH, DELETE, HEAD, OPTIONS',
+      );
+      expect(response.body).toEqual({
+        error: 'Method not allowed',
+        code: 'METHOD_NOT_ALLOWED',
+        message: 'Method POST is not allowed for /items/3',
+        details: {
+          allowed_methods: ['GET', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'],
+        },
+      });
+    });
+
+    it('should not handle unknown paths', async () => {
+      await request(app).delete('/unknown').expect(404);
+    });
+  });
+
+  describe('OPTIONS handling', () => {
+    it('should answer OPTIONS automatically with the allowed methods', async () => {
+      const response = await request(app).options('/items').expect(204);
+      expect(response.headers['allow']).toBe('GET, POST, HEAD, OPTIONS');
+    });
+
+    it('should prefer an explicit OPTIONS handler', async () => {
+      const response = await request(app).options('/reports').expect(200);
+      expect(JSON.parse(response.text)).toEqual({ custom: true });
+    });
+  });
+
+  describe('parameter decorators', () => {
+    it('should coerce query parameters to their declared types', async () => {
+      const response = await request(app)
+        .get('/inputs/query')
+        .query('limit=5&verbose=true&since=2024-01-01&tags=a&tags=b&format=iso')
+        .expect(200);
+
+      expect(response.body).toEqual({
+        limit: 5,
+        verbose: true,
+        since: '2024-01-01T00:00:00.000Z',
+        tags: ['a', 'b'],
+        format: 'iso',
+      });
+    });
+
+    it('should leave optional query parameters undefined', async () => {
+      const response = await request(app).get('/inputs/query').expect(200);
+      expect(response.body).toEqual({});
+    });
+
+    it('should return 400 when a value cannot be coerced', async () => {
+      const response = await request(app)
+        .get('/inputs/query?limit=many')
+        .expect(400);
+
+      expect(response.body).toEqual({
+        error: 'Bad request',
+        code: 'INVALID_PARAMETER',
+        message: "Parameter 'limit' must be a number",
+        details: { parameter: 'limit', value: 'many' },
+      });
+    });
+
+    it('should return 400 when a required query parameter is missing', async () => {
+      const response = await request(app).get('/inputs/required').expect(400);
+
+      expect(response.body).toEqual({
+        error: 'Bad request',
+        code: 'MISSING_PARAMETER',
+        message: "Query parameter 'format' is required",
+        details: { parameter: 'format', source: 'query' },
+      });
+    });
+
+    it('should coerce path parameters', async () => {
+      const response = await request(app).get('/inputs/path/42').expect(200);
+      expect(response.body).toEqual({ id: 42 });
+    });
+
+    it('should read headers case-insensitively', async () => {
+      const response = await request(app)
+        .get('/inputs/header')
+        .set('x-request-id', 'abc')
+        .expect(200);
+
+      expect(response.body).toEqual({ requestId: 'abc' });
+    });
+
+    it('should parse JSON bodies and pick properties', async () => {
+      const response = await request(app)
+        .post('/inputs/body')
+        .send({ name: 'clock' })
+        .expect(200);
+
+      expect(response.body).toEqual({ body: { name: 'clock' }, name: 'clock' });
+    });
+
+    it('should return 400 for malformed JSON', async () => {
+      const response = await request(app)
+        .post('/inputs/body')
+        .set('Content-Type', 'application/json')
+        .send('{"name":')
+        .expect(400);
+
+      expect(response.body.code).toBe('INVALID_JSON');
+    });
+
+    it('should return 413 when the body exceeds the limit', async () => {
+      await request(app)
+        .post('/inputs/body')
+        .send({ name: 'x'.repeat(100) })
+        .expect(413);
+    });
+
+    it('should return 400 when a required body is missing', async () => {
+      const response = await request(app)
+        .post('/inputs/required-body')
+        .expect(400);
+
+      expect(response.body.message).toBe('Request body is required');
+    });
+
+    it('should inject the raw request and response', async () => {
+      const response = await request(app).get('/inputs/raw').expect(202);
+      expect(JSON.parse(response.text)).toEqual({ url: '/inputs/raw' });
+    });
+  });
+
+  describe('@Validate', () => {
+    it('should run the handler when the input is valid', async () => {
+      const response = await request(app)
+        .post('/validated/Etc%2FUTC?format=iso')
+        .send({ count: 2 })
+        .expect(200);
+
+      expect(response.body).toEqual({ zone: 'Etc/UTC', count: 2 });
+    });
+
+    it('should list every failing field in a single 400 response', async () => {
+      const response = await request(app)
+        .post('/validated/Nowhere?format=rfc')
+        .send({ count: 9 })
+        .expect(400);
+
+      expect(response.body).toEqual({
+        error: 'Validation failed',
+        code: 'VALIDATION_FAILED',
+        message:
+          'params.zone must be a valid timezone identifier; query.format must be one of: iso, unix; body.count must be less than or equal to 5',
+        details: [
+          {
+            location: 'params',
+            field: 'zone',
+            message: 'must be a valid timezone identifier',
+          },
+          {
+            location: 'query',
+            field: 'format',
+            message: 'must be one of: iso, unix',
+          },
+          {
+            location: 'body',
+            field: 'count',
+            message: 'must be less than or equal to 5',
+          },
+        ],
+      });
+    });
+
+    it('should require a body when a body schema is declared', async () => {
+      const response = await request(app)
+        .post('/validated/Etc%2FUTC')
+        .expect(400);
+
+      expect(response.body.details).toEqual([
+        { location: 'body', field: '', message: 'is required' },
+      ]);
+    });
+  });
+
+  describe('exceptions and filters', () => {
+    it('should apply controller filters matching the exception type', async () => {
+      const response = await request(app).get('/failing/conflict').expect(409);
+      expect(response.body).toEqual({
+        handledBy: 'controller',
+        code: 'REMINDER_EXISTS',
+      });
+    });
+
+    it('should apply route filters before controller filters', async () => {
+      const response = await request(app).get('/failing/timezone').expect(422);
+      expect(response.body).toEqual({
+        handledBy: 'route',
+        details: { requested_timezone: 'Mars/Olympus' },
+      });
+    });
+
+    it('should apply global filters last', async () => {
+      const response = await request(app).get('/failing/missing').expect(404);
+      expect(response.body).toEqual({ handledBy: 'global' });
+    });
+
+    it('should hide unexpected errors behind a generic 500', async () => {
+      const response = await request(app).get('/failing/crash').expect(500);
+      expect(response.body).toEqual({
+        error: 'Internal server error',
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred',
+      });
+    });
+  });
+
+  describe('@Auth', () => {
+    let authApp: http.Server;
+
+    beforeAll(() => {
+      const keys: Record<string, Principal> = {
+        'reader-key': { id: 'reader', type: 'api-key', scopes: ['reports:read'] },
+        'writer-key': { id: 'writer', type: 'api-key', scopes: ['reports:read', 'reports:write'] },
+      };
+      const router = new Router({
+        auth: {
+          authenticator: { authenticate: ({ apiKey }) => (apiKey ? keys[apiKey] : undefined) },
+          anonymousScopes: ['reports:read'],
+        },
+      });
+      router.registerController(new ProtectedController());
+      router.registerController(new AccountController());
+
+      authApp = http.createServer((req, res) => void router.handleRequest(req, res));
+    });
+
+    it('should let anonymous clients use the scopes granted to them', async () => {
+      await request(authApp).get('/protected/reports').expect(200, [{ id: 'r1' }]);
+    });
+
+    it('should require credentials for the other scopes', async () => {
+      const response = await request(authApp).delete('/protected/reports').expect(401);
+
+      expect(response.headers['www-authenticate']).toBe('Bearer');
+      expect(response.body).toMatchObject({ error: 'Unauthorized', code: 'AUTHENTICATION_REQUIRED' });
+      await request(authApp).get('/account').expect(401);
+    });
+
+    it('should reject unknown keys', async () => {
+      const response = await request(authApp).get('/account').set('X-API-Key', 'guessed-key').expect(401);
+
+      expect(response.body.code).toBe('INVALID_CREDENTIALS');
+    });
+
+    it('should check the scopes of the class and the route', async () => {
+      const response = await request(authApp)
+        .delete('/protected/reports')
+        .set('Authorization', 'Bearer reader-key')
+        .expect(403);
+
+      expect(response.body).toEqual({
+        error: 'Forbidden',
+        code: 'INSUFFICIENT_SCOPE',
+        message: 'Access to DELETE /protected/reports requires the scopes: reports:write',
+        details: { missing_scopes: ['reports:write'] },
+      });
+      await request(authApp).delete('/protected/reports').set('X-API-Key', 'writer-key').expect(200);
+      await request(authApp).get('/account').set('X-API-Key', 'reader-key').expect(200, { account: true });
+    });
+  });
+
+  describe('@RateLimit', () => {
+    let quotaApp: http.Server;
+
+    beforeEach(() => {
+      ServiceRegistry.getInstance().clear();
+
+      const router = new Router({
+        auth: {
+          authenticator: { authenticate: ({ apiKey }) => ({ id: apiKey ?? '', type: 'api-key', scopes: ['quota:read'] }) },
+          anonymousScopes: ['quota:read'],
+        },
+      });
+      router.registerController(new QuotaController());
+
+      quotaApp = http.createServer((req, res) => void router.handleRequest(req, res));
+    });
+
+    it('should send the state of the bucket in RateLimit headers', async () => {
+      const response = await request(quotaApp).get('/quota/search').expect(200);
+
+      expect(response.headers).toMatchObject({
+        'ratelimit-limit': '3',
+        'ratelimit-remaining': '2',
+        'ratelimit-reset': '20',
+        'ratelimit-policy': '3;w=60',
+      });
+      expect(response.headers['retry-after']).toBeUndefined();
+    });
+
+    it('should answer 429 with Retry-After once the bucket is empty', async () => {
+      for (let call = 0; call < 3; call++) {
+        await request(quotaApp).get('/quota/search').expect(200);
+      }
+
+      const response = await request(quotaApp).get('/quota/search').expect(429);
+
+      expect(response.headers['retry-after']).toBe('20');
+      expect(response.headers['ratelimit-remaining']).toBe('0');
+      expect(response.body).toEqual({
+        error: 'Rate limit exceeded',
+        code: 'RATE_LIMITED',
+        message: 'Rate limit exceeded, retry in 20s',
+        details: { limit: 3, retry_after: 20 },
+      });
+    });
+
+    it('should give handler-level limits their own bucket', async () => {
+      await request(quotaApp).get('/quota/export').expect(200);
+      await request(quotaApp).get('/quota/export').expect(429);
+      await request(quotaApp).get('/quota/search').expect(200);
+    });
+
+    it('should keep a bucket per API key', async () => {
+      await request(quotaApp).get('/quota/export').set('X-API-Key', 'first').expect(200);
+      await request(quotaApp).get('/quota/export').set('X-API-Key', 'second').expect(200);
+      await request(quotaApp).get('/quota/export').set('X-API-Key', 'first').expect(429);
+      await request(quotaApp).get('/quota/export').expect(200);
+    });
+
+    it('should limit every route with the global middleware', async () => {
+      const router = new Router();
+      router.use(rateLimit({ limit: 1, window: '1s' }));
+      router.registerController(new ItemsController());
+      const limitedApp = http.createServer((req, res) => void router.handleRequest(req, res));
+
+      await request(limitedApp).get('/items').expect(200);
+      const response = await request(limitedApp).get('/items/1').expect(429);
+
+      expect(response.headers['retry-after']).toBe('1');
+      expect(response.headers['ratelimit-policy']).toBe('1;w=1');
+    });
+  });
+
+  describe('logging', () => {
+    let loggedApp: http.Server;
+    const lines = () => (console.log as jest.Mock).mock.calls.map(([line]) => JSON.parse(line));
+
+    beforeEach(() => {
+      ServiceRegistry.getInstance().clear();
+      ServiceRegistry.getInstance().registerService(Logger, new Logger({ level: 'info', format: 'json' }));
+      (console.log as jest.Mock).mockClear();
+
+      const router = new Router();
+      router.registerController(new LoggingController());
+      loggedApp = http.createServer((req, res) => void router.handleRequest(req, res));
+    });
+
+    it('should echo a valid X-Request-Id', async () => {
+      const response = await request(loggedApp).get('/logged').set('X-Request-Id', 'req-42').expect(200);
+
+      expect(response.headers['x-request-id']).toBe('req-42');
+    });
+
+    it('should generate a request id when the header is missing or malformed', async () => {
+      const response = await request(loggedApp).get('/logged').set('X-Request-Id', 'not valid!').expect(200);
+
+      expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    it('should write an access log line when the response is done', async () => {
+      await request(loggedApp).get('/logged?page=2').set('X-Request-Id', 'req-42').expect(200);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(lines()).toContainEqual(
+        expect.objectContaining({
+          level: 'info',
+          message: 'GET /logged 200',
+          request_id: 'req-42',
+          method: 'GET',
+          path: '/logged',
+          status: 200,
+          duration_ms: expect.any(Number),
+        }),
+      );
+    });
+
+    it('should inject a logger bound to the request id into handlers', async () => {
+      await request(loggedApp).get('/logged').set('X-Request-Id', 'req-42').expect(200);
+
+      expect(lines()).toContainEqual(
+        expect.objectContaining({ message: 'Looking up reminders', request_id: 'req-42' }),
+      );
+    });
+  });
+
+  describe('service injection', () => {
+    it('should share request-scoped services within a request and resolve tokens', async () => {
+      ServiceRegistry.getInstance().register({ provide: GREETING, useValue: 'hello' });
+      const router = new Router();
+      router.registerController(new InjectionController());
+      const injectedApp = http.createServer((req, res) => void router.handleRequest(req, res));
+
+      await request(injectedApp).get('/injected').expect(200, { count: 1, same: true, greeting: 'hello' });
+      await request(injectedApp).get('/injected').expect(200, { count: 1, same: true, greeting: 'hello' });
+    });
+  });
+
+  describe('controller classes', () => {
+    const serveGreetings = () => {
+      const router = new Router();
+      router.registerController(GreetingController);
+      return http.createServer((req, res) => void router.handleRequest(req, res));
+    };
+
+    it('should mount the routes under the @Controller prefix', async () => {
+      const greetingApp = serveGreetings();
+
+      await request(greetingApp).get('/greetings').expect(200, { greeting: 'Hello, world' });
+      await request(greetingApp).get('/greetings/ada').expect(200, { greeting: 'Hello, ada' });
+    });
+
+    it('should create controllers with their constructor dependencies', async () => {
+      ServiceRegistry.getInstance().registerService(GreetingService, { greet: (name: string) => `Hi, ${name}` });
+
+      await request(serveGreetings()).get('/greetings/ada').expect(200, { greeting: 'Hi, ada' });
+    });
+  });
+
+  describe('route registration', () => {
+    it('should reject routes that duplicate an already registered route', () => {
+      class DuplicateController {
+        @GET('/items/:key')
+        get() {
+          return {};
+        }
+      }
+
+      const router = new Router();
+      router.registerController(new ItemsController());
+
+      expect(() =>
+        router.registerController(new DuplicateController()),
+      ).toThrow(
+        'Duplicate route GET /items/:key conflicts with GET /items/:id',
+      );
+    });
+  });
+});
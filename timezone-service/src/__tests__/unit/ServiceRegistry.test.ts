@@ -1,4 +1,6 @@
 import { ServiceRegistry } from '@shared/services/ServiceRegistry';
+import { CircularDependencyException, DependencyResolutionException } from '@shared/services/exceptions';
+import { Inject, Injectable } from '@shared/decorators';
 import { TimezoneService } from '@services/timezone/TimezoneService';
 
 // Mock service for testing
@@ -10,6 +12,35 @@ class MockService {
   }
 }
 
+const GREETING = Symbol('greeting');
+
+@Injectable()
+class Greeter {
+  constructor(
+    public readonly mock: MockService,
+    @Inject(GREETING) public readonly greeting: string,
+    public readonly name: string = 'world',
+  ) {}
+}
+
+@Injectable({ scope: 'transient' })
+class Counter {}
+
+@Injectable({ scope: 'request' })
+class RequestState {
+  constructor(public readonly counter: Counter) {}
+}
+
+@Injectable()
+class SessionStore {
+  constructor(public readonly state: RequestState) {}
+}
+
+@Injectable()
+class Chicken {
+  constructor(@Inject('egg') public readonly egg: unknown) {}
+}
+
 describe('ServiceRegistry', () => {
   let serviceRegistry: ServiceRegistry;
 
@@ -81,6 +112,22 @@ describe('ServiceRegistry', () => {
     });
   });
 
+  describe('checkpoint', () => {
+    it('should forget the services and providers added since', () => {
+      const mockService = serviceRegistry.getOrCreateService(MockService);
+      const restore = serviceRegistry.checkpoint();
+
+      serviceRegistry.getOrCreateService(TimezoneService);
+      serviceRegistry.register({ provide: 'greeting', useValue: 'hello' });
+      serviceRegistry.register({ provide: MockService, useFactory: () => new MockService() });
+      restore();
+
+      expect(serviceRegistry.getService(MockService)).toBe(mockService);
+      expect(serviceRegistry.getService(TimezoneService)).toBeUndefined();
+      expect(() => serviceRegistry.getOrCreateService('greeting')).toThrow(DependencyResolutionException);
+    });
+  });
+
   describe('error handling', () => {
     it('should handle services that throw in constructor', () => {
       class ThrowingService {
@@ -101,4 +148,100 @@ describe('ServiceRegistry', () => {
       expect(service).toBeUndefined();
     });
   });
+
+  describe('constructor injection', () => {
+    it('should create dependencies and pass tokens, leaving primitives to their defaults', () => {
+      serviceRegistry.register({ provide: GREETING, useValue: 'hello' });
+
+      const greeter = serviceRegistry.getOrCreateService<Greeter>(Greeter);
+
+      expect(greeter.mock).toBe(serviceRegistry.getService(MockService));
+      expect(greeter.greeting).toBe('hello');
+      expect(greeter.name).toBe('world');
+    });
+
+    it('should report tokens without a provider with the path to them', () => {
+      expect(() => serviceRegistry.getOrCreateService(Greeter)).toThrow(
+        new DependencyResolutionException('No provider for Symbol(greeting), register one with ServiceRegistry.register()', [
+          'Greeter',
+          'Symbol(greeting)',
+        ]),
+      );
+    });
+
+    it('should create classes without registering them', () => {
+      serviceRegistry.register({ provide: GREETING, useValue: 'hello' });
+
+      const greeter = serviceRegistry.instantiate(Greeter);
+
+      expect(greeter).not.toBe(serviceRegistry.instantiate(Greeter));
+      expect(serviceRegistry.getService(Greeter)).toBeUndefined();
+    });
+  });
+
+  describe('providers', () => {
+    it('should create factory providers once with their dependencies', () => {
+      const factory = jest.fn((mock: MockService) => ({ value: mock.getValue() }));
+      serviceRegistry.register({ provide: 'settings', useFactory: factory, inject: [MockService] });
+
+      expect(factory).not.toHaveBeenCalled();
+      expect(serviceRegistry.getOrCreateService('settings')).toEqual({ value: 'mock-value' });
+      expect(serviceRegistry.getOrCreateService('settings')).toBe(serviceRegistry.getOrCreateService('settings'));
+      expect(factory).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let class providers replace a service', () => {
+      class FakeService extends MockService {}
+      serviceRegistry.getOrCreateService(MockService);
+
+      serviceRegistry.register({ provide: MockService, useClass: FakeService });
+
+      expect(serviceRegistry.getOrCreateService(MockService)).toBeInstanceOf(FakeService);
+    });
+  });
+
+  describe('scopes', () => {
+    it('should create transient services for every injection', () => {
+      expect(serviceRegistry.getOrCreateService(Counter)).not.toBe(serviceRegistry.getOrCreateService(Counter));
+      expect(serviceRegistry.getService(Counter)).toBeUndefined();
+    });
+
+    it('should share request-scoped services within a request', () => {
+      const first = new Map();
+      const second = new Map();
+
+      const state = serviceRegistry.resolve<RequestState>(RequestState, first);
+
+      expect(serviceRegistry.resolve(RequestState, first)).toBe(state);
+      expect(serviceRegistry.resolve(RequestState, second)).not.toBe(state);
+      expect(state.counter).toBeInstanceOf(Counter);
+      expect(first.get(RequestState)).toBe(state);
+    });
+
+    it('should not inject request-scoped services outside a request', () => {
+      expect(() => serviceRegistry.resolve(SessionStore, new Map())).toThrow(
+        'RequestState is request scoped and can only be injected into handlers and other request-scoped services (SessionStore -> RequestState)',
+      );
+    });
+  });
+
+  describe('circular dependencies', () => {
+    it('should report the cycle', () => {
+      serviceRegistry.register({ provide: 'egg', useFactory: (chicken) => ({ chicken }), inject: [Chicken] });
+
+      expect(() => serviceRegistry.getOrCreateService(Chicken)).toThrow(CircularDependencyException);
+      expect(() => serviceRegistry.getOrCreateService('egg')).toThrow(
+        'Circular dependency (egg -> Chicken -> egg)',
+      );
+    });
+
+    it('should recover once the cycle is broken', () => {
+      serviceRegistry.register({ provide: 'egg', useFactory: (chicken) => ({ chicken }), inject: [Chicken] });
+      expect(() => serviceRegistry.getOrCreateService(Chicken)).toThrow(CircularDependencyException);
+
+      serviceRegistry.register({ provide: 'egg', useValue: 'laid' });
+
+      expect(serviceRegistry.getOrCreateService<Chicken>(Chicken).egg).toBe('laid');
+    });
+  });
 });
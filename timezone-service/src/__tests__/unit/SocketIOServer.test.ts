@@ -1,18 +1,99 @@
 import * as http from 'http';
-import { Server as SocketIOServer, Socket } from 'socket.io';
-
-
-import { RoutingRegistry, ServiceRegistry } from '@shared';
+import { Namespace, Server as SocketIOServer, Socket } from 'socket.io';
+
+
+import {
+  ConnectedPrincipal,
+  ConnectedSocket,
+  MessageBody,
+  OnConnect,
+  OnDisconnect,
+  Principal,
+  RealtimeConnection,
+  RoutingRegistry,
+  ServiceRegistry,
+  SubscribeMessage,
+  UnauthorizedException,
+  WebSocket,
+  s,
+} from '@shared';
+import { RealtimeGateway } from '@routing/RealtimeGateway';
 import { SocketServer } from '@routing/SocketIOServer';
-import { TimezoneService } from '@services';
+import { HandshakeAuthenticator, TimezoneService, signToken } from '@services';
 
 // Mock Socket.io
 jest.mock('socket.io');
 
+const events: string[] = [];
+
+@WebSocket('/echo')
+class EchoWebSocket {
+  static instances = 0;
+
+  constructor(public timezoneService: TimezoneService) {
+    EchoWebSocket.instances++;
+  }
+
+  @SubscribeMessage('echo', s.object({ text: s.string({ min: 1 }) }))
+  echo(@MessageBody('text') text: string, @ConnectedSocket() socket: Socket) {
+    events.push(`echo:${socket.id}`);
+    return { text };
+  }
+
+  @SubscribeMessage('valid-timezone')
+  validTimezone(@MessageBody() timezone: string) {
+    return this.timezoneService.isValidTimezone(timezone);
+  }
+
+  @SubscribeMessage('login')
+  login(@MessageBody('token', { required: true }) token: string) {
+    if (token !== 'secret') {
+      throw new UnauthorizedException('Invalid token');
+    }
+    return { ok: true };
+  }
+
+  @SubscribeMessage('whoami')
+  whoami(@ConnectedPrincipal() principal: Principal | undefined) {
+    return principal?.id ?? 'anonymous';
+  }
+
+  @SubscribeMessage('join')
+  async join(@MessageBody() room: string, @ConnectedSocket() connection: RealtimeConnection) {
+    await connection.join(room);
+    return { joined: room };
+  }
+
+  @SubscribeMessage('crash')
+  crash() {
+    throw new Error('database password is hunter2');
+  }
+
+  @OnDisconnect()
+  onDisconnect(@ConnectedSocket() socket: Socket, @MessageBody() reason: string) {
+    events.push(`disconnect:${socket.id}:${reason}`);
+  }
+}
+
+@WebSocket('/rooms/:room')
+class RoomWebSocket {
+  @OnConnect()
+  onConnect(@MessageBody('room') room: string) {
+    events.push(`connect:${room}`);
+  }
+
+  @SubscribeMessage('leave-room')
+  leaveRoom() {
+    return { left: true };
+  }
+}
+
 describe('SocketServer', () => {
   let socketServer: SocketServer;
   let httpServer: http.Server;
   let mockIO: jest.Mocked<SocketIOServer>;
+  // Parent of the controller namespaces
+  let mockNamespaces: jest.Mocked<Namespace>;
   let mockSocket: jest.Mocked<Socket>;
   let routingRegistry: RoutingRegistry;
   let serviceRegistry: ServiceRegistry;
@@ -22,6 +103,7 @@ describe('SocketServer', () => {
     routingRegistry = RoutingRegistry.getInstance();
     serviceRegistry = ServiceRegistry.getInstance();
     serviceRegistry.clear();
+    events.length = 0;
 
     // Create mock HTTP server
     httpServer = new http.Server();
@@ -29,19 +111,25 @@ describe('SocketServer', () => {
     // Create mock Socket.io objects
     mockSocket = {
       id: 'test-socket-id',
+      nsp: { name: '/echo' },
+      rooms: new Set(['test-socket-id']),
       join: jest.fn(),
+      leave: jest.fn(),
       emit: jest.fn(),
       on: jest.fn(),
       disconnect: jest.fn(),
     } as any;
 
-    mockIO = {
+    mockNamespaces = {
       on: jest.fn(),
+      use: jest.fn(),
       to: jest.fn().mockReturnThis(),
-      in: jest.fn().mockReturnThis(),
       emit: jest.fn(),
+    } as any;
+    mockIO = {
+      of: jest.fn(() => mockNamespaces),
+      use: jest.fn(),
       close: jest.fn(),
-      allSockets: jest.fn(),
     } as any;
 
     // Mock Socket.io constructor
@@ -64,11 +152,31 @@ describe('SocketServer', () => {
           methods: ['GET', 'POST'],
         },
         transports: ['websocket', 'polling'],
+        maxHttpBufferSize: 64 * 1024,
+        cleanupEmptyChildNamespaces: true,
       });
     });
 
     it('should set up connection handler', () => {
-      expect(mockIO.on).toHaveBeenCalledWith('connection', expect.any(Function));
+      expect(mockNamespaces.on).toHaveBeenCalledWith('connection', expect.any(Function));
+    });
+
+    it('should create namespaces for the @WebSocket paths only', () => {
+      const matches = mockIO.of.mock.calls[0][0] as (name: string, auth: object, next: (error: Error | null, matched: boolean) => void) => void;
+      const next = jest.fn();
+
+      matches('/rooms/lobby', {}, next);
+      matches('/unknown', {}, next);
+
+      expect(next.mock.calls).toEqual([[null, true], [null, false]]);
+    });
+
+    it('should reject clients of the main namespace', async () => {
+      const error = await new Promise<Error & { data?: unknown }>((resolve) =>
+        mockIO.use.mock.calls[0][0]({ ...mockSocket, nsp: { name: '/' } } as any, resolve as any),
+      );
+
+      expect(error.data).toMatchObject({ code: 'NOT_FOUND' });
     });
   });
 
@@ -77,44 +185,128 @@ describe('SocketServer', () => {
 
     beforeEach(() => {
       // Get the connection handler that was registered
-      const onCalls = mockIO.on.mock.calls;
+      const onCalls = mockNamespaces.on.mock.calls;
       const connectionCall = onCalls.find(call => call[0] === 'connection');
       connectionHandler = connectionCall![1];
     });
 
+    const trigger = async (event: string, ...args: unknown[]) => {
+      const handler = mockSocket.on.mock.calls.find(call => call[0] === event)![1];
+      handler(...args);
+      await new Promise((resolve) => setImmediate(resolve));
+    };
+
     it('should set up event listeners when socket connects', () => {
       connectionHandler(mockSocket);
 
-      expect(mockSocket.on).toHaveBeenCalledWith('subscribe-timezone', expect.any(Function));
+      expect(EchoWebSocket).toBeDefined();
+      expect(mockSocket.on).toHaveBeenCalledWith('echo', expect.any(Function));
+      expect(mockSocket.on).toHaveBeenCalledWith('login', expect.any(Function));
       expect(mockSocket.on).toHaveBeenCalledWith('disconnect', expect.any(Function));
       expect(mockSocket.on).toHaveBeenCalledWith('error', expect.any(Function));
     });
 
-    it('should handle subscribe-timezone event', () => {
-      // Register a mock WebSocket route
-      const mockControllerClass = class TestController {
-        constructor(public timezone: string, public service: TimezoneService) {}
-        onConnect = jest.fn();
-        cleanup = jest.fn();
-      };
+    it('should only dispatch to the controller of the namespace, with its path parameters', async () => {
+      const roomSocket = { ...mockSocket, id: 'room-socket-id', nsp: { name: '/rooms/lobby' }, on: jest.fn() } as any;
+
+      connectionHandler(mockSocket);
+      connectionHandler(roomSocket);
+      await new Promise((resolve) => setImmediate(resolve));
 
-      routingRegistry.registerWebSocketRoute(mockControllerClass, '/time/live/:timezone');
+      expect(RoomWebSocket).toBeDefined();
+      expect(events).toEqual(['connect:lobby']);
+      expect(mockSocket.on).not.toHaveBeenCalledWith('leave-room', expect.any(Function));
+      expect(roomSocket.on.mock.calls.map(([event]: unknown[]) => event)).toEqual(['leave-room', 'disconnect', 'error']);
+    });
 
+    it('should inject the payload and socket and acknowledge the return value', async () => {
+      const ack = jest.fn();
       connectionHandler(mockSocket);
 
-      // Get the subscribe-timezone handler
-      const subscribeHandler = mockSocket.on.mock.calls.find(
-        call => call[0] === 'subscribe-timezone'
-      )![1];
+      await trigger('echo', { text: 'hello' }, ack);
+
+      expect(ack).toHaveBeenCalledWith({ text: 'hello' });
+      expect(events).toEqual(['echo:test-socket-id']);
+    });
 
-      // Mock service registration
-      const mockTimezoneService = new TimezoneService();
-      serviceRegistry.registerService(TimezoneService, mockTimezoneService);
+    it('should inject services into a single shared controller instance', async () => {
+      const ack = jest.fn();
+      const instancesBefore = EchoWebSocket.instances;
+      connectionHandler(mockSocket);
 
-      // Call the handler
-      subscribeHandler({ timezone: 'UTC' });
+      await trigger('valid-timezone', 'Europe/Paris', ack);
+      await trigger('valid-timezone', 'Mars/Olympus', ack);
 
-      expect(mockSocket.join).toHaveBeenCalledWith('timezone-UTC');
+      expect(ack.mock.calls).toEqual([[true], [false]]);
+      expect(EchoWebSocket.instances).toBe(instancesBefore + 1);
+    });
+
+    it('should reject invalid payloads before calling the handler', async () => {
+      const ack = jest.fn();
+      connectionHandler(mockSocket);
+
+      await trigger('echo', { text: '' }, ack);
+
+      expect(events).toEqual([]);
+      expect(ack).toHaveBeenCalledWith({
+        error: {
+          error: 'Validation failed',
+          code: 'VALIDATION_FAILED',
+          message: 'Payload text must be at least 1 characters',
+          details: [{ location: 'body', field: 'text', message: 'must be at least 1 characters' }],
+        },
+      });
+    });
+
+    it('should emit an error event when there is no acknowledgement callback', async () => {
+      connectionHandler(mockSocket);
+
+      await trigger('login', { token: 'wrong' });
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('error', {
+        error: 'Unauthorized',
+        code: 'UNAUTHORIZED',
+        message: 'Invalid token',
+      });
+    });
+
+    it('should reject missing required payload properties', async () => {
+      const ack = jest.fn();
+      connectionHandler(mockSocket);
+
+      await trigger('login', {}, ack);
+
+      expect(ack).toHaveBeenCalledWith({
+        error: expect.objectContaining({
+          code: 'MISSING_PARAMETER',
+          message: "Payload property 'token' is required",
+        }),
+      });
+    });
+
+    it('should hide unexpected errors behind a generic internal error', async () => {
+      const ack = jest.fn();
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      connectionHandler(mockSocket);
+
+      await trigger('crash', undefined, ack);
+
+      expect(ack).toHaveBeenCalledWith({
+        error: {
+          error: 'Internal server error',
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'An unexpected error occurred',
+        },
+      });
+      consoleError.mockRestore();
+    });
+
+    it('should call @OnDisconnect handlers with the reason', async () => {
+      connectionHandler(mockSocket);
+
+      await trigger('disconnect', 'transport close');
+
+      expect(events).toEqual(['disconnect:test-socket-id:transport close']);
     });
 
     it('should handle disconnect event', () => {
@@ -147,29 +339,125 @@ describe('SocketServer', () => {
     });
   });
 
-  describe('timezone subscription handling', () => {
-    it('should handle timezone subscription flow', () => {
-      // This is an integration-style test that verifies the overall flow
-      // without testing private methods directly
-      expect(socketServer).toBeDefined();
-      expect(mockIO.on).toHaveBeenCalledWith('connection', expect.any(Function));
-      
-      // Verify that connection handler sets up socket event listeners
-      const connectionHandler = mockIO.on.mock.calls.find(call => call[0] === 'connection')![1];
-      connectionHandler(mockSocket);
-      
-      expect(mockSocket.on).toHaveBeenCalledWith('subscribe-timezone', expect.any(Function));
-      expect(mockSocket.on).toHaveBeenCalledWith('disconnect', expect.any(Function));
-      expect(mockSocket.on).toHaveBeenCalledWith('error', expect.any(Function));
+  describe('handshake authentication', () => {
+    let gateway: RealtimeGateway;
+    let middleware: (socket: Socket, next: (error?: Error & { data?: unknown }) => void) => void;
+
+    // Run the handshake middleware and resolve with the error it rejected the socket with
+    const handshake = (socket: Socket) =>
+      new Promise<(Error & { data?: unknown }) | undefined>((resolve) => middleware(socket, resolve));
+
+    const createSocket = (auth: Record<string, unknown> = {}, namespace = '/echo') =>
+      ({
+        ...mockSocket,
+        handshake: { auth, headers: {}, query: {} },
+        nsp: { name: namespace },
+        data: {},
+      }) as any;
+
+    beforeEach(() => {
+      gateway = serviceRegistry.getOrCreateService<RealtimeGateway>(RealtimeGateway);
+      gateway.useAuthentication({
+        authenticator: new HandshakeAuthenticator({
+          apiKeys: { 'reader-key': { id: 'reader', scopes: ['time:read'] } },
+          tokenSecret: 'test-secret',
+        }),
+        rules: [
+          { namespace: '/admin', scopes: ['admin'] },
+          { room: 'private-*', scopes: ['admin'] },
+        ],
+      });
+      middleware = mockNamespaces.use.mock.calls[0][0];
+    });
+
+    afterEach(() => {
+      gateway.useAuthentication(undefined);
+    });
+
+    it('should accept an API key and expose the principal to handlers', async () => {
+      const socket = createSocket({ apiKey: 'reader-key' });
+      const ack = jest.fn();
+
+      expect(await handshake(socket)).toBeUndefined();
+      expect(socket.data.principal).toEqual({ id: 'reader', type: 'api-key', scopes: ['time:read'] });
+
+      mockNamespaces.on.mock.calls.find(call => call[0] === 'connection')![1](socket);
+      socket.on.mock.calls.find((call: unknown[]) => call[0] === 'whoami')[1](undefined, ack);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(ack).toHaveBeenCalledWith('reader');
+    });
+
+    it('should accept a signed token', async () => {
+      const socket = createSocket({ token: signToken({ sub: 'device-7', scopes: ['time:read'] }, 'test-secret', 60) });
+
+      expect(await handshake(socket)).toBeUndefined();
+      expect(socket.data.principal).toEqual({ id: 'device-7', type: 'token', scopes: ['time:read'] });
+    });
+
+    it('should reject clients without credentials with a structured connect_error', async () => {
+      const error = await handshake(createSocket());
+
+      expect(error?.message).toBe("Authentication required, send an 'apiKey' or 'token'");
+      expect(error?.data).toEqual({
+        error: 'Unauthorized',
+        code: 'AUTHENTICATION_REQUIRED',
+        message: "Authentication required, send an 'apiKey' or 'token'",
+      });
+    });
+
+    it('should reject unknown API keys and tampered tokens', async () => {
+      const token = signToken({ sub: 'device-7' }, 'another-secret');
+
+      expect((await handshake(createSocket({ apiKey: 'guessed-key' })))?.data).toMatchObject({
+        code: 'INVALID_CREDENTIALS',
+      });
+      expect((await handshake(createSocket({ token })))?.data).toMatchObject({ code: 'INVALID_TOKEN' });
+    });
+
+    it('should apply the namespace rules', async () => {
+      const error = await handshake(createSocket({ apiKey: 'reader-key' }, '/admin'));
+
+      expect(error?.data).toEqual({
+        error: 'Forbidden',
+        code: 'INSUFFICIENT_SCOPE',
+        message: "Access to namespace '/admin' requires the scopes: admin",
+        details: { namespace: '/admin', missing_scopes: ['admin'] },
+      });
+    });
+
+    it('should apply the room rules when joining rooms', async () => {
+      const socket = createSocket({ apiKey: 'reader-key' });
+      const ack = jest.fn();
+      await handshake(socket);
+
+      mockNamespaces.on.mock.calls.find(call => call[0] === 'connection')![1](socket);
+      const join = socket.on.mock.calls.find((call: unknown[]) => call[0] === 'join')[1];
+      join('timezone-Etc/UTC', ack);
+      join('private-ops', ack);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(socket.join.mock.calls).toEqual([['timezone-Etc/UTC']]);
+      expect(ack.mock.calls).toEqual([
+        [{ joined: 'timezone-Etc/UTC' }],
+        [{ error: expect.objectContaining({ code: 'INSUFFICIENT_SCOPE' }) }],
+      ]);
     });
   });
 
   describe('utility methods', () => {
+    it('should emit to a room', () => {
+      socketServer.emitToRoom('dashboard', 'test-event', { data: 'test' });
+
+      expect(mockNamespaces.to).toHaveBeenCalledWith('dashboard');
+      expect(mockNamespaces.emit).toHaveBeenCalledWith('test-event', { data: 'test' });
+    });
+
     it('should emit to timezone room', () => {
       socketServer.emitToTimezone('UTC', 'test-event', { data: 'test' });
 
-      expect(mockIO.to).toHaveBeenCalledWith('timezone-UTC');
-      expect(mockIO.emit).toHaveBeenCalledWith('test-event', { data: 'test' });
+      expect(mockNamespaces.to).toHaveBeenCalledWith('timezone-UTC');
+      expect(mockNamespaces.emit).toHaveBeenCalledWith('test-event', { data: 'test' });
     });
 
     it('should emit to specific client', () => {
@@ -179,13 +467,11 @@ describe('SocketServer', () => {
     });
 
     it('should get clients in timezone', async () => {
-      const mockSocketIds = new Set(['socket1', 'socket2']);
-      mockIO.allSockets.mockResolvedValue(mockSocketIds);
+      const connect = mockNamespaces.on.mock.calls.find(call => call[0] === 'connection')![1];
+      connect({ ...mockSocket, id: 'socket1', rooms: new Set(['socket1', 'timezone-UTC']) });
+      connect({ ...mockSocket, id: 'socket2', rooms: new Set(['socket2', 'timezone-Asia/Tokyo']) });
 
-      const result = await socketServer.getClientsInTimezone('UTC');
-
-      expect(mockIO.in).toHaveBeenCalledWith('timezone-UTC');
-      expect(result).toBe(mockSocketIds);
+      await expect(socketServer.getClientsInTimezone('UTC')).resolves.toEqual(new Set(['socket1']));
     });
 
     it('should return IO server instance', () => {
@@ -194,6 +480,23 @@ describe('SocketServer', () => {
     });
   });
 
+  describe('health', () => {
+    it('should be up while the HTTP server listens and until cleanup', async () => {
+      mockNamespaces.on.mock.calls.find(call => call[0] === 'connection')![1](mockSocket);
+      expect(socketServer.check()).toEqual({ status: 'down', details: { listening: false, clients: 1 } });
+
+      await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+      try {
+        expect(socketServer.check()).toEqual({ status: 'up', details: { listening: true, clients: 1 } });
+
+        socketServer.cleanup();
+        expect(socketServer.check()).toEqual({ status: 'down', details: { listening: false, clients: 0 } });
+      } finally {
+        await new Promise((resolve) => httpServer.close(resolve));
+      }
+    });
+  });
+
   describe('cleanup', () => {
     it('should close server on cleanup', () => {
       socketServer.cleanup();
@@ -0,0 +1,124 @@
+import { TickScheduler } from '@services/scheduler/TickScheduler';
+
+describe('TickScheduler', () => {
+  let scheduler: TickScheduler;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2023-01-01T12:00:00.400Z'));
+    scheduler = new TickScheduler();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  it('should not run without listeners', () => {
+    expect(scheduler.isRunning()).toBe(false);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should align ticks to the start of each second', () => {
+    const listener = jest.fn();
+    scheduler.subscribe(listener);
+
+    jest.advanceTimersByTime(599);
+    expect(listener).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(listener).toHaveBeenCalledWith(new Date('2023-01-01T12:00:01.000Z'));
+
+    jest.advanceTimersByTime(1000);
+    expect(listener).toHaveBeenLastCalledWith(new Date('2023-01-01T12:00:02.000Z'));
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share one timer between listeners', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+
+    scheduler.subscribe(first);
+    scheduler.subscribe(second);
+
+    expect(jest.getTimerCount()).toBe(1);
+
+    jest.advanceTimersByTime(600);
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop once the last listener unsubscribes', () => {
+    const listener = jest.fn();
+    const unsubscribe = scheduler.subscribe(listener);
+
+    unsubscribe();
+    jest.advanceTimersByTime(5000);
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(scheduler.isRunning()).toBe(false);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should stop when the last listener unsubscribes during a tick', () => {
+    const unsubscribe = scheduler.subscribe(() => unsubscribe());
+
+    jest.advanceTimersByTime(600);
+
+    expect(scheduler.isRunning()).toBe(false);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should keep ticking when a listener throws', () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    const listener = jest.fn();
+
+    scheduler.subscribe(() => {
+      throw new Error('Listener failure');
+    });
+    scheduler.subscribe(listener);
+
+    jest.advanceTimersByTime(1600);
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Error in tick listener'));
+    consoleSpy.mockRestore();
+  });
+
+  it('should skip ticks missed while the event loop was blocked', () => {
+    const ticks: Date[] = [];
+    scheduler.subscribe(tick => {
+      ticks.push(tick);
+      if (ticks.length === 1) {
+        // Simulate a listener blocking for 2.5 seconds
+        jest.setSystemTime(Date.now() + 2500);
+      }
+    });
+
+    jest.advanceTimersByTime(600);
+    jest.advanceTimersByTime(600);
+
+    expect(ticks).toEqual([new Date('2023-01-01T12:00:01.000Z'), new Date('2023-01-01T12:00:04.000Z')]);
+  });
+
+  it('should report the latest boundary after the clock jumps', () => {
+    const listener = jest.fn();
+    scheduler.subscribe(listener);
+
+    jest.setSystemTime(new Date('2023-01-01T13:00:00.400Z'));
+    jest.advanceTimersByTime(600);
+
+    expect(listener).toHaveBeenCalledWith(new Date('2023-01-01T13:00:01.000Z'));
+  });
+
+  it('should support custom intervals', () => {
+    scheduler = new TickScheduler(60000);
+    const listener = jest.fn();
+    scheduler.subscribe(listener);
+
+    jest.advanceTimersByTime(59600);
+
+    expect(listener).toHaveBeenCalledWith(new Date('2023-01-01T12:01:00.000Z'));
+  });
+});
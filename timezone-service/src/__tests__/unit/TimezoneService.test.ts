@@ -1,5 +1,6 @@
 import { TimezoneService } from '@services/timezone/TimezoneService';
 import type { TimezoneValidationResult } from '@services/timezone/types';
+import { ServiceRegistry, s } from '@shared';
 
 describe('TimezoneService', () => {
   let timezoneService: TimezoneService;
@@ -48,6 +49,20 @@ describe('TimezoneService', () => {
       expect(timezoneService.isValidTimezone('GMT')).toBe(true); // GMT is valid
       expect(timezoneService.isValidTimezone('America/Argentina/Buenos_Aires')).toBe(true);
     });
+
+    it('should check the identifiers of s.timezone() schemas with the registered service', () => {
+      const registry = ServiceRegistry.getInstance();
+      registry.registerService(TimezoneService, { isValidTimezone: (timezone: string) => timezone === 'Mars/Olympus' });
+
+      try {
+        expect(s.timezone().isValid('Mars/Olympus')).toBe(true);
+        expect(s.timezone().isValid('Europe/London')).toBe(false);
+      } finally {
+        registry.clear();
+      }
+
+      expect(s.timezone().isValid('Europe/London')).toBe(true);
+    });
   });
 
   describe('getTimeInTimezone', () => {
@@ -71,6 +86,60 @@ describe('TimezoneService', () => {
       const result = timezoneService.getTimeInTimezone('America/Argentina/Buenos_Aires');
       expect(result).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}[+-]\d{2}:\d{2}$/);
     });
+
+    it('should convert a given instant', () => {
+      const at = new Date('2023-01-01T12:00:00.000Z');
+
+      expect(timezoneService.getTimeInTimezone('Asia/Tokyo', at)).toBe('2023-01-01T21:00:00+09:00');
+      expect(timezoneService.getTimeInTimezone('America/New_York', at)).toBe('2023-01-01T07:00:00-05:00');
+    });
+  });
+
+  describe('getUtcOffset', () => {
+    it('should return the offset in minutes', () => {
+      const at = new Date('2023-01-01T12:00:00.000Z');
+
+      expect(timezoneService.getUtcOffset('Etc/UTC', at)).toBe(0);
+      expect(timezoneService.getUtcOffset('Asia/Kolkata', at)).toBe(330);
+      expect(timezoneService.getUtcOffset('America/New_York', at)).toBe(-300);
+    });
+
+    it('should follow daylight saving time', () => {
+      expect(timezoneService.getUtcOffset('Europe/London', new Date('2023-01-15T12:00:00.000Z'))).toBe(0);
+      expect(timezoneService.getUtcOffset('Europe/London', new Date('2023-07-15T12:00:00.000Z'))).toBe(60);
+    });
+  });
+
+  describe('getNextOffsetTransition', () => {
+    it('should find the start of daylight saving time', () => {
+      const transition = timezoneService.getNextOffsetTransition('Europe/London', new Date('2023-03-01T00:00:00.000Z'));
+
+      expect(transition).toEqual({
+        at: new Date('2023-03-26T01:00:00.000Z'),
+        offsetBefore: 0,
+        offsetAfter: 60
+      });
+    });
+
+    it('should find the end of daylight saving time', () => {
+      const transition = timezoneService.getNextOffsetTransition('America/New_York', new Date('2023-07-01T00:00:00.000Z'));
+
+      expect(transition).toEqual({
+        at: new Date('2023-11-05T06:00:00.000Z'),
+        offsetBefore: -240,
+        offsetAfter: -300
+      });
+    });
+
+    it('should search after the given instant', () => {
+      const transition = timezoneService.getNextOffsetTransition('Europe/London', new Date('2023-03-26T01:00:00.000Z'));
+
+      expect(transition?.at).toEqual(new Date('2023-10-29T01:00:00.000Z'));
+    });
+
+    it('should return undefined for timezones without transitions', () => {
+      expect(timezoneService.getNextOffsetTransition('Asia/Tokyo', new Date('2023-01-01T00:00:00.000Z'))).toBeUndefined();
+    });
   });
 
   describe('getValidatedTimeInTimezone', () => {
@@ -1,351 +1,603 @@
-import { Socket } from 'socket.io';
+import { TimezoneWebSocket } from '@controllers/TimezoneWebSocket';
+import { RealtimeGateway } from '@routing/RealtimeGateway';
+import { MetricsRegistry, TickScheduler, TimezoneService } from '@services';
+import { Logger, RealtimeConnection, RoutingRegistry } from '@shared';
 
-import { SocketIOClient, TimezoneWebSocket } from '@controllers/TimezoneWebSocket';
-import { TimezoneService } from '@services';
-
-// Mock TimezoneService
+// Mock TimezoneService, keep the real TickScheduler
 jest.mock('@services', () => ({
+  ...jest.requireActual('@services'),
   TimezoneService: jest.fn().mockImplementation(() => ({
     getValidatedTimeInTimezone: jest.fn(),
+    getUtcOffset: jest.fn(),
   })),
 }));
 
+const createMockSocket = (id: string): jest.Mocked<RealtimeConnection> =>
+  ({
+    id,
+    transport: 'socket.io',
+    params: {},
+    query: {},
+    logger: new Logger(),
+    emit: jest.fn(),
+    on: jest.fn(),
+    join: jest.fn(),
+    leave: jest.fn(),
+    disconnect: jest.fn(),
+  }) as any;
+
+const zoneTime = (timezone: string, utc_offset: string = '+00:00') => ({
+  timezone,
+  current_time: `time-in-${timezone}`,
+  utc_offset,
+});
+
 describe('TimezoneWebSocket', () => {
   let timezoneWebSocket: TimezoneWebSocket;
   let mockTimezoneService: jest.Mocked<TimezoneService>;
-  let mockSocket: jest.Mocked<Socket>;
-  let mockClient: SocketIOClient;
+  let mockGateway: jest.Mocked<RealtimeGateway>;
+  let tickScheduler: TickScheduler;
+  let mockSocket: jest.Mocked<RealtimeConnection>;
+  let metrics: MetricsRegistry;
 
   beforeEach(() => {
+    // Use fake timers, 250ms into a second
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2023-01-01T12:00:00.250Z'));
+
     // Create mock socket
-    mockSocket = {
-      emit: jest.fn(),
-      on: jest.fn(),
-      disconnect: jest.fn(),
-    } as any;
+    mockSocket = createMockSocket('socket-1');
 
-    // Create mock timezone service
+    // Create mock timezone service and realtime gateway
     mockTimezoneService = new TimezoneService() as jest.Mocked<TimezoneService>;
+    mockGateway = { emitToRoom: jest.fn(), emitToTimezone: jest.fn() } as any;
+    tickScheduler = new TickScheduler();
+    metrics = new MetricsRegistry({ processMetrics: false });
 
     // Create TimezoneWebSocket instance
-    timezoneWebSocket = new TimezoneWebSocket('UTC', mockTimezoneService);
-
-    // Create mock client
-    mockClient = {
-      socket: mockSocket,
-      timezone: 'UTC',
-    };
+    timezoneWebSocket = new TimezoneWebSocket(mockTimezoneService, tickScheduler, mockGateway, new Logger(), metrics);
 
-    // Setup default successful response
-    mockTimezoneService.getValidatedTimeInTimezone.mockReturnValue({
+    // Setup default successful responses
+    mockTimezoneService.getValidatedTimeInTimezone.mockImplementation(timezone => ({
       success: true,
-      time: '2023-01-01T12:00:00.000Z',
-    });
+      time: `time-in-${timezone}`,
+    }));
+    mockTimezoneService.getUtcOffset.mockReturnValue(0);
 
     // Mock Date.prototype.toISOString for consistent timestamps
     jest.spyOn(Date.prototype, 'toISOString').mockReturnValue('2023-01-01T12:00:00.000Z');
-
-    // Use fake timers
-    jest.useFakeTimers();
-
-    // Mock setInterval and clearInterval
-    global.setInterval = jest.fn(global.setInterval) as any;
-    global.clearInterval = jest.fn(global.clearInterval) as any;
   });
 
   afterEach(() => {
+    timezoneWebSocket.cleanup();
     jest.clearAllMocks();
     jest.useRealTimers();
     jest.restoreAllMocks();
   });
 
   describe('constructor', () => {
-    it('should initialize with timezone and service', () => {
+    it('should initialize with services', () => {
       expect(timezoneWebSocket).toBeDefined();
-      expect(timezoneWebSocket['timezone']).toBe('UTC');
       expect(timezoneWebSocket['timezoneService']).toBe(mockTimezoneService);
+      expect(timezoneWebSocket['tickScheduler']).toBe(tickScheduler);
     });
 
-    it('should initialize empty clients set', () => {
+    it('should initialize empty clients map', () => {
       expect(timezoneWebSocket.getConnectedClientsCount()).toBe(0);
     });
+
+    it('should not listen to the tick scheduler before any subscription', () => {
+      expect(tickScheduler.isRunning()).toBe(false);
+    });
+  });
+
+  describe('handler metadata', () => {
+    it('should declare its handlers', () => {
+      const handlers = RoutingRegistry.getInstance().getWebSocketHandlers(TimezoneWebSocket);
+
+      expect(handlers.map(handler => [handler.kind, handler.event, handler.handler])).toEqual([
+        ['connect', 'connect', 'onConnect'],
+        ['message', 'subscribe', 'subscribe'],
+        ['message', 'unsubscribe', 'unsubscribe'],
+        ['message', 'subscribe-timezone', 'subscribeTimezone'],
+        ['message', 'get-time', 'getTime'],
+        ['message', 'change-timezone', 'changeTimezone'],
+        ['disconnect', 'disconnect', 'onDisconnect'],
+      ]);
+    });
+
+    it('should validate subscription payloads', () => {
+      const handlers = RoutingRegistry.getInstance().getWebSocketHandlers(TimezoneWebSocket);
+      const subscribe = handlers.find(handler => handler.event === 'subscribe')!;
+
+      expect(subscribe.payload!.validate({ timezones: [] })).toEqual([{ path: 'timezones', message: 'must contain at least 1 items' }]);
+      expect(subscribe.payload!.validate({ timezones: ['UTC'], granularity: 'day' })).toEqual([
+        { path: 'granularity', message: expect.stringContaining('must be one of') },
+      ]);
+      expect(subscribe.payload!.validate({ timezones: ['UTC', 'Europe/London'], granularity: 'minute' })).toEqual([]);
+    });
+
+    it('should inject the tick scheduler, realtime gateway, logger and metrics', () => {
+      const metadata = RoutingRegistry.getInstance().getWebSocketMetadata(TimezoneWebSocket)!;
+
+      expect(metadata.parameters.map(param => param.serviceType)).toEqual([
+        TimezoneService,
+        TickScheduler,
+        RealtimeGateway,
+        Logger,
+        MetricsRegistry,
+      ]);
+    });
   });
 
   describe('onConnect', () => {
-    it('should add client to clients set', () => {
-      timezoneWebSocket.onConnect(mockClient);
+    it('should subscribe to the timezones of the connection URL', async () => {
+      await timezoneWebSocket.onConnect('Asia/Tokyo', ['UTC'], 'minute', mockSocket);
 
+      expect(mockSocket.join).toHaveBeenCalledWith('time-batch-Asia/Tokyo=minute,UTC=minute');
+      expect(mockSocket.emit).toHaveBeenCalledWith('time-update', {
+        type: 'time_update',
+        times: [zoneTime('Asia/Tokyo'), zoneTime('UTC')],
+        timestamp: '2023-01-01T12:00:00.000Z',
+      });
+    });
+
+    it('should leave connections without timezones unsubscribed', async () => {
+      await timezoneWebSocket.onConnect(undefined, undefined, undefined, mockSocket);
+
+      expect(mockSocket.join).not.toHaveBeenCalled();
+      expect(timezoneWebSocket.getConnectedClientsCount()).toBe(0);
+    });
+
+    it('should validate the connection parameters', () => {
+      const handlers = RoutingRegistry.getInstance().getWebSocketHandlers(TimezoneWebSocket);
+      const onConnect = handlers.find(handler => handler.kind === 'connect')!;
+
+      expect(onConnect.payload!.validate({ timezone: 'Mars/Olympus' })).toEqual([
+        { path: 'timezone', message: 'must be a valid timezone identifier' },
+      ]);
+      // Connect handlers read the query string
+      expect(
+        onConnect.payload!.validate({ EIO: '4', timezones: 'UTC', granularity: 'hour' }, '', { strings: true }),
+      ).toEqual([]);
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should join the timezone rooms and a shared batch room', async () => {
+      const result = await timezoneWebSocket.subscribe(['UTC', 'Asia/Tokyo'], undefined, mockSocket);
+
+      expect(result).toEqual({
+        subscriptions: [
+          { timezone: 'UTC', granularity: 'second' },
+          { timezone: 'Asia/Tokyo', granularity: 'second' },
+        ],
+      });
+      expect(mockSocket.join).toHaveBeenCalledWith('timezone-UTC');
+      expect(mockSocket.join).toHaveBeenCalledWith('timezone-Asia/Tokyo');
+      expect(mockSocket.join).toHaveBeenCalledWith('time-batch-Asia/Tokyo=second,UTC=second');
       expect(timezoneWebSocket.getConnectedClientsCount()).toBe(1);
     });
 
-    it('should send initial time update', () => {
-      timezoneWebSocket.onConnect(mockClient);
+    it('should send an initial batch with every subscribed timezone', async () => {
+      mockTimezoneService.getUtcOffset.mockImplementation(timezone => (timezone === 'Asia/Kolkata' ? 330 : 0));
+
+      await timezoneWebSocket.subscribe(['UTC', 'Asia/Kolkata'], undefined, mockSocket);
 
       expect(mockSocket.emit).toHaveBeenCalledWith('time-update', {
         type: 'time_update',
-        timezone: 'UTC',
-        current_time: '2023-01-01T12:00:00.000Z',
+        times: [zoneTime('UTC'), zoneTime('Asia/Kolkata', '+05:30')],
         timestamp: '2023-01-01T12:00:00.000Z',
       });
     });
 
-    it('should set up interval for periodic updates', () => {
-      timezoneWebSocket.onConnect(mockClient);
+    it('should add to the existing subscriptions', async () => {
+      await timezoneWebSocket.subscribe(['UTC'], undefined, mockSocket);
+      const result = await timezoneWebSocket.subscribe('Europe/London', 'minute', mockSocket);
+
+      expect(result.subscriptions).toEqual([
+        { timezone: 'UTC', granularity: 'second' },
+        { timezone: 'Europe/London', granularity: 'minute' },
+      ]);
+      expect(mockSocket.leave).toHaveBeenCalledWith('time-batch-UTC=second');
+      expect(mockSocket.join).toHaveBeenCalledWith('time-batch-Europe/London=minute,UTC=second');
+      expect(timezoneWebSocket.getConnectedClientsCount()).toBe(1);
+    });
+
+    it('should update the granularity of a subscribed timezone', async () => {
+      await timezoneWebSocket.subscribe(['UTC'], undefined, mockSocket);
+      const result = await timezoneWebSocket.subscribe(['UTC'], 'hour', mockSocket);
+
+      expect(result.subscriptions).toEqual([{ timezone: 'UTC', granularity: 'hour' }]);
+      expect(mockSocket.join).toHaveBeenCalledTimes(3); // timezone room and two batch rooms
+    });
+
+    it('should start the shared tick', async () => {
+      await timezoneWebSocket.subscribe(['UTC'], undefined, mockSocket);
 
-      expect(global.setInterval).toHaveBeenCalledWith(expect.any(Function), 1000);
+      expect(tickScheduler.isRunning()).toBe(true);
+      expect(tickScheduler.getListenerCount()).toBe(1);
     });
 
-    it('should set up disconnect event listener', () => {
-      timezoneWebSocket.onConnect(mockClient);
+    it('should limit the number of timezones per socket', async () => {
+      const timezones = Array.from({ length: 50 }, (_, index) => `Zone/${index}`);
+      await timezoneWebSocket.subscribe(timezones, undefined, mockSocket);
+
+      await expect(timezoneWebSocket.subscribe(['UTC'], undefined, mockSocket)).rejects.toMatchObject({
+        status: 400,
+        code: 'TOO_MANY_SUBSCRIPTIONS',
+      });
+    });
+  });
 
-      expect(mockSocket.on).toHaveBeenCalledWith('disconnect', expect.any(Function));
+  describe('unsubscribe', () => {
+    beforeEach(async () => {
+      await timezoneWebSocket.subscribe(['UTC', 'Asia/Tokyo'], undefined, mockSocket);
     });
 
-    it('should set up get-time event listener', () => {
-      timezoneWebSocket.onConnect(mockClient);
+    it('should remove the given timezones', async () => {
+      const result = await timezoneWebSocket.unsubscribe(['Asia/Tokyo'], mockSocket);
 
-      expect(mockSocket.on).toHaveBeenCalledWith('get-time', expect.any(Function));
+      expect(result).toEqual({ subscriptions: [{ timezone: 'UTC', granularity: 'second' }] });
+      expect(mockSocket.leave).toHaveBeenCalledWith('timezone-Asia/Tokyo');
+      expect(mockSocket.join).toHaveBeenCalledWith('time-batch-UTC=second');
     });
 
-    it('should set up change-timezone event listener', () => {
-      timezoneWebSocket.onConnect(mockClient);
+    it('should remove every timezone when none are given', async () => {
+      const result = await timezoneWebSocket.unsubscribe(undefined, mockSocket);
 
-      expect(mockSocket.on).toHaveBeenCalledWith('change-timezone', expect.any(Function));
+      expect(result).toEqual({ subscriptions: [] });
+      expect(mockSocket.leave).toHaveBeenCalledWith('timezone-UTC');
+      expect(mockSocket.leave).toHaveBeenCalledWith('time-batch-Asia/Tokyo=second,UTC=second');
+      expect(timezoneWebSocket.getConnectedClientsCount()).toBe(0);
+      expect(tickScheduler.isRunning()).toBe(false);
     });
 
-    it('should handle get-time event', () => {
-      timezoneWebSocket.onConnect(mockClient);
+    it('should reject sockets that did not subscribe', async () => {
+      await expect(timezoneWebSocket.unsubscribe(undefined, createMockSocket('socket-2'))).rejects.toMatchObject({
+        code: 'NOT_SUBSCRIBED',
+      });
+    });
+  });
 
-      // Find and call the get-time handler
-      const getTimeHandler = mockSocket.on.mock.calls.find(call => call[0] === 'get-time')?.[1];
-      expect(getTimeHandler).toBeDefined();
+  describe('subscribeTimezone', () => {
+    it('should replace every subscription with a single timezone', async () => {
+      await timezoneWebSocket.subscribe(['UTC', 'Asia/Tokyo'], undefined, mockSocket);
 
-      // Reset emit calls and call handler
+      const result = await timezoneWebSocket.subscribeTimezone('Europe/London', undefined, mockSocket);
+
+      expect(result).toEqual({ timezone: 'Europe/London' });
+      expect(mockSocket.leave).toHaveBeenCalledWith('timezone-UTC');
+      expect(mockSocket.leave).toHaveBeenCalledWith('timezone-Asia/Tokyo');
+      expect(mockSocket.join).toHaveBeenCalledWith('timezone-Europe/London');
+      expect(mockSocket.emit).toHaveBeenLastCalledWith('time-update', {
+        type: 'time_update',
+        times: [zoneTime('Europe/London')],
+        timestamp: '2023-01-01T12:00:00.000Z',
+      });
+    });
+  });
+
+  describe('getTime', () => {
+    it('should send and return a batch with every subscribed timezone', async () => {
+      await timezoneWebSocket.subscribe(['UTC', 'Asia/Tokyo'], 'hour', mockSocket);
       mockSocket.emit.mockClear();
-      getTimeHandler!();
 
-      expect(mockSocket.emit).toHaveBeenCalledWith('time-update', {
+      const message = timezoneWebSocket.getTime(mockSocket);
+
+      expect(message).toEqual({
         type: 'time_update',
-        timezone: 'UTC',
-        current_time: '2023-01-01T12:00:00.000Z',
+        times: [zoneTime('UTC'), zoneTime('Asia/Tokyo')],
         timestamp: '2023-01-01T12:00:00.000Z',
       });
+      expect(mockSocket.emit).toHaveBeenCalledWith('time-update', message);
     });
 
-    it('should handle change-timezone event', () => {
-      timezoneWebSocket.onConnect(mockClient);
+    it('should emit errors for timezones that cannot be computed', async () => {
+      await timezoneWebSocket.subscribe(['UTC'], undefined, mockSocket);
+      mockTimezoneService.getValidatedTimeInTimezone.mockReturnValue({
+        success: false,
+        code: 'INVALID_TIMEZONE',
+        error: 'Invalid timezone',
+      });
 
-      // Find and call the change-timezone handler
-      const changeTimezoneHandler = mockSocket.on.mock.calls.find(
-        call => call[0] === 'change-timezone'
-      )?.[1];
-      expect(changeTimezoneHandler).toBeDefined();
+      const message = timezoneWebSocket.getTime(mockSocket);
 
-      // Reset emit calls and call handler
+      expect(message.times).toEqual([]);
+      expect(mockSocket.emit).toHaveBeenCalledWith('error', {
+        type: 'error',
+        timezone: 'UTC',
+        error: 'Invalid timezone',
+        timestamp: '2023-01-01T12:00:00.000Z',
+      });
+    });
+
+    it('should reject sockets that did not subscribe', () => {
+      expect(() => timezoneWebSocket.getTime(mockSocket)).toThrow(
+        expect.objectContaining({ status: 400, code: 'NOT_SUBSCRIBED' })
+      );
+    });
+  });
+
+  describe('changeTimezone', () => {
+    it('should move the client to the new timezone room', async () => {
+      await timezoneWebSocket.subscribeTimezone('UTC', undefined, mockSocket);
       mockSocket.emit.mockClear();
-      changeTimezoneHandler!({ timezone: 'America/New_York' });
 
-      expect(mockClient.timezone).toBe('America/New_York');
+      const result = await timezoneWebSocket.changeTimezone('America/New_York', undefined, mockSocket);
+
+      expect(result).toEqual({ timezone: 'America/New_York' });
+      expect(mockSocket.leave).toHaveBeenCalledWith('timezone-UTC');
+      expect(mockSocket.join).toHaveBeenCalledWith('timezone-America/New_York');
       expect(mockSocket.emit).toHaveBeenCalledWith('time-update', {
         type: 'time_update',
-        timezone: 'America/New_York',
-        current_time: '2023-01-01T12:00:00.000Z',
+        times: [zoneTime('America/New_York')],
         timestamp: '2023-01-01T12:00:00.000Z',
       });
     });
+
+    it('should reject sockets that did not subscribe', async () => {
+      await expect(timezoneWebSocket.changeTimezone('UTC', undefined, mockSocket)).rejects.toMatchObject({
+        code: 'NOT_SUBSCRIBED',
+      });
+    });
   });
 
-  describe('sendTimeUpdate', () => {
-    beforeEach(() => {
-      timezoneWebSocket.onConnect(mockClient);
+  describe('tick broadcasts', () => {
+    it('should broadcast a batch at the start of the next second', async () => {
+      await timezoneWebSocket.subscribe(['UTC', 'Asia/Tokyo'], undefined, mockSocket);
+
+      jest.advanceTimersByTime(749);
+      expect(mockGateway.emitToRoom).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1);
+
+      expect(mockTimezoneService.getValidatedTimeInTimezone).toHaveBeenCalledWith('UTC', new Date('2023-01-01T12:00:01.000Z'));
+      expect(mockGateway.emitToRoom).toHaveBeenCalledWith('time-batch-Asia/Tokyo=second,UTC=second', 'time-update', {
+        type: 'time_update',
+        times: [zoneTime('UTC'), zoneTime('Asia/Tokyo')],
+        timestamp: '2023-01-01T12:00:00.000Z',
+      });
     });
 
-    it('should send successful time update', () => {
+    it('should emit once to sockets with identical subscriptions', async () => {
+      await timezoneWebSocket.subscribe(['UTC', 'Asia/Tokyo'], undefined, mockSocket);
+      await timezoneWebSocket.subscribe(['Asia/Tokyo', 'UTC'], undefined, createMockSocket('socket-2'));
       mockSocket.emit.mockClear();
 
-      // Trigger periodic update
+      jest.advanceTimersByTime(750);
+
+      expect(mockSocket.emit).not.toHaveBeenCalled();
+      expect(mockGateway.emitToRoom).toHaveBeenCalledTimes(1);
+    });
+
+    it('should compute each timezone once per tick', async () => {
+      await timezoneWebSocket.subscribe(['UTC'], undefined, mockSocket);
+      await timezoneWebSocket.subscribe(['UTC', 'Europe/London'], undefined, createMockSocket('socket-2'));
+      await timezoneWebSocket.subscribe(['Europe/London'], 'minute', createMockSocket('socket-3'));
+      mockTimezoneService.getValidatedTimeInTimezone.mockClear();
+
+      jest.advanceTimersByTime(750);
+
+      expect(mockTimezoneService.getValidatedTimeInTimezone).toHaveBeenCalledTimes(2);
+      expect(mockGateway.emitToRoom).toHaveBeenCalledTimes(2);
+    });
+
+    it('should send minute subscriptions at the start of each minute', async () => {
+      jest.setSystemTime(new Date('2023-01-01T12:00:58.250Z'));
+      await timezoneWebSocket.subscribe(['UTC'], 'minute', mockSocket);
+
+      jest.advanceTimersByTime(750);
+      expect(mockGateway.emitToRoom).not.toHaveBeenCalled();
+
       jest.advanceTimersByTime(1000);
+      expect(mockGateway.emitToRoom).toHaveBeenCalledTimes(1);
 
-      expect(mockSocket.emit).toHaveBeenCalledWith('time-update', {
+      jest.advanceTimersByTime(59000);
+      expect(mockGateway.emitToRoom).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send second subscriptions once a second when ticks are shorter', async () => {
+      timezoneWebSocket = new TimezoneWebSocket(mockTimezoneService, new TickScheduler(250), mockGateway, new Logger(), metrics);
+      await timezoneWebSocket.subscribe(['UTC'], undefined, mockSocket);
+
+      jest.advanceTimersByTime(2000);
+
+      expect(mockGateway.emitToRoom).toHaveBeenCalledTimes(2);
+      timezoneWebSocket.cleanup();
+    });
+
+    it('should send minute subscriptions on the first tick of a minute when ticks skip its start', async () => {
+      timezoneWebSocket = new TimezoneWebSocket(mockTimezoneService, new TickScheduler(7000), mockGateway, new Logger(), metrics);
+      jest.setSystemTime(new Date('2023-01-01T12:00:50.000Z'));
+      await timezoneWebSocket.subscribe(['UTC'], 'minute', mockSocket);
+
+      // Ticks at 12:00:56 and 12:01:03
+      jest.advanceTimersByTime(6000);
+      expect(mockGateway.emitToRoom).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(7000);
+      expect(mockGateway.emitToRoom).toHaveBeenCalledTimes(1);
+
+      // Up to 12:01:59
+      jest.advanceTimersByTime(56000);
+      expect(mockGateway.emitToRoom).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(7000);
+      expect(mockGateway.emitToRoom).toHaveBeenCalledTimes(2);
+      timezoneWebSocket.cleanup();
+    });
+
+    it('should send hour subscriptions at the start of each local hour', async () => {
+      mockTimezoneService.getUtcOffset.mockImplementation(timezone => (timezone === 'Asia/Kolkata' ? 330 : 0));
+      jest.setSystemTime(new Date('2023-01-01T12:29:59.250Z'));
+      await timezoneWebSocket.subscribe(['UTC', 'Asia/Kolkata'], 'hour', mockSocket);
+
+      // 12:30 UTC is 18:00 in Kolkata
+      jest.advanceTimersByTime(750);
+
+      expect(mockGateway.emitToRoom).toHaveBeenCalledWith(expect.any(String), 'time-update', {
         type: 'time_update',
-        timezone: 'UTC',
-        current_time: '2023-01-01T12:00:00.000Z',
+        times: [zoneTime('Asia/Kolkata', '+05:30')],
         timestamp: '2023-01-01T12:00:00.000Z',
       });
     });
 
-    it('should send error for invalid timezone', () => {
+    it('should send offset-change subscriptions only when the offset changes', async () => {
+      await timezoneWebSocket.subscribe(['Europe/London'], 'offset-change', mockSocket);
+
+      jest.advanceTimersByTime(3750);
+      expect(mockGateway.emitToRoom).not.toHaveBeenCalled();
+
+      mockTimezoneService.getUtcOffset.mockReturnValue(60);
+      jest.advanceTimersByTime(1000);
+
+      expect(mockGateway.emitToRoom).toHaveBeenCalledTimes(1);
+      expect(mockGateway.emitToRoom).toHaveBeenCalledWith(expect.any(String), 'time-update', {
+        type: 'time_update',
+        times: [zoneTime('Europe/London', '+01:00')],
+        timestamp: '2023-01-01T12:00:00.000Z',
+      });
+
+      jest.advanceTimersByTime(1000);
+      expect(mockGateway.emitToRoom).toHaveBeenCalledTimes(1);
+    });
+
+    it('should still send the offset change after an immediate update', async () => {
+      await timezoneWebSocket.subscribe(['Europe/London'], 'offset-change', mockSocket);
+      jest.advanceTimersByTime(750);
+
+      mockTimezoneService.getUtcOffset.mockReturnValue(60);
+      expect(timezoneWebSocket.getTime(mockSocket).times).toEqual([zoneTime('Europe/London', '+01:00')]);
+      jest.advanceTimersByTime(1000);
+
+      expect(mockGateway.emitToRoom).toHaveBeenCalledTimes(1);
+      expect(mockGateway.emitToRoom).toHaveBeenCalledWith(expect.any(String), 'time-update', {
+        type: 'time_update',
+        times: [zoneTime('Europe/London', '+01:00')],
+        timestamp: '2023-01-01T12:00:00.000Z',
+      });
+    });
+
+    it('should broadcast errors to the timezone room', async () => {
+      await timezoneWebSocket.subscribe(['UTC'], undefined, mockSocket);
       mockTimezoneService.getValidatedTimeInTimezone.mockReturnValue({
         success: false,
+        code: 'INVALID_TIMEZONE',
         error: 'Invalid timezone',
       });
 
-      mockSocket.emit.mockClear();
-
-      // Trigger periodic update
-      jest.advanceTimersByTime(1000);
+      jest.advanceTimersByTime(750);
 
-      expect(mockSocket.emit).toHaveBeenCalledWith('error', {
+      expect(mockGateway.emitToTimezone).toHaveBeenCalledWith('UTC', 'error', {
         type: 'error',
         timezone: 'UTC',
         error: 'Invalid timezone',
         timestamp: '2023-01-01T12:00:00.000Z',
       });
+      expect(mockGateway.emitToRoom).not.toHaveBeenCalled();
     });
 
-    it('should handle service errors gracefully', () => {
+    it('should handle service errors gracefully', async () => {
+      await timezoneWebSocket.subscribe(['UTC'], undefined, mockSocket);
       mockTimezoneService.getValidatedTimeInTimezone.mockImplementation(() => {
         throw new Error('Service error');
       });
 
-      mockSocket.emit.mockClear();
-
       // Should not throw
-      expect(() => jest.advanceTimersByTime(1000)).not.toThrow();
+      expect(() => jest.advanceTimersByTime(750)).not.toThrow();
 
-      expect(mockSocket.emit).toHaveBeenCalledWith('error', {
+      expect(mockGateway.emitToTimezone).toHaveBeenCalledWith('UTC', 'error', {
         type: 'error',
         timezone: 'UTC',
         error: 'Failed to get time update',
         timestamp: '2023-01-01T12:00:00.000Z',
       });
     });
-  });
-
-  describe('onDisconnect', () => {
-    it('should remove client from set and clear interval', () => {
-      timezoneWebSocket.onConnect(mockClient);
-      expect(timezoneWebSocket.getConnectedClientsCount()).toBe(1);
 
-      // Get the disconnect handler
-      const disconnectHandler = mockSocket.on.mock.calls.find(
-        call => call[0] === 'disconnect'
-      )?.[1];
-      expect(disconnectHandler).toBeDefined();
+    it('should send updates every second', async () => {
+      await timezoneWebSocket.subscribe(['UTC'], undefined, mockSocket);
 
-      // Call disconnect handler
-      disconnectHandler!();
+      // Advance time by 3 seconds
+      jest.advanceTimersByTime(3000);
 
-      expect(timezoneWebSocket.getConnectedClientsCount()).toBe(0);
-      expect(global.clearInterval).toHaveBeenCalled();
+      // Should have been called 3 times (once per second)
+      expect(mockGateway.emitToRoom).toHaveBeenCalledTimes(3);
     });
   });
 
-  describe('cleanup', () => {
-    it('should clear all intervals and disconnect all clients', () => {
-      // Add multiple clients
-      const mockClient2: SocketIOClient = {
-        socket: {
-          emit: jest.fn(),
-          on: jest.fn(),
-          disconnect: jest.fn(),
-        } as any,
-        timezone: 'Europe/London',
-      };
-
-      timezoneWebSocket.onConnect(mockClient);
-      timezoneWebSocket.onConnect(mockClient2);
-
-      expect(timezoneWebSocket.getConnectedClientsCount()).toBe(2);
+  describe('onDisconnect', () => {
+    it('should remove client and stop the shared tick', async () => {
+      await timezoneWebSocket.subscribe(['UTC', 'Asia/Tokyo'], undefined, mockSocket);
+      expect(timezoneWebSocket.getConnectedClientsCount()).toBe(1);
 
-      // Cleanup
-      timezoneWebSocket.cleanup();
+      timezoneWebSocket.onDisconnect(mockSocket);
 
-      expect(global.clearInterval).toHaveBeenCalledTimes(2);
-      expect(mockSocket.disconnect).toHaveBeenCalledWith(true);
-      expect(mockClient2.socket.disconnect).toHaveBeenCalledWith(true);
       expect(timezoneWebSocket.getConnectedClientsCount()).toBe(0);
+      expect(tickScheduler.isRunning()).toBe(false);
     });
 
-    it('should handle cleanup when no clients connected', () => {
-      expect(() => timezoneWebSocket.cleanup()).not.toThrow();
-      expect(timezoneWebSocket.getConnectedClientsCount()).toBe(0);
-    });
-  });
-
-  describe('getConnectedClientsCount', () => {
-    it('should return correct number of connected clients', () => {
-      expect(timezoneWebSocket.getConnectedClientsCount()).toBe(0);
-
-      timezoneWebSocket.onConnect(mockClient);
-      expect(timezoneWebSocket.getConnectedClientsCount()).toBe(1);
+    it('should keep broadcasting while other clients remain', async () => {
+      await timezoneWebSocket.subscribe(['UTC'], undefined, mockSocket);
+      await timezoneWebSocket.subscribe(['UTC'], undefined, createMockSocket('socket-2'));
+      timezoneWebSocket.onDisconnect(mockSocket);
 
-      const mockClient2: SocketIOClient = {
-        socket: {
-          emit: jest.fn(),
-          on: jest.fn(),
-          disconnect: jest.fn(),
-        } as any,
-        timezone: 'Europe/London',
-      };
+      jest.advanceTimersByTime(750);
 
-      timezoneWebSocket.onConnect(mockClient2);
-      expect(timezoneWebSocket.getConnectedClientsCount()).toBe(2);
+      expect(mockGateway.emitToRoom).toHaveBeenCalledWith('time-batch-UTC=second', 'time-update', expect.any(Object));
     });
-  });
 
-  describe('periodic updates', () => {
-    it('should send updates every second', () => {
-      timezoneWebSocket.onConnect(mockClient);
-      mockSocket.emit.mockClear();
+    it('should stop updates when the last client disconnects', async () => {
+      await timezoneWebSocket.subscribe(['UTC'], undefined, mockSocket);
+      timezoneWebSocket.onDisconnect(mockSocket);
 
-      // Advance time by 3 seconds
-      jest.advanceTimersByTime(3000);
+      // Advance time - no updates should be sent
+      jest.advanceTimersByTime(5000);
 
-      // Should have been called 3 times (once per second)
-      expect(mockSocket.emit).toHaveBeenCalledTimes(3);
+      expect(mockGateway.emitToRoom).not.toHaveBeenCalled();
     });
 
-    it('should stop updates when client disconnects', () => {
-      timezoneWebSocket.onConnect(mockClient);
+    it('should ignore sockets that never subscribed', () => {
+      expect(() => timezoneWebSocket.onDisconnect(mockSocket)).not.toThrow();
+    });
+  });
 
-      // Get disconnect handler and call it
-      const disconnectHandler = mockSocket.on.mock.calls.find(
-        call => call[0] === 'disconnect'
-      )?.[1];
-      disconnectHandler!();
+  describe('metrics', () => {
+    it('should report the sockets subscribed to each timezone room', async () => {
+      await timezoneWebSocket.subscribe(['UTC', 'Asia/Tokyo'], undefined, mockSocket);
+      await timezoneWebSocket.subscribe(['UTC'], undefined, createMockSocket('socket-2'));
 
-      mockSocket.emit.mockClear();
+      expect(metrics.render()).toContain('realtime_timezone_sockets{timezone="UTC"} 2\n');
+      expect(metrics.render()).toContain('realtime_timezone_sockets{timezone="Asia/Tokyo"} 1\n');
 
-      // Advance time - no updates should be sent
-      jest.advanceTimersByTime(5000);
+      timezoneWebSocket.onDisconnect(mockSocket);
 
-      expect(mockSocket.emit).not.toHaveBeenCalled();
+      expect(metrics.render()).not.toContain('Asia/Tokyo');
     });
   });
 
-  describe('error scenarios', () => {
-    it('should handle multiple clients with different timezones', () => {
-      const mockClient2: SocketIOClient = {
-        socket: {
-          emit: jest.fn(),
-          on: jest.fn(),
-          disconnect: jest.fn(),
-        } as any,
-        timezone: 'Europe/London',
-      };
-
-      timezoneWebSocket.onConnect(mockClient);
-      timezoneWebSocket.onConnect(mockClient2);
-
-      // Both clients should receive updates
-      mockSocket.emit.mockClear();
-      (mockClient2.socket.emit as jest.Mock).mockClear();
+  describe('cleanup', () => {
+    it('should stop the tick and disconnect all clients', async () => {
+      // Add multiple clients
+      const mockSocket2 = createMockSocket('socket-2');
 
-      jest.advanceTimersByTime(1000);
+      await timezoneWebSocket.subscribe(['UTC'], undefined, mockSocket);
+      await timezoneWebSocket.subscribe(['Europe/London'], undefined, mockSocket2);
 
-      expect(mockSocket.emit).toHaveBeenCalled();
-      expect(mockClient2.socket.emit).toHaveBeenCalled();
-    });
+      expect(timezoneWebSocket.getConnectedClientsCount()).toBe(2);
 
-    it('should handle timezone service returning undefined', () => {
-      mockTimezoneService.getValidatedTimeInTimezone.mockReturnValue(undefined as any);
+      // Cleanup
+      timezoneWebSocket.cleanup();
 
-      timezoneWebSocket.onConnect(mockClient);
-      mockSocket.emit.mockClear();
+      expect(tickScheduler.isRunning()).toBe(false);
+      expect(mockSocket.disconnect).toHaveBeenCalled();
+      expect(mockSocket2.disconnect).toHaveBeenCalled();
+      expect(timezoneWebSocket.getConnectedClientsCount()).toBe(0);
+    });
 
-      // Should not throw
-      expect(() => jest.advanceTimersByTime(1000)).not.toThrow();
+    it('should handle cleanup when no clients connected', () => {
+      expect(() => timezoneWebSocket.cleanup()).not.toThrow();
+      expect(timezoneWebSocket.getConnectedClientsCount()).toBe(0);
     });
   });
 });
@@ -0,0 +1,230 @@
+import { Router } from '@routing/Router';
+import { SocketServer } from '@routing/SocketIOServer';
+import {
+  CallHandler,
+  CanActivate,
+  ExecutionContext,
+  GET,
+  Interceptor,
+  MessageBody,
+  ServiceRegistry,
+  SubscribeMessage,
+  UnauthorizedException,
+  UseGuards,
+  UseInterceptors,
+  WebSocket,
+} from '@shared';
+import * as http from 'http';
+import { Socket, Server as SocketIOServer } from 'socket.io';
+import request from 'supertest';
+
+jest.mock('socket.io');
+
+class TokenService {
+  readonly token = 'secret';
+}
+
+class TokenGuard implements CanActivate {
+  private tokenService =
+    ServiceRegistry.getInstance().getOrCreateService<TokenService>(
+      TokenService,
+    );
+
+  canActivate(context: ExecutionContext): boolean {
+    const header = context.http?.req.headers['x-token'];
+
+    if (header === undefined) {
+      throw new UnauthorizedException('Missing token');
+    }
+
+    return header === this.tokenService.token;
+  }
+}
+
+class EnvelopeInterceptor implements Interceptor {
+  async intercept(context: ExecutionContext, next: CallHandler) {
+    return { handler: context.handler, data: await next() };
+  }
+}
+
+const calls: string[] = [];
+
+class CacheInterceptor implements Interceptor {
+  private cache = new Map<string, unknown>();
+
+  async intercept(context: ExecutionContext, next: CallHandler) {
+    const key = context.http?.path ?? '';
+    if (!this.cache.has(key)) {
+      this.cache.set(key, await next());
+    }
+    return this.cache.get(key);
+  }
+}
+
+@UseGuards(TokenGuard)
+@UseInterceptors(EnvelopeInterceptor)
+class SecretController {
+  @GET('/secret')
+  secret() {
+    calls.push('secret');
+    return { value: 42 };
+  }
+
+  @GET('/secret/cached')
+  @UseInterceptors(CacheInterceptor)
+  cached() {
+    calls.push('cached');
+    return { value: calls.length };
+  }
+}
+
+class PublicController {
+  @GET('/public')
+  @UseGuards({ canActivate: async () => Promise.resolve(false) })
+  closed() {
+    return { value: 'never' };
+  }
+}
+
+describe('guards and interceptors', () => {
+  beforeEach(() => {
+    calls.length = 0;
+  });
+
+  describe('HTTP routes', () => {
+    let app: http.Server;
+
+    beforeAll(() => {
+      const router = new Router();
+      router.registerController(new SecretController());
+      router.registerController(new PublicController());
+      app = http.createServer((req, res) => {
+        void router.handleRequest(req, res);
+      });
+    });
+
+    it('should run the handler when guards pass and wrap its result', async () => {
+      const response = await request(app)
+        .get('/secret')
+        .set('X-Token', 'secret')
+        .expect(200);
+
+      expect(response.body).toEqual({ handler: 'secret', data: { value: 42 } });
+    });
+
+    it('should respond 401 when a guard throws UnauthorizedException', async () => {
+      const response = await request(app).get('/secret').expect(401);
+
+      expect(response.body.code).toBe('UNAUTHORIZED');
+      expect(calls).toEqual([]);
+    });
+
+    it('should respond 403 when a guard returns false', async () => {
+      const response = await request(app)
+        .get('/secret')
+        .set('X-Token', 'wrong')
+        .expect(403);
+
+      expect(response.body).toEqual({
+        error: 'Forbidden',
+        code: 'FORBIDDEN',
+        message: 'Access to SecretController.secret was denied',
+      });
+    });
+
+    it('should support async guard instances', async () => {
+      await request(app).get('/public').expect(403);
+    });
+
+    it('should let handler interceptors short-circuit inside class interceptors', async () => {
+      const first = await request(app)
+        .get('/secret/cached')
+        .set('X-Token', 'secret')
+        .expect(200);
+      const second = await request(app)
+        .get('/secret/cached')
+        .set('X-Token', 'secret')
+        .expect(200);
+
+      expect(first.body).toEqual({ handler: 'cached', data: { value: 1 } });
+      expect(second.body).toEqual(first.body);
+      expect(calls).toEqual(['cached']);
+    });
+  });
+
+  describe('Socket.io handlers', () => {
+    let connectionHandler: (socket: Socket) => void;
+    let mockSocket: jest.Mocked<Socket>;
+    const onSubscribe = jest.fn();
+
+    @WebSocket('/guarded')
+    @UseGuards({
+      canActivate: (context: ExecutionContext) =>
+        (context.ws?.data as { timezone: string }).timezone !== 'Etc/GMT+12',
+    })
+    class GuardedWebSocket {
+      @SubscribeMessage('guarded-subscribe')
+      @UseInterceptors(EnvelopeInterceptor)
+      subscribe(@MessageBody('timezone') timezone: string) {
+        onSubscribe(timezone);
+        return timezone;
+      }
+    }
+
+    beforeEach(() => {
+      // The namespaces of the controllers share the connection handler
+      const mockNamespaces = { on: jest.fn(), use: jest.fn() };
+      const mockIO = {
+        of: jest.fn(() => mockNamespaces),
+        use: jest.fn(),
+      } as any;
+      (
+        SocketIOServer as jest.MockedClass<typeof SocketIOServer>
+      ).mockImplementation(() => mockIO);
+
+      new SocketServer(new http.Server());
+      connectionHandler = mockNamespaces.on.mock.calls[0][1];
+
+      mockSocket = {
+        id: 'socket-1',
+        nsp: { name: '/guarded' },
+        join: jest.fn(),
+        emit: jest.fn(),
+        on: jest.fn(),
+      } as any;
+      onSubscribe.mockClear();
+    });
+
+    const subscribe = async (timezone: string, ack?: jest.Mock) => {
+      connectionHandler(mockSocket);
+      const handler = mockSocket.on.mock.calls.find(
+        (call) => call[0] === 'guarded-subscribe',
+      )![1];
+      handler(...(ack ? [{ timezone }, ack] : [{ timezone }]));
+      await new Promise((resolve) => setImmediate(resolve));
+    };
+
+    it('should run the handler through interceptors when guards pass', async () => {
+      const ack = jest.fn();
+      await subscribe('Europe/Paris', ack);
+
+      expect(GuardedWebSocket).toBeDefined();
+      expect(onSubscribe).toHaveBeenCalledWith('Europe/Paris');
+      expect(ack).toHaveBeenCalledWith({
+        handler: 'subscribe',
+        data: 'Europe/Paris',
+      });
+    });
+
+    it('should emit a forbidden error and skip the handler when a guard denies', async () => {
+      await subscribe('Etc/GMT+12');
+
+      expect(onSubscribe).not.toHaveBeenCalled();
+      expect(mockSocket.emit).toHaveBeenCalledWith('error', {
+        error: 'Forbidden',
+        code: 'FORBIDDEN',
+        message: 'Access to GuardedWebSocket.subscribe was denied',
+      });
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { Router } from '@routing/Router';
+import { compose, cors, jsonContentType } from '@routing/middleware';
+import {
+  ForbiddenException,
+  GET,
+  Middleware,
+  RequestContext,
+  UseMiddleware,
+} from '@shared';
+import * as http from 'http';
+import request from 'supertest';
+
+const trace =
+  (label: string): Middleware =>
+  async (context, next) => {
+    const steps = (context.state.trace ??= []) as string[];
+    steps.push(`${label}:before`);
+    await next();
+    steps.push(`${label}:after`);
+  };
+
+const recordTrace: Middleware = async (context, next) => {
+  context.state.trace = [];
+  await next();
+};
+
+const denyAll: Middleware = () => {
+  throw new ForbiddenException('Blocked by middleware');
+};
+
+@UseMiddleware(trace('controller'))
+class PipelineController {
+  @GET('/pipeline')
+  @UseMiddleware(trace('route'))
+  pipeline() {
+    return { ok: true };
+  }
+
+  @GET('/pipeline/short-circuit')
+  @UseMiddleware(async (context: RequestContext) => {
+    await Promise.resolve();
+    context.res.statusCode = 202;
+    context.res.end(JSON.stringify({ cached: true }));
+  })
+  shortCircuit() {
+    return { ok: true };
+  }
+
+  @GET('/pipeline/denied')
+  @UseMiddleware(denyAll)
+  denied() {
+    return { ok: true };
+  }
+}
+
+function createServer(router: Router): http.Server {
+  return http.createServer((req, res) => {
+    void router.handleRequest(req, res).then((handled) => {
+      if (!handled) {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+  });
+}
+
+describe('middleware', () => {
+  describe('compose', () => {
+    it('should run middleware in order around the final handler', async () => {
+      const context = { state: { trace: [] } } as unknown as RequestContext;
+
+      await compose([trace('a'), trace('b')])(context, async () => {
+        (context.state.trace as string[]).push('handler');
+      });
+
+      expect(context.state.trace).toEqual([
+        'a:before',
+        'b:before',
+        'handler',
+        'b:after',
+        'a:after',
+      ]);
+    });
+
+    it('should reject when next() is called twice', async () => {
+      const context = { state: {} } as RequestContext;
+      const twice: Middleware = async (_context, next) => {
+        await next();
+        await next();
+      };
+
+      await expect(
+        compose([twice])(context, () => Promise.resolve()),
+      ).rejects.toThrow('next() called multiple times');
+    });
+  });
+
+  describe('Router pipeline', () => {
+    let router: Router;
+    let app: http.Server;
+    let lastTrace: unknown;
+
+    beforeAll(() => {
+      router = new Router();
+      router.registerController(new PipelineController());
+      router.use(recordTrace, async (context, next) => {
+        await next();
+        lastTrace = context.state.trace;
+      });
+      router.use(trace('global'));
+      app = createServer(router);
+    });
+
+    it('should run global, controller and route middleware in order', async () => {
+      await request(app).get('/pipeline').expect(200);
+
+      expect(lastTrace).toEqual([
+        'global:before',
+        'controller:before',
+        'route:before',
+        'route:after',
+        'controller:after',
+        'global:after',
+      ]);
+    });
+
+    it('should keep the default CORS and JSON content type middleware', async () => {
+      const response = await request(app).get('/pipeline').expect(200);
+
+      expect(response.headers['access-control-allow-origin']).toBe('*');
+      expect(response.headers['content-type']).toMatch(/application\/json/);
+    });
+
+    it('should let middleware short-circuit asynchronously', async () => {
+      const response = await request(app)
+        .get('/pipeline/short-circuit')
+        .expect(202);
+
+      expect(JSON.parse(response.text)).toEqual({ cached: true });
+    });
+
+    it('should turn middleware exceptions into error responses', async () => {
+      const response = await request(app).get('/pipeline/denied').expect(403);
+      expect(response.body.code).toBe('FORBIDDEN');
+    });
+
+    it('should run global middleware for unmatched paths', async () => {
+      const response = await request(app).get('/nowhere').expect(404);
+      expect(response.headers['access-control-allow-origin']).toBe('*');
+    });
+  });
+
+  describe('replacing defaults', () => {
+    it('should use only the given middleware', async () => {
+      const router = new Router({
+        middleware: [cors({ origin: 'https://clock.example' })],
+      });
+      router.registerController(new PipelineController());
+
+      const response = await request(createServer(router))
+        .get('/pipeline')
+        .expect(200);
+
+      expect(response.headers['access-control-allow-origin']).toBe(
+        'https://clock.example',
+      );
+    });
+
+    it('should only allow listed origins', async () => {
+      const router = new Router({
+        middleware: [
+          cors({ origin: ['https://clock.example', 'https://admin.example'] }),
+        ],
+      });
+      router.registerController(new PipelineController());
+      const server = createServer(router);
+
+      const allowed = await request(server)
+        .get('/pipeline')
+        .set('Origin', 'https://admin.example')
+        .expect(200);
+      const denied = await request(server)
+        .get('/pipeline')
+        .set('Origin', 'https://evil.example')
+        .expect(200);
+
+      expect(allowed.headers['access-control-allow-origin']).toBe(
+        'https://admin.example',
+      );
+      expect(allowed.headers.vary).toBe('Origin');
+      expect(denied.headers['access-control-allow-origin']).toBeUndefined();
+    });
+
+    it('should allow the credential and request id headers in preflight requests', async () => {
+      const router = new Router({
+        middleware: [cors({ origin: 'https://clock.example' })],
+      });
+      router.registerController(new PipelineController());
+
+      const response = await request(createServer(router))
+        .options('/pipeline')
+        .set('Origin', 'https://clock.example')
+        .set('Access-Control-Request-Method', 'GET')
+        .set('Access-Control-Request-Headers', 'x-api-key, x-request-id')
+        .expect(204);
+
+      expect(response.headers['access-control-allow-headers']).toBe(
+        'Content-Type, Authorization, X-API-Key, X-Request-Id',
+      );
+    });
+
+    it('should set the JSON content type by default', async () => {
+      const context = {
+        res: { setHeader: jest.fn() },
+      } as unknown as RequestContext;
+
+      await jsonContentType()(context, () => Promise.resolve());
+
+      expect(context.res.setHeader).toHaveBeenCalledWith(
+        'Content-Type',
+        'application/json',
+      );
+    });
+  });
+});
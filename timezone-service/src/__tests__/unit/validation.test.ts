@@ -0,0 +1,207 @@
+import { s } from '@shared/validation';
+
+describe('validation schemas', () => {
+  describe('primitives', () => {
+    it('should validate strings with length and pattern rules', () => {
+      const schema = s.string({ min: 2, max: 4, pattern: /^[a-z]+$/ });
+
+      expect(schema.validate('abc')).toEqual([]);
+      expect(schema.validate('A')).toEqual([
+        { path: '', message: 'must be at least 2 characters' },
+        { path: '', message: 'must match pattern ^[a-z]+$' },
+      ]);
+      expect(schema.validate(5)).toEqual([
+        { path: '', message: 'must be a string' },
+      ]);
+    });
+
+    it('should validate enums', () => {
+      const schema = s.enum(['iso', 'unix']);
+
+      expect(schema.isValid('iso')).toBe(true);
+      expect(schema.validate('rfc')).toEqual([
+        { path: '', message: 'must be one of: iso, unix' },
+      ]);
+    });
+
+    it('should validate numbers and ranges, accepting numeric strings', () => {
+      const schema = s.number({ min: 1, max: 10, integer: true });
+
+      expect(schema.validate(5)).toEqual([]);
+      expect(schema.validate('7')).toEqual([]);
+      expect(schema.validate('1.5')).toEqual([
+        { path: '', message: 'must be an integer' },
+      ]);
+      expect(schema.validate(11)).toEqual([
+        { path: '', message: 'must be less than or equal to 10' },
+      ]);
+      expect(schema.validate('abc')).toEqual([
+        { path: '', message: 'must be a number' },
+      ]);
+    });
+
+    it('should validate booleans, accepting string forms', () => {
+      const schema = s.boolean();
+
+      expect(schema.isValid(true)).toBe(true);
+      expect(schema.isValid('false')).toBe(true);
+      expect(schema.isValid('yes')).toBe(false);
+    });
+
+    it('should validate timezone identifiers', () => {
+      const schema = s.timezone();
+
+      expect(schema.isValid('Europe/London')).toBe(true);
+      expect(schema.validate('Mars/Olympus')).toEqual([
+        { path: '', message: 'must be a valid timezone identifier' },
+      ]);
+    });
+  });
+
+  describe('composites', () => {
+    const schema = s.object(
+      {
+        name: s.string(),
+        zones: s.array(s.timezone(), { min: 1 }),
+        window: s.object({
+          from: s.number({ min: 0 }),
+          to: s.number().optional(),
+        }),
+      },
+      { strict: true },
+    );
+
+    it('should accept valid nested objects', () => {
+      expect(
+        schema.validate({
+          name: 'dashboard',
+          zones: ['Etc/UTC', 'Asia/Tokyo'],
+          window: { from: 0 },
+        }),
+      ).toEqual([]);
+    });
+
+    it('should report every failing field with its path', () => {
+      expect(
+        schema.validate({
+          zones: ['Etc/UTC', 'Nowhere/City'],
+          window: { from: -1, to: 'x' },
+          extra: true,
+        }),
+      ).toEqual([
+        { path: 'name', message: 'is required' },
+        { path: 'zones[1]', message: 'must be a valid timezone identifier' },
+        { path: 'window.from', message: 'must be greater than or equal to 0' },
+        { path: 'window.to', message: 'must be a number' },
+        { path: 'extra', message: 'is not allowed' },
+      ]);
+    });
+
+    it('should treat a single string from a query string as a one-item array', () => {
+      expect(s.array(s.string()).validate('a', '', { strings: true })).toEqual(
+        [],
+      );
+      expect(s.array(s.string()).validate('a')).toEqual([
+        { path: '', message: 'must be an array' },
+      ]);
+      expect(s.array(s.string(), { max: 1 }).validate(['a', 'b'])).toEqual([
+        { path: '', message: 'must contain at most 1 items' },
+      ]);
+    });
+
+    it('should coerce valid values to the schema types', () => {
+      const query = s.object({
+        zones: s.array(s.string()),
+        limit: s.number(),
+        dry: s.boolean().optional(),
+      });
+
+      expect(
+        query.coerce(
+          { zones: 'Etc/UTC', limit: '5', dry: '1', extra: 'x' },
+          { strings: true },
+        ),
+      ).toEqual({
+        zones: ['Etc/UTC'],
+        limit: 5,
+        dry: true,
+        extra: 'x',
+      });
+      expect(query.coerce({ zones: ['Etc/UTC'], limit: 5 })).toEqual({
+        zones: ['Etc/UTC'],
+        limit: 5,
+      });
+    });
+
+    it('should reject non-objects', () => {
+      expect(schema.validate([])).toEqual([
+        { path: '', message: 'must be an object' },
+      ]);
+    });
+
+    it('should validate every value of records', () => {
+      const limits = s.record(s.number({ min: 1 }));
+
+      expect(limits.validate({ free: 10, paid: 0 })).toEqual([
+        { path: 'paid', message: 'must be greater than or equal to 1' },
+      ]);
+      expect(limits.coerce({ free: '10' }, { strings: true })).toEqual({
+        free: 10,
+      });
+      expect(limits.toJsonSchema()).toEqual({
+        type: 'object',
+        additionalProperties: { type: 'number', minimum: 1 },
+      });
+    });
+  });
+
+  describe('toJsonSchema', () => {
+    it('should describe primitives with their constraints', () => {
+      expect(s.string({ min: 1, pattern: /^[a-z]+$/ }).toJsonSchema()).toEqual({
+        type: 'string',
+        minLength: 1,
+        pattern: '^[a-z]+$',
+      });
+      expect(s.number({ integer: true, max: 10 }).toJsonSchema()).toEqual({
+        type: 'integer',
+        maximum: 10,
+      });
+      expect(s.enum(['iso', 'unix']).toJsonSchema()).toEqual({
+        type: 'string',
+        enum: ['iso', 'unix'],
+      });
+      expect(s.boolean().describe('Dry run').toJsonSchema()).toEqual({
+        type: 'boolean',
+        description: 'Dry run',
+      });
+    });
+
+    it('should list required properties of objects', () => {
+      const schema = s.object(
+        {
+          zones: s.array(s.timezone(), { min: 1 }),
+          limit: s.number().optional(),
+        },
+        { strict: true },
+      );
+
+      expect(schema.toJsonSchema()).toEqual({
+        type: 'object',
+        properties: {
+          zones: {
+            type: 'array',
+            items: {
+              type: 'string',
+              description: 'IANA timezone identifier',
+              examples: ['Etc/UTC', 'America/New_York'],
+            },
+            minItems: 1,
+          },
+          limit: { type: 'number' },
+        },
+        required: ['zones'],
+        additionalProperties: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  ADMIN_SCOPE,
+  ApiKeyInfo,
+  ApiKeyService,
+  CreatedApiKey,
+} from '@services';
+import {
+  ApiOperation,
+  ApiResponse,
+  Auth,
+  BODY,
+  Controller,
+  DELETE,
+  GET,
+  PARAM,
+  POST,
+  Validate,
+  s,
+} from '@shared';
+
+// Scopes are lowercase words joined by `:`, e.g. `time:read`
+const scope = s.string({ pattern: /^[a-z][a-z0-9-]*(:[a-z][a-z0-9-]*)*$/ });
+
+const apiKeySchema = s.object({
+  id: s.string(),
+  name: s.string(),
+  prefix: s.string().describe('First characters of the key'),
+  scopes: s.array(s.string()),
+  created_at: s.string(),
+  revoked_at: s.string().optional(),
+});
+
+@Controller('/admin/api-keys')
+@Auth(ADMIN_SCOPE)
+export class ApiKeyController {
+  constructor(private apiKeyService: ApiKeyService) {}
+
+  @POST('/')
+  @Validate({
+    body: s.object({
+      name: s.string({ min: 1, max: 100 }),
+      scopes: s.array(scope, { max: 20 }),
+    }),
+  })
+  @ApiOperation({ summary: 'Create an API key', tags: ['Admin'] })
+  @ApiResponse(200, {
+    description: 'The new key, returned only once',
+    schema: s.object({ key: s.string() }),
+  })
+  create(
+    @BODY('name') name: string,
+    @BODY('scopes') scopes: string[],
+  ): Promise<CreatedApiKey> {
+    return this.apiKeyService.create(name, scopes);
+  }
+
+  @GET('/')
+  @ApiOperation({ summary: 'List API keys', tags: ['Admin'] })
+  @ApiResponse(200, {
+    description: 'Every key, revoked ones included',
+    schema: s.array(apiKeySchema),
+  })
+  list(): Promise<ApiKeyInfo[]> {
+    return this.apiKeyService.list();
+  }
+
+  @DELETE('/:id')
+  @ApiOperation({ summary: 'Revoke an API key', tags: ['Admin'] })
+  @ApiResponse(200, { description: 'The revoked key', schema: apiKeySchema })
+  @ApiResponse(404, { description: 'Unknown key id' })
+  revoke(@PARAM('id') id: string): Promise<ApiKeyInfo> {
+    return this.apiKeyService.revoke(id);
+  }
+}
@@ -0,0 +1,33 @@
+import {
+  AsyncApiDocument,
+  AsyncApiGenerator,
+  OpenApiDocument,
+  OpenApiGenerator,
+  OpenApiInfo,
+} from '@routing';
+import { ApiOperation, ApiResponse, Controller, GET } from '@shared';
+
+const API_INFO: OpenApiInfo = {
+  title: 'Timezone Server API',
+  version: '1.0.0',
+  description: 'Current time in any IANA timezone over HTTP and Socket.io',
+};
+
+@Controller()
+export class DocsController {
+  @GET('/openapi.json')
+  @ApiOperation({ summary: 'OpenAPI 3.1 document', tags: ['Docs'] })
+  @ApiResponse(200, { description: 'OpenAPI document for every route' })
+  openApi(openApiGenerator: OpenApiGenerator): OpenApiDocument {
+    return openApiGenerator.generate(API_INFO);
+  }
+
+  @GET('/asyncapi.json')
+  @ApiOperation({ summary: 'AsyncAPI 2.6 document', tags: ['Docs'] })
+  @ApiResponse(200, {
+    description: 'AsyncAPI document for every Socket.io event',
+  })
+  asyncApi(asyncApiGenerator: AsyncApiGenerator): AsyncApiDocument {
+    return asyncApiGenerator.generate(API_INFO);
+  }
+}
@@ -1,4 +1,16 @@
-import { GET } from '@shared';
+import { OpenApiGenerator } from '@routing';
+import { HealthCheckKind, HealthService } from '@services';
+import {
+  ApiOperation,
+  ApiResponse,
+  Auth,
+  Controller,
+  GET,
+  RES,
+  s,
+  sendJsonResponse,
+} from '@shared';
+import * as http from 'http';
 
 interface HealthResponse {
   status: string;
@@ -8,11 +20,31 @@ interface HealthResponse {
 interface ApiInfoResponse {
   message: string;
   endpoints: Record<string, string>;
+  websockets: string[];
+  documentation: string;
   example: string;
 }
 
+const healthReportSchema = s.object({
+  status: s.enum(['up', 'down']),
+  checks: s
+    .object({})
+    .describe(
+      'Status and details of each indicator by name, e.g. { "event_loop": { "status": "up", "details": { "lag_ms": 10.2 } } }',
+    ),
+  timestamp: s.string(),
+});
+
+// Probes stay open, orchestrators call them without an API key
+@Controller()
 export class HealthcheckController {
   @GET('/healthcheck')
+  @Auth('health:read')
+  @ApiOperation({ summary: 'Health check endpoint' })
+  @ApiResponse(200, {
+    description: 'Service is up',
+    schema: s.object({ status: s.enum(['OK']), timestamp: s.string() }),
+  })
   healthcheck(): HealthResponse {
     return {
       status: 'OK',
@@ -20,15 +52,66 @@ export class HealthcheckController {
     };
   }
 
+  @GET('/health/live')
+  @ApiOperation({
+    summary: 'Liveness probe, down when the process should be restarted',
+  })
+  @ApiResponse(200, {
+    description: 'Every liveness indicator is up',
+    schema: healthReportSchema,
+  })
+  @ApiResponse(503, {
+    description: 'An indicator is down',
+    schema: healthReportSchema,
+  })
+  async live(
+    @RES() res: http.ServerResponse,
+    healthService: HealthService,
+  ): Promise<void> {
+    await this.sendReport(res, healthService, 'liveness');
+  }
+
+  @GET('/health/ready')
+  @ApiOperation({
+    summary:
+      'Readiness probe, down while the server cannot serve traffic or shuts down',
+  })
+  @ApiResponse(200, {
+    description: 'Every readiness indicator is up',
+    schema: healthReportSchema,
+  })
+  @ApiResponse(503, {
+    description: 'An indicator is down, or the server is shutting down',
+    schema: healthReportSchema,
+  })
+  async ready(
+    @RES() res: http.ServerResponse,
+    healthService: HealthService,
+  ): Promise<void> {
+    await this.sendReport(res, healthService, 'readiness');
+  }
+
   @GET('/')
-  root(): ApiInfoResponse {
+  @Auth('health:read')
+  @ApiOperation({ summary: 'API information' })
+  root(openApiGenerator: OpenApiGenerator): ApiInfoResponse {
     return {
       message: 'Timezone Server API',
-      endpoints: {
-        '/time/{timezone}': 'Get current time in specified timezone',
-        '/healthcheck': 'Health check endpoint',
-      },
+      endpoints: openApiGenerator.listEndpoints(),
+      websockets: openApiGenerator.listWebSockets(),
+      documentation: '/openapi.json',
       example: '/time/Etc/UTC',
     };
   }
+
+  private async sendReport(
+    res: http.ServerResponse,
+    healthService: HealthService,
+    kind: HealthCheckKind,
+  ): Promise<void> {
+    const report = await healthService.check(kind);
+
+    res.setHeader('Cache-Control', 'no-store');
+    sendJsonResponse(res, report.status === 'up' ? 200 : 503, report);
+  }
 }
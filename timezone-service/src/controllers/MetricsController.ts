@@ -0,0 +1,25 @@
+import { MetricsRegistry, PROMETHEUS_CONTENT_TYPE } from '@services';
+import { ApiOperation, ApiResponse, Auth, Controller, GET, RES } from '@shared';
+import * as http from 'http';
+
+@Controller()
+@Auth('metrics:read')
+export class MetricsController {
+  @GET('/metrics')
+  @ApiOperation({ summary: 'Metrics in the Prometheus text format' })
+  @ApiResponse(200, {
+    description:
+      'Request counts and latency by route, realtime connections and emits, process stats',
+  })
+  metrics(
+    @RES() res: http.ServerResponse,
+    metricsRegistry: MetricsRegistry,
+  ): void {
+    const body = metricsRegistry.render();
+
+    res.statusCode = 200;
+    res.setHeader('Content-Type', PROMETHEUS_CONTENT_TYPE);
+    res.setHeader('Content-Length', Buffer.byteLength(body));
+    res.end(body);
+  }
+}
@@ -0,0 +1,424 @@
+import { RealtimeGateway } from '@routing';
+import {
+  OffsetTransition,
+  TickScheduler,
+  TimezoneService,
+  formatUtcOffset,
+} from '@services';
+import {
+  BadRequestException,
+  ConnectedSocket,
+  Emits,
+  Logger,
+  MessageBody,
+  OnConnect,
+  OnDisconnect,
+  RateLimit,
+  RealtimeConnection,
+  SubscribeMessage,
+  WebSocket,
+  s,
+} from '@shared';
+
+export interface OffsetChangeMessage {
+  type: 'offset_change';
+  phase: 'upcoming' | 'changed';
+  timezone: string;
+  transition_at: string;
+  offset_before: string;
+  offset_after: string;
+  notice_minutes?: number; // advance warning the `upcoming` event was requested for
+  timestamp: string;
+}
+
+export interface TransitionDescription {
+  at: string;
+  offset_before: string;
+  offset_after: string;
+}
+
+export interface OffsetSubscriptionsResponse {
+  subscriptions: {
+    timezone: string;
+    warnings: number[];
+    next_transition: TransitionDescription | null;
+  }[];
+}
+
+interface OffsetChangeClient {
+  socket: RealtimeConnection;
+  // Advance warnings in minutes per subscribed timezone
+  subscriptions: Map<string, number[]>;
+}
+
+// Next transition of a subscribed timezone, shared by its subscribers
+interface ZoneWatch {
+  subscribers: number;
+  warnings: Map<number, number>; // minutes → subscribers
+  transition: OffsetTransition | undefined;
+  checkedAt: number;
+  sentWarnings: Set<number>;
+}
+
+const MAX_SUBSCRIPTIONS = 50;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+@RateLimit(30, '1m')
+@WebSocket('/time/offset-changes')
+@Emits(
+  'offset-change',
+  s.object({
+    type: s.enum(['offset_change']),
+    phase: s.enum(['upcoming', 'changed']),
+    timezone: s.timezone(),
+    transition_at: s.string().describe('ISO 8601 time of the transition'),
+    offset_before: s.string().describe('UTC offset before, e.g. +00:00'),
+    offset_after: s.string().describe('UTC offset after, e.g. +01:00'),
+    notice_minutes: s.number({ integer: true }).optional(),
+    timestamp: s.string(),
+  }),
+  {
+    summary:
+      'Advance warning of an upcoming UTC offset change, and the change itself',
+  },
+)
+export class OffsetChangeWebSocket {
+  private clients: Map<string, OffsetChangeClient> = new Map();
+  private zones: Map<string, ZoneWatch> = new Map();
+  private stopTicking: (() => void) | undefined;
+
+  constructor(
+    private timezoneService: TimezoneService,
+    private tickScheduler: TickScheduler,
+    private gateway: RealtimeGateway,
+    private logger: Logger,
+  ) {}
+
+  // Plain WebSocket and Server-Sent Events clients subscribe with the query
+  // string, e.g. /time/offset-changes?timezones=Europe/London&warnings=1440
+  @OnConnect(
+    s.object({
+      timezones: s.array(s.timezone(), { max: MAX_SUBSCRIPTIONS }).optional(),
+      warnings: s
+        .array(s.number({ integer: true, min: 1, max: 366 * 24 * 60 }), {
+          max: 10,
+        })
+        .optional(),
+    }),
+  )
+  async onConnect(
+    @MessageBody('timezones') timezones: string[] | string | undefined,
+    @MessageBody('warnings') warnings: number[] | undefined,
+    @ConnectedSocket() socket: RealtimeConnection,
+  ): Promise<void> {
+    if (timezones !== undefined) {
+      await this.subscribe(timezones, warnings, socket);
+    }
+  }
+
+  @SubscribeMessage(
+    'subscribe-offset-changes',
+    s.object({
+      timezones: s.array(s.timezone(), { min: 1, max: MAX_SUBSCRIPTIONS }),
+      warnings: s
+        .array(s.number({ integer: true, min: 1, max: 366 * 24 * 60 }), {
+          max: 10,
+        })
+        .optional()
+        .describe('Minutes before a transition to send an upcoming event'),
+    }),
+    { summary: 'Receive offset-change events for timezones' },
+  )
+  async subscribe(
+    @MessageBody('timezones') timezones: string[] | string,
+    @MessageBody('warnings') warnings: number[] | undefined,
+    @ConnectedSocket() socket: RealtimeConnection,
+  ): Promise<OffsetSubscriptionsResponse> {
+    const client = this.clients.get(socket.id) ?? {
+      socket,
+      subscriptions: new Map<string, number[]>(),
+    };
+    const requested = ([] as string[]).concat(timezones);
+    const notices = [...new Set(warnings ?? [])].sort((a, b) => b - a);
+
+    if (
+      new Set([...client.subscriptions.keys(), ...requested]).size >
+      MAX_SUBSCRIPTIONS
+    ) {
+      throw new BadRequestException(
+        `A socket can subscribe to at most ${MAX_SUBSCRIPTIONS} timezones`,
+        { code: 'TOO_MANY_SUBSCRIPTIONS' },
+      );
+    }
+
+    // Subscribing again replaces the warnings of a timezone
+    for (const timezone of requested) {
+      await this.unwatch(client, timezone);
+      await this.watch(client, timezone, notices);
+    }
+
+    this.clients.set(socket.id, client);
+
+    return this.describeSubscriptions(client);
+  }
+
+  @SubscribeMessage(
+    'unsubscribe-offset-changes',
+    s.object({ timezones: s.array(s.string()).optional() }),
+    { summary: 'Stop offset-change events for timezones, or every timezone' },
+  )
+  async unsubscribe(
+    @MessageBody('timezones') timezones: string[] | string | undefined,
+    @ConnectedSocket() socket: RealtimeConnection,
+  ): Promise<OffsetSubscriptionsResponse> {
+    const client = this.clients.get(socket.id);
+
+    if (!client) {
+      throw new BadRequestException(
+        "Emit 'subscribe-offset-changes' before unsubscribing",
+        { code: 'NOT_SUBSCRIBED' },
+      );
+    }
+
+    for (const timezone of timezones === undefined
+      ? [...client.subscriptions.keys()]
+      : ([] as string[]).concat(timezones)) {
+      await this.unwatch(client, timezone);
+    }
+
+    if (client.subscriptions.size === 0) {
+      this.clients.delete(socket.id);
+    }
+
+    return this.describeSubscriptions(client);
+  }
+
+  @OnDisconnect()
+  onDisconnect(@ConnectedSocket() socket: RealtimeConnection): void {
+    const client = this.clients.get(socket.id);
+
+    if (!client) {
+      return;
+    }
+
+    // Transports remove the connection from its rooms on their own
+    this.clients.delete(socket.id);
+    for (const [timezone, warnings] of client.subscriptions) {
+      this.releaseZone(timezone, warnings);
+    }
+  }
+
+  private async watch(
+    client: OffsetChangeClient,
+    timezone: string,
+    warnings: number[],
+  ): Promise<void> {
+    const now = Date.now();
+    let zone = this.zones.get(timezone);
+
+    if (!zone) {
+      zone = {
+        subscribers: 0,
+        warnings: new Map(),
+        transition: this.timezoneService.getNextOffsetTransition(
+          timezone,
+          new Date(now),
+        ),
+        checkedAt: now,
+        sentWarnings: new Set(),
+      };
+      this.zones.set(timezone, zone);
+    }
+
+    zone.subscribers++;
+    await client.socket.join(`offset-change-${timezone}`);
+
+    for (const minutes of warnings) {
+      zone.warnings.set(minutes, (zone.warnings.get(minutes) ?? 0) + 1);
+      await client.socket.join(`offset-warning-${timezone}-${minutes}`);
+
+      // Warnings are sent when their time is reached, not late
+      if (
+        zone.transition &&
+        now >= zone.transition.at.getTime() - minutes * MINUTE_MS
+      ) {
+        zone.sentWarnings.add(minutes);
+      }
+    }
+
+    client.subscriptions.set(timezone, warnings);
+
+    this.stopTicking ??= this.tickScheduler.subscribe((tick) =>
+      this.checkTransitions(tick),
+    );
+  }
+
+  private async unwatch(
+    client: OffsetChangeClient,
+    timezone: string,
+  ): Promise<void> {
+    const warnings = client.subscriptions.get(timezone);
+
+    if (!warnings) {
+      return;
+    }
+
+    await client.socket.leave(`offset-change-${timezone}`);
+    for (const minutes of warnings) {
+      await client.socket.leave(`offset-warning-${timezone}-${minutes}`);
+    }
+
+    client.subscriptions.delete(timezone);
+    this.releaseZone(timezone, warnings);
+  }
+
+  private releaseZone(timezone: string, warnings: number[]): void {
+    const zone = this.zones.get(timezone);
+
+    if (!zone) {
+      return;
+    }
+
+    for (const minutes of warnings) {
+      const count = (zone.warnings.get(minutes) ?? 0) - 1;
+      if (count > 0) {
+        zone.warnings.set(minutes, count);
+      } else {
+        zone.warnings.delete(minutes);
+      }
+    }
+
+    if (--zone.subscribers === 0) {
+      this.zones.delete(timezone);
+    }
+
+    if (this.zones.size === 0 && this.stopTicking) {
+      this.stopTicking();
+      this.stopTicking = undefined;
+    }
+  }
+
+  // Ticks are aligned to whole seconds, like the transitions themselves
+  private checkTransitions(tick: Date): void {
+    const now = tick.getTime();
+
+    for (const [timezone, zone] of this.zones) {
+      try {
+        this.checkZone(timezone, zone, now, tick);
+      } catch (error) {
+        this.logger.error('Error checking offset changes', {
+          timezone,
+          error,
+        });
+      }
+    }
+  }
+
+  private checkZone(
+    timezone: string,
+    zone: ZoneWatch,
+    now: number,
+    tick: Date,
+  ): void {
+    // Zones without transitions in the next year are checked again daily
+    if (!zone.transition) {
+      if (now - zone.checkedAt >= DAY_MS) {
+        zone.transition = this.timezoneService.getNextOffsetTransition(
+          timezone,
+          tick,
+        );
+        zone.checkedAt = now;
+      }
+      return;
+    }
+
+    const transitionTime = zone.transition.at.getTime();
+
+    for (const minutes of zone.warnings.keys()) {
+      if (
+        !zone.sentWarnings.has(minutes) &&
+        now >= transitionTime - minutes * MINUTE_MS
+      ) {
+        zone.sentWarnings.add(minutes);
+        this.gateway.emitToRoom(
+          `offset-warning-${timezone}-${minutes}`,
+          'offset-change',
+          this.createMessage(timezone, zone.transition, 'upcoming', tick, {
+            notice_minutes: minutes,
+          }),
+        );
+      }
+    }
+
+    if (now >= transitionTime) {
+      this.gateway.emitToRoom(
+        `offset-change-${timezone}`,
+        'offset-change',
+        this.createMessage(timezone, zone.transition, 'changed', tick),
+      );
+
+      zone.transition = this.timezoneService.getNextOffsetTransition(
+        timezone,
+        tick,
+      );
+      zone.checkedAt = now;
+      zone.sentWarnings.clear();
+    }
+  }
+
+  private createMessage(
+    timezone: string,
+    transition: OffsetTransition,
+    phase: OffsetChangeMessage['phase'],
+    tick: Date,
+    extra: Pick<OffsetChangeMessage, 'notice_minutes'> = {},
+  ): OffsetChangeMessage {
+    return {
+      type: 'offset_change',
+      phase,
+      timezone,
+      transition_at: transition.at.toISOString(),
+      offset_before: formatUtcOffset(transition.offsetBefore),
+      offset_after: formatUtcOffset(transition.offsetAfter),
+      ...extra,
+      timestamp: tick.toISOString(),
+    };
+  }
+
+  private describeSubscriptions(
+    client: OffsetChangeClient,
+  ): OffsetSubscriptionsResponse {
+    return {
+      subscriptions: [...client.subscriptions].map(([timezone, warnings]) => {
+        const next = this.zones.get(timezone)?.transition;
+
+        return {
+          timezone,
+          warnings,
+          next_transition: next
+            ? {
+                at: next.at.toISOString(),
+                offset_before: formatUtcOffset(next.offsetBefore),
+                offset_after: formatUtcOffset(next.offsetAfter),
+              }
+            : null,
+        };
+      }),
+    };
+  }
+
+  // Cleanup method for graceful shutdown
+  cleanup(): void {
+    this.stopTicking?.();
+    this.stopTicking = undefined;
+
+    this.clients.clear();
+    this.zones.clear();
+  }
+
+  // Getter for testing purposes
+  getSubscribedTimezones(): string[] {
+    return [...this.zones.keys()];
+  }
+}
@@ -1,5 +1,18 @@
-import { TimezoneService } from '@services';
-import { GET, PARAM, RoutingRegistry } from '@shared';
+import {
+  ConfigService,
+  InvalidTimezoneException,
+  TimezoneService,
+} from '@services';
+import {
+  ApiOperation,
+  ApiResponse,
+  Auth,
+  Controller,
+  GET,
+  PARAM,
+  RateLimit,
+  s,
+} from '@shared';
 
 interface TimezoneResponse {
   timezone: string;
@@ -7,29 +20,48 @@ interface TimezoneResponse {
   timestamp: string;
 }
 
+const timezoneResponseSchema = s.object({
+  timezone: s.timezone(),
+  current_time: s.string().describe('Local time, ISO 8601 with offset'),
+  timestamp: s.string().describe('ISO 8601 time of the response'),
+});
+
+@Controller('/time')
 export class TimezoneController {
-  constructor() {
-    // Manually register service parameters for dependency injection
-    const registry = RoutingRegistry.getInstance();
-    registry.registerServiceParameter(
-      TimezoneController,
-      'getTimeByTimezone',
-      1, // TimezoneService is at index 1
-      TimezoneService,
-    );
-  }
+  constructor(
+    private timezoneService: TimezoneService,
+    private config: ConfigService,
+  ) {}
 
-  @GET('/time/:timezone')
-  getTimeByTimezone(
-    @PARAM('timezone') timezone: string,
-    timezoneService: TimezoneService,
-  ): TimezoneResponse {
-    console.log(`Request for timezone: ${timezone}`);
+  @GET('/')
+  @Auth('time:read')
+  @RateLimit(120, '1m')
+  @ApiOperation({ summary: 'Get current time in the default timezone' })
+  @ApiResponse(200, {
+    description: 'Current time in the timezone set by DEFAULT_TIMEZONE',
+    schema: timezoneResponseSchema,
+  })
+  getTime(): TimezoneResponse {
+    return this.getTimeByTimezone(this.config.get('defaultTimezone'));
+  }
 
-    const result = timezoneService.getValidatedTimeInTimezone(timezone);
+  @GET('/*timezone')
+  @Auth('time:read')
+  @RateLimit(120, '1m')
+  @ApiOperation({ summary: 'Get current time in specified timezone' })
+  @ApiResponse(200, {
+    description: 'Current time in the timezone',
+    schema: timezoneResponseSchema,
+  })
+  // Unknown zones are answered by the handler, with code INVALID_TIMEZONE
+  @ApiResponse(400, { description: 'Unknown timezone identifier' })
+  getTimeByTimezone(@PARAM('timezone') timezone: string): TimezoneResponse {
+    const result = this.timezoneService.getValidatedTimeInTimezone(timezone);
 
     if (!result.success) {
-      throw new Error(result.error);
+      throw result.code === 'INVALID_TIMEZONE'
+        ? new InvalidTimezoneException(timezone)
+        : new Error(result.error);
     }
 
     return {
@@ -1,120 +1,594 @@
-import { TimezoneService } from '@services';
-import { PARAM, WebSocket } from '@shared';
-import { Socket } from 'socket.io';
+import { RealtimeGateway } from '@routing';
+import {
+  MetricsRegistry,
+  TickScheduler,
+  TimezoneService,
+  formatUtcOffset,
+} from '@services';
+import {
+  BadRequestException,
+  ConnectedSocket,
+  Emits,
+  Logger,
+  MessageBody,
+  OnConnect,
+  OnDisconnect,
+  RateLimit,
+  RealtimeConnection,
+  SubscribeMessage,
+  WebSocket,
+  s,
+} from '@shared';
 
-export interface SocketIOClient {
-  socket: Socket;
+// How often a subscribed timezone is included in `time-update` batches
+export type UpdateGranularity = 'second' | 'minute' | 'hour' | 'offset-change';
+
+export interface LiveTimeClient {
+  socket: RealtimeConnection;
+  subscriptions: Map<string, UpdateGranularity>;
+  group?: string; // batch room shared by sockets with identical subscriptions
+}
+
+export interface ZoneTime {
   timezone: string;
-  intervalId?: NodeJS.Timeout;
+  current_time: string;
+  utc_offset: string;
+}
+
+export interface TimeUpdateMessage {
+  type: 'time_update';
+  times: ZoneTime[];
+  timestamp: string;
+}
+
+export interface TimeErrorMessage {
+  type: 'error';
+  timezone: string;
+  error: string;
+  timestamp: string;
+}
+
+export interface SubscriptionsResponse {
+  subscriptions: { timezone: string; granularity: UpdateGranularity }[];
+}
+
+// Time of one timezone at a tick, computed once for every subscriber
+interface ZoneSnapshot {
+  time?: ZoneTime;
+  error?: TimeErrorMessage;
+  offset: number;
+  offsetChanged: boolean;
+}
+
+interface SubscriptionGroup {
+  subscriptions: Map<string, UpdateGranularity>;
+  sockets: number;
+  createdAt: Date;
+  // Local second, minute or hour of the last emit, per timezone
+  emitted: Map<string, number>;
 }
 
-@WebSocket('/time/live/:timezone')
+const MAX_SUBSCRIPTIONS = 50;
+
+const PERIOD_MS = { second: 1000, minute: 60_000, hour: 3_600_000 };
+
+const GRANULARITIES: readonly UpdateGranularity[] = [
+  'second',
+  'minute',
+  'hour',
+  'offset-change',
+];
+
+const granularity = s
+  .enum(GRANULARITIES)
+  .optional()
+  .describe('Update frequency, defaults to every second');
+
+const timezonePayload = s.object({ timezone: s.timezone(), granularity });
+
+const zoneTime = s.object({
+  timezone: s.timezone(),
+  current_time: s.string().describe('Local time, ISO 8601 with offset'),
+  utc_offset: s.string().describe('UTC offset, e.g. +05:30'),
+});
+
+// Connecting and every event of a client take from the same bucket
+@RateLimit(60, '1m')
+@WebSocket('/time/live/*timezone?')
+@Emits(
+  'time-update',
+  s.object({
+    type: s.enum(['time_update']),
+    times: s.array(zoneTime),
+    timestamp: s.string().describe('ISO 8601 time of the update'),
+  }),
+  {
+    summary:
+      'Current time of every subscribed timezone whose local second, minute or hour changed since the last update',
+  },
+)
+@Emits(
+  'error',
+  s.object({
+    type: s.enum(['error']),
+    timezone: s.string(),
+    error: s.string(),
+    timestamp: s.string(),
+  }),
+  { description: 'The time could not be computed for the timezone' },
+)
+@Emits(
+  'error',
+  s.object({
+    error: s.string(),
+    code: s.string(),
+    message: s.string(),
+    details: s.array(s.object({})).optional(),
+  }),
+  {
+    description:
+      'An event without acknowledgement callback was rejected (validation, guards or internal errors)',
+  },
+)
 export class TimezoneWebSocket {
-  private clients: Set<SocketIOClient> = new Set();
+  private clients: Map<string, LiveTimeClient> = new Map();
+  // Subscribed clients per timezone room
+  private timezones: Map<string, number> = new Map();
+  private groups: Map<string, SubscriptionGroup> = new Map();
+  // UTC offset of each timezone at the previous tick, only updated by
+  // broadcast() so immediate updates do not hide an offset change
+  private offsets: Map<string, number> = new Map();
+  private stopTicking: (() => void) | undefined;
+  private removeCollector: () => void;
 
   constructor(
-    @PARAM('timezone') private timezone: string,
     private timezoneService: TimezoneService,
-  ) {}
+    private tickScheduler: TickScheduler,
+    private gateway: RealtimeGateway,
+    private logger: Logger,
+    metrics: MetricsRegistry,
+  ) {
+    const sockets = metrics.gauge(
+      'realtime_timezone_sockets',
+      'Realtime clients subscribed to each timezone room',
+      { labelNames: ['timezone'] },
+    );
 
-  onConnect(client: SocketIOClient): void {
-    console.log(`Socket.io client connected for timezone: ${client.timezone}`);
+    this.removeCollector = metrics.addCollector(() => {
+      sockets.reset();
+      for (const [timezone, count] of this.timezones) {
+        sockets.set({ timezone }, count);
+      }
+    });
+  }
 
-    this.clients.add(client);
+  // Plain WebSocket and Server-Sent Events clients subscribe with the URL,
+  // e.g. /time/live/Asia/Tokyo?timezones=UTC&granularity=minute
+  @OnConnect(
+    s.object({
+      timezone: s.timezone().optional(),
+      timezones: s.array(s.timezone(), { max: MAX_SUBSCRIPTIONS }).optional(),
+      granularity,
+    }),
+  )
+  async onConnect(
+    @MessageBody('timezone') timezone: string | undefined,
+    @MessageBody('timezones') timezones: string[] | string | undefined,
+    @MessageBody('granularity') granularity: UpdateGranularity | undefined,
+    @ConnectedSocket() socket: RealtimeConnection,
+  ): Promise<void> {
+    const requested = ([] as string[]).concat(timezone ?? [], timezones ?? []);
 
-    // Send initial time immediately
-    this.sendTimeUpdate(client);
+    if (requested.length > 0) {
+      await this.subscribe(requested, granularity, socket);
+    }
+  }
 
-    // Set up interval to send time updates every second
-    client.intervalId = setInterval(() => {
-      this.sendTimeUpdate(client);
-    }, 1000);
+  @SubscribeMessage(
+    'subscribe',
+    s.object({
+      timezones: s.array(s.timezone(), { min: 1, max: MAX_SUBSCRIPTIONS }),
+      granularity,
+    }),
+    { summary: 'Add timezones to the subscription of this socket' },
+  )
+  async subscribe(
+    @MessageBody('timezones') timezones: string[] | string,
+    @MessageBody('granularity') granularity: UpdateGranularity | undefined,
+    @ConnectedSocket() socket: RealtimeConnection,
+  ): Promise<SubscriptionsResponse> {
+    const client = this.getOrCreateClient(socket);
+    const subscriptions = new Map(client.subscriptions);
 
-    // Handle client disconnect
-    client.socket.on('disconnect', () => {
-      this.onDisconnect(client);
-    });
+    for (const timezone of ([] as string[]).concat(timezones)) {
+      subscriptions.set(timezone, granularity ?? 'second');
+    }
 
-    // Handle custom events
-    client.socket.on('get-time', () => {
-      this.sendTimeUpdate(client);
+    socket.logger.info('Client subscribed', {
+      timezones: [...subscriptions.keys()],
     });
 
-    client.socket.on('change-timezone', (data: { timezone: string }) => {
-      client.timezone = data.timezone;
-      this.sendTimeUpdate(client);
+    await this.updateSubscriptions(client, subscriptions);
+    this.sendTimeUpdate(client);
+
+    return this.describeSubscriptions(client);
+  }
+
+  @SubscribeMessage(
+    'unsubscribe',
+    s.object({ timezones: s.array(s.string()).optional() }),
+    { summary: 'Remove timezones, or every timezone, from the subscription' },
+  )
+  async unsubscribe(
+    @MessageBody('timezones') timezones: string[] | string | undefined,
+    @ConnectedSocket() socket: RealtimeConnection,
+  ): Promise<SubscriptionsResponse> {
+    const client = this.getClient(socket);
+    const subscriptions = new Map(client.subscriptions);
+
+    if (timezones === undefined) {
+      subscriptions.clear();
+    }
+    for (const timezone of ([] as string[]).concat(timezones ?? [])) {
+      subscriptions.delete(timezone);
+    }
+
+    await this.updateSubscriptions(client, subscriptions);
+
+    return this.describeSubscriptions(client);
+  }
+
+  @SubscribeMessage('subscribe-timezone', timezonePayload, {
+    summary: 'Replace the subscription with a single timezone',
+  })
+  async subscribeTimezone(
+    @MessageBody('timezone') timezone: string,
+    @MessageBody('granularity') granularity: UpdateGranularity | undefined,
+    @ConnectedSocket() socket: RealtimeConnection,
+  ): Promise<{ timezone: string }> {
+    const client = this.getOrCreateClient(socket);
+
+    socket.logger.info('Client subscribed', { timezones: [timezone] });
+
+    await this.updateSubscriptions(
+      client,
+      new Map([[timezone, granularity ?? 'second']]),
+    );
+    this.sendTimeUpdate(client);
+
+    return { timezone };
+  }
+
+  @SubscribeMessage('get-time', undefined, {
+    summary: 'Request an immediate update of every subscribed timezone',
+  })
+  getTime(@ConnectedSocket() socket: RealtimeConnection): TimeUpdateMessage {
+    return this.sendTimeUpdate(this.getClient(socket));
+  }
+
+  @SubscribeMessage('change-timezone', timezonePayload, {
+    summary: 'Switch the subscription to another timezone',
+  })
+  async changeTimezone(
+    @MessageBody('timezone') timezone: string,
+    @MessageBody('granularity') granularity: UpdateGranularity | undefined,
+    @ConnectedSocket() socket: RealtimeConnection,
+  ): Promise<{ timezone: string }> {
+    this.getClient(socket);
+
+    return await this.subscribeTimezone(timezone, granularity, socket);
+  }
+
+  @OnDisconnect()
+  onDisconnect(@ConnectedSocket() socket: RealtimeConnection): void {
+    const client = this.clients.get(socket.id);
+
+    if (!client) {
+      return;
+    }
+
+    socket.logger.info('Client unsubscribed on disconnect', {
+      timezones: [...client.subscriptions.keys()],
     });
+
+    // Transports remove the connection from its rooms on their own
+    this.clients.delete(socket.id);
+    this.leaveGroup(client);
+    for (const timezone of client.subscriptions.keys()) {
+      this.removeTimezone(timezone);
+    }
+  }
+
+  private getClient(socket: RealtimeConnection): LiveTimeClient {
+    const client = this.clients.get(socket.id);
+
+    if (!client) {
+      throw new BadRequestException(
+        "Emit 'subscribe' before requesting time updates",
+        { code: 'NOT_SUBSCRIBED' },
+      );
+    }
+
+    return client;
+  }
+
+  private getOrCreateClient(socket: RealtimeConnection): LiveTimeClient {
+    return this.clients.get(socket.id) ?? { socket, subscriptions: new Map() };
+  }
+
+  // Move the socket between timezone and batch rooms to match its new subscriptions
+  private async updateSubscriptions(
+    client: LiveTimeClient,
+    subscriptions: Map<string, UpdateGranularity>,
+  ): Promise<void> {
+    const { socket } = client;
+
+    if (subscriptions.size > MAX_SUBSCRIPTIONS) {
+      throw new BadRequestException(
+        `A socket can subscribe to at most ${MAX_SUBSCRIPTIONS} timezones`,
+        { code: 'TOO_MANY_SUBSCRIPTIONS' },
+      );
+    }
+
+    for (const timezone of client.subscriptions.keys()) {
+      if (!subscriptions.has(timezone)) {
+        await socket.leave(`timezone-${timezone}`);
+        this.removeTimezone(timezone);
+      }
+    }
+    for (const timezone of subscriptions.keys()) {
+      if (!client.subscriptions.has(timezone)) {
+        await socket.join(`timezone-${timezone}`);
+        this.addTimezone(timezone);
+      }
+    }
+
+    const group = this.toGroupKey(subscriptions);
+    if (group !== client.group) {
+      if (client.group) {
+        await socket.leave(`time-batch-${client.group}`);
+        this.leaveGroup(client);
+      }
+      if (subscriptions.size > 0) {
+        await socket.join(`time-batch-${group}`);
+        this.joinGroup(client, group, subscriptions);
+      }
+    }
+
+    client.subscriptions = subscriptions;
+
+    if (subscriptions.size > 0) {
+      this.clients.set(socket.id, client);
+    } else {
+      this.clients.delete(socket.id);
+    }
+  }
+
+  private joinGroup(
+    client: LiveTimeClient,
+    key: string,
+    subscriptions: Map<string, UpdateGranularity>,
+  ): void {
+    const group = this.groups.get(key) ?? {
+      subscriptions,
+      sockets: 0,
+      createdAt: new Date(),
+      emitted: new Map<string, number>(),
+    };
+    group.sockets++;
+    this.groups.set(key, group);
+    client.group = key;
   }
 
-  private onDisconnect(client: SocketIOClient): void {
-    console.log(
-      `Socket.io client disconnected for timezone: ${client.timezone}`,
+  private leaveGroup(client: LiveTimeClient): void {
+    const group = client.group ? this.groups.get(client.group) : undefined;
+
+    if (group && --group.sockets === 0) {
+      this.groups.delete(client.group!);
+    }
+
+    delete client.group;
+  }
+
+  // Sockets with identical subscriptions share one batch room
+  private toGroupKey(subscriptions: Map<string, UpdateGranularity>): string {
+    return [...subscriptions]
+      .map(([timezone, granularity]) => `${timezone}=${granularity}`)
+      .sort()
+      .join(',');
+  }
+
+  // The shared tick only runs while at least one timezone has subscribers
+  private addTimezone(timezone: string): void {
+    this.timezones.set(timezone, (this.timezones.get(timezone) ?? 0) + 1);
+
+    this.stopTicking ??= this.tickScheduler.subscribe((tick) =>
+      this.broadcast(tick),
     );
+  }
+
+  private removeTimezone(timezone: string): void {
+    const count = (this.timezones.get(timezone) ?? 0) - 1;
+
+    if (count > 0) {
+      this.timezones.set(timezone, count);
+      return;
+    }
+
+    this.timezones.delete(timezone);
+    this.offsets.delete(timezone);
+
+    if (this.timezones.size === 0 && this.stopTicking) {
+      this.stopTicking();
+      this.stopTicking = undefined;
+    }
+  }
+
+  // Each timezone is computed once per tick, each batch room gets one emit
+  private broadcast(tick: Date): void {
+    const snapshots = new Map<string, ZoneSnapshot>();
+
+    for (const timezone of this.timezones.keys()) {
+      const snapshot = this.takeSnapshot(timezone, tick);
+      snapshots.set(timezone, snapshot);
+
+      if (snapshot.time) {
+        this.offsets.set(timezone, snapshot.offset);
+      }
+      if (snapshot.error) {
+        this.gateway.emitToTimezone(timezone, 'error', snapshot.error);
+      }
+    }
+
+    for (const [key, group] of this.groups) {
+      const times: ZoneTime[] = [];
+
+      for (const [timezone, granularity] of group.subscriptions) {
+        const snapshot = snapshots.get(timezone);
+        if (
+          snapshot?.time &&
+          this.isDue(group, timezone, granularity, snapshot, tick)
+        ) {
+          times.push(snapshot.time);
+        }
+      }
+
+      if (times.length > 0) {
+        const message: TimeUpdateMessage = {
+          type: 'time_update',
+          times,
+          timestamp: tick.toISOString(),
+        };
+        this.gateway.emitToRoom(`time-batch-${key}`, 'time-update', message);
+      }
+    }
+  }
+
+  // Due once the local second, minute or hour changed since the last emit to
+  // the group, whatever the tick interval, or on offset changes
+  private isDue(
+    group: SubscriptionGroup,
+    timezone: string,
+    granularity: UpdateGranularity,
+    snapshot: ZoneSnapshot,
+    tick: Date,
+  ): boolean {
+    if (granularity === 'offset-change') {
+      return snapshot.offsetChanged;
+    }
+
+    // Local hours start on the half hour in zones like Asia/Kolkata
+    const period = (at: Date): number =>
+      Math.floor(
+        (at.getTime() + snapshot.offset * 60_000) / PERIOD_MS[granularity],
+      );
+    // Sockets get the current time when subscribing, so the first emit waits
+    // for the next period
+    const last = group.emitted.get(timezone) ?? period(group.createdAt);
+    const current = period(tick);
 
-    // Clear the interval
-    if (client.intervalId) {
-      clearInterval(client.intervalId);
+    if (current === last) {
+      return false;
     }
 
-    // Remove client from set
-    this.clients.delete(client);
+    group.emitted.set(timezone, current);
+    return true;
   }
 
-  private sendTimeUpdate(client: SocketIOClient): void {
+  private takeSnapshot(timezone: string, at: Date): ZoneSnapshot {
+    const timestamp = at.toISOString();
+
     try {
       const result = this.timezoneService.getValidatedTimeInTimezone(
-        client.timezone,
+        timezone,
+        at,
       );
 
-      if (result.success) {
-        const message = {
-          type: 'time_update',
-          timezone: client.timezone,
-          current_time: result.time,
-          timestamp: new Date().toISOString(),
+      if (!result.success) {
+        return {
+          error: { type: 'error', timezone, error: result.error, timestamp },
+          offset: 0,
+          offsetChanged: false,
         };
+      }
 
-        client.socket.emit('time-update', message);
-      } else {
-        // Send error message
-        const errorMessage = {
-          type: 'error',
-          timezone: client.timezone,
-          error: result.error,
-          timestamp: new Date().toISOString(),
-        };
+      const offset = this.timezoneService.getUtcOffset(timezone, at);
+      const previous = this.offsets.get(timezone);
 
-        client.socket.emit('error', errorMessage);
-      }
+      return {
+        time: {
+          timezone,
+          current_time: result.time,
+          utc_offset: formatUtcOffset(offset),
+        },
+        offset,
+        offsetChanged: previous !== undefined && previous !== offset,
+      };
     } catch (error) {
-      console.error(`Error sending time update for ${client.timezone}:`, error);
+      this.logger.error('Error sending time update', { timezone, error });
 
-      const errorMessage = {
-        type: 'error',
-        timezone: client.timezone,
-        error: 'Failed to get time update',
-        timestamp: new Date().toISOString(),
+      return {
+        error: {
+          type: 'error',
+          timezone,
+          error: 'Failed to get time update',
+          timestamp,
+        },
+        offset: 0,
+        offsetChanged: false,
       };
+    }
+  }
+
+  // Send every subscribed timezone to one socket, whatever its granularity
+  private sendTimeUpdate(client: LiveTimeClient): TimeUpdateMessage {
+    const now = new Date();
+    const times: ZoneTime[] = [];
 
-      client.socket.emit('error', errorMessage);
+    for (const timezone of client.subscriptions.keys()) {
+      const snapshot = this.takeSnapshot(timezone, now);
+
+      if (snapshot.time) {
+        times.push(snapshot.time);
+      } else if (snapshot.error) {
+        client.socket.emit('error', snapshot.error);
+      }
     }
+
+    const message: TimeUpdateMessage = {
+      type: 'time_update',
+      times,
+      timestamp: now.toISOString(),
+    };
+    client.socket.emit('time-update', message);
+
+    return message;
+  }
+
+  private describeSubscriptions(client: LiveTimeClient): SubscriptionsResponse {
+    return {
+      subscriptions: [...client.subscriptions].map(
+        ([timezone, granularity]) => ({ timezone, granularity }),
+      ),
+    };
   }
 
   // Cleanup method for graceful shutdown
   cleanup(): void {
-    console.log(
-      `Cleaning up WebSocket connections for timezone: ${this.timezone}`,
-    );
+    this.logger.info('Cleaning up live time subscriptions');
 
-    for (const client of this.clients) {
-      if (client.intervalId) {
-        clearInterval(client.intervalId);
-      }
+    this.stopTicking?.();
+    this.stopTicking = undefined;
+    this.removeCollector();
 
-      client.socket.disconnect(true);
+    for (const client of this.clients.values()) {
+      client.socket.disconnect();
     }
 
     this.clients.clear();
+    this.timezones.clear();
+    this.groups.clear();
+    this.offsets.clear();
   }
 
   // Getter for testing purposes
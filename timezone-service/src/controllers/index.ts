@@ -1,3 +1,7 @@
 export { TimezoneController } from './TimezoneController';
 export { HealthcheckController } from './HealthcheckController';
+export { DocsController } from './DocsController';
+export { ApiKeyController } from './ApiKeyController';
+export { MetricsController } from './MetricsController';
 export { TimezoneWebSocket } from './TimezoneWebSocket';
+export { OffsetChangeWebSocket } from './OffsetChangeWebSocket';
@@ -0,0 +1,311 @@
+import {
+  ApiKeyService,
+  ConfigIndicator,
+  ConfigService,
+  ConfigSources,
+  EventLoopLagIndicator,
+  HealthService,
+  MemoryIndicator,
+  TickScheduler,
+  TimezoneDataIndicator,
+} from '@services';
+import {
+  HttpException,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+  Provider,
+  RealtimeAuthOptions,
+  RoutingRegistry,
+  ServiceRegistry,
+  sendExceptionResponse,
+} from '@shared';
+import * as http from 'http';
+import { AddressInfo, Socket } from 'net';
+import { Duplex } from 'stream';
+
+import { EventStreamServer } from './EventStreamServer';
+import { LifecycleManager } from './LifecycleManager';
+import { NativeWebSocketServer } from './NativeWebSocketServer';
+import { RealtimeGateway, WebSocketClass } from './RealtimeGateway';
+import { ControllerClass, Router, RouterOptions } from './Router';
+import { SocketServer } from './SocketIOServer';
+import { cors, jsonContentType } from './middleware';
+
+export interface AppOptions {
+  controllers?: ControllerClass[]; // HTTP controllers, defaults to every @Controller class
+  webSockets?: WebSocketClass[]; // served on Socket.io, WebSocket and Server-Sent Events, defaults to every @WebSocket class
+  providers?: Provider[]; // registered after the config, logger and tick scheduler, so they can replace them
+  config?: ConfigSources | ConfigService; // defaults to process.env and process.argv
+  router?: RouterOptions; // defaults to the cors() middleware for the configured origins and jsonContentType()
+  realtimeAuth?: RealtimeAuthOptions; // defaults to the authenticator and anonymous scopes of the router
+  notFound?: HttpException; // answer to requests no route handles
+}
+
+export interface InjectRequest {
+  method?: string; // defaults to GET
+  url: string; // path and query string, e.g. /time/Europe/London?format=iso
+  headers?: http.OutgoingHttpHeaders;
+  body?: unknown; // strings and buffers are sent as is, anything else as JSON
+}
+
+export interface InjectResponse {
+  statusCode: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+  json<T = unknown>(): T;
+}
+
+/**
+ * Create the HTTP server with its routes and realtime transports
+ * Nothing listens until listen() is called, inject() sends requests without a
+ * port, e.g. in tests
+ * @throws InvalidConfigException when the settings are invalid
+ */
+export function createApp(options: AppOptions = {}): Application {
+  return new Application(options);
+}
+
+/**
+ * HTTP server, Socket.io, WebSocket and Server-Sent Events transports and the
+ * services they share, created by createApp
+ */
+export class Application {
+  readonly server: http.Server;
+  readonly router: Router;
+  readonly socketServer: SocketServer;
+  readonly nativeWebSocketServer: NativeWebSocketServer;
+  readonly eventStreamServer: EventStreamServer;
+  readonly lifecycle: LifecycleManager;
+  readonly config: ConfigService;
+  readonly logger: Logger;
+  private serviceRegistry = ServiceRegistry.getInstance();
+  // Services of the process before the app added its own, restored on close
+  private restoreServices = this.serviceRegistry.checkpoint();
+  private inheritedServices = new Set(this.serviceRegistry.getServices());
+  private notFound: HttpException;
+  private closed: Promise<number> | undefined;
+
+  constructor(options: AppOptions) {
+    this.config =
+      options.config instanceof ConfigService
+        ? options.config
+        : new ConfigService(options.config);
+    const { env, logLevel, corsOrigins, tickIntervalMs, shutdownTimeoutMs } =
+      this.config.getAll();
+
+    // Registered before anything logs, JSON lines in production
+    this.serviceRegistry.registerService(ConfigService, this.config);
+    this.serviceRegistry.registerService(
+      Logger,
+      new Logger({
+        level: logLevel,
+        format: env === 'production' ? 'json' : 'pretty',
+      }),
+    );
+    // Live time updates of every WebSocket controller share this timer
+    this.serviceRegistry.registerService(
+      TickScheduler,
+      new TickScheduler(tickIntervalMs),
+    );
+    for (const provider of options.providers ?? []) {
+      this.serviceRegistry.register(provider);
+    }
+    this.logger = this.serviceRegistry.getOrCreateService<Logger>(Logger);
+
+    this.router = new Router({
+      middleware: [cors({ origin: corsOrigins }), jsonContentType()],
+      ...options.router,
+    });
+    const controllers =
+      options.controllers ??
+      (RoutingRegistry.getInstance().getDecoratedControllers() as ControllerClass[]);
+    for (const controllerClass of controllers) {
+      this.router.registerController(controllerClass);
+    }
+
+    const gateway =
+      this.serviceRegistry.getOrCreateService<RealtimeGateway>(RealtimeGateway);
+    if (options.webSockets) {
+      gateway.useWebSockets(options.webSockets);
+    }
+    // Realtime clients need the same keys and scopes as the HTTP routes
+    gateway.useAuthentication(
+      options.realtimeAuth ?? {
+        authenticator: options.router?.auth?.authenticator ?? ApiKeyService,
+        anonymousScopes: options.router?.auth?.anonymousScopes ?? [],
+      },
+    );
+
+    this.eventStreamServer = new EventStreamServer({ corsOrigins });
+    this.notFound = options.notFound ?? new NotFoundException();
+    this.server = http.createServer((req, res) => void this.handle(req, res));
+    this.socketServer = new SocketServer(this.server, { corsOrigins });
+    this.nativeWebSocketServer = new NativeWebSocketServer(this.server);
+
+    // Indicators behind /health/live and /health/ready
+    const health =
+      this.serviceRegistry.getOrCreateService<HealthService>(HealthService);
+    const eventLoopLag = new EventLoopLagIndicator();
+    health.addIndicator('liveness', eventLoopLag);
+    health.addIndicator('liveness', new MemoryIndicator());
+    health.addIndicator('readiness', this.socketServer);
+    health.addIndicator('readiness', new TimezoneDataIndicator());
+    health.addIndicator('readiness', new ConfigIndicator());
+
+    this.lifecycle = new LifecycleManager(this.server, {
+      drainTimeoutMs: shutdownTimeoutMs,
+      // Only the services of this app are destroyed
+      services: () =>
+        this.serviceRegistry
+          .getServices()
+          .filter((service) => !this.inheritedServices.has(service)),
+    });
+    this.lifecycle.onShutdown(() => {
+      // Cleanup Socket.io server first, it also cleans up the WebSocket controllers
+      this.socketServer.cleanup();
+      this.nativeWebSocketServer.cleanup();
+      this.eventStreamServer.cleanup();
+      eventLoopLag.dispose();
+    });
+  }
+
+  /**
+   * Start accepting connections
+   * @param port - Defaults to the configured port, 0 picks a free one
+   * @param host - Defaults to the configured host
+   * @returns The address the server listens on
+   */
+  listen(
+    port: number = this.config.get('port'),
+    host: string = this.config.get('host'),
+  ): Promise<AddressInfo> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve(this.server.address() as AddressInfo);
+      });
+    });
+  }
+
+  /**
+   * Shut down gracefully, see LifecycleManager, then remove the services of
+   * the app from ServiceRegistry so another app starts afresh
+   * @returns The exit code the process should end with
+   */
+  close(): Promise<number> {
+    this.closed ??= this.lifecycle.shutdown('close').then((code) => {
+      this.restoreServices();
+      return code;
+    });
+    return this.closed;
+  }
+
+  /**
+   * Exit the process after a graceful shutdown on SIGTERM and SIGINT
+   * @returns Function removing the signal handlers again
+   */
+  handleSignals(): () => void {
+    return this.lifecycle.handleSignals();
+  }
+
+  /**
+   * Send a request through the server without opening a port
+   * The request passes the same middleware, routes and error handling as one
+   * from the network. Event streams never end, so they cannot be injected
+   */
+  inject(request: InjectRequest): Promise<InjectResponse> {
+    const [client, server] = createSocketPair();
+    this.server.emit('connection', server);
+
+    const { body } = request;
+    const json =
+      body !== undefined && typeof body !== 'string' && !Buffer.isBuffer(body);
+    const payload = json ? JSON.stringify(body) : body;
+
+    return new Promise((resolve, reject) => {
+      const req = http.request(
+        {
+          method: request.method ?? 'GET',
+          path: request.url,
+          headers: {
+            host: 'localhost',
+            ...(json && { 'content-type': 'application/json' }),
+            ...request.headers,
+          },
+          // The client only reads and writes the stream of its connection
+          createConnection: () => client as unknown as Socket,
+        },
+        (res) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('error', reject);
+          res.on('end', () => {
+            const text = Buffer.concat(chunks).toString('utf8');
+            resolve({
+              statusCode: res.statusCode ?? 0,
+              headers: res.headers,
+              body: text,
+              json: <T>() => JSON.parse(text) as T,
+            });
+          });
+        },
+      );
+
+      req.on('error', reject);
+      req.end(payload);
+    });
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    try {
+      // Event streams pass the router middleware too (CORS, rate limit, access
+      // log, metrics and X-Request-Id) before the registered routes are tried
+      const handled = await this.router.handleRequest(req, res, (context) =>
+        this.eventStreamServer.handleRequest(req, res, context.logger),
+      );
+
+      if (!handled) {
+        sendExceptionResponse(res, this.notFound);
+      }
+    } catch (error) {
+      this.logger.error('Server error', { error });
+      sendExceptionResponse(res, new InternalServerErrorException());
+    }
+  }
+}
+
+// Socket of injected requests, as seen by the server
+class InjectedSocket extends Duplex {
+  readonly remoteAddress = '127.0.0.1';
+  peer: InjectedSocket | undefined;
+
+  override _read(): void {}
+
+  override _write(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: (error?: Error | null) => void,
+  ): void {
+    this.peer?.push(chunk);
+    callback();
+  }
+
+  override _final(callback: (error?: Error | null) => void): void {
+    this.peer?.push(null);
+    callback();
+  }
+}
+
+// Two connected in-memory sockets, what one writes the other reads
+function createSocketPair(): [InjectedSocket, InjectedSocket] {
+  const client = new InjectedSocket();
+  const server = new InjectedSocket();
+  client.peer = server;
+  server.peer = client;
+  return [client, server];
+}
@@ -0,0 +1,133 @@
+import {
+  JsonSchema,
+  RoutingRegistry,
+  WebSocketEventDirection,
+  WebSocketEventMetadata,
+} from '@shared';
+
+export interface AsyncApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+export interface AsyncApiMessage {
+  name: string;
+  contentType: string;
+  summary?: string;
+  description?: string;
+  payload?: JsonSchema;
+}
+
+export interface AsyncApiOperation {
+  operationId: string;
+  summary?: string;
+  message: AsyncApiMessage | { oneOf: AsyncApiMessage[] };
+}
+
+// `publish` is what clients send to the server, `subscribe` what they receive
+export interface AsyncApiChannel {
+  publish?: AsyncApiOperation;
+  subscribe?: AsyncApiOperation;
+}
+
+export interface AsyncApiDocument {
+  asyncapi: '2.6.0';
+  info: AsyncApiInfo;
+  defaultContentType: string;
+  channels: Record<string, AsyncApiChannel>;
+}
+
+const CONTENT_TYPE = 'application/json';
+
+/**
+ * Builds an AsyncAPI 2.x description of the Socket.io protocol from the
+ * @SubscribeMessage, @OnEvent and @Emits declarations of the registered WebSocket controllers.
+ * Each Socket.io event name becomes a channel
+ */
+export class AsyncApiGenerator {
+  private registry = RoutingRegistry.getInstance();
+
+  generate(info: AsyncApiInfo): AsyncApiDocument {
+    const declarations = new Map<string, WebSocketEventMetadata[]>();
+
+    for (const controllerClass of this.registry.getAllWebSockets().keys()) {
+      for (const event of this.registry.getWebSocketEvents(controllerClass)) {
+        const key = `${event.event}\n${event.direction}`;
+        declarations.set(key, [...(declarations.get(key) || []), event]);
+      }
+    }
+
+    const channels: Record<string, AsyncApiChannel> = {};
+    for (const events of declarations.values()) {
+      const { event, direction } = events[0];
+      channels[event] ??= {};
+      channels[event][direction === 'receive' ? 'publish' : 'subscribe'] =
+        this.buildOperation(event, direction, events);
+    }
+
+    return {
+      asyncapi: '2.6.0',
+      info,
+      defaultContentType: CONTENT_TYPE,
+      channels,
+    };
+  }
+
+  private buildOperation(
+    event: string,
+    direction: WebSocketEventDirection,
+    declarations: WebSocketEventMetadata[],
+  ): AsyncApiOperation {
+    const messages = declarations.map((declaration) =>
+      this.buildMessage(declaration),
+    );
+    const operation: AsyncApiOperation = {
+      operationId: this.toOperationId(event, direction),
+      message: messages.length === 1 ? messages[0] : { oneOf: messages },
+    };
+
+    const summary = declarations.find(
+      (declaration) => declaration.summary,
+    )?.summary;
+    if (summary) {
+      operation.summary = summary;
+    }
+
+    return operation;
+  }
+
+  private buildMessage(declaration: WebSocketEventMetadata): AsyncApiMessage {
+    const message: AsyncApiMessage = {
+      name: declaration.event,
+      contentType: CONTENT_TYPE,
+    };
+
+    if (declaration.summary) {
+      message.summary = declaration.summary;
+    }
+    if (declaration.description) {
+      message.description = declaration.description;
+    }
+    if (declaration.payload) {
+      message.payload = declaration.payload.toJsonSchema();
+    }
+
+    return message;
+  }
+
+  // "change-timezone" → "changeTimezone" (sent by clients) or "onChangeTimezone" (received)
+  private toOperationId(
+    event: string,
+    direction: WebSocketEventDirection,
+  ): string {
+    const words = event.split(/[^a-zA-Z0-9]+/).filter((word) => word);
+    const pascal = words
+      .map((word) => word[0].toUpperCase() + word.slice(1))
+      .join('');
+
+    return direction === 'receive'
+      ? pascal[0].toLowerCase() + pascal.slice(1)
+      : `on${pascal}`;
+  }
+}
@@ -0,0 +1,72 @@
+import { RealtimeBroadcaster } from '@shared';
+
+// A connection that writes already encoded frames to its client
+export interface FrameSink {
+  send(frame: string): void;
+}
+
+/**
+ * Room membership for transports without rooms of their own (plain WebSocket
+ * and Server-Sent Events). A broadcast is encoded once and the same frame is
+ * written to every member
+ */
+export class ConnectionRooms<T extends FrameSink>
+  implements RealtimeBroadcaster
+{
+  private rooms: Map<string, Set<T>> = new Map();
+  private memberships: Map<T, Set<string>> = new Map();
+
+  constructor(private encode: (event: string, data: unknown) => string) {}
+
+  join(room: string, member: T): void {
+    let members = this.rooms.get(room);
+
+    if (!members) {
+      members = new Set();
+      this.rooms.set(room, members);
+    }
+
+    members.add(member);
+
+    const rooms = this.memberships.get(member) ?? new Set<string>();
+    rooms.add(room);
+    this.memberships.set(member, rooms);
+  }
+
+  leave(room: string, member: T): void {
+    const members = this.rooms.get(room);
+
+    if (members?.delete(member) && members.size === 0) {
+      this.rooms.delete(room);
+    }
+
+    const rooms = this.memberships.get(member);
+    if (rooms?.delete(room) && rooms.size === 0) {
+      this.memberships.delete(member);
+    }
+  }
+
+  leaveAll(member: T): void {
+    for (const room of [...(this.memberships.get(member) ?? [])]) {
+      this.leave(room, member);
+    }
+  }
+
+  emitToRoom(room: string, event: string, data: unknown): void {
+    const members = this.rooms.get(room);
+
+    if (!members) {
+      return;
+    }
+
+    const frame = this.encode(event, data);
+    for (const member of members) {
+      member.send(frame);
+    }
+  }
+
+  // Get the members of a room, for testing purposes
+  getMembers(room: string): T[] {
+    return [...(this.rooms.get(room) ?? [])];
+  }
+}
@@ -0,0 +1,235 @@
+import { RateLimiter } from '@services';
+import {
+  Logger,
+  Principal,
+  RealtimeConnection,
+  ServiceRegistry,
+  requestCredentials,
+  requestIdFrom,
+  sendExceptionResponse,
+} from '@shared';
+import { randomUUID } from 'crypto';
+import * as http from 'http';
+import { ParsedUrlQuery } from 'querystring';
+import * as url from 'url';
+
+import { ConnectionRooms, FrameSink } from './ConnectionRooms';
+import { RealtimeGateway } from './RealtimeGateway';
+import { allowedOrigin } from './middleware';
+
+export interface EventStreamServerOptions {
+  corsOrigins?: string | readonly string[]; // defaults to any origin
+}
+
+// Comment lines keep idle streams open through proxies
+const HEARTBEAT_MS = 15 * 1000;
+
+const encodeEvent = (event: string, data: unknown): string =>
+  `event: ${event}\ndata: ${JSON.stringify(data ?? null)}\n\n`;
+
+class EventStreamConnection implements RealtimeConnection, FrameSink {
+  readonly transport = 'sse';
+  readonly id = randomUUID();
+  closeReason: string | undefined;
+  readonly logger: Logger;
+  // Events emitted by connect handlers, written once the stream is open
+  private pending: string[] | undefined = [];
+
+  constructor(
+    private res: http.ServerResponse,
+    readonly params: Record<string, string>,
+    readonly query: ParsedUrlQuery,
+    readonly principal: Principal | undefined,
+    readonly address: string | undefined,
+    logger: Logger,
+    private rooms: ConnectionRooms<EventStreamConnection>,
+    private gateway: RealtimeGateway,
+  ) {
+    this.logger = logger.child({ connection_id: this.id });
+  }
+
+  join(room: string): void {
+    this.gateway.authorizeRoom(this, room);
+    this.rooms.join(room, this);
+  }
+
+  leave(room: string): void {
+    this.rooms.leave(room, this);
+  }
+
+  emit(event: string, data: unknown): void {
+    this.send(encodeEvent(event, data));
+  }
+
+  send(frame: string): void {
+    if (this.pending) {
+      this.pending.push(frame);
+    } else if (!this.res.writableEnded) {
+      this.res.write(frame);
+    }
+  }
+
+  // `origin` is the Access-Control-Allow-Origin value, none for origins that are not allowed
+  open(origin: string | undefined): void {
+    this.res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // no response buffering in nginx
+      ...(origin && { 'Access-Control-Allow-Origin': origin }),
+      ...(origin !== '*' && { Vary: 'Origin' }),
+    });
+
+    const frames = this.pending ?? [];
+    this.pending = undefined;
+    this.res.write(`: connected ${this.id}\n\n${frames.join('')}`);
+  }
+
+  disconnect(): void {
+    this.closeReason = 'server disconnect';
+    this.res.end();
+  }
+}
+
+/**
+ * Server-Sent Events transport of the WebSocket controllers
+ * A GET request to a @WebSocket path, e.g. /time/live/Europe/London, opens a
+ * `text/event-stream` receiving the events the controller emits. Clients cannot
+ * send events, subscriptions come from the path and query string
+ */
+export class EventStreamServer {
+  private gateway =
+    ServiceRegistry.getInstance().getOrCreateService<RealtimeGateway>(
+      RealtimeGateway,
+    );
+  private rateLimiter =
+    ServiceRegistry.getInstance().getOrCreateService<RateLimiter>(RateLimiter);
+  private logger =
+    ServiceRegistry.getInstance().getOrCreateService<Logger>(Logger);
+  private rooms = new ConnectionRooms<EventStreamConnection>(encodeEvent);
+  private connections: Set<EventStreamConnection> = new Set();
+  private heartbeat: NodeJS.Timeout;
+  private removeBroadcaster: () => void;
+  private untrackConnections: () => void;
+  private corsOrigins: string | readonly string[];
+
+  constructor(options: EventStreamServerOptions = {}) {
+    this.corsOrigins = options.corsOrigins ?? '*';
+    this.removeBroadcaster = this.gateway.addBroadcaster(this.rooms);
+    this.untrackConnections = this.gateway.trackConnections(
+      'sse',
+      () => this.connections.size,
+    );
+
+    this.heartbeat = setInterval(() => {
+      for (const connection of this.connections) {
+        connection.send(': keep-alive\n\n');
+      }
+    }, HEARTBEAT_MS);
+    this.heartbeat.unref();
+  }
+
+  /**
+   * Open an event stream for GET requests to a @WebSocket path
+   * A rejected connection, including failed authentication, is answered with
+   * the error response instead
+   * @param logger - Logger of the request, defaults to one with its X-Request-Id
+   * @returns true if the request was handled, false otherwise
+   */
+  async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    logger?: Logger,
+  ): Promise<boolean> {
+    if (req.method !== 'GET') {
+      return false;
+    }
+
+    const { pathname, query } = url.parse(req.url || '', true);
+    const match = pathname ? this.gateway.matchPath(pathname) : undefined;
+
+    if (!match) {
+      return false;
+    }
+
+    let principal: Principal | undefined;
+
+    try {
+      principal = await this.gateway.authenticate(
+        requestCredentials(req.headers, query),
+      );
+    } catch (error) {
+      sendExceptionResponse(res, this.gateway.toException(error, 'connect'));
+      return true;
+    }
+
+    const connection = new EventStreamConnection(
+      res,
+      match.params,
+      query,
+      principal,
+      this.rateLimiter.clientAddress(req.headers, req.socket.remoteAddress),
+      logger ?? this.logger.child({ request_id: requestIdFrom(req.headers) }),
+      this.rooms,
+      this.gateway,
+    );
+
+    try {
+      await this.gateway.connect(connection, match.controllerClass);
+    } catch (error) {
+      await this.release(connection, 'connect error');
+      sendExceptionResponse(
+        res,
+        this.gateway.toException(error, 'connect', connection.logger),
+      );
+      return true;
+    }
+
+    // The client went away while connecting
+    if (res.destroyed) {
+      await this.release(connection, 'transport close');
+      return true;
+    }
+
+    this.connections.add(connection);
+    res.on('close', () => {
+      connection.logger.info('Server-Sent Events client disconnected');
+      this.connections.delete(connection);
+      void this.release(
+        connection,
+        connection.closeReason ?? 'transport close',
+      );
+    });
+
+    connection.open(allowedOrigin(this.corsOrigins, req.headers.origin));
+    connection.logger.info('Server-Sent Events client connected');
+
+    return true;
+  }
+
+  private async release(
+    connection: EventStreamConnection,
+    reason: string,
+  ): Promise<void> {
+    this.rooms.leaveAll(connection);
+    await this.gateway.disconnect(connection, reason);
+  }
+
+  // Cleanup method for graceful shutdown
+  cleanup(): void {
+    this.logger.info('Cleaning up Server-Sent Events streams');
+
+    clearInterval(this.heartbeat);
+    this.removeBroadcaster();
+    this.untrackConnections();
+
+    for (const connection of this.connections) {
+      connection.disconnect();
+    }
+  }
+
+  // Getter for testing purposes
+  getConnectionCount(): number {
+    return this.connections.size;
+  }
+}
@@ -0,0 +1,192 @@
+import { HealthService } from '@services';
+import {
+  Logger,
+  SERVER_SHUTDOWN_EVENT,
+  ServerShutdownNotice,
+  ServiceRegistry,
+  hasOnModuleDestroy,
+} from '@shared';
+import * as http from 'http';
+
+import { RealtimeGateway } from './RealtimeGateway';
+
+export interface LifecycleManagerOptions {
+  drainTimeoutMs?: number; // how long open HTTP requests may take to finish, defaults to 10 seconds
+  reconnectAfterMs?: number; // reconnect hint sent to realtime clients, defaults to 1 second
+  signals?: readonly NodeJS.Signals[]; // defaults to SIGTERM and SIGINT
+  exit?: (code: number) => void; // called after a signal, defaults to process.exit
+  services?: () => unknown[]; // services whose onModuleDestroy hooks run, defaults to every service in ServiceRegistry
+}
+
+export type ShutdownHook = (signal: string) => void | Promise<void>;
+
+/**
+ * Graceful shutdown of the server on SIGTERM and SIGINT
+ * In order: readiness fails, the server stops accepting connections, realtime
+ * clients receive a `server-shutdown` event with a reconnect hint, shutdown
+ * hooks close the transports, open HTTP requests are drained and the
+ * onModuleDestroy hooks of the services in ServiceRegistry run. On a signal
+ * the process exits with 0, or 1 when draining timed out, a hook failed or a
+ * second signal arrived
+ */
+export class LifecycleManager {
+  private serviceRegistry = ServiceRegistry.getInstance();
+  private logger = this.serviceRegistry.getOrCreateService<Logger>(Logger);
+  private hooks: Set<ShutdownHook> = new Set();
+  private activeRequests = 0;
+  private shutdownPromise: Promise<number> | undefined;
+  private drainTimeoutMs: number;
+  private reconnectAfterMs: number;
+  private signals: readonly NodeJS.Signals[];
+  private exit: (code: number) => void;
+  private services: () => unknown[];
+
+  constructor(
+    private server: http.Server,
+    options: LifecycleManagerOptions = {},
+  ) {
+    this.drainTimeoutMs = options.drainTimeoutMs ?? 10 * 1000;
+    this.reconnectAfterMs = options.reconnectAfterMs ?? 1000;
+    this.signals = options.signals ?? ['SIGTERM', 'SIGINT'];
+    this.exit = options.exit ?? ((code) => process.exit(code));
+    this.services =
+      options.services ?? (() => this.serviceRegistry.getServices());
+
+    this.server.on('request', (_req, res: http.ServerResponse) => {
+      this.activeRequests++;
+      res.once('close', () => {
+        this.activeRequests--;
+        // Keep-alive connections would hold server.close back until they time out
+        if (this.isShuttingDown()) {
+          setImmediate(() => this.server.closeIdleConnections());
+        }
+      });
+    });
+  }
+
+  /**
+   * Register a hook run once the server stops accepting connections, e.g. to
+   * close a realtime transport
+   * @returns Function removing the hook again
+   */
+  onShutdown(hook: ShutdownHook): () => void {
+    this.hooks.add(hook);
+    return () => this.hooks.delete(hook);
+  }
+
+  /**
+   * Shut down on the configured signals, a second signal exits immediately
+   * @returns Function removing the signal handlers again
+   */
+  handleSignals(): () => void {
+    const handler = (signal: NodeJS.Signals): void => {
+      if (this.isShuttingDown()) {
+        this.logger.warn('Forced exit', { signal });
+        this.exit(1);
+        return;
+      }
+
+      void this.shutdown(signal).then((code) => this.exit(code));
+    };
+
+    for (const signal of this.signals) {
+      process.on(signal, handler);
+    }
+
+    return () => {
+      for (const signal of this.signals) {
+        process.off(signal, handler);
+      }
+    };
+  }
+
+  isShuttingDown(): boolean {
+    return this.shutdownPromise !== undefined;
+  }
+
+  /**
+   * Shut down gracefully, only the first call has an effect
+   * @returns The exit code, 1 when draining timed out or a hook failed
+   */
+  shutdown(signal: string): Promise<number> {
+    this.shutdownPromise ??= this.run(signal);
+    return this.shutdownPromise;
+  }
+
+  private async run(signal: string): Promise<number> {
+    this.logger.info('Shutting down server', {
+      signal,
+      active_requests: this.activeRequests,
+    });
+    let exitCode = 0;
+
+    // Load balancers stop routing new clients here while connections close
+    this.serviceRegistry
+      .getOrCreateService<HealthService>(HealthService)
+      .beginShutdown();
+
+    const closed = new Promise<void>((resolve) => {
+      this.server.close(() => resolve());
+    });
+    this.server.closeIdleConnections();
+
+    const notice: ServerShutdownNotice = {
+      reason: 'Server is shutting down',
+      reconnect: true,
+      reconnect_after_ms: this.reconnectAfterMs,
+    };
+    this.serviceRegistry
+      .getOrCreateService<RealtimeGateway>(RealtimeGateway)
+      .emitToAll(SERVER_SHUTDOWN_EVENT, notice);
+
+    for (const hook of this.hooks) {
+      try {
+        await hook(signal);
+      } catch (error) {
+        this.logger.error('Shutdown hook error', { error });
+        exitCode = 1;
+      }
+    }
+
+    if (!(await this.drain(closed))) {
+      this.logger.warn('Open requests did not finish in time', {
+        active_requests: this.activeRequests,
+        timeout_ms: this.drainTimeoutMs,
+      });
+      this.server.closeAllConnections();
+      exitCode = 1;
+    }
+
+    // Services created last may depend on earlier ones, so they go first
+    for (const service of this.services().reverse()) {
+      if (!hasOnModuleDestroy(service)) {
+        continue;
+      }
+
+      try {
+        await service.onModuleDestroy(signal);
+      } catch (error) {
+        this.logger.error('Service shutdown error', {
+          service: (service as object).constructor.name,
+          error,
+        });
+        exitCode = 1;
+      }
+    }
+
+    this.logger.info('Server closed', { exit_code: exitCode });
+    return exitCode;
+  }
+
+  // Wait for the server to close, false when the drain timeout passed first
+  private drain(closed: Promise<void>): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), this.drainTimeoutMs);
+    });
+
+    return Promise.race([closed.then(() => true), timeout]).finally(() =>
+      clearTimeout(timer),
+    );
+  }
+}
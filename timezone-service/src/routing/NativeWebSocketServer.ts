@@ -0,0 +1,348 @@
+import { RateLimiter } from '@services';
+import {
+  BadRequestException,
+  HttpException,
+  Logger,
+  Principal,
+  RealtimeConnection,
+  ServiceRegistry,
+  requestCredentials,
+  requestIdFrom,
+} from '@shared';
+import { randomUUID } from 'crypto';
+import * as http from 'http';
+import { ParsedUrlQuery } from 'querystring';
+import { Duplex } from 'stream';
+import * as url from 'url';
+import WebSocket, { WebSocketServer } from 'ws';
+
+import { ConnectionRooms, FrameSink } from './ConnectionRooms';
+import {
+  MAX_MESSAGE_BYTES,
+  RealtimeGateway,
+  WebSocketRouteMatch,
+} from './RealtimeGateway';
+
+// Message sent by clients, an `id` asks for an `ack` frame with the result
+interface ClientMessage {
+  event: string;
+  data?: unknown;
+  id?: string | number;
+}
+
+// Close codes from RFC 6455
+const GOING_AWAY = 1001;
+const POLICY_VIOLATION = 1008;
+
+const HEARTBEAT_MS = 30 * 1000;
+
+// Every frame is a JSON object carrying the event name and its data
+const encodeFrame = (event: string, data: unknown): string =>
+  JSON.stringify({ event, data });
+
+class NativeWebSocketConnection implements RealtimeConnection, FrameSink {
+  readonly transport = 'websocket';
+  readonly id = randomUUID();
+  alive = true; // answered the last heartbeat ping
+  closeReason: string | undefined;
+  readonly logger: Logger;
+
+  constructor(
+    readonly ws: WebSocket,
+    readonly params: Record<string, string>,
+    readonly query: ParsedUrlQuery,
+    readonly principal: Principal | undefined,
+    readonly address: string | undefined,
+    logger: Logger,
+    private rooms: ConnectionRooms<NativeWebSocketConnection>,
+    private gateway: RealtimeGateway,
+  ) {
+    this.logger = logger.child({ connection_id: this.id });
+  }
+
+  join(room: string): void {
+    this.gateway.authorizeRoom(this, room);
+    this.rooms.join(room, this);
+  }
+
+  leave(room: string): void {
+    this.rooms.leave(room, this);
+  }
+
+  emit(event: string, data: unknown): void {
+    this.send(encodeFrame(event, data));
+  }
+
+  send(frame: string): void {
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(frame);
+    }
+  }
+
+  disconnect(): void {
+    this.closeReason = 'server disconnect';
+    this.ws.close();
+  }
+}
+
+/**
+ * Plain WebSocket (RFC 6455) transport of the WebSocket controllers
+ * Clients connect to a @WebSocket path, e.g. ws://host/time/live/Europe/London,
+ * and exchange JSON frames: `{"event": "subscribe", "data": {...}, "id": 1}`
+ * from the client, `{"event": "time-update", "data": {...}}` from the server
+ */
+export class NativeWebSocketServer {
+  // Larger frames close the connection with 1009 (message too big)
+  private wss = new WebSocketServer({
+    noServer: true,
+    maxPayload: MAX_MESSAGE_BYTES,
+  });
+  private gateway =
+    ServiceRegistry.getInstance().getOrCreateService<RealtimeGateway>(
+      RealtimeGateway,
+    );
+  private rateLimiter =
+    ServiceRegistry.getInstance().getOrCreateService<RateLimiter>(RateLimiter);
+  private logger =
+    ServiceRegistry.getInstance().getOrCreateService<Logger>(Logger);
+  private rooms = new ConnectionRooms<NativeWebSocketConnection>(encodeFrame);
+  private connections: Set<NativeWebSocketConnection> = new Set();
+  private heartbeat: NodeJS.Timeout;
+  private removeBroadcaster: () => void;
+  private untrackConnections: () => void;
+  private onUpgrade: (
+    req: http.IncomingMessage,
+    socket: Duplex,
+    head: Buffer,
+  ) => void;
+
+  constructor(private server: http.Server) {
+    this.removeBroadcaster = this.gateway.addBroadcaster(this.rooms);
+    this.untrackConnections = this.gateway.trackConnections(
+      'websocket',
+      () => this.connections.size,
+    );
+
+    this.onUpgrade = (req, socket, head) =>
+      void this.handleUpgrade(req, socket, head);
+    this.server.on('upgrade', this.onUpgrade);
+
+    this.heartbeat = setInterval(() => this.checkHeartbeats(), HEARTBEAT_MS);
+    this.heartbeat.unref();
+  }
+
+  /**
+   * Authenticate the client before completing the handshake
+   * Upgrades to other paths, like Socket.io's /socket.io/, are left to their own listeners
+   */
+  private async handleUpgrade(
+    req: http.IncomingMessage,
+    socket: Duplex,
+    head: Buffer,
+  ): Promise<void> {
+    const { pathname, query } = url.parse(req.url || '', true);
+    const match = pathname ? this.gateway.matchPath(pathname) : undefined;
+
+    if (!match) {
+      return;
+    }
+
+    let principal: Principal | undefined;
+
+    try {
+      principal = await this.gateway.authenticate(
+        requestCredentials(req.headers, query),
+      );
+    } catch (error) {
+      this.rejectUpgrade(socket, this.gateway.toException(error, 'connect'));
+      return;
+    }
+
+    const logger = this.logger.child({
+      request_id: requestIdFrom(req.headers),
+    });
+    const address = this.rateLimiter.clientAddress(
+      req.headers,
+      req.socket.remoteAddress,
+    );
+
+    this.wss.handleUpgrade(req, socket, head, (ws) => {
+      void this.handleConnection(ws, match, query, principal, address, logger);
+    });
+  }
+
+  // Answer the upgrade request with the error response instead of switching protocols
+  private rejectUpgrade(socket: Duplex, exception: HttpException): void {
+    const body = JSON.stringify(exception.toResponse());
+
+    socket.end(
+      `HTTP/1.1 ${exception.status} ${http.STATUS_CODES[exception.status]}\r\n` +
+        'Content-Type: application/json; charset=utf-8\r\n' +
+        `Content-Length: ${Buffer.byteLength(body)}\r\n` +
+        'Connection: close\r\n\r\n' +
+        body,
+    );
+  }
+
+  private async handleConnection(
+    ws: WebSocket,
+    match: WebSocketRouteMatch,
+    query: ParsedUrlQuery,
+    principal: Principal | undefined,
+    address: string | undefined,
+    logger: Logger,
+  ): Promise<void> {
+    const connection = new NativeWebSocketConnection(
+      ws,
+      match.params,
+      query,
+      principal,
+      address,
+      logger,
+      this.rooms,
+      this.gateway,
+    );
+    this.connections.add(connection);
+
+    connection.logger.info('WebSocket client connected');
+
+    // Messages arrive as a single Buffer with the default `nodebuffer` binary type
+    ws.on('message', (raw: Buffer, isBinary: boolean) => {
+      void this.handleMessage(
+        connection,
+        isBinary ? undefined : raw.toString('utf8'),
+      );
+    });
+
+    ws.on('pong', () => {
+      connection.alive = true;
+    });
+
+    ws.on('close', (code: number) => {
+      connection.logger.info('WebSocket client disconnected', { code });
+      this.connections.delete(connection);
+      this.rooms.leaveAll(connection);
+      void this.gateway.disconnect(
+        connection,
+        connection.closeReason ?? 'transport close',
+      );
+    });
+
+    ws.on('error', (error: Error) => {
+      connection.logger.error('WebSocket error', { error });
+    });
+
+    try {
+      await this.gateway.connect(connection, match.controllerClass);
+    } catch (error) {
+      // Tell the client why before closing the connection
+      connection.emit(
+        'error',
+        this.gateway
+          .toException(error, 'connect', connection.logger)
+          .toResponse(),
+      );
+      connection.closeReason = 'connect error';
+      ws.close(POLICY_VIOLATION, 'Connection rejected');
+    }
+  }
+
+  // Run a @SubscribeMessage handler and acknowledge its result or error
+  private async handleMessage(
+    connection: NativeWebSocketConnection,
+    text: string | undefined,
+  ): Promise<void> {
+    const message = text === undefined ? undefined : this.parseMessage(text);
+
+    if (!message) {
+      connection.emit(
+        'error',
+        new BadRequestException(
+          'Messages must be JSON objects with an event name, e.g. {"event": "get-time"}',
+          { code: 'INVALID_MESSAGE' },
+        ).toResponse(),
+      );
+      return;
+    }
+
+    const { event, data, id } = message;
+
+    try {
+      const result = await this.gateway.handleMessage(connection, event, data);
+
+      if (id !== undefined) {
+        connection.send(JSON.stringify({ event: 'ack', id, data: result }));
+      }
+    } catch (error) {
+      // Errors go to the acknowledgement when one was asked for, otherwise to an `error` event
+      const response = this.gateway
+        .toException(error, event, connection.logger)
+        .toResponse();
+
+      if (id !== undefined) {
+        connection.send(JSON.stringify({ event: 'ack', id, error: response }));
+      } else {
+        connection.emit('error', response);
+      }
+    }
+  }
+
+  private parseMessage(text: string): ClientMessage | undefined {
+    let message: unknown;
+
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+
+    if (message === null || typeof message !== 'object') {
+      return undefined;
+    }
+
+    const { event, id } = message as Record<string, unknown>;
+    if (
+      typeof event !== 'string' ||
+      (id !== undefined && typeof id !== 'string' && typeof id !== 'number')
+    ) {
+      return undefined;
+    }
+
+    return message as ClientMessage;
+  }
+
+  // Terminate clients that did not answer the previous ping
+  private checkHeartbeats(): void {
+    for (const connection of this.connections) {
+      if (!connection.alive) {
+        connection.ws.terminate();
+        continue;
+      }
+
+      connection.alive = false;
+      connection.ws.ping();
+    }
+  }
+
+  // Cleanup method for graceful shutdown
+  cleanup(): void {
+    this.logger.info('Cleaning up WebSocket server');
+
+    clearInterval(this.heartbeat);
+    this.removeBroadcaster();
+    this.untrackConnections();
+    this.server.off('upgrade', this.onUpgrade);
+
+    for (const connection of this.connections) {
+      connection.closeReason = 'server shutting down';
+      connection.ws.close(GOING_AWAY, 'Server shutting down');
+    }
+
+    this.wss.close();
+  }
+
+  // Getter for testing purposes
+  getConnectionCount(): number {
+    return this.connections.size;
+  }
+}
@@ -0,0 +1,446 @@
+import {
+  HttpMethod,
+  JsonSchema,
+  ParameterMetadata,
+  RateLimitPolicy,
+  RouteMetadata,
+  RoutingRegistry,
+  Schema,
+} from '@shared';
+
+import {
+  RouteSegment,
+  expandOptionalSegments,
+  parseRoutePattern,
+} from './RouteTree';
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+export interface OpenApiMediaType {
+  schema: JsonSchema;
+}
+
+export interface OpenApiResponse {
+  description: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary?: string;
+  description?: string;
+  tags: string[];
+  deprecated?: boolean;
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, OpenApiMediaType>;
+  };
+  responses: Record<string, OpenApiResponse>;
+  security?: Record<string, string[]>[];
+}
+
+export type OpenApiPathItem = Partial<Record<string, OpenApiOperation>>;
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: OpenApiInfo;
+  paths: Record<string, OpenApiPathItem>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes: Record<string, Record<string, string>>;
+  };
+}
+
+// A registered route expanded to one concrete OpenAPI path
+interface DocumentedRoute {
+  path: string;
+  method: HttpMethod;
+  operationId: string;
+  controllerName: string;
+  authScopes: string[] | undefined; // from @Auth on the controller and route
+  rateLimit: RateLimitPolicy | undefined; // from @RateLimit on the controller or route
+  route: RouteMetadata;
+  segments: RouteSegment[];
+}
+
+const ERROR_RESPONSE_REF = '#/components/schemas/ErrorResponse';
+
+// Shape of every error response, see HttpException.toResponse
+const ERROR_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    code: { type: 'string' },
+    message: { type: 'string' },
+    details: {},
+  },
+  required: ['error', 'code', 'message'],
+};
+
+// Ways to send the API key of routes protected with @Auth
+const SECURITY_SCHEMES: Record<string, Record<string, string>> = {
+  apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+  bearer: { type: 'http', scheme: 'bearer' },
+};
+
+/**
+ * Builds API documentation from the routing registry, so the served
+ * document always reflects the decorated controllers
+ */
+export class OpenApiGenerator {
+  private registry = RoutingRegistry.getInstance();
+
+  // Full OpenAPI 3.1 document for every decorated route
+  generate(info: OpenApiInfo): OpenApiDocument {
+    const paths: Record<string, OpenApiPathItem> = {};
+
+    for (const documented of this.collectRoutes()) {
+      paths[documented.path] ??= {};
+      paths[documented.path][documented.method.toLowerCase()] =
+        this.buildOperation(documented);
+    }
+
+    return {
+      openapi: '3.1.0',
+      info,
+      paths,
+      components: {
+        schemas: { ErrorResponse: ERROR_RESPONSE_SCHEMA },
+        securitySchemes: SECURITY_SCHEMES,
+      },
+    };
+  }
+
+  // Short path → summary listing, used by the API information endpoint
+  listEndpoints(): Record<string, string> {
+    const operations = new Map<string, DocumentedRoute[]>();
+
+    for (const documented of this.collectRoutes()) {
+      operations.set(documented.path, [
+        ...(operations.get(documented.path) || []),
+        documented,
+      ]);
+    }
+
+    const endpoints: Record<string, string> = {};
+    for (const [path, routes] of operations) {
+      endpoints[path] = routes
+        .map(({ method, route }) => {
+          const summary = route.operation?.summary;
+          if (routes.length === 1 && summary) return summary;
+          return summary ? `${method}: ${summary}` : method;
+        })
+        .join('; ');
+    }
+
+    return endpoints;
+  }
+
+  // Paths of the registered Socket.io controllers, in OpenAPI path syntax
+  listWebSockets(): string[] {
+    return [...this.registry.getAllWebSockets().values()].map((metadata) =>
+      this.toOpenApiPath(parseRoutePattern(metadata.path)),
+    );
+  }
+
+  private collectRoutes(): DocumentedRoute[] {
+    const routes: DocumentedRoute[] = [];
+
+    for (const [
+      controllerClass,
+      metadata,
+    ] of this.registry.getAllControllers()) {
+      for (const route of metadata.routes) {
+        if (!route.method) continue;
+
+        const variants = expandOptionalSegments(parseRoutePattern(route.path));
+        variants.forEach((segments, index) => {
+          const operationId = `${controllerClass.name}.${route.handler}`;
+          routes.push({
+            path: this.toOpenApiPath(segments),
+            method: route.method as HttpMethod,
+            operationId: index === 0 ? operationId : `${operationId}_${index}`,
+            controllerName: controllerClass.name,
+            authScopes: this.registry.getAuthScopes(
+              controllerClass,
+              route.handler,
+            ),
+            rateLimit: this.registry.getRateLimit(
+              controllerClass,
+              route.handler,
+            )?.policy,
+            route,
+            segments,
+          });
+        });
+      }
+    }
+
+    return routes;
+  }
+
+  private buildOperation(documented: DocumentedRoute): OpenApiOperation {
+    const { route, controllerName } = documented;
+    const operation: OpenApiOperation = {
+      operationId: documented.operationId,
+      tags: route.operation?.tags ?? [
+        controllerName.replace(/Controller$/, ''),
+      ],
+      responses: this.buildResponses(documented),
+    };
+
+    // Either scheme carries the API key, scopes granted to anonymous clients are not known here
+    if (documented.authScopes) {
+      operation.security = Object.keys(SECURITY_SCHEMES).map((scheme) => ({
+        [scheme]: documented.authScopes ?? [],
+      }));
+    }
+
+    if (route.operation?.summary) {
+      operation.summary = route.operation.summary;
+    }
+    if (route.operation?.description) {
+      operation.description = route.operation.description;
+    }
+    if (route.operation?.deprecated) {
+      operation.deprecated = true;
+    }
+
+    const parameters = [
+      ...this.buildPathParameters(documented),
+      ...this.buildParameters(route, 'query'),
+      ...this.buildParameters(route, 'header'),
+    ];
+    if (parameters.length > 0) {
+      operation.parameters = parameters;
+    }
+
+    const requestBody = this.buildRequestBody(route);
+    if (requestBody) {
+      operation.requestBody = requestBody;
+    }
+
+    return operation;
+  }
+
+  private buildPathParameters(documented: DocumentedRoute): OpenApiParameter[] {
+    const properties =
+      documented.route.validation?.params?.toJsonSchema().properties || {};
+
+    return documented.segments.flatMap((segment) => {
+      if (segment.kind === 'static') return [];
+
+      const schema: JsonSchema = properties[segment.name] ?? {
+        type: 'string',
+      };
+      const parameter: OpenApiParameter = {
+        name: segment.name,
+        in: 'path',
+        required: true,
+        schema:
+          segment.kind === 'param' && segment.pattern
+            ? { ...schema, pattern: segment.pattern.source }
+            : schema,
+      };
+
+      if (segment.kind === 'catchAll') {
+        parameter.description = 'Remaining path, may contain slashes';
+      }
+
+      return [parameter];
+    });
+  }
+
+  // Query or header parameters from @Validate schemas and parameter decorators
+  private buildParameters(
+    route: RouteMetadata,
+    location: 'query' | 'header',
+  ): OpenApiParameter[] {
+    const schema =
+      location === 'query'
+        ? route.validation?.query
+        : route.validation?.headers;
+    const parameters = new Map<string, OpenApiParameter>();
+
+    if (schema) {
+      const jsonSchema = schema.toJsonSchema();
+      for (const [name, property] of Object.entries(
+        jsonSchema.properties || {},
+      )) {
+        parameters.set(name, {
+          name,
+          in: location,
+          required: jsonSchema.required?.includes(name) ?? false,
+          schema: property,
+        });
+      }
+    }
+
+    for (const parameter of route.parameters) {
+      if (parameter.type !== location || !parameter.name) continue;
+      if (parameters.has(parameter.name)) continue;
+
+      parameters.set(parameter.name, {
+        name: parameter.name,
+        in: location,
+        required: parameter.required ?? false,
+        schema: this.describeValueType(parameter),
+      });
+    }
+
+    return [...parameters.values()];
+  }
+
+  private buildRequestBody(
+    route: RouteMetadata,
+  ): OpenApiOperation['requestBody'] | undefined {
+    const bodyParameters = route.parameters.filter(
+      (parameter) => parameter.type === 'body',
+    );
+    const schema = route.validation?.body;
+
+    if (!schema && bodyParameters.length === 0) {
+      return undefined;
+    }
+
+    return {
+      required:
+        schema?.required ??
+        bodyParameters.some((parameter) => parameter.required),
+      content: {
+        'application/json': {
+          schema: schema
+            ? schema.toJsonSchema()
+            : this.describeBodyParameters(bodyParameters),
+        },
+      },
+    };
+  }
+
+  private describeBodyParameters(parameters: ParameterMetadata[]): JsonSchema {
+    const named = parameters.filter((parameter) => parameter.name);
+
+    // @BODY() without a property name receives the whole body
+    if (named.length < parameters.length) {
+      return {};
+    }
+
+    const required = named
+      .filter((parameter) => parameter.required)
+      .map((parameter) => parameter.name!);
+
+    return {
+      type: 'object',
+      properties: Object.fromEntries(
+        named.map((parameter) => [
+          parameter.name!,
+          this.describeValueType(parameter),
+        ]),
+      ),
+      ...(required.length > 0 && { required }),
+    };
+  }
+
+  private buildResponses({
+    route,
+    authScopes,
+    rateLimit,
+  }: DocumentedRoute): Record<string, OpenApiResponse> {
+    const responses: Record<string, OpenApiResponse> = {};
+
+    for (const response of route.responses || []) {
+      responses[response.status] = this.buildResponse(
+        response.description,
+        response.status,
+        response.schema,
+      );
+    }
+
+    if (!route.responses?.some((response) => response.status < 300)) {
+      responses['200'] = { description: 'Successful response' };
+    }
+
+    const validatesInput =
+      route.validation !== undefined ||
+      route.parameters.some((parameter) => parameter.required);
+    if (validatesInput && !responses['400']) {
+      responses['400'] = this.buildResponse('Invalid request input', 400);
+    }
+
+    if (authScopes && !responses['401']) {
+      responses['401'] = this.buildResponse('Missing or unknown API key', 401);
+    }
+    if (authScopes?.length && !responses['403']) {
+      responses['403'] = this.buildResponse(
+        `API key without the scopes: ${authScopes.join(', ')}`,
+        403,
+      );
+    }
+    if (rateLimit && !responses['429']) {
+      responses['429'] = this.buildResponse(
+        `More than ${rateLimit.limit} requests per ${rateLimit.windowMs / 1000}s`,
+        429,
+      );
+    }
+
+    return responses;
+  }
+
+  private buildResponse(
+    description: string,
+    status: number,
+    schema?: Schema,
+  ): OpenApiResponse {
+    if (schema) {
+      return {
+        description,
+        content: { 'application/json': { schema: schema.toJsonSchema() } },
+      };
+    }
+
+    // Error responses always share the ErrorResponse shape
+    return status >= 400
+      ? {
+          description,
+          content: {
+            'application/json': { schema: { $ref: ERROR_RESPONSE_REF } },
+          },
+        }
+      : { description };
+  }
+
+  private describeValueType(parameter: ParameterMetadata): JsonSchema {
+    switch (parameter.valueType) {
+      case Number:
+        return { type: 'number' };
+      case Boolean:
+        return { type: 'boolean' };
+      case Date:
+        return { type: 'string', format: 'date-time' };
+      case Array:
+        return { type: 'array', items: { type: 'string' } };
+      default:
+        return { type: 'string' };
+    }
+  }
+
+  private toOpenApiPath(segments: RouteSegment[]): string {
+    const parts = segments.map((segment) =>
+      segment.kind === 'static' ? segment.value : `{${segment.name}}`,
+    );
+    return `/${parts.join('/')}`;
+  }
+}
@@ -0,0 +1,496 @@
+import { MetricsRegistry } from '@services';
+import {
+  Authenticator,
+  BadRequestException,
+  Credentials,
+  ExecutionContext,
+  ForbiddenException,
+  HttpException,
+  InternalServerErrorException,
+  Logger,
+  Principal,
+  RealtimeAuthOptions,
+  RealtimeAuthorizationRule,
+  RealtimeBroadcaster,
+  RealtimeConnection,
+  RealtimeTransport,
+  RoutingRegistry,
+  Schema,
+  ServiceRegistry,
+  UnauthorizedException,
+  ValidateOptions,
+  ValidationErrorDetail,
+  ValidationException,
+  WebSocketHandlerKind,
+  WebSocketHandlerMetadata,
+  WebSocketMetadata,
+  hasCredentials,
+} from '@shared';
+
+import { RouteTree } from './RouteTree';
+import { runGuards, runInterceptors, runRateLimit } from './enhancers';
+import { extractParameters } from './parameters';
+
+export type WebSocketClass = new (...args: any[]) => unknown;
+
+// A handler together with the WebSocket controller declaring it
+interface BoundHandler {
+  controllerClass: WebSocketClass;
+  metadata: WebSocketMetadata;
+  handler: WebSocketHandlerMetadata;
+}
+
+// Largest message a client may send, on Socket.io and plain WebSockets alike
+export const MAX_MESSAGE_BYTES = 64 * 1024;
+
+export interface WebSocketRouteMatch {
+  controllerClass: WebSocketClass;
+  params: Record<string, string>;
+}
+
+// Names match exactly or with `*` standing for any characters
+const matchesName = (pattern: string, name: string): boolean =>
+  new RegExp(
+    `^${pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')}$`,
+  ).test(name);
+
+/**
+ * Runs the WebSocket controllers for every realtime transport. Transports
+ * (Socket.io, plain WebSocket, Server-Sent Events) hand their connections and
+ * events to the gateway, which dispatches them to the decorated handlers and
+ * fans room broadcasts out to every transport
+ */
+export class RealtimeGateway {
+  private registry = RoutingRegistry.getInstance();
+  private serviceRegistry = ServiceRegistry.getInstance();
+  private webSocketInstances: Map<WebSocketClass, unknown> = new Map();
+  private broadcasters: Set<RealtimeBroadcaster> = new Set();
+  // Connected clients of every transport and the controller each connected
+  // to, from connect until disconnect
+  private clients: Map<RealtimeConnection, WebSocketClass> = new Map();
+  private auth: RealtimeAuthOptions | undefined;
+  // Served WebSocket controllers, every @WebSocket class when unset
+  private webSocketClasses: ReadonlySet<WebSocketClass> | undefined;
+  // Paths of the served controllers, rebuilt once more classes are decorated
+  private routes:
+    | { tree: RouteTree<WebSocketClass>; decorated: number }
+    | undefined;
+  private logger = this.serviceRegistry.getOrCreateService<Logger>(Logger);
+  private metrics =
+    this.serviceRegistry.getOrCreateService<MetricsRegistry>(MetricsRegistry);
+  private emitsTotal = this.metrics.counter(
+    'realtime_emits_total',
+    'Events broadcast to realtime rooms, on every transport',
+    { labelNames: ['event'] },
+  );
+  private connections = this.metrics.gauge(
+    'realtime_connections',
+    'Open realtime connections by transport',
+    { labelNames: ['transport'] },
+  );
+
+  /**
+   * Register a transport receiving room broadcasts
+   * @returns Function removing the broadcaster again
+   */
+  addBroadcaster(broadcaster: RealtimeBroadcaster): () => void {
+    this.broadcasters.add(broadcaster);
+    return () => this.broadcasters.delete(broadcaster);
+  }
+
+  /**
+   * Report the open connections of a transport in the realtime_connections metric
+   * @param count - Number of open connections, read on every scrape
+   * @returns Function removing the transport from the metric again
+   */
+  trackConnections(
+    transport: RealtimeTransport,
+    count: () => number,
+  ): () => void {
+    const removeCollector = this.metrics.addCollector(() =>
+      this.connections.set({ transport }, count()),
+    );
+
+    return () => {
+      removeCollector();
+      this.connections.set({ transport }, 0);
+    };
+  }
+
+  /**
+   * Serve only the given WebSocket controllers instead of every class
+   * decorated with @WebSocket
+   */
+  useWebSockets(webSockets: readonly WebSocketClass[]): void {
+    for (const webSocket of webSockets) {
+      if (!this.registry.getWebSocketMetadata(webSocket)) {
+        throw new Error(`${webSocket.name} is not decorated with @WebSocket`);
+      }
+    }
+
+    this.webSocketClasses = new Set(webSockets);
+    this.routes = undefined;
+  }
+
+  /**
+   * Require realtime clients to authenticate, on every transport
+   * Pass undefined to accept anonymous clients again
+   */
+  useAuthentication(options: RealtimeAuthOptions | undefined): void {
+    this.auth = options;
+  }
+
+  /**
+   * Authenticate a connecting client and check the rules of its namespace
+   * Every client is anonymous while authentication is not configured
+   * @returns The principal, undefined for anonymous clients, which are checked
+   * against the rules with the anonymous scopes
+   * @throws UnauthorizedException for missing or unknown credentials
+   * @throws ForbiddenException when the principal lacks a scope of the namespace
+   */
+  async authenticate(
+    credentials: Credentials,
+    namespace: string = '/',
+  ): Promise<Principal | undefined> {
+    if (!this.auth) {
+      return undefined;
+    }
+
+    let principal: Principal | undefined;
+
+    if (hasCredentials(credentials)) {
+      principal = await this.resolveAuthenticator(this.auth).authenticate(
+        credentials,
+      );
+
+      if (!principal) {
+        throw new UnauthorizedException('Unknown API key or token', {
+          code: 'INVALID_CREDENTIALS',
+        });
+      }
+    } else if ((this.auth.anonymousScopes ?? []).length === 0) {
+      throw new UnauthorizedException(
+        "Authentication required, send an 'apiKey' or 'token'",
+        { code: 'AUTHENTICATION_REQUIRED' },
+      );
+    }
+
+    this.authorize(principal, 'namespace', namespace);
+
+    return principal;
+  }
+
+  /**
+   * Check the room rules before a connection joins a room
+   * Called by the transports from RealtimeConnection.join
+   * @throws ForbiddenException when the principal lacks a scope of the room
+   */
+  authorizeRoom(connection: RealtimeConnection, room: string): void {
+    this.authorize(connection.principal, 'room', room);
+  }
+
+  /**
+   * Find the WebSocket controller whose @WebSocket path matches a URL path
+   * Used by the transports connecting clients by URL
+   */
+  matchPath(pathname: string): WebSocketRouteMatch | undefined {
+    const decorated = this.registry.getAllWebSockets().size;
+
+    if (this.routes?.decorated !== decorated) {
+      const tree = new RouteTree<WebSocketClass>();
+
+      for (const [controllerClass, metadata] of this.getWebSockets()) {
+        tree.insert('GET', metadata.path, controllerClass);
+      }
+
+      this.routes = { tree, decorated };
+    }
+
+    const match = this.routes.tree.find(pathname)?.get('GET');
+
+    return match
+      ? { controllerClass: match.value, params: match.params }
+      : undefined;
+  }
+
+  // Names of the events a controller handles with @SubscribeMessage
+  getEvents(controllerClass: WebSocketClass): string[] {
+    return [
+      ...new Set(
+        this.getHandlers('message', controllerClass).map(
+          ({ handler }) => handler.event,
+        ),
+      ),
+    ];
+  }
+
+  /**
+   * Run the @OnConnect handlers of the matched controller for a new connection
+   * Later events and the disconnect only reach that controller
+   * @throws HttpException rejecting the connection
+   */
+  async connect(
+    connection: RealtimeConnection,
+    controllerClass: WebSocketClass,
+  ): Promise<void> {
+    const data = { ...connection.query, ...connection.params };
+    this.clients.set(connection, controllerClass);
+
+    for (const bound of this.getHandlers('connect', controllerClass)) {
+      await this.invokeHandler(connection, bound, data);
+    }
+  }
+
+  /**
+   * Run the @SubscribeMessage handler of an event, on the controller the
+   * connection connected to
+   * @returns The handler result, to be acknowledged to the client
+   */
+  async handleMessage(
+    connection: RealtimeConnection,
+    event: string,
+    data: unknown,
+  ): Promise<unknown> {
+    const controllerClass = this.clients.get(connection);
+    const bound = controllerClass
+      ? this.getHandlers('message', controllerClass).find(
+          ({ handler }) => handler.event === event,
+        )
+      : undefined;
+
+    if (!bound) {
+      throw new BadRequestException(`Unknown event '${event}'`, {
+        code: 'UNKNOWN_EVENT',
+      });
+    }
+
+    return this.invokeHandler(connection, bound, data);
+  }
+
+  // Run the @OnDisconnect handlers of the controller the connection connected to
+  async disconnect(
+    connection: RealtimeConnection,
+    reason: string,
+  ): Promise<void> {
+    const controllerClass = this.clients.get(connection);
+    this.clients.delete(connection);
+
+    if (!controllerClass) {
+      return;
+    }
+
+    for (const bound of this.getHandlers('disconnect', controllerClass)) {
+      try {
+        await this.invokeHandler(connection, bound, reason);
+      } catch (error) {
+        connection.logger.error('Disconnect handler error', {
+          handler: `${bound.controllerClass.name}.${bound.handler.handler}`,
+          error,
+        });
+      }
+    }
+  }
+
+  /**
+   * Turn a handler error into the exception reported to the client
+   * Unexpected errors are logged and hidden behind a generic internal error
+   * @param logger - Logger of the connection, when there is one
+   */
+  toException(
+    error: unknown,
+    event: string,
+    logger: Logger = this.logger,
+  ): HttpException {
+    if (error instanceof HttpException) {
+      return error;
+    }
+
+    logger.error('WebSocket handler error', { event, error });
+    return new InternalServerErrorException();
+  }
+
+  // Emit to all clients in a room, whatever their transport
+  emitToRoom(room: string, event: string, data: unknown): void {
+    this.emitsTotal.inc({ event });
+
+    for (const broadcaster of this.broadcasters) {
+      broadcaster.emitToRoom(room, event, data);
+    }
+  }
+
+  // Emit to every connected client, whatever its rooms and transport
+  emitToAll(event: string, data: unknown): void {
+    for (const connection of this.clients.keys()) {
+      connection.emit(event, data);
+    }
+  }
+
+  // Emit to all clients in a timezone room
+  emitToTimezone(timezone: string, event: string, data: unknown): void {
+    this.emitToRoom(`timezone-${timezone}`, event, data);
+  }
+
+  // Cleanup method for graceful shutdown
+  cleanup(): void {
+    // Cleanup all WebSocket controller instances
+    for (const [controllerClass, instance] of this.webSocketInstances) {
+      if (
+        instance &&
+        typeof (instance as { cleanup?: () => void }).cleanup === 'function'
+      ) {
+        try {
+          (instance as { cleanup: () => void }).cleanup();
+        } catch (error) {
+          this.logger.error('WebSocket controller cleanup error', {
+            controller: controllerClass.name,
+            error,
+          });
+        }
+      }
+    }
+
+    this.webSocketInstances.clear();
+  }
+
+  private resolveAuthenticator({
+    authenticator,
+  }: RealtimeAuthOptions): Authenticator {
+    return typeof authenticator === 'function'
+      ? this.serviceRegistry.getOrCreateService<Authenticator>(authenticator)
+      : authenticator;
+  }
+
+  private authorize(
+    principal: Principal | undefined,
+    target: keyof Omit<RealtimeAuthorizationRule, 'scopes'>,
+    name: string,
+  ): void {
+    for (const rule of this.auth?.rules ?? []) {
+      const pattern = rule[target];
+
+      if (pattern === undefined || !matchesName(pattern, name)) {
+        continue;
+      }
+
+      const scopes = principal?.scopes ?? this.auth?.anonymousScopes ?? [];
+      const missing = rule.scopes.filter((scope) => !scopes.includes(scope));
+
+      if (missing.length > 0) {
+        throw new ForbiddenException(
+          `Access to ${target} '${name}' requires the scopes: ${missing.join(', ')}`,
+          {
+            code: 'INSUFFICIENT_SCOPE',
+            details: { [target]: name, missing_scopes: missing },
+          },
+        );
+      }
+    }
+  }
+
+  // Handlers of one kind declared by a WebSocket controller
+  private getHandlers(
+    kind: WebSocketHandlerKind,
+    controllerClass: WebSocketClass,
+  ): BoundHandler[] {
+    const metadata = this.registry.getWebSocketMetadata(controllerClass);
+
+    return metadata
+      ? this.registry
+          .getWebSocketHandlers(controllerClass)
+          .filter((handler) => handler.kind === kind)
+          .map((handler) => ({ controllerClass, metadata, handler }))
+      : [];
+  }
+
+  private getWebSockets(): [WebSocketClass, WebSocketMetadata][] {
+    return [...this.registry.getAllWebSockets()].filter(
+      (entry): entry is [WebSocketClass, WebSocketMetadata] =>
+        !this.webSocketClasses ||
+        this.webSocketClasses.has(entry[0] as WebSocketClass),
+    );
+  }
+
+  // Rate limit the client, then run guards and interceptors around the handler
+  private async invokeHandler(
+    connection: RealtimeConnection,
+    { controllerClass, handler }: BoundHandler,
+    data: unknown,
+  ): Promise<unknown> {
+    const executionContext: ExecutionContext = {
+      type: 'ws',
+      controllerClass,
+      handler: handler.handler,
+      ws: { socket: connection, event: handler.event, data },
+    };
+
+    await runRateLimit(executionContext);
+    await runGuards(executionContext);
+
+    return runInterceptors(executionContext, () => {
+      // @MessageBody arguments get the validated values, connect handlers read the query string
+      const payload = handler.payload
+        ? this.validatePayload(handler.payload, data, {
+            strings: handler.kind === 'connect',
+          })
+        : data;
+
+      const instance = this.getWebSocketInstance(controllerClass) as Record<
+        string,
+        (...args: unknown[]) => unknown
+      >;
+      const params = extractParameters(handler.parameters, {
+        // Request-scoped services live as long as the event
+        services: new Map([[Logger, connection.logger]]),
+        body: payload,
+        socket: connection,
+        ...(connection.principal && { principal: connection.principal }),
+        payload: true,
+      });
+
+      return Promise.resolve(instance[handler.handler](...params));
+    });
+  }
+
+  // Check the payload against the handler schema, reporting every failing field
+  private validatePayload(
+    schema: Schema,
+    data: unknown,
+    options: ValidateOptions,
+  ): unknown {
+    const details: ValidationErrorDetail[] = schema
+      .validate(data, '', options)
+      .map((issue) => ({
+        location: 'body',
+        field: issue.path,
+        message: issue.message,
+      }));
+
+    if (details.length > 0) {
+      const message = details
+        .map((detail) =>
+          detail.field ? `${detail.field} ${detail.message}` : detail.message,
+        )
+        .join('; ');
+
+      throw new ValidationException(`Payload ${message}`, details);
+    }
+
+    return schema.coerce(data, options);
+  }
+
+  // WebSocket controllers are shared by every connection and transport
+  private getWebSocketInstance(controllerClass: WebSocketClass): unknown {
+    if (this.webSocketInstances.has(controllerClass)) {
+      return this.webSocketInstances.get(controllerClass);
+    }
+
+    // Create the instance with its constructor dependencies and store it for reuse
+    const instance = this.serviceRegistry.instantiate(controllerClass);
+    this.webSocketInstances.set(controllerClass, instance);
+
+    return instance;
+  }
+}
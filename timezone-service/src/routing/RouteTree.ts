@@ -0,0 +1,296 @@
+import { HttpMethod } from '@shared';
+
+/**
+ * A parsed segment of a route pattern:
+ * - `users`        static text
+ * - `:id`          named parameter matching one segment
+ * - `:id(\\d+)`    parameter constrained by a regular expression
+ * - `:id?`         optional parameter
+ * - `*rest`        catch-all matching one or more remaining segments
+ */
+export type RouteSegment =
+  | { kind: 'static'; value: string; optional: false }
+  | { kind: 'param'; name: string; pattern?: RegExp; optional: boolean }
+  | { kind: 'catchAll'; name: string; optional: boolean };
+
+interface RouteEntry<T> {
+  value: T;
+  path: string;
+  paramNames: string[];
+}
+
+interface StaticEdge<T> {
+  segments: string[]; // compressed run of static segments
+  node: RouteNode<T>;
+}
+
+interface ParamEdge<T> {
+  key: string; // regex source, empty for unconstrained parameters
+  pattern?: RegExp;
+  node: RouteNode<T>;
+}
+
+class RouteNode<T> {
+  staticEdges = new Map<string, StaticEdge<T>>();
+  paramEdges: ParamEdge<T>[] = [];
+  catchAll?: RouteNode<T>;
+  entries = new Map<HttpMethod, RouteEntry<T>>();
+}
+
+export interface RouteLookupResult<T> {
+  value: T;
+  params: Record<string, string>;
+}
+
+const PARAM_SEGMENT = /^:(\w+)(?:\((.+)\))?(\?)?$/;
+const CATCH_ALL_SEGMENT = /^\*(\w+)(\?)?$/;
+
+/**
+ * Radix tree over path segments. Runs of static segments are compressed into
+ * a single edge, and lookups try static edges first, then regex-constrained
+ * parameters, then plain parameters and finally catch-alls, backtracking when
+ * a branch does not lead to a registered route.
+ */
+export class RouteTree<T> {
+  private root = new RouteNode<T>();
+
+  // Add a route, throwing when the same method is already registered for an equivalent path
+  insert(method: HttpMethod, path: string, value: T): void {
+    for (const variant of expandOptionalSegments(parseRoutePattern(path))) {
+      const node = this.insertSegments(variant);
+      const existing = node.entries.get(method);
+
+      if (existing) {
+        throw new Error(
+          `Duplicate route ${method} ${path} conflicts with ${method} ${existing.path}`,
+        );
+      }
+
+      node.entries.set(method, {
+        value,
+        path,
+        paramNames: variant
+          .filter((segment) => segment.kind !== 'static')
+          .map((segment) => (segment as { name: string }).name),
+      });
+    }
+  }
+
+  // Find the most specific node matching the path and return its routes by method
+  find(pathname: string): Map<HttpMethod, RouteLookupResult<T>> | null {
+    const parts = pathname
+      .split('/')
+      .filter((part) => part)
+      .map(decodeSegment);
+    const captured: string[] = [];
+    const node = this.search(this.root, parts, 0, captured);
+
+    if (!node) {
+      return null;
+    }
+
+    const results = new Map<HttpMethod, RouteLookupResult<T>>();
+    for (const [method, entry] of node.entries) {
+      const params: Record<string, string> = {};
+      entry.paramNames.forEach((name, index) => {
+        params[name] = captured[index];
+      });
+      results.set(method, { value: entry.value, params });
+    }
+
+    return results;
+  }
+
+  private search(
+    node: RouteNode<T>,
+    parts: string[],
+    index: number,
+    captured: string[],
+  ): RouteNode<T> | undefined {
+    if (index === parts.length) {
+      return node.entries.size > 0 ? node : undefined;
+    }
+
+    const edge = node.staticEdges.get(parts[index]);
+    if (
+      edge &&
+      edge.segments.every(
+        (segment, offset) => parts[index + offset] === segment,
+      )
+    ) {
+      const found = this.search(
+        edge.node,
+        parts,
+        index + edge.segments.length,
+        captured,
+      );
+      if (found) return found;
+    }
+
+    for (const param of node.paramEdges) {
+      if (param.pattern && !param.pattern.test(parts[index])) continue;
+
+      captured.push(parts[index]);
+      const found = this.search(param.node, parts, index + 1, captured);
+      if (found) return found;
+      captured.pop();
+    }
+
+    if (node.catchAll && node.catchAll.entries.size > 0) {
+      captured.push(parts.slice(index).join('/'));
+      return node.catchAll;
+    }
+
+    return undefined;
+  }
+
+  private insertSegments(segments: RouteSegment[]): RouteNode<T> {
+    let node = this.root;
+    let index = 0;
+
+    while (index < segments.length) {
+      const segment = segments[index];
+
+      if (segment.kind === 'param') {
+        node = this.getOrCreateParamNode(node, segment.pattern);
+        index++;
+        continue;
+      }
+
+      if (segment.kind === 'catchAll') {
+        node.catchAll ??= new RouteNode<T>();
+        node = node.catchAll;
+        index++;
+        continue;
+      }
+
+      // Collect the run of static segments starting here
+      const run: string[] = [];
+      while (index + run.length < segments.length) {
+        const next = segments[index + run.length];
+        if (next.kind !== 'static') break;
+        run.push(next.value);
+      }
+
+      const edge = node.staticEdges.get(run[0]);
+      if (!edge) {
+        const child = new RouteNode<T>();
+        node.staticEdges.set(run[0], { segments: run, node: child });
+        node = child;
+        index += run.length;
+        continue;
+      }
+
+      let common = 0;
+      while (
+        common < edge.segments.length &&
+        common < run.length &&
+        edge.segments[common] === run[common]
+      ) {
+        common++;
+      }
+
+      // Split the edge where the new route diverges from it
+      if (common < edge.segments.length) {
+        const middle = new RouteNode<T>();
+        const rest = edge.segments.slice(common);
+        middle.staticEdges.set(rest[0], { segments: rest, node: edge.node });
+        edge.segments = edge.segments.slice(0, common);
+        edge.node = middle;
+      }
+
+      node = edge.node;
+      index += common;
+    }
+
+    return node;
+  }
+
+  private getOrCreateParamNode(
+    node: RouteNode<T>,
+    pattern?: RegExp,
+  ): RouteNode<T> {
+    const key = pattern?.source ?? '';
+    const existing = node.paramEdges.find((edge) => edge.key === key);
+
+    if (existing) {
+      return existing.node;
+    }
+
+    const edge: ParamEdge<T> = { key, node: new RouteNode<T>() };
+    if (pattern) {
+      edge.pattern = pattern;
+    }
+
+    // Constrained parameters are tried before unconstrained ones
+    const firstUnconstrained = node.paramEdges.findIndex(
+      (candidate) => !candidate.pattern,
+    );
+    if (pattern && firstUnconstrained !== -1) {
+      node.paramEdges.splice(firstUnconstrained, 0, edge);
+    } else {
+      node.paramEdges.push(edge);
+    }
+
+    return edge.node;
+  }
+}
+
+// Split a route pattern into its segments, rejecting malformed parameters
+export function parseRoutePattern(path: string): RouteSegment[] {
+  const parts = path.split('/').filter((part) => part);
+
+  return parts.map((part, index): RouteSegment => {
+    const catchAll = CATCH_ALL_SEGMENT.exec(part);
+    if (catchAll) {
+      if (index !== parts.length - 1) {
+        throw new Error(
+          `Catch-all parameter *${catchAll[1]} must be the last segment of ${path}`,
+        );
+      }
+      return { kind: 'catchAll', name: catchAll[1], optional: !!catchAll[2] };
+    }
+
+    const param = PARAM_SEGMENT.exec(part);
+    if (param) {
+      const segment: RouteSegment = {
+        kind: 'param',
+        name: param[1],
+        optional: !!param[3],
+      };
+      if (param[2]) {
+        segment.pattern = new RegExp(`^(?:${param[2]})$`);
+      }
+      return segment;
+    }
+
+    if (part.startsWith(':') || part.startsWith('*')) {
+      throw new Error(`Invalid route segment '${part}' in ${path}`);
+    }
+
+    return { kind: 'static', value: decodeSegment(part), optional: false };
+  });
+}
+
+// Optional segments produce one variant with and one without the segment
+export function expandOptionalSegments(
+  segments: RouteSegment[],
+): RouteSegment[][] {
+  return segments.reduce<RouteSegment[][]>(
+    (variants, segment) =>
+      variants.flatMap((variant) =>
+        segment.optional
+          ? [variant, [...variant, segment]]
+          : [[...variant, segment]],
+      ),
+    [[]],
+  );
+}
+
+function decodeSegment(part: string): string {
+  try {
+    return decodeURIComponent(part);
+  } catch {
+    return part; // Malformed escape sequences are matched literally
+  }
+}
@@ -1,180 +1,514 @@
+import { ApiKeyService, MetricsRegistry } from '@services';
 import {
+  Authenticator,
+  AuthenticatorType,
   ControllerInstance,
+  DEFAULT_BODY_LIMIT,
+  ExceptionFilter,
+  ExceptionFilterType,
+  ExecutionContext,
   FlexibleRouteHandler,
-  ParameterMetadata,
+  ForbiddenException,
+  HTTP_METHODS,
+  HttpException,
+  HttpMethod,
+  InternalServerErrorException,
+  Logger,
+  MethodNotAllowedException,
+  Middleware,
+  RequestContext,
   RouteMetadata,
+  RouteValidation,
   RoutingRegistry,
   ServiceRegistry,
-  sendErrorResponse,
+  UnauthorizedException,
+  ValidationErrorDetail,
+  ValidationException,
+  hasCredentials,
+  readRequestBody,
+  requestCredentials,
+  requestIdFrom,
+  sendExceptionResponse,
 } from '@shared';
 import * as http from 'http';
 import * as url from 'url';
 
+import { RouteTree } from './RouteTree';
+import { runGuards, runInterceptors, runRateLimit } from './enhancers';
+import { compose, cors, jsonContentType } from './middleware';
+import { extractParameters } from './parameters';
+
+// Controllers given as classes are created with their constructor dependencies
+export type ControllerClass = new (...args: any[]) => ControllerInstance;
+
+interface RouteMatch {
+  controller: ControllerInstance;
+  route: RouteMetadata;
+  params: Record<string, string>;
+}
+
+// Authentication of the routes protected with @Auth
+export interface RouterAuthOptions {
+  authenticator?: AuthenticatorType; // defaults to ApiKeyService
+  anonymousScopes?: string[]; // scopes clients have without credentials, none by default
+}
+
+export interface RouterOptions {
+  bodyLimit?: number; // maximum accepted request body size in bytes
+  middleware?: Middleware[]; // replaces the default cors() and jsonContentType() middleware
+  auth?: RouterAuthOptions;
+}
+
+// Labels of the HTTP metrics, `route` is the route template such as /time/*timezone
+const HTTP_METRIC_LABELS = ['method', 'route', 'status'];
+
 export class Router {
-  private controllers: ControllerInstance[] = [];
+  private routes = new RouteTree<Omit<RouteMatch, 'params'>>();
   private registry = RoutingRegistry.getInstance();
   private serviceRegistry = ServiceRegistry.getInstance();
+  private logger = this.serviceRegistry.getOrCreateService<Logger>(Logger);
+  private metrics =
+    this.serviceRegistry.getOrCreateService<MetricsRegistry>(MetricsRegistry);
+  private requestsTotal = this.metrics.counter(
+    'http_requests_total',
+    'HTTP requests by route template and status',
+    { labelNames: HTTP_METRIC_LABELS },
+  );
+  private requestDuration = this.metrics.histogram(
+    'http_request_duration_seconds',
+    'HTTP request latency by route template and status in seconds',
+    { labelNames: HTTP_METRIC_LABELS },
+  );
+  private globalFilters: ExceptionFilterType[] = [];
+  private middleware: Middleware[];
+  private bodyLimit: number;
+  private authenticator: AuthenticatorType;
+  private anonymousScopes: string[];
+
+  constructor(options: RouterOptions = {}) {
+    this.bodyLimit = options.bodyLimit ?? DEFAULT_BODY_LIMIT;
+    this.authenticator = options.auth?.authenticator ?? ApiKeyService;
+    this.anonymousScopes = options.auth?.anonymousScopes ?? [];
+    this.middleware = options.middleware
+      ? [...options.middleware]
+      : [cors(), jsonContentType()];
+  }
+
+  // Register controllers, compiling their routes into the route tree
+  registerController(controller: ControllerInstance | ControllerClass): void {
+    if (typeof controller === 'function') {
+      controller = this.serviceRegistry.instantiate(
+        controller as ControllerClass,
+      );
+    }
 
-  // Register controller instances
-  registerController(controller: ControllerInstance): void {
-    this.controllers.push(controller);
+    const metadata = this.registry.getControllerMetadata(
+      controller.constructor,
+    );
+
+    for (const route of metadata?.routes || []) {
+      if (!route.method || !controller[route.handler]) continue;
+
+      this.routes.insert(route.method, route.path, { controller, route });
+    }
+  }
+
+  // Append global middleware, run before route resolution for every request
+  use(...middleware: Middleware[]): void {
+    this.middleware.push(...middleware);
   }
 
-  // Handle incoming HTTP requests
+  /**
+   * Handle incoming HTTP requests
+   * @param handler - Tried before the routes, behind the same middleware, e.g.
+   * event streams. Returns true when it handled the request
+   * @returns true if the request was handled, false otherwise
+   */
   async handleRequest(
     req: http.IncomingMessage,
     res: http.ServerResponse,
+    handler?: (context: RequestContext) => Promise<boolean>,
   ): Promise<boolean> {
     const parsedUrl = url.parse(req.url || '', true);
-    const pathname = parsedUrl.pathname || '';
-    const method = req.method || 'GET';
-
-    // Set CORS headers
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-    res.setHeader('Content-Type', 'application/json');
-
-    // Find matching route
-    for (const controller of this.controllers) {
-      const controllerClass = controller.constructor;
-      const metadata = this.registry.getControllerMetadata(controllerClass);
-
-      if (!metadata) continue;
-
-      for (const route of metadata.routes) {
-        if (route.method !== method) continue;
-
-        const match = this.matchRoute(pathname, route.path);
-
-        if (match) {
-          const handler = controller[route.handler] as FlexibleRouteHandler;
-          if (handler) {
-            try {
-              // Extract parameters based on parameter decorators and dependency injection
-              const params = this.extractParameters(
-                match.params,
-                route,
-                req,
-                res,
-              );
-              const result = await handler.apply(controller, params);
-
-              // If handler returns a value, send it as JSON response
-              if (result !== undefined) {
-                res.statusCode = 200;
-                res.setHeader('Content-Type', 'application/json');
-                res.end(JSON.stringify(result));
-              }
-
-              return true;
-            } catch (error) {
-              console.error('Route handler error:', error);
-
-              // Handle validation errors (400) vs internal errors (500)
-              const errorMessage =
-                error instanceof Error
-                  ? error.message
-                  : 'An error occurred while processing the request';
-              const isValidationError =
-                errorMessage.includes('timezone') ||
-                errorMessage.includes('Invalid');
-
-              sendErrorResponse(
-                res,
-                isValidationError ? 400 : 500,
-                isValidationError
-                  ? 'Invalid timezone'
-                  : 'Internal server error',
-                errorMessage,
-                isValidationError
-                  ? { requested_timezone: match.params.timezone }
-                  : undefined,
-              );
-              return true;
-            }
-          }
-        }
+    const requestId = requestIdFrom(req.headers);
+    const logger = this.logger.child({ request_id: requestId });
+
+    const context: RequestContext = {
+      req,
+      res,
+      method: req.method || 'GET',
+      path: parsedUrl.pathname || '',
+      params: {},
+      query: parsedUrl.query,
+      requestId,
+      logger,
+      services: new Map([[Logger, logger]]),
+      state: {},
+    };
+
+    res.setHeader('X-Request-Id', requestId);
+    this.recordResponse(context);
+
+    // Middleware that does not call next() has taken care of the response
+    let handled = true;
+
+    try {
+      await compose(this.middleware)(context, async () => {
+        handled = (await handler?.(context)) || (await this.dispatch(context));
+      });
+    } catch (error) {
+      await this.handleError(error, context);
+    }
+
+    return handled;
+  }
+
+  // Write an access log line and the HTTP metrics once the response is sent or the client went away
+  private recordResponse(context: RequestContext): void {
+    const { res, method, path, logger } = context;
+    const started = process.hrtime.bigint();
+
+    res.once('close', () => {
+      const durationMs = Number(process.hrtime.bigint() - started) / 1e6;
+      // Paths without a route are grouped, raw paths would create a series per URL
+      const labels = {
+        method,
+        route: context.route?.path ?? 'unmatched',
+        status: res.statusCode,
+      };
+
+      this.requestsTotal.inc(labels);
+      this.requestDuration.observe(labels, durationMs / 1000);
+
+      logger.info(`${method} ${path} ${res.statusCode}`, {
+        method,
+        path,
+        status: res.statusCode,
+        duration_ms: Math.round(durationMs * 10) / 10,
+        ...(!res.writableFinished && { aborted: true }),
+      });
+    });
+  }
+
+  // Resolve the route and run controller middleware, route middleware and the handler
+  private async dispatch(context: RequestContext): Promise<boolean> {
+    const { method, path: pathname, res } = context;
+    const resolved = this.resolveRoute(method, pathname);
+
+    if (!resolved) {
+      return false; // No route found
+    }
+
+    if (!resolved.match) {
+      res.setHeader('Allow', resolved.allowedMethods.join(', '));
+
+      // Answer preflight and discovery requests for paths without an explicit OPTIONS handler
+      if (method === 'OPTIONS') {
+        res.statusCode = 204;
+        res.end();
+        return true;
       }
+
+      await this.handleError(
+        new MethodNotAllowedException(
+          `Method ${method} is not allowed for ${pathname}`,
+          { details: { allowed_methods: resolved.allowedMethods } },
+        ),
+        context,
+      );
+      return true;
+    }
+
+    const match = resolved.match;
+    context.params = match.params;
+    context.route = match.route;
+
+    const controllerMiddleware =
+      this.registry.getControllerMetadata(match.controller.constructor)
+        ?.middleware || [];
+
+    try {
+      await compose([
+        ...controllerMiddleware,
+        ...(match.route.middleware || []),
+      ])(context, () => this.invokeHandler(context, match));
+    } catch (error) {
+      await this.handleError(error, context, match);
     }
 
-    return false; // No route found
+    return true;
   }
 
-  // Match URL path against route pattern
-  private matchRoute(
-    pathname: string,
-    routePath: string,
-  ): { params: Record<string, string> } | null {
-    const routeParts = routePath.split('/').filter((part) => part);
-    const pathParts = pathname.split('/').filter((part) => part);
+  // Authenticate and rate limit the client, then run guards and interceptors around the handler and send its result
+  private async invokeHandler(
+    context: RequestContext,
+    match: RouteMatch,
+  ): Promise<void> {
+    const { res } = context;
+    const executionContext: ExecutionContext = {
+      type: 'http',
+      controllerClass: match.controller.constructor,
+      handler: match.route.handler,
+      http: context,
+    };
+
+    await this.authenticate(context, match);
+    await runRateLimit(executionContext);
+    await runGuards(executionContext);
+
+    const result = await runInterceptors(executionContext, () =>
+      this.callHandler(context, match),
+    );
+
+    // If handler returns a value, send it as JSON response
+    // (the body is dropped by Node for HEAD requests)
+    if (result !== undefined && !res.writableEnded) {
+      const body = JSON.stringify(result);
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'application/json');
+      res.setHeader('Content-Length', Buffer.byteLength(body));
+      res.end(body);
+    }
+  }
+
+  /**
+   * Check the API key of routes protected with @Auth, setting context.principal
+   * @throws UnauthorizedException for missing or unknown keys
+   * @throws ForbiddenException when the key lacks a required scope
+   */
+  private async authenticate(
+    context: RequestContext,
+    { controller, route }: RouteMatch,
+  ): Promise<void> {
+    const scopes = this.registry.getAuthScopes(
+      controller.constructor,
+      route.handler,
+    );
+
+    if (!scopes) {
+      return;
+    }
+
+    const credentials = requestCredentials(context.req.headers);
+
+    if (!hasCredentials(credentials)) {
+      if (
+        scopes.length > 0 &&
+        scopes.every((scope) => this.anonymousScopes.includes(scope))
+      ) {
+        return;
+      }
+
+      context.res.setHeader('WWW-Authenticate', 'Bearer');
+      throw new UnauthorizedException(
+        'Authentication required, send an API key as X-API-Key or Authorization: Bearer',
+        { code: 'AUTHENTICATION_REQUIRED' },
+      );
+    }
 
-    // Special handling for routes with wildcard parameters (like timezone identifiers with slashes)
-    const params: Record<string, string> = {};
+    const principal =
+      await this.resolveAuthenticator().authenticate(credentials);
+
+    if (!principal) {
+      context.res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+      throw new UnauthorizedException('Unknown or revoked API key', {
+        code: 'INVALID_CREDENTIALS',
+      });
+    }
+
+    context.principal = principal;
+
+    const missing = scopes.filter((scope) => !principal.scopes.includes(scope));
+
+    if (missing.length > 0) {
+      throw new ForbiddenException(
+        `Access to ${context.method} ${context.path} requires the scopes: ${missing.join(', ')}`,
+        { code: 'INSUFFICIENT_SCOPE', details: { missing_scopes: missing } },
+      );
+    }
+  }
+
+  private resolveAuthenticator(): Authenticator {
+    return typeof this.authenticator === 'function'
+      ? this.serviceRegistry.getOrCreateService<Authenticator>(
+          this.authenticator,
+        )
+      : this.authenticator;
+  }
+
+  // Read and validate input, then call the handler
+  private async callHandler(
+    context: RequestContext,
+    match: RouteMatch,
+  ): Promise<unknown> {
+    const { controller, route } = match;
+    const handler = controller[route.handler] as FlexibleRouteHandler;
 
-    // Check if we have fewer route parts than path parts and the last route part is a parameter
     if (
-      routeParts.length > 0 &&
-      routeParts[routeParts.length - 1].startsWith(':')
+      route.validation?.body ||
+      route.parameters.some((param) => param.type === 'body')
     ) {
-      const lastParamIndex = routeParts.length - 1;
+      context.body = await readRequestBody(context.req, this.bodyLimit);
+    }
 
-      // Check that all literal parts match
-      for (let i = 0; i < lastParamIndex; i++) {
-        if (i >= pathParts.length || routeParts[i] !== pathParts[i]) {
-          return null;
-        }
-      }
+    if (route.validation) {
+      this.validateRequest(context, route.validation);
+    }
+
+    // Extract parameters based on parameter decorators and dependency injection
+    const params = this.extractParameters(context, route);
+    return handler.apply(controller, params);
+  }
 
-      // If we have enough path parts, capture the remaining parts as the parameter
-      if (pathParts.length >= routeParts.length) {
-        const paramName = routeParts[lastParamIndex].slice(1);
-        const remainingParts = pathParts.slice(lastParamIndex);
-        params[paramName] = decodeURIComponent(remainingParts.join('/'));
+  // Register exception filters applied to every route after route and controller filters
+  useGlobalFilters(...filters: ExceptionFilterType[]): void {
+    this.globalFilters.push(...filters);
+  }
 
-        return { params };
+  // Pass an error through the exception filters, falling back to the standard error response
+  private async handleError(
+    error: unknown,
+    context: RequestContext,
+    match?: RouteMatch,
+  ): Promise<void> {
+    const controllerFilters = match
+      ? this.registry.getControllerMetadata(match.controller.constructor)
+          ?.filters || []
+      : [];
+    const filters = [
+      ...(match?.route.filters || []),
+      ...controllerFilters,
+      ...this.globalFilters,
+    ];
+
+    for (const filterType of filters) {
+      const filter = this.resolveFilter(filterType);
+      const catchTypes = this.registry.getCatchTypes(filter.constructor);
+
+      if (
+        catchTypes.length > 0 &&
+        !catchTypes.some((type) => error instanceof type)
+      ) {
+        continue;
       }
+
+      try {
+        await filter.catch(error, context);
+        return;
+      } catch (filterError) {
+        context.logger.error('Exception filter error', { error: filterError });
+        break;
+      }
+    }
+
+    if (context.res.headersSent) {
+      context.res.end();
+      return;
+    }
+
+    if (error instanceof HttpException) {
+      sendExceptionResponse(context.res, error);
+      return;
     }
 
-    // Standard matching for exact length routes
-    if (routeParts.length !== pathParts.length) {
+    context.logger.error('Route handler error', { error });
+    sendExceptionResponse(context.res, new InternalServerErrorException());
+  }
+
+  private resolveFilter(filterType: ExceptionFilterType): ExceptionFilter {
+    return typeof filterType === 'function'
+      ? this.serviceRegistry.getOrCreateService<ExceptionFilter>(filterType)
+      : filterType;
+  }
+
+  // Find the route for a method and path, or the methods allowed for a known path
+  private resolveRoute(
+    method: string,
+    pathname: string,
+  ): { match?: RouteMatch; allowedMethods: HttpMethod[] } | null {
+    const routes = this.routes.find(pathname);
+
+    if (!routes) {
       return null;
     }
 
-    for (let i = 0; i < routeParts.length; i++) {
-      const routePart = routeParts[i];
-      const pathPart = pathParts[i];
+    const allowedMethods = new Set<HttpMethod>(routes.keys());
+    if (allowedMethods.has('GET')) {
+      allowedMethods.add('HEAD');
+    }
+    allowedMethods.add('OPTIONS');
+
+    // HEAD falls back to the GET handler when no explicit HEAD handler exists
+    const found =
+      routes.get(method as HttpMethod) ??
+      (method === 'HEAD' ? routes.get('GET') : undefined);
+
+    const allowed = HTTP_METHODS.filter((verb) => allowedMethods.has(verb));
 
-      if (routePart.startsWith(':')) {
-        // Parameter part
-        const paramName = routePart.slice(1);
-        params[paramName] = decodeURIComponent(pathPart);
-      } else if (routePart !== pathPart) {
-        // Literal part doesn't match
+    return found
+      ? {
+          match: { ...found.value, params: found.params },
+          allowedMethods: allowed,
+        }
+      : { allowedMethods: allowed };
+  }
 
-        return null;
+  // Check request input against the route schemas, reporting every failing field
+  private validateRequest(
+    context: RequestContext,
+    validation: RouteValidation,
+  ): void {
+    const sources: Record<keyof RouteValidation, unknown> = {
+      params: context.params,
+      query: context.query,
+      body: context.body,
+      headers: context.req.headers,
+    };
+    const details: ValidationErrorDetail[] = [];
+
+    for (const location of Object.keys(sources) as (keyof RouteValidation)[]) {
+      const schema = validation[location];
+      if (!schema) continue;
+
+      // Only JSON bodies carry arrays, numbers and booleans as such
+      const options = { strings: location !== 'body' };
+
+      for (const issue of schema.validate(sources[location], '', options)) {
+        details.push({ location, field: issue.path, message: issue.message });
       }
     }
 
-    return { params };
+    if (details.length > 0) {
+      const message = details
+        .map(
+          (detail) =>
+            `${[detail.location, detail.field].filter(Boolean).join('.')} ${detail.message}`,
+        )
+        .join('; ');
+
+      throw new ValidationException(message, details);
+    }
+
+    // @BODY arguments get the validated values, e.g. numbers for numeric strings
+    if (validation.body) {
+      context.body = validation.body.coerce(context.body);
+    }
   }
 
   // Extract and order parameters for method call with dependency injection
   private extractParameters(
-    urlParams: Record<string, string>,
+    context: RequestContext,
     route: RouteMetadata,
-    req: http.IncomingMessage,
-    res: http.ServerResponse,
   ): unknown[] {
     // If no parameters metadata, use legacy behavior
     if (!route.parameters || route.parameters.length === 0) {
-      const params: unknown[] = [req, res];
+      const params: unknown[] = [context.req, context.res];
 
       // Add path parameters in the order they were declared
       for (let i = 0; i < route.paramNames.length; i++) {
         const paramName = route.paramNames[i];
-        if (paramName && urlParams[paramName] !== undefined) {
-          params.push(urlParams[paramName]);
+        if (paramName && context.params[paramName] !== undefined) {
+          params.push(context.params[paramName]);
         }
       }
 
@@ -182,28 +516,14 @@ export class Router {
     }
 
     // Use new dependency injection system
-    const params: unknown[] = [];
-
-    // Sort parameters by their index to maintain correct order
-    const sortedParams: ParameterMetadata[] = [...route.parameters].sort(
-      (a: ParameterMetadata, b: ParameterMetadata) => a.index - b.index,
-    );
-
-    // Fill parameters array with correct values
-    for (const param of sortedParams) {
-      if (param.type === 'param') {
-        // Extract URL parameter
-        const value = param.name ? urlParams[param.name] : undefined;
-        params[param.index] = value;
-      } else if (param.type === 'service') {
-        // Inject service instance
-        const service = param.serviceType
-          ? this.serviceRegistry.getOrCreateService(param.serviceType)
-          : undefined;
-        params[param.index] = service;
-      }
-    }
-
-    return params;
+    return extractParameters(route.parameters, {
+      services: context.services,
+      params: context.params,
+      query: context.query,
+      headers: context.req.headers,
+      body: context.body,
+      req: context.req,
+      res: context.res,
+    });
   }
 }
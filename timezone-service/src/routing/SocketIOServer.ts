@@ -1,216 +1,283 @@
+import { HealthIndicator, HealthIndicatorResult, RateLimiter } from '@services';
 import {
-  ParameterMetadata,
-  RoutingRegistry,
+  Logger,
+  NotFoundException,
+  Principal,
+  RealtimeBroadcaster,
+  RealtimeConnection,
   ServiceRegistry,
-  WebSocketMetadata,
+  credentialsFrom,
+  requestCredentials,
+  requestIdFrom,
 } from '@shared';
 import * as http from 'http';
-import { Socket, Server as SocketIOServer } from 'socket.io';
+import { ParsedUrlQuery } from 'querystring';
+import {
+  ExtendedError,
+  Namespace,
+  Socket,
+  Server as SocketIOServer,
+} from 'socket.io';
+
+import { MAX_MESSAGE_BYTES, RealtimeGateway } from './RealtimeGateway';
+
+// Acknowledgement callback passed by clients as the last event argument
+type Acknowledgement = (response: unknown) => void;
+
+// Socket.io socket seen through the transport-independent connection interface
+export class SocketIOConnection implements RealtimeConnection {
+  readonly transport = 'socket.io';
+
+  constructor(
+    readonly socket: Socket,
+    private gateway: RealtimeGateway,
+    readonly logger: Logger,
+    readonly params: Record<string, string> = {}, // of the namespace, matched as a @WebSocket path
+  ) {}
+
+  get id(): string {
+    return this.socket.id;
+  }
+
+  get query(): ParsedUrlQuery {
+    return this.socket.handshake?.query ?? {};
+  }
+
+  // Set on the socket by the handshake authentication middleware
+  get principal(): Principal | undefined {
+    return (this.socket.data as { principal?: Principal } | undefined)
+      ?.principal;
+  }
+
+  get address(): string | undefined {
+    const { headers, address } = this.socket.handshake ?? {};
+
+    return headers
+      ? ServiceRegistry.getInstance()
+          .getOrCreateService<RateLimiter>(RateLimiter)
+          .clientAddress(headers, address)
+      : address;
+  }
+
+  join(room: string): void | Promise<void> {
+    this.gateway.authorizeRoom(this, room);
+    return this.socket.join(room);
+  }
+
+  leave(room: string): void | Promise<void> {
+    return this.socket.leave(room);
+  }
+
+  emit(event: string, data: unknown): void {
+    this.socket.emit(event, data);
+  }
 
-export interface SocketIOClient {
-  socket: Socket;
-  timezone: string;
-  intervalId?: NodeJS.Timeout;
+  disconnect(): void {
+    this.socket.disconnect(true);
+  }
 }
 
-export class SocketServer {
-  private io: SocketIOServer;
-  private registry = RoutingRegistry.getInstance();
-  private serviceRegistry = ServiceRegistry.getInstance();
-  private webSocketInstances: Map<string, unknown> = new Map();
+export interface SocketServerOptions {
+  corsOrigins?: string | string[]; // defaults to any origin
+}
 
-  constructor(server: http.Server) {
+/**
+ * Socket.io transport of the WebSocket controllers
+ * Each controller is served on the namespaces matching its @WebSocket path,
+ * e.g. io('http://localhost:3000/time/live/Asia/Tokyo'), the main namespace
+ * serves none. Events are dispatched through RealtimeGateway to the controller
+ * of the namespace and acknowledged to the client. Clients authenticate with
+ * `auth: { apiKey }` or `auth: { token }` when connecting, rejected handshakes
+ * reach them as a `connect_error` whose `data` is the error response. As a readiness indicator it is up while the
+ * HTTP server listens and the Socket.io server is open
+ */
+export class SocketServer implements RealtimeBroadcaster, HealthIndicator {
+  readonly name = 'socket_io';
+  private io: SocketIOServer;
+  // Parent of the namespaces created for the @WebSocket paths clients connect to
+  private namespaces: Namespace;
+  private connections: Set<SocketIOConnection> = new Set();
+  private gateway =
+    ServiceRegistry.getInstance().getOrCreateService<RealtimeGateway>(
+      RealtimeGateway,
+    );
+  private logger =
+    ServiceRegistry.getInstance().getOrCreateService<Logger>(Logger);
+  private untrackConnections: () => void;
+  private closed = false;
+
+  constructor(
+    private server: http.Server,
+    options: SocketServerOptions = {},
+  ) {
     this.io = new SocketIOServer(server, {
       cors: {
-        origin: '*',
+        origin: options.corsOrigins ?? '*',
         methods: ['GET', 'POST'],
       },
       transports: ['websocket', 'polling'],
+      maxHttpBufferSize: MAX_MESSAGE_BYTES,
+      cleanupEmptyChildNamespaces: true,
     });
+    this.namespaces = this.io.of((name, _auth, next) =>
+      next(null, this.gateway.matchPath(name) !== undefined),
+    );
+
+    // Room broadcasts of the WebSocket controllers reach Socket.io rooms
+    this.gateway.addBroadcaster(this);
+    this.untrackConnections = this.gateway.trackConnections(
+      'socket.io',
+      () => this.connections.size,
+    );
 
+    this.setupAuthentication();
     this.setupSocketHandling();
   }
 
-  private setupSocketHandling(): void {
-    this.io.on('connection', (socket: Socket) => {
-      console.log(`Socket.io client connected: ${socket.id}`);
-
-      // Handle timezone subscription
-      socket.on('subscribe-timezone', (data: { timezone: string }) => {
-        this.handleTimezoneSubscription(socket, data.timezone);
-      });
-
-      // Handle disconnect
-      socket.on('disconnect', (reason: string) => {
-        console.log(
-          `Socket.io client disconnected: ${socket.id}, reason: ${reason}`,
+  // Runs before the connection is accepted, for every controller namespace
+  private setupAuthentication(): void {
+    this.namespaces.use(
+      (socket: Socket, next: (error?: ExtendedError) => void) => {
+        this.authenticate(socket).then(
+          () => next(),
+          (error: unknown) => next(this.toConnectError(socket, error)),
         );
-        this.handleDisconnect();
-      });
+      },
+    );
 
-      // Handle errors
-      socket.on('error', (error: Error) => {
-        console.error(`Socket.io error for ${socket.id}:`, error);
-      });
+    // No controller handles the events of the main namespace
+    this.io.use((socket: Socket, next: (error?: ExtendedError) => void) => {
+      next(
+        this.toConnectError(
+          socket,
+          new NotFoundException(
+            'Connect to the namespace of a WebSocket route, e.g. /time/live/Etc/UTC',
+          ),
+        ),
+      );
     });
   }
 
-  private handleTimezoneSubscription(socket: Socket, timezone: string): void {
-    console.log(`Client ${socket.id} subscribing to timezone: ${timezone}`);
+  // Rejected handshakes reach the client as a connect_error carrying the error response
+  private toConnectError(socket: Socket, error: unknown): ExtendedError {
+    const exception = this.gateway.toException(error, 'connect');
+    const connectError: ExtendedError = new Error(exception.message);
+    connectError.data = exception.toResponse();
 
-    // Join room for the specific timezone
-    const roomName = `timezone-${timezone}`;
-    socket.join(roomName);
-
-    // Find matching WebSocket route
-    const webSocketRoutes = this.registry.getAllWebSockets();
-
-    for (const [controllerClass, metadata] of webSocketRoutes) {
-      const match = this.matchTimezoneRoute(timezone, metadata.path);
-
-      if (match) {
-        console.log(
-          `Matched Socket.io route: ${metadata.path} for timezone: ${timezone}`,
-        );
-
-        try {
-          // Get or create WebSocket controller instance
-          const controllerInstance = this.getWebSocketInstance(
-            controllerClass as new (...args: unknown[]) => unknown,
-            metadata,
-            match.params,
-          );
-
-          // Create client object
-          const client: SocketIOClient = {
-            socket,
-            timezone,
-          };
-
-          // Call onConnect method
-          if (
-            controllerInstance &&
-            typeof (
-              controllerInstance as {
-                onConnect?: (client: SocketIOClient) => void;
-              }
-            ).onConnect === 'function'
-          ) {
-            (
-              controllerInstance as {
-                onConnect: (client: SocketIOClient) => void;
-              }
-            ).onConnect(client);
-          } else {
-            console.warn(
-              `Socket.io controller ${controllerClass.name} does not have onConnect method`,
-            );
-            socket.emit('error', { message: 'Controller method not found' });
-          }
-
-          return;
-        } catch (error) {
-          console.error('Error creating Socket.io controller instance:', error);
-          socket.emit('error', { message: 'Internal server error' });
-          return;
-        }
-      }
-    }
-
-    // No matching route found
-    console.log(`No matching Socket.io route found for timezone: ${timezone}`);
-    socket.emit('error', { message: 'Route not found' });
+    this.logger.info('Socket.io client rejected', {
+      connection_id: socket.id,
+      namespace: socket.nsp.name,
+      code: exception.code,
+    });
+    return connectError;
   }
 
-  private matchTimezoneRoute(
-    timezone: string,
-    routePath: string,
-  ): { params: Record<string, string> } | null {
-    // For Socket.io, we expect route like "/time/live/:timezone"
-    // and we match against the timezone parameter
-    const routeParts = routePath.split('/').filter((part) => part);
-
-    // Find the timezone parameter in the route
-    const timezoneParamIndex = routeParts.findIndex(
-      (part) => part === ':timezone',
-    );
-
-    if (timezoneParamIndex !== -1) {
-      return {
-        params: {
-          timezone: timezone,
-        },
-      };
-    }
+  // Credentials come from `handshake.auth`, or the request headers for clients that cannot set it
+  private async authenticate(socket: Socket): Promise<void> {
+    const { auth, headers, query } = socket.handshake;
+    const credentials = credentialsFrom(auth);
 
-    return null;
-  }
+    const principal = await this.gateway.authenticate(
+      Object.keys(credentials).length > 0
+        ? credentials
+        : requestCredentials(headers, query),
+      socket.nsp.name,
+    );
 
-  private handleDisconnect(): void {
-    // Socket.io automatically handles room cleanup on disconnect
-    // Custom cleanup logic can be added here if needed
+    socket.data = { ...(socket.data as object), principal };
   }
 
-  private getWebSocketInstance(
-    controllerClass: new (...args: unknown[]) => unknown,
-    metadata: WebSocketMetadata,
-    urlParams: Record<string, string>,
-  ): unknown {
-    // For Socket.io, we create instances per timezone to handle multiple clients
-    const instanceKey = `${controllerClass.name}-${urlParams.timezone}`;
-
-    if (this.webSocketInstances.has(instanceKey)) {
-      return this.webSocketInstances.get(instanceKey);
-    }
+  private setupSocketHandling(): void {
+    this.namespaces.on('connection', (socket: Socket) => {
+      // Namespaces are only created for matching paths
+      const match = this.gateway.matchPath(socket.nsp.name)!;
+      const connection = new SocketIOConnection(
+        socket,
+        this.gateway,
+        this.logger.child({
+          request_id: requestIdFrom(socket.handshake?.headers ?? {}),
+          connection_id: socket.id,
+        }),
+        match.params,
+      );
+      this.connections.add(connection);
+      connection.logger.info('Socket.io client connected', {
+        namespace: socket.nsp.name,
+      });
 
-    // Create constructor parameters
-    const constructorParams = this.resolveWebSocketParameters(
-      metadata,
-      urlParams,
-    );
+      // Listen for every event handled by the controller of the namespace
+      for (const event of this.gateway.getEvents(match.controllerClass)) {
+        socket.on(event, (...args: unknown[]) => {
+          void this.handleMessage(connection, event, args);
+        });
+      }
 
-    // Create new instance
-    const instance = new controllerClass(...constructorParams);
+      // Handle disconnect
+      socket.on('disconnect', (reason: string) => {
+        connection.logger.info('Socket.io client disconnected', { reason });
+        this.connections.delete(connection);
+        void this.gateway.disconnect(connection, reason);
+      });
 
-    // Store instance for reuse
-    this.webSocketInstances.set(instanceKey, instance);
+      // Handle errors
+      socket.on('error', (error: Error) => {
+        connection.logger.error('Socket.io error', { error });
+      });
 
-    return instance;
+      // Connect handlers receive the handshake query, a rejection is reported as an `error` event
+      this.gateway
+        .connect(connection, match.controllerClass)
+        .catch((error: unknown) => {
+          socket.emit(
+            'error',
+            this.gateway
+              .toException(error, 'connect', connection.logger)
+              .toResponse(),
+          );
+        });
+    });
   }
 
-  private resolveWebSocketParameters(
-    metadata: WebSocketMetadata,
-    urlParams: Record<string, string>,
-  ): unknown[] {
-    const params: unknown[] = [];
-
-    // Sort parameters by their index to maintain correct order
-    const sortedParams: ParameterMetadata[] = [...metadata.parameters].sort(
-      (a: ParameterMetadata, b: ParameterMetadata) => a.index - b.index,
-    );
-
-    // Fill parameters array with correct values
-    for (const param of sortedParams) {
-      if (param.type === 'param') {
-        // Extract URL parameter
-        const value = param.name ? urlParams[param.name] : undefined;
-        params[param.index] = value;
-      } else if (param.type === 'service') {
-        // Inject service instance
-        const service = param.serviceType
-          ? this.serviceRegistry.getOrCreateService(param.serviceType)
-          : undefined;
-        params[param.index] = service;
+  // Run a @SubscribeMessage handler and acknowledge its result or error
+  private async handleMessage(
+    connection: SocketIOConnection,
+    event: string,
+    args: unknown[],
+  ): Promise<void> {
+    const ack =
+      typeof args[args.length - 1] === 'function'
+        ? (args.pop() as Acknowledgement)
+        : undefined;
+
+    try {
+      const result = await this.gateway.handleMessage(
+        connection,
+        event,
+        args[0],
+      );
+      ack?.(result);
+    } catch (error) {
+      // Errors go to the acknowledgement callback when there is one, otherwise to an `error` event
+      const response = this.gateway
+        .toException(error, event, connection.logger)
+        .toResponse();
+
+      if (ack) {
+        ack({ error: response });
+      } else {
+        connection.emit('error', response);
       }
     }
+  }
 
-    return params;
+  // Emit to all clients in a room, in every controller namespace
+  emitToRoom(room: string, event: string, data: unknown): void {
+    this.namespaces.to(room).emit(event, data);
   }
 
   // Emit to all clients in a timezone room
   emitToTimezone(timezone: string, event: string, data: unknown): void {
-    const roomName = `timezone-${timezone}`;
-    this.io.to(roomName).emit(event, data);
+    this.emitToRoom(`timezone-${timezone}`, event, data);
   }
 
   // Emit to a specific client
@@ -221,38 +288,40 @@ export class SocketServer {
   // Get all connected clients for a timezone
   getClientsInTimezone(timezone: string): Promise<Set<string>> {
     const roomName = `timezone-${timezone}`;
-    return this.io.in(roomName).allSockets();
+    const ids = [...this.connections]
+      .filter(({ socket }) => socket.rooms.has(roomName))
+      .map(({ id }) => id);
+
+    return Promise.resolve(new Set(ids));
   }
 
   // Cleanup method for graceful shutdown
   cleanup(): void {
-    console.log('Cleaning up Socket.io server...');
-
-    // Cleanup all WebSocket controller instances
-    for (const [instanceKey, instance] of this.webSocketInstances) {
-      if (
-        instance &&
-        typeof (instance as { cleanup?: () => void }).cleanup === 'function'
-      ) {
-        try {
-          (instance as { cleanup: () => void }).cleanup();
-        } catch (error) {
-          console.error(
-            `Error cleaning up Socket.io controller ${instanceKey}:`,
-            error,
-          );
-        }
-      }
-    }
+    this.logger.info('Cleaning up Socket.io server');
 
-    this.webSocketInstances.clear();
+    // WebSocket controllers disconnect their clients on every transport
+    this.gateway.cleanup();
+    this.untrackConnections();
+    this.closed = true;
 
     // Close Socket.io server
     void this.io.close(() => {
-      console.log('Socket.io server closed');
+      this.logger.info('Socket.io server closed');
     });
   }
 
+  check(): HealthIndicatorResult {
+    const listening = this.server.listening && !this.closed;
+
+    return {
+      status: listening ? 'up' : 'down',
+      details: {
+        listening,
+        clients: this.closed ? 0 : this.connections.size,
+      },
+    };
+  }
+
   // Get the Socket.io server instance for advanced usage
   getIOServer(): SocketIOServer {
     return this.io;
@@ -0,0 +1,110 @@
+import { RateLimitExceededException, RateLimiter } from '@services';
+import {
+  CallHandler,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Interceptor,
+  RoutingRegistry,
+  ServiceRegistry,
+} from '@shared';
+
+import { setRateLimitHeaders } from './middleware';
+
+/**
+ * Runs the guards of a handler, shared by Router and RealtimeGateway
+ * @throws ForbiddenException when a guard returns false
+ */
+export async function runGuards(context: ExecutionContext): Promise<void> {
+  const guards = RoutingRegistry.getInstance().getGuards(
+    context.controllerClass,
+    context.handler,
+  );
+
+  for (const guardType of guards) {
+    const guard = resolveEnhancer<CanActivate>(guardType);
+
+    if (!(await guard.canActivate(context))) {
+      throw new ForbiddenException(
+        `Access to ${context.controllerClass.name}.${context.handler} was denied`,
+      );
+    }
+  }
+}
+
+/**
+ * Takes a token from the @RateLimit bucket of a handler, shared by Router and RealtimeGateway
+ * Buckets are kept per principal, or per IP address for anonymous clients;
+ * HTTP responses get the RateLimit-* headers
+ * @throws RateLimitExceededException when the bucket is empty
+ */
+export async function runRateLimit(context: ExecutionContext): Promise<void> {
+  const rateLimit = RoutingRegistry.getInstance().getRateLimit(
+    context.controllerClass,
+    context.handler,
+  );
+
+  if (!rateLimit) {
+    return;
+  }
+
+  const limiter =
+    ServiceRegistry.getInstance().getOrCreateService<RateLimiter>(RateLimiter);
+  const client = context.http
+    ? limiter.clientKey(
+        context.http.principal,
+        limiter.clientAddress(
+          context.http.req.headers,
+          context.http.req.socket?.remoteAddress,
+        ),
+      )
+    : limiter.clientKey(
+        context.ws?.socket.principal,
+        context.ws?.socket.address,
+      );
+
+  const result = await limiter.consume(
+    `${rateLimit.bucket}:${client}`,
+    rateLimit.policy,
+  );
+
+  if (context.http) {
+    setRateLimitHeaders(context.http.res, result, rateLimit.policy);
+  }
+
+  if (!result.allowed) {
+    throw new RateLimitExceededException(result);
+  }
+}
+
+/**
+ * Invokes a handler through its interceptors, outermost first
+ * @returns The (possibly transformed) handler result
+ */
+export async function runInterceptors(
+  context: ExecutionContext,
+  handler: CallHandler,
+): Promise<unknown> {
+  const interceptors = RoutingRegistry.getInstance().getInterceptors(
+    context.controllerClass,
+    context.handler,
+  );
+
+  const chain = interceptors.reduceRight<CallHandler>(
+    (next, interceptorType) => () => {
+      const interceptor = resolveEnhancer<Interceptor>(interceptorType);
+      return Promise.resolve(interceptor.intercept(context, next));
+    },
+    handler,
+  );
+
+  return chain();
+}
+
+function resolveEnhancer<T>(enhancer: T | (new () => T)): T {
+  return typeof enhancer === 'function'
+    ? ServiceRegistry.getInstance().getOrCreateService<T>(
+        enhancer as new () => T,
+      )
+    : enhancer;
+}
@@ -1,2 +1,46 @@
-export { Router } from './Router';
-export { SocketServer } from './SocketIOServer';
+export {
+  ControllerClass,
+  Router,
+  RouterAuthOptions,
+  RouterOptions,
+} from './Router';
+export {
+  AppOptions,
+  Application,
+  InjectRequest,
+  InjectResponse,
+  createApp,
+} from './Application';
+export {
+  AsyncApiDocument,
+  AsyncApiGenerator,
+  AsyncApiInfo,
+} from './AsyncApiGenerator';
+export {
+  OpenApiDocument,
+  OpenApiGenerator,
+  OpenApiInfo,
+} from './OpenApiGenerator';
+export { RouteTree, RouteLookupResult } from './RouteTree';
+export {
+  SocketServer,
+  SocketServerOptions,
+  SocketIOConnection,
+} from './SocketIOServer';
+export { NativeWebSocketServer } from './NativeWebSocketServer';
+export {
+  EventStreamServer,
+  EventStreamServerOptions,
+} from './EventStreamServer';
+export {
+  RealtimeGateway,
+  WebSocketClass,
+  WebSocketRouteMatch,
+} from './RealtimeGateway';
+export { ConnectionRooms, FrameSink } from './ConnectionRooms';
+export {
+  LifecycleManager,
+  LifecycleManagerOptions,
+  ShutdownHook,
+} from './LifecycleManager';
+export * from './middleware';
@@ -0,0 +1,27 @@
+import { Middleware, NextFunction, RequestContext } from '@shared';
+
+/**
+ * Composes middleware into a single function running them in order
+ * @param middleware - Middleware to run
+ * @returns Function invoking the chain, then `last` when every middleware called next()
+ */
+export function compose(middleware: Middleware[]) {
+  return function (context: RequestContext, last: NextFunction): Promise<void> {
+    let lastIndex = -1;
+
+    const dispatch = async (index: number): Promise<void> => {
+      if (index <= lastIndex) {
+        throw new Error('next() called multiple times');
+      }
+      lastIndex = index;
+
+      if (index === middleware.length) {
+        return last();
+      }
+
+      await middleware[index](context, () => dispatch(index + 1));
+    };
+
+    return dispatch(0);
+  };
+}
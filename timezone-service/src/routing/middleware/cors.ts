@@ -0,0 +1,61 @@
+import { HTTP_METHODS, Middleware } from '@shared';
+
+export interface CorsOptions {
+  origin?: string | readonly string[]; // a list only allows the origins it contains
+  methods?: readonly string[];
+  headers?: readonly string[]; // defaults to the request headers the service reads
+}
+
+// Body type, API key credentials and a request id to correlate logs with
+const DEFAULT_HEADERS = [
+  'Content-Type',
+  'Authorization',
+  'X-API-Key',
+  'X-Request-Id',
+];
+
+/**
+ * Sets CORS headers on every response
+ * @param options - Allowed origin, methods and request headers
+ */
+export function cors(options: CorsOptions = {}): Middleware {
+  const origin = options.origin ?? '*';
+  const methods = (options.methods ?? HTTP_METHODS).join(', ');
+  const headers = (options.headers ?? DEFAULT_HEADERS).join(', ');
+
+  return async (context, next) => {
+    const allowed = allowedOrigin(origin, context.req.headers.origin);
+
+    if (allowed !== '*' && typeof origin !== 'string') {
+      context.res.setHeader('Vary', 'Origin');
+    }
+    if (allowed) {
+      context.res.setHeader('Access-Control-Allow-Origin', allowed);
+    }
+    context.res.setHeader('Access-Control-Allow-Methods', methods);
+    context.res.setHeader('Access-Control-Allow-Headers', headers);
+    await next();
+  };
+}
+
+/**
+ * Access-Control-Allow-Origin value for a request
+ * @param origin - Allowed origin, or list of allowed origins possibly containing `*`
+ * @param requestOrigin - Origin header of the request
+ * @returns The value to send, undefined when the origin is not allowed
+ */
+export function allowedOrigin(
+  origin: string | readonly string[],
+  requestOrigin: string | undefined,
+): string | undefined {
+  if (typeof origin === 'string') {
+    return origin;
+  }
+  if (origin.includes('*')) {
+    return '*';
+  }
+
+  return requestOrigin && origin.includes(requestOrigin)
+    ? requestOrigin
+    : undefined;
+}
@@ -0,0 +1,4 @@
+export * from './compose';
+export * from './cors';
+export * from './jsonContentType';
+export * from './rateLimit';
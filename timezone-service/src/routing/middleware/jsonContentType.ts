@@ -0,0 +1,12 @@
+import { Middleware } from '@shared';
+
+/**
+ * Defaults the response Content-Type to JSON
+ * Handlers writing other formats can still override the header
+ */
+export function jsonContentType(): Middleware {
+  return async (context, next) => {
+    context.res.setHeader('Content-Type', 'application/json');
+    await next();
+  };
+}
@@ -0,0 +1,82 @@
+import {
+  RateLimitExceededException,
+  RateLimitResult,
+  RateLimiter,
+} from '@services';
+import {
+  Duration,
+  Middleware,
+  RateLimitPolicy,
+  RequestContext,
+  ServiceRegistry,
+  parseDuration,
+} from '@shared';
+import * as http from 'http';
+
+export interface RateLimitOptions {
+  limit: number; // requests allowed in a burst
+  window: Duration; // time to refill the bucket, e.g. '1m'
+  keyBy?: (context: RequestContext) => string; // client key, defaults to the IP address
+  limiter?: RateLimiter; // defaults to the RateLimiter of ServiceRegistry
+}
+
+/**
+ * Limits how often each client calls any route, before routes are matched
+ * Runs before authentication, so clients are told apart by IP address unless
+ * `keyBy` says otherwise; use @RateLimit for limits per API key
+ * @param options - Bucket size, refill window and client key
+ */
+export function rateLimit(options: RateLimitOptions): Middleware {
+  const policy: RateLimitPolicy = {
+    limit: options.limit,
+    windowMs: parseDuration(options.window),
+  };
+
+  return async (context, next) => {
+    const limiter =
+      options.limiter ??
+      ServiceRegistry.getInstance().getOrCreateService<RateLimiter>(
+        RateLimiter,
+      );
+    const client = options.keyBy
+      ? options.keyBy(context)
+      : limiter.clientKey(
+          undefined,
+          limiter.clientAddress(
+            context.req.headers,
+            context.req.socket?.remoteAddress,
+          ),
+        );
+
+    const result = await limiter.consume(`global:${client}`, policy);
+    setRateLimitHeaders(context.res, result, policy);
+
+    if (!result.allowed) {
+      throw new RateLimitExceededException(result);
+    }
+
+    await next();
+  };
+}
+
+/**
+ * Sets the RateLimit-* headers of the IETF rate limit fields draft, and Retry-After when limited
+ * Handler limits applied after the global one overwrite its headers
+ */
+export function setRateLimitHeaders(
+  res: http.ServerResponse,
+  result: RateLimitResult,
+  policy: RateLimitPolicy,
+): void {
+  res.setHeader('RateLimit-Limit', result.limit);
+  res.setHeader('RateLimit-Remaining', result.remaining);
+  res.setHeader('RateLimit-Reset', Math.ceil(result.resetMs / 1000));
+  res.setHeader(
+    'RateLimit-Policy',
+    `${policy.limit};w=${Math.ceil(policy.windowMs / 1000)}`,
+  );
+
+  if (!result.allowed) {
+    res.setHeader('Retry-After', Math.ceil(result.retryAfterMs / 1000));
+  }
+}
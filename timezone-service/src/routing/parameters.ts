@@ -0,0 +1,121 @@
+import {
+  BadRequestException,
+  InjectionToken,
+  ParameterMetadata,
+  Principal,
+  RealtimeConnection,
+  RequestScope,
+  ServiceRegistry,
+  coerceValue,
+} from '@shared';
+import * as http from 'http';
+import { ParsedUrlQuery } from 'querystring';
+
+/**
+ * What handler parameters are resolved from, a request or a WebSocket event
+ * Parameters whose source is missing resolve to undefined
+ */
+export interface ParameterSource {
+  services: RequestScope; // request-scoped service instances, with the logger of the request or connection
+  params?: Record<string, string>;
+  query?: ParsedUrlQuery;
+  headers?: http.IncomingHttpHeaders;
+  body?: unknown;
+  req?: http.IncomingMessage;
+  res?: http.ServerResponse;
+  socket?: RealtimeConnection;
+  principal?: Principal;
+  payload?: boolean; // the body is a WebSocket event payload, named so in errors
+}
+
+/**
+ * Resolves the arguments of a handler from its parameter metadata, shared by
+ * Router and RealtimeGateway
+ * @throws BadRequestException when a required input is missing
+ */
+export function extractParameters(
+  parameters: readonly ParameterMetadata[],
+  source: ParameterSource,
+): unknown[] {
+  const args: unknown[] = [];
+  // In parameter order, so the first missing input is reported
+  const ordered = [...parameters].sort((a, b) => a.index - b.index);
+
+  for (const param of ordered) {
+    const value = resolveParameter(param, source);
+
+    if (param.required && (value === undefined || value === null)) {
+      throw new BadRequestException(describeMissingParameter(param, source), {
+        code: 'MISSING_PARAMETER',
+        details: {
+          parameter: param.name,
+          source: source.payload ? 'payload' : param.type,
+        },
+      });
+    }
+
+    args[param.index] = value;
+  }
+
+  return args;
+}
+
+function resolveParameter(
+  param: ParameterMetadata,
+  source: ParameterSource,
+): unknown {
+  const name = param.name ?? '';
+
+  switch (param.type) {
+    case 'param':
+      return coerceValue(source.params?.[name], param.valueType, name);
+    case 'query':
+      return coerceValue(source.query?.[name], param.valueType, name);
+    case 'header':
+      return coerceValue(source.headers?.[name], param.valueType, name);
+    case 'body':
+      if (param.name === undefined) {
+        return source.body;
+      }
+      return source.body !== null && typeof source.body === 'object'
+        ? (source.body as Record<string, unknown>)[param.name]
+        : undefined;
+    case 'req':
+      return source.req;
+    case 'res':
+      return source.res;
+    case 'socket':
+      return source.socket;
+    case 'principal':
+      return source.principal;
+    case 'service':
+      // Request-scoped services live as long as the request or event
+      return ServiceRegistry.getInstance().resolve(
+        param.token ?? (param.serviceType as InjectionToken),
+        source.services,
+      );
+  }
+}
+
+function describeMissingParameter(
+  param: ParameterMetadata,
+  source: ParameterSource,
+): string {
+  switch (param.type) {
+    case 'query':
+      return `Query parameter '${param.name}' is required`;
+    case 'header':
+      return `Header '${param.name}' is required`;
+    case 'body':
+      if (source.payload) {
+        return param.name
+          ? `Payload property '${param.name}' is required`
+          : 'Payload is required';
+      }
+      return param.name
+        ? `Body property '${param.name}' is required`
+        : 'Request body is required';
+    default:
+      return `Parameter '${param.name}' is required`;
+  }
+}
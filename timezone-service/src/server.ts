@@ -1,83 +1,89 @@
 import 'module-alias/register'; // Added for runtime alias support
 import 'reflect-metadata'; // Added for dependency injection
-import * as http from 'http';
-import { Router, SocketServer } from '@routing';
-import { TimezoneController, HealthcheckController, TimezoneWebSocket } from '@controllers';
-import { sendErrorResponse } from '@shared';
+import { createApp, cors, jsonContentType, rateLimit } from '@routing';
+import { ConfigService, HandshakeAuthenticator, InvalidConfigException, RateLimiter } from '@services';
+import '@controllers'; // Loads the @Controller and @WebSocket classes createApp discovers
+import { Logger, NotFoundException } from '@shared';
 
-// TODO: Get from environment variables
-const PORT: number = 3000;
+// Settings from defaults, --config file, environment variables and command line flags
+let config: ConfigService;
 
-// Initialize router and register controllers
-const router = new Router();
+try {
+  config = new ConfigService();
+} catch (error) {
+  if (!(error instanceof InvalidConfigException)) throw error;
+  new Logger().error('Invalid configuration', { problems: error.problems });
+  process.exit(1);
+}
 
-// Create controller instances
-const timezoneController = new TimezoneController();
-const healthcheckController = new HealthcheckController();
+const {
+  env,
+  corsOrigins,
+  logLevel,
+  defaultTimezone,
+  realtimeApiKeys,
+  realtimeTokenSecret,
+  anonymousScopes,
+  rateLimitPerMinute,
+  trustProxy
+} = config.getAll();
 
-router.registerController(timezoneController);
-router.registerController(healthcheckController);
+// Realtime clients use the API keys and anonymous scopes of the HTTP routes, unless realtime API keys or a
+// token secret are configured, e.g.
+// REALTIME_API_KEYS='{"my-key": {"id": "dashboard", "scopes": ["time:read"]}}' REALTIME_TOKEN_SECRET=...
+// which every realtime client must then authenticate with
+const hasRealtimeApiKeys = Object.keys(realtimeApiKeys).length > 0;
+const hasRealtimeCredentials = hasRealtimeApiKeys || Boolean(realtimeTokenSecret);
 
-// Register WebSocket controllers (they are registered via decorators)
-// Just importing TimezoneWebSocket is enough to trigger the decorator registration
-TimezoneWebSocket;
-
-// Create HTTP server with decorator-based routing
-const server: http.Server = http.createServer(async (req: http.IncomingMessage, res: http.ServerResponse) => {
-  try {
-    // Try to handle request with registered routes
-    const handled = await router.handleRequest(req, res);
-    
-    if (!handled) {
-      // Handle 404 for unmatched routes
-      sendErrorResponse(
-        res, 
-        404, 
-        'Not found', 
-        'Use /time/{timezone} endpoint to get current time in a specific timezone',
-        { example: '/time/Etc/UTC' }
-      );
-    }
-  } catch (error) {
-    // Global error handler
-    console.error('Server error:', error);
-    sendErrorResponse(
-      res, 
-      500, 
-      'Internal server error', 
-      'An unexpected error occurred'
-    );
-  }
+const app = createApp({
+  config,
+  providers: [
+    // Behind a reverse proxy, clients are told apart by X-Forwarded-For
+    { provide: RateLimiter, useFactory: () => new RateLimiter({ trustProxy }) }
+  ],
+  router: {
+    // API_ANONYMOUS_SCOPES='' requires keys everywhere
+    auth: { anonymousScopes },
+    middleware: [
+      cors({ origin: corsOrigins }),
+      jsonContentType(),
+      // On top of the @RateLimit of routes
+      rateLimit({ limit: rateLimitPerMinute, window: '1m' })
+    ]
+  },
+  realtimeAuth: {
+    // Falls back to ApiKeyService without realtime API keys or a token secret
+    authenticator: new HandshakeAuthenticator({
+      ...(hasRealtimeApiKeys && { apiKeys: realtimeApiKeys }),
+      ...(realtimeTokenSecret && { tokenSecret: realtimeTokenSecret }),
+    }),
+    anonymousScopes: hasRealtimeCredentials ? [] : anonymousScopes
+  },
+  notFound: new NotFoundException(
+    'Use /time/{timezone} endpoint to get current time in a specific timezone',
+    { details: { example: `/time/${defaultTimezone}` } }
+  )
 });
-
-// Initialize Socket.io server
-const socketServer = new SocketServer(server);
+const { logger } = app;
 
 // Start server
-server.listen(PORT, (): void => {
-  console.log(`🕒 Timezone server running on http://localhost:${PORT}`);
-  console.log(`📍 HTTP Endpoints available:`);
-  console.log(`   GET / - API information`);
-  console.log(`   GET /time/{timezone} - Get time in timezone`);
-  console.log(`   GET /healthcheck - Health check`);
-  console.log(`🔌 Socket.io Endpoints available:`);
-  console.log(`   Connect and emit 'subscribe-timezone' with {timezone: 'UTC'}`);
-  console.log(`📝 Examples:`);
-  console.log(`   HTTP: http://localhost:${PORT}/time/Etc/UTC`);
-  console.log(`   Socket.io: Connect to http://localhost:${PORT} and emit 'subscribe-timezone'`);
-});
-
-// Handle graceful shutdown
-process.on('SIGINT', (): void => {
-  console.log('\n🛑 Shutting down server...');
-  
-  // Cleanup Socket.io server first
-  socketServer.cleanup();
-  
-  server.close((): void => {
-    console.log('✅ Server closed');
-    process.exit(0);
+app.listen().then(({ port }): void => {
+  // One line for log collectors and terminals alike, the endpoints are listed in the README and /openapi.json
+  logger.info('Server listening', {
+    url: `http://localhost:${port}`,
+    env,
+    log_level: logLevel,
+    default_timezone: defaultTimezone,
+    anonymous_scopes: anonymousScopes,
+    rate_limit_per_minute: rateLimitPerMinute,
+    realtime_authentication: hasRealtimeCredentials ? 'realtime keys' : 'api keys'
   });
+}).catch((error: unknown): void => {
+  logger.error('Server could not start', { error });
+  process.exit(1);
 });
 
-export default server;
+// Graceful shutdown on SIGTERM and SIGINT, open requests get SHUTDOWN_TIMEOUT to finish
+app.handleSignals();
+
+export default app.server;
@@ -0,0 +1,168 @@
+import {
+  Authenticator,
+  Credentials,
+  Injectable,
+  OnModuleDestroy,
+  Principal,
+  ServiceRegistry,
+} from '@shared';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+
+import { ConfigService } from '../config';
+import { ApiKeyRecord, ApiKeyStore, JsonFileApiKeyStore } from './ApiKeyStore';
+import { ApiKeyNotFoundException } from './exceptions';
+
+// Listing view of a key, without its hash
+export type ApiKeyInfo = Omit<ApiKeyRecord, 'hash'>;
+
+// A newly created key, the only time the key itself is returned
+export interface CreatedApiKey extends ApiKeyInfo {
+  key: string;
+}
+
+export interface ApiKeyServiceOptions {
+  store?: ApiKeyStore; // defaults to the apiKeysFile setting
+  adminKey?: string; // bootstrap key with the `admin` scope, defaults to the adminApiKey setting
+}
+
+// Scope of the admin endpoints managing keys
+export const ADMIN_SCOPE = 'admin';
+
+const KEY_PREFIX = 'tzk_';
+
+const hashKey = (key: string): string =>
+  createHash('sha256').update(key).digest('hex');
+
+const toInfo = ({ hash: _hash, ...info }: ApiKeyRecord): ApiKeyInfo => info;
+
+/**
+ * Issues, verifies and revokes API keys
+ * Keys are random `tzk_...` strings, only their SHA-256 hash is stored. By
+ * default the store is the JSON file of the apiKeysFile setting and the
+ * adminApiKey setting is accepted as a bootstrap admin key
+ */
+@Injectable()
+export class ApiKeyService implements Authenticator, OnModuleDestroy {
+  private store: ApiKeyStore;
+  private adminHash: Buffer | undefined;
+  private records: Promise<ApiKeyRecord[]> | undefined;
+  // Serialises writes, so concurrent changes are not lost
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    options: ApiKeyServiceOptions = {},
+    config: ConfigService = ServiceRegistry.getInstance().getOrCreateService<ConfigService>(
+      ConfigService,
+    ),
+  ) {
+    this.store =
+      options.store ?? new JsonFileApiKeyStore(config.get('apiKeysFile'));
+
+    const adminKey = options.adminKey ?? config.get('adminApiKey');
+    this.adminHash = adminKey
+      ? Buffer.from(hashKey(adminKey), 'hex')
+      : undefined;
+  }
+
+  /**
+   * Create a key with the given scopes
+   * @returns The key, to be handed to the client: it cannot be recovered later
+   */
+  create(name: string, scopes: string[]): Promise<CreatedApiKey> {
+    const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const record: ApiKeyRecord = {
+      id: randomUUID(),
+      name,
+      prefix: key.slice(0, KEY_PREFIX.length + 4),
+      hash: hashKey(key),
+      scopes: [...new Set(scopes)],
+      created_at: new Date().toISOString(),
+    };
+
+    return this.update(async (records) => {
+      records.push(record);
+      return { key, ...toInfo(record) };
+    });
+  }
+
+  // Every key, revoked ones included, without their hashes
+  async list(): Promise<ApiKeyInfo[]> {
+    return (await this.load()).map(toInfo);
+  }
+
+  /**
+   * Revoke a key, it is refused from then on
+   * @throws ApiKeyNotFoundException for unknown ids
+   */
+  revoke(id: string): Promise<ApiKeyInfo> {
+    return this.update(async (records) => {
+      const record = records.find((candidate) => candidate.id === id);
+
+      if (!record) {
+        throw new ApiKeyNotFoundException(id);
+      }
+
+      record.revoked_at ??= new Date().toISOString();
+      return toInfo(record);
+    });
+  }
+
+  /**
+   * Find the principal of an API key
+   * @returns undefined for unknown or revoked keys, and for signed tokens
+   */
+  async authenticate(credentials: Credentials): Promise<Principal | undefined> {
+    if (credentials.apiKey === undefined) {
+      return undefined;
+    }
+
+    const hash = Buffer.from(hashKey(credentials.apiKey), 'hex');
+
+    if (this.adminHash && timingSafeEqual(hash, this.adminHash)) {
+      return { id: 'admin', type: 'api-key', scopes: [ADMIN_SCOPE] };
+    }
+
+    const record = (await this.load()).find(
+      (candidate) =>
+        !candidate.revoked_at &&
+        timingSafeEqual(hash, Buffer.from(candidate.hash, 'hex')),
+    );
+
+    return record
+      ? { id: record.id, type: 'api-key', scopes: [...record.scopes] }
+      : undefined;
+  }
+
+  // Records are read once and kept in memory, the service owns the store
+  // Finish pending writes before the process exits
+  async onModuleDestroy(): Promise<void> {
+    await this.writes;
+  }
+
+  private load(): Promise<ApiKeyRecord[]> {
+    this.records ??= this.store.load();
+    return this.records;
+  }
+
+  private update<T>(
+    change: (records: ApiKeyRecord[]) => Promise<T>,
+  ): Promise<T> {
+    const result = this.writes.then(async () => {
+      const records = await this.load();
+      const value = await change(records);
+
+      try {
+        await this.store.save(records);
+      } catch (error) {
+        // Reload what the store actually holds on the next access
+        this.records = undefined;
+        throw error;
+      }
+
+      return value;
+    });
+
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,56 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+// An API key as kept at rest, the key itself is only stored as a hash
+export interface ApiKeyRecord {
+  id: string; // public identifier, used to revoke the key
+  name: string;
+  prefix: string; // first characters of the key, to recognise it in listings
+  hash: string; // SHA-256 of the key, hex encoded
+  scopes: string[];
+  created_at: string;
+  revoked_at?: string;
+}
+
+// Persistence of API key records
+export interface ApiKeyStore {
+  load(): Promise<ApiKeyRecord[]>;
+  save(records: ApiKeyRecord[]): Promise<void>;
+}
+
+/**
+ * Keeps API keys in a local JSON file
+ * Writes go to a temporary file renamed over the store, so a crash never
+ * leaves a truncated file behind
+ */
+export class JsonFileApiKeyStore implements ApiKeyStore {
+  constructor(private file: string) {}
+
+  async load(): Promise<ApiKeyRecord[]> {
+    let content: string;
+
+    try {
+      content = await fs.readFile(this.file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const data = JSON.parse(content) as { keys?: ApiKeyRecord[] };
+    return data.keys ?? [];
+  }
+
+  async save(records: ApiKeyRecord[]): Promise<void> {
+    const temporary = `${this.file}.${process.pid}.tmp`;
+
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.writeFile(
+      temporary,
+      `${JSON.stringify({ keys: records }, null, 2)}\n`,
+      { mode: 0o600 },
+    );
+    await fs.rename(temporary, this.file);
+  }
+}
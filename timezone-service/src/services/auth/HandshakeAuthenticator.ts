@@ -0,0 +1,79 @@
+import {
+  Authenticator,
+  AuthenticatorType,
+  Credentials,
+  Principal,
+  ServiceRegistry,
+} from '@shared';
+import { createHash } from 'crypto';
+
+import { ApiKeyService } from './ApiKeyService';
+import { verifyToken } from './tokens';
+
+// Identity and scopes granted to an API key
+export interface ApiKeyGrant {
+  id: string;
+  scopes: string[];
+}
+
+export interface HandshakeAuthenticatorOptions {
+  apiKeys?: Record<string, ApiKeyGrant>; // keyed by the API key itself
+  tokenSecret?: string; // HMAC secret of signed tokens, tokens are refused without it
+  fallback?: AuthenticatorType; // used while neither apiKeys nor tokenSecret is given, defaults to ApiKeyService
+}
+
+const hashKey = (key: string): string =>
+  createHash('sha256').update(key).digest('hex');
+
+/**
+ * Authenticates realtime clients with an API key from a fixed list or an
+ * HMAC-signed token (see signToken)
+ * Keys are only kept as SHA-256 hashes, so lookups do not compare secrets.
+ * Without realtime keys or a secret, the keys of the HTTP API are accepted
+ */
+export class HandshakeAuthenticator implements Authenticator {
+  private apiKeys: Map<string, ApiKeyGrant> = new Map();
+  private tokenSecret: string | undefined;
+  private fallback: AuthenticatorType;
+
+  constructor(options: HandshakeAuthenticatorOptions = {}) {
+    for (const [key, grant] of Object.entries(options.apiKeys ?? {})) {
+      this.apiKeys.set(hashKey(key), grant);
+    }
+
+    this.tokenSecret = options.tokenSecret;
+    this.fallback = options.fallback ?? ApiKeyService;
+  }
+
+  authenticate(
+    credentials: Credentials,
+  ): Principal | undefined | Promise<Principal | undefined> {
+    if (this.apiKeys.size === 0 && this.tokenSecret === undefined) {
+      return this.resolveFallback().authenticate(credentials);
+    }
+
+    if (credentials.apiKey !== undefined) {
+      const grant = this.apiKeys.get(hashKey(credentials.apiKey));
+
+      return grant
+        ? { id: grant.id, type: 'api-key', scopes: [...grant.scopes] }
+        : undefined;
+    }
+
+    if (credentials.token !== undefined && this.tokenSecret !== undefined) {
+      const claims = verifyToken(credentials.token, this.tokenSecret);
+
+      return { id: claims.sub, type: 'token', scopes: claims.scopes ?? [] };
+    }
+
+    return undefined;
+  }
+
+  private resolveFallback(): Authenticator {
+    return typeof this.fallback === 'function'
+      ? ServiceRegistry.getInstance().getOrCreateService<Authenticator>(
+          this.fallback,
+        )
+      : this.fallback;
+  }
+}
@@ -0,0 +1,26 @@
+import { NotFoundException, UnauthorizedException } from '@shared';
+
+/**
+ * Raised when a signed token is malformed, tampered with or expired
+ */
+export class InvalidTokenException extends UnauthorizedException {
+  constructor(reason: string, code: string = 'INVALID_TOKEN') {
+    super(`The token is not valid: ${reason}`, {
+      error: 'Invalid token',
+      code,
+    });
+  }
+}
+
+/**
+ * Raised when no API key has the given id
+ */
+export class ApiKeyNotFoundException extends NotFoundException {
+  constructor(id: string) {
+    super(`No API key with id '${id}'`, {
+      error: 'API key not found',
+      code: 'API_KEY_NOT_FOUND',
+      details: { id },
+    });
+  }
+}
@@ -0,0 +1,12 @@
+// Export auth exceptions
+export * from './exceptions';
+
+// Export signed token helpers
+export * from './tokens';
+
+// Export realtime handshake authenticator
+export * from './HandshakeAuthenticator';
+
+// Export API key store and service
+export * from './ApiKeyStore';
+export * from './ApiKeyService';
@@ -0,0 +1,81 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+import { InvalidTokenException } from './exceptions';
+
+// Claims carried by a signed token
+export interface TokenClaims {
+  sub: string; // id of the principal
+  scopes?: string[];
+  exp?: number; // expiry in seconds since the epoch
+}
+
+const signature = (payload: string, secret: string): Buffer =>
+  createHmac('sha256', secret).update(payload).digest();
+
+/**
+ * Signs claims into a `<payload>.<signature>` token, both parts base64url encoded
+ * The signature is an HMAC-SHA256 of the encoded payload
+ * @param expiresIn - Lifetime in seconds, the token never expires without it
+ */
+export function signToken(
+  claims: TokenClaims,
+  secret: string,
+  expiresIn?: number,
+): string {
+  const payload = Buffer.from(
+    JSON.stringify(
+      expiresIn === undefined
+        ? claims
+        : { ...claims, exp: Math.floor(Date.now() / 1000) + expiresIn },
+    ),
+  ).toString('base64url');
+
+  return `${payload}.${signature(payload, secret).toString('base64url')}`;
+}
+
+/**
+ * Checks the signature and expiry of a token made by signToken
+ * @returns The claims of the token
+ * @throws InvalidTokenException for malformed, tampered or expired tokens
+ */
+export function verifyToken(token: string, secret: string): TokenClaims {
+  const [payload, signed, ...rest] = token.split('.');
+
+  if (!payload || !signed || rest.length > 0) {
+    throw new InvalidTokenException('expected <payload>.<signature>');
+  }
+
+  const expected = signature(payload, secret);
+  const actual = Buffer.from(signed, 'base64url');
+
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new InvalidTokenException('signature mismatch');
+  }
+
+  let claims: unknown;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidTokenException('payload is not JSON');
+  }
+
+  const { sub, scopes, exp } = (claims ?? {}) as Record<string, unknown>;
+
+  if (
+    typeof sub !== 'string' ||
+    (scopes !== undefined &&
+      !(
+        Array.isArray(scopes) &&
+        scopes.every((scope) => typeof scope === 'string')
+      )) ||
+    (exp !== undefined && typeof exp !== 'number')
+  ) {
+    throw new InvalidTokenException('unexpected claims');
+  }
+
+  if (exp !== undefined && exp * 1000 <= Date.now()) {
+    throw new InvalidTokenException('expired', 'TOKEN_EXPIRED');
+  }
+
+  return claims as TokenClaims;
+}
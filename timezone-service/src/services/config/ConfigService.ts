@@ -0,0 +1,317 @@
+import { LOG_LEVELS, parseDuration, s } from '@shared';
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import * as path from 'path';
+
+import { InvalidConfigException } from './exceptions';
+import { AppConfig, ConfigSources, ENVIRONMENTS } from './types';
+
+// Environment variable and command line flag of each setting
+interface ConfigOption {
+  env: string;
+  flag?: string;
+  empty?: boolean; // an empty environment variable is a value, not an unset one
+}
+
+const OPTIONS: Record<keyof AppConfig, ConfigOption> = {
+  env: { env: 'NODE_ENV' },
+  port: { env: 'PORT', flag: '--port' },
+  host: { env: 'HOST', flag: '--host' },
+  corsOrigins: { env: 'CORS_ORIGINS', flag: '--cors-origins' },
+  tickIntervalMs: { env: 'TICK_INTERVAL', flag: '--tick-interval' },
+  shutdownTimeoutMs: { env: 'SHUTDOWN_TIMEOUT', flag: '--shutdown-timeout' },
+  logLevel: { env: 'LOG_LEVEL', flag: '--log-level' },
+  defaultTimezone: { env: 'DEFAULT_TIMEZONE', flag: '--default-timezone' },
+  realtimeApiKeys: { env: 'REALTIME_API_KEYS', flag: '--realtime-api-keys' },
+  realtimeTokenSecret: {
+    env: 'REALTIME_TOKEN_SECRET',
+    flag: '--realtime-token-secret',
+  },
+  anonymousScopes: {
+    env: 'API_ANONYMOUS_SCOPES',
+    flag: '--anonymous-scopes',
+    empty: true,
+  },
+  rateLimitPerMinute: {
+    env: 'RATE_LIMIT_PER_MINUTE',
+    flag: '--rate-limit-per-minute',
+  },
+  trustProxy: { env: 'TRUST_PROXY', flag: '--trust-proxy' },
+  apiKeysFile: { env: 'API_KEYS_FILE', flag: '--api-keys-file' },
+  adminApiKey: { env: 'ADMIN_API_KEY', flag: '--admin-api-key' },
+};
+
+const CONFIG_FILE_ENV = 'CONFIG_FILE';
+const CONFIG_FILE_FLAG = '--config';
+
+const DEFAULTS: AppConfig = {
+  env: 'development',
+  port: 3000,
+  host: '::', // every IPv4 and IPv6 interface, like http.Server.listen without a host
+  corsOrigins: ['*'],
+  tickIntervalMs: 1000,
+  shutdownTimeoutMs: 10 * 1000,
+  logLevel: 'info',
+  defaultTimezone: 'Etc/UTC',
+  realtimeApiKeys: {},
+  anonymousScopes: ['time:read', 'health:read', 'metrics:read'],
+  rateLimitPerMinute: 600,
+  trustProxy: false,
+  apiKeysFile: path.join('data', 'api-keys.json'),
+};
+
+const configSchema = s.object(
+  {
+    env: s.enum(ENVIRONMENTS),
+    port: s.number({ integer: true, min: 0, max: 65535 }),
+    host: s.string({ min: 1 }),
+    corsOrigins: s.array(s.string({ min: 1 }), { min: 1 }),
+    tickIntervalMs: s.number({ integer: true, min: 100, max: 60 * 1000 }),
+    shutdownTimeoutMs: s.number({ integer: true, min: 0, max: 10 * 60 * 1000 }),
+    logLevel: s.enum(LOG_LEVELS),
+    defaultTimezone: s.timezone(),
+    realtimeApiKeys: s.record(
+      s.object(
+        { id: s.string({ min: 1 }), scopes: s.array(s.string({ min: 1 })) },
+        { strict: true },
+      ),
+    ),
+    realtimeTokenSecret: s.string({ min: 1 }).optional(),
+    anonymousScopes: s.array(s.string({ min: 1 })),
+    rateLimitPerMinute: s.number({ integer: true, min: 1 }),
+    trustProxy: s.boolean(),
+    apiKeysFile: s.string({ min: 1 }),
+    adminApiKey: s.string({ min: 1 }).optional(),
+  },
+  { strict: true },
+);
+
+// Raw values of one source, with a label naming the source in error messages
+interface SourceValues {
+  values: Record<string, unknown>;
+  label: (key: string) => string;
+}
+
+/**
+ * Typed settings of the server, validated once at startup
+ * Values are merged from, lowest precedence first: defaults, a JSON or YAML
+ * file (--config or CONFIG_FILE), environment variables (PORT, HOST,
+ * CORS_ORIGINS, TICK_INTERVAL, SHUTDOWN_TIMEOUT, LOG_LEVEL, DEFAULT_TIMEZONE,
+ * REALTIME_API_KEYS, REALTIME_TOKEN_SECRET, API_ANONYMOUS_SCOPES,
+ * RATE_LIMIT_PER_MINUTE, TRUST_PROXY, API_KEYS_FILE, ADMIN_API_KEY, NODE_ENV)
+ * and command line flags (--port, --host, --cors-origins, --tick-interval,
+ * --shutdown-timeout, --log-level, --default-timezone, --realtime-api-keys,
+ * --realtime-token-secret, --anonymous-scopes, --rate-limit-per-minute,
+ * --trust-proxy, --api-keys-file, --admin-api-key)
+ * @throws InvalidConfigException listing every invalid value and where it came from
+ */
+export class ConfigService {
+  private config: Readonly<AppConfig>;
+
+  constructor(sources: ConfigSources = {}) {
+    const env = sources.env ?? process.env;
+    const problems: string[] = [];
+
+    const cli = this.parseArgs(sources.argv ?? process.argv.slice(2), problems);
+    const file = sources.file ?? cli.file ?? env[CONFIG_FILE_ENV];
+
+    const layers: SourceValues[] = [
+      {
+        values: { ...DEFAULTS, ...sources.defaults },
+        label: () => 'default',
+      },
+      ...(file ? [this.readFile(file, problems)] : []),
+      {
+        values: this.fromEnv(env),
+        label: (key) => OPTIONS[key as keyof AppConfig].env,
+      },
+      {
+        values: cli.values,
+        label: (key) => OPTIONS[key as keyof AppConfig].flag ?? key,
+      },
+    ];
+
+    const merged: Record<string, unknown> = {};
+    const origins: Record<string, string> = {};
+
+    for (const { values, label } of layers) {
+      for (const [key, value] of Object.entries(values)) {
+        if (value !== undefined) {
+          merged[key] = value;
+          origins[key] = label(key);
+        }
+      }
+    }
+
+    this.normalize(merged, origins, problems);
+
+    for (const issue of configSchema.validate(merged)) {
+      const key = issue.path.split(/[.[]/)[0];
+      problems.push(`${issue.path} (${origins[key]}): ${issue.message}`);
+    }
+
+    if (problems.length > 0) {
+      throw new InvalidConfigException(problems);
+    }
+
+    // Numbers and booleans of environment variables and flags are still strings
+    this.config = Object.freeze(configSchema.coerce(merged) as AppConfig);
+  }
+
+  get<K extends keyof AppConfig>(key: K): AppConfig[K] {
+    return this.config[key];
+  }
+
+  getAll(): Readonly<AppConfig> {
+    return this.config;
+  }
+
+  // Read `--flag value` and `--flag=value` arguments
+  private parseArgs(
+    argv: string[],
+    problems: string[],
+  ): { values: Record<string, string>; file: string | undefined } {
+    const flags = new Map(
+      Object.entries(OPTIONS)
+        .filter(([, option]) => option.flag)
+        .map(([key, option]) => [option.flag as string, key]),
+    );
+    const values: Record<string, string> = {};
+    let file: string | undefined;
+
+    for (let index = 0; index < argv.length; index++) {
+      const [flag, inline] = argv[index].split(/=(.*)/s, 2);
+      const key = flags.get(flag);
+
+      if (!key && flag !== CONFIG_FILE_FLAG) {
+        problems.push(`Unknown command line argument '${argv[index]}'`);
+        continue;
+      }
+
+      const value = inline ?? argv[++index];
+      if (value === undefined) {
+        problems.push(`Missing value for ${flag}`);
+      } else if (key) {
+        values[key] = value;
+      } else {
+        file = value;
+      }
+    }
+
+    return { values, file };
+  }
+
+  private readFile(file: string, problems: string[]): SourceValues {
+    const label = () => path.basename(file);
+    let content: unknown;
+
+    try {
+      const text = fs.readFileSync(path.resolve(file), 'utf8');
+      content = /\.ya?ml$/i.test(file) ? yaml.load(text) : JSON.parse(text);
+    } catch (error) {
+      problems.push(
+        `Cannot read config file ${file}: ${(error as Error).message}`,
+      );
+      return { values: {}, label };
+    }
+
+    // An empty YAML file has no settings
+    if (content === undefined || content === null) {
+      return { values: {}, label };
+    }
+    if (typeof content !== 'object' || Array.isArray(content)) {
+      problems.push(`Config file ${file} must contain an object`);
+      return { values: {}, label };
+    }
+
+    return { values: content as Record<string, unknown>, label };
+  }
+
+  private fromEnv(env: NodeJS.ProcessEnv): Record<string, string | undefined> {
+    return Object.fromEntries(
+      Object.entries(OPTIONS).map(([key, option]) => [
+        key,
+        env[option.env] === '' && !option.empty ? undefined : env[option.env],
+      ]),
+    );
+  }
+
+  // Convert the strings of environment variables and flags to their types
+  private normalize(
+    config: Record<string, unknown>,
+    origins: Record<string, string>,
+    problems: string[],
+  ): void {
+    if (typeof config.port === 'string' && config.port.trim() !== '') {
+      config.port = Number.isNaN(Number(config.port))
+        ? config.port
+        : Number(config.port);
+    }
+
+    // Lists are comma-separated
+    for (const key of ['corsOrigins', 'anonymousScopes'] as const) {
+      const value = config[key];
+      if (typeof value === 'string') {
+        config[key] = value
+          .split(',')
+          .map((item) => item.trim())
+          .filter(Boolean);
+      }
+    }
+    if (Array.isArray(config.corsOrigins)) {
+      config.corsOrigins.forEach((origin: unknown, index: number) => {
+        if (typeof origin === 'string' && !isOrigin(origin)) {
+          problems.push(
+            `corsOrigins[${index}] (${origins.corsOrigins}): must be * or an origin like https://example.com, got '${origin}'`,
+          );
+        }
+      });
+    }
+
+    // API keys are a JSON object outside of config files
+    if (typeof config.realtimeApiKeys === 'string') {
+      try {
+        config.realtimeApiKeys = JSON.parse(config.realtimeApiKeys);
+      } catch (error) {
+        problems.push(
+          `realtimeApiKeys (${origins.realtimeApiKeys}): must be a JSON object, ${(error as Error).message}`,
+        );
+        config.realtimeApiKeys = DEFAULTS.realtimeApiKeys; // reported once
+      }
+    }
+
+    // Durations such as '1s' are accepted as well as milliseconds
+    for (const key of ['tickIntervalMs', 'shutdownTimeoutMs'] as const) {
+      const value = config[key];
+      if (typeof value !== 'string') {
+        continue;
+      }
+
+      // Bare integers are milliseconds, parseDuration requires a unit
+      if (/^\s*\d+\s*$/.test(value)) {
+        config[key] = Number(value);
+        continue;
+      }
+
+      try {
+        config[key] = parseDuration(value);
+      } catch (error) {
+        problems.push(`${key} (${origins[key]}): ${(error as Error).message}`);
+        config[key] = DEFAULTS[key]; // reported once
+      }
+    }
+  }
+}
+
+// `*`, or a scheme, host and optional port without a path
+function isOrigin(value: string): boolean {
+  if (value === '*') {
+    return true;
+  }
+
+  try {
+    return new URL(value).origin === value;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Raised at startup when settings are missing, malformed or out of range
+ * The message lists every problem with the source of the offending value
+ */
+export class InvalidConfigException extends Error {
+  constructor(readonly problems: string[]) {
+    super(
+      `Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`,
+    );
+    this.name = new.target.name;
+  }
+}
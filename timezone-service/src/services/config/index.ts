@@ -0,0 +1,8 @@
+// Export config types
+export * from './types';
+
+// Export config exceptions
+export * from './exceptions';
+
+// Export config service
+export * from './ConfigService';
@@ -0,0 +1,33 @@
+import type { LogLevel } from '@shared';
+
+import type { ApiKeyGrant } from '../auth';
+
+export const ENVIRONMENTS = ['development', 'production', 'test'] as const;
+export type Environment = (typeof ENVIRONMENTS)[number];
+
+// Settings of the server, see ConfigService for where they come from
+export interface AppConfig {
+  env: Environment; // NODE_ENV
+  port: number;
+  host: string;
+  corsOrigins: string[]; // allowed browser origins, `*` for any
+  tickIntervalMs: number; // live time update interval
+  shutdownTimeoutMs: number; // how long a graceful shutdown waits for open requests
+  logLevel: LogLevel;
+  defaultTimezone: string; // IANA identifier used when a client names none
+  realtimeApiKeys: Record<string, ApiKeyGrant>; // keyed by the API key, realtime clients must authenticate when set
+  realtimeTokenSecret?: string; // HMAC secret of signed realtime tokens, realtime clients must authenticate when set
+  anonymousScopes: string[]; // scopes of clients without an API key, empty to require keys everywhere
+  rateLimitPerMinute: number; // requests from one IP address across every route
+  trustProxy: boolean; // tell clients apart by X-Forwarded-For, behind a reverse proxy
+  apiKeysFile: string; // JSON file storing the API keys issued through /admin/api-keys
+  adminApiKey?: string; // bootstrap key with the `admin` scope, never written to the key file
+}
+
+// Where ConfigService reads settings from, process.env and process.argv by default
+export interface ConfigSources {
+  defaults?: Partial<AppConfig>;
+  file?: string; // JSON or YAML file, otherwise given by --config or CONFIG_FILE
+  env?: NodeJS.ProcessEnv;
+  argv?: string[]; // command line arguments without the node and script paths
+}
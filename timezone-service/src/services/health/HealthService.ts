@@ -0,0 +1,108 @@
+import type {
+  HealthCheckKind,
+  HealthIndicator,
+  HealthIndicatorResult,
+  HealthReport,
+} from './types';
+
+export interface HealthServiceOptions {
+  timeoutMs?: number; // indicators answering later are down, defaults to 3 seconds
+}
+
+/**
+ * Aggregates the health indicators behind /health/live and /health/ready
+ * Readiness fails from the start of a graceful shutdown, so load balancers
+ * stop sending traffic while open connections drain
+ */
+export class HealthService {
+  private indicators: Record<HealthCheckKind, Set<HealthIndicator>> = {
+    liveness: new Set(),
+    readiness: new Set(),
+  };
+  private shuttingDown = false;
+  private timeoutMs: number;
+
+  constructor(options: HealthServiceOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 3000;
+  }
+
+  /**
+   * Register an indicator for liveness or readiness checks
+   * @returns Function removing the indicator again
+   */
+  addIndicator(kind: HealthCheckKind, indicator: HealthIndicator): () => void {
+    this.indicators[kind].add(indicator);
+    return () => this.indicators[kind].delete(indicator);
+  }
+
+  // Fail readiness from now on, called when a graceful shutdown starts
+  beginShutdown(): void {
+    this.shuttingDown = true;
+  }
+
+  isShuttingDown(): boolean {
+    return this.shuttingDown;
+  }
+
+  /**
+   * Run every indicator of a kind concurrently
+   * @returns Report that is up when every indicator is up
+   */
+  async check(kind: HealthCheckKind): Promise<HealthReport> {
+    const indicators = [...this.indicators[kind]];
+    const results = await Promise.all(
+      indicators.map((indicator) => this.runIndicator(indicator)),
+    );
+
+    const checks: Record<string, HealthIndicatorResult> = {};
+    indicators.forEach((indicator, index) => {
+      checks[indicator.name] = results[index];
+    });
+
+    if (kind === 'readiness' && this.shuttingDown) {
+      checks.shutdown = {
+        status: 'down',
+        details: { message: 'Server is shutting down' },
+      };
+    }
+
+    return {
+      status: Object.values(checks).every((check) => check.status === 'up')
+        ? 'up'
+        : 'down',
+      checks,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private async runIndicator(
+    indicator: HealthIndicator,
+  ): Promise<HealthIndicatorResult> {
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeout = new Promise<HealthIndicatorResult>((resolve) => {
+      timer = setTimeout(
+        () =>
+          resolve({
+            status: 'down',
+            details: { message: `Timed out after ${this.timeoutMs}ms` },
+          }),
+        this.timeoutMs,
+      );
+    });
+
+    try {
+      return await Promise.race([
+        Promise.resolve().then(() => indicator.check()),
+        timeout,
+      ]);
+    } catch (error) {
+      return {
+        status: 'down',
+        details: { message: (error as Error).message },
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,8 @@
+// Export health types
+export * from './types';
+
+// Export health service
+export * from './HealthService';
+
+// Export built-in health indicators
+export * from './indicators';
@@ -0,0 +1,116 @@
+import { ServiceRegistry } from '@shared';
+import { IntervalHistogram, monitorEventLoopDelay } from 'perf_hooks';
+import * as v8 from 'v8';
+
+import { ConfigService } from '../config';
+import { TimezoneService } from '../timezone';
+import type { HealthIndicator, HealthIndicatorResult } from './types';
+
+/**
+ * Down while the event loop is blocked, measured as the 99th percentile
+ * delay since the previous check
+ */
+export class EventLoopLagIndicator implements HealthIndicator {
+  readonly name = 'event_loop';
+  private histogram: IntervalHistogram;
+
+  constructor(private maxLagMs: number = 1000) {
+    this.histogram = monitorEventLoopDelay({ resolution: 20 });
+    this.histogram.enable();
+  }
+
+  check(): HealthIndicatorResult {
+    // NaN until the first sample is taken
+    const lagMs = this.histogram.percentile(99) / 1e6 || 0;
+    this.histogram.reset();
+
+    return {
+      status: lagMs <= this.maxLagMs ? 'up' : 'down',
+      details: {
+        lag_ms: Math.round(lagMs * 10) / 10,
+        max_lag_ms: this.maxLagMs,
+      },
+    };
+  }
+
+  // Stop sampling, e.g. on shutdown
+  dispose(): void {
+    this.histogram.disable();
+  }
+}
+
+/**
+ * Down when the V8 heap nears its limit, before the process runs out of memory
+ */
+export class MemoryIndicator implements HealthIndicator {
+  readonly name = 'memory';
+
+  constructor(private maxHeapRatio: number = 0.9) {}
+
+  check(): HealthIndicatorResult {
+    const { used_heap_size: used, heap_size_limit: limit } =
+      v8.getHeapStatistics();
+    const ratio = used / limit;
+
+    return {
+      status: ratio <= this.maxHeapRatio ? 'up' : 'down',
+      details: {
+        heap_used_bytes: used,
+        heap_limit_bytes: limit,
+        heap_used_ratio: Math.round(ratio * 1000) / 1000,
+        rss_bytes: process.memoryUsage().rss,
+      },
+    };
+  }
+}
+
+/**
+ * Down when the runtime lacks IANA timezone data, e.g. a Node.js build with
+ * small ICU, so times would silently be computed in UTC
+ */
+export class TimezoneDataIndicator implements HealthIndicator {
+  readonly name = 'timezone_data';
+
+  check(): HealthIndicatorResult {
+    const timezoneService =
+      ServiceRegistry.getInstance().getOrCreateService<TimezoneService>(
+        TimezoneService,
+      );
+    // London is an hour apart between winter and summer when the rules are known
+    const winter = timezoneService.getUtcOffset(
+      'Europe/London',
+      new Date('2024-01-15T12:00:00Z'),
+    );
+    const summer = timezoneService.getUtcOffset(
+      'Europe/London',
+      new Date('2024-07-15T12:00:00Z'),
+    );
+    const loaded =
+      timezoneService.isValidTimezone('Asia/Kolkata') && summer - winter === 60;
+
+    return {
+      status: loaded ? 'up' : 'down',
+      details: {
+        icu: process.versions.icu,
+        tz: process.versions.tz,
+      },
+    };
+  }
+}
+
+/**
+ * Down when the settings cannot be loaded, reporting every invalid value
+ */
+export class ConfigIndicator implements HealthIndicator {
+  readonly name = 'config';
+
+  check(): HealthIndicatorResult {
+    // Throws InvalidConfigException, reported as down with its message
+    const config =
+      ServiceRegistry.getInstance().getOrCreateService<ConfigService>(
+        ConfigService,
+      );
+
+    return { status: 'up', details: { env: config.get('env') } };
+  }
+}
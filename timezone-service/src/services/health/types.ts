@@ -0,0 +1,25 @@
+export type HealthStatus = 'up' | 'down';
+
+// Liveness fails when the process should be restarted, readiness when it should get no traffic
+export type HealthCheckKind = 'liveness' | 'readiness';
+
+export interface HealthIndicatorResult {
+  status: HealthStatus;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * One aspect of the service health, registered with HealthService.addIndicator
+ * `check` may throw or reject, which reports the indicator as down
+ */
+export interface HealthIndicator {
+  readonly name: string; // key of the indicator in the health report
+  check(): HealthIndicatorResult | Promise<HealthIndicatorResult>;
+}
+
+// Body of /health/live and /health/ready
+export interface HealthReport {
+  status: HealthStatus; // up when every indicator is up
+  checks: Record<string, HealthIndicatorResult>;
+  timestamp: string;
+}
@@ -1,2 +1,20 @@
 // Export timezone module (includes service and types)
 export * from './timezone';
+
+// Export scheduler module (shared tick timer for live updates)
+export * from './scheduler';
+
+// Export auth module (API keys and signed tokens)
+export * from './auth';
+
+// Export rate limit module (token buckets for routes and WebSocket handlers)
+export * from './ratelimit';
+
+// Export config module (settings from defaults, files, env and flags)
+export * from './config';
+
+// Export metrics module (counters, gauges and histograms for GET /metrics)
+export * from './metrics';
+
+// Export health module (liveness and readiness indicators)
+export * from './health';
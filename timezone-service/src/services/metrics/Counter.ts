@@ -0,0 +1,30 @@
+import { Metric } from './Metric';
+import type { LabelValues, MetricSample } from './types';
+
+// Value that only goes up, e.g. handled requests; rate() turns it into a rate per second
+export class Counter extends Metric<number> {
+  readonly type = 'counter';
+
+  /**
+   * @throws Error for negative increments
+   */
+  inc(labels: LabelValues = {}, value: number = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot decrease`);
+    }
+
+    this.get(labels).value += value;
+  }
+
+  samples(): MetricSample[] {
+    return this.entries().map(({ labels, value }) => ({
+      name: this.name,
+      labels,
+      value,
+    }));
+  }
+
+  protected initial(): number {
+    return 0;
+  }
+}
@@ -0,0 +1,31 @@
+import { Metric } from './Metric';
+import type { LabelValues, MetricSample } from './types';
+
+// Value that goes up and down, e.g. open connections
+export class Gauge extends Metric<number> {
+  readonly type = 'gauge';
+
+  set(labels: LabelValues, value: number): void {
+    this.get(labels).value = value;
+  }
+
+  inc(labels: LabelValues = {}, value: number = 1): void {
+    this.get(labels).value += value;
+  }
+
+  dec(labels: LabelValues = {}, value: number = 1): void {
+    this.get(labels).value -= value;
+  }
+
+  samples(): MetricSample[] {
+    return this.entries().map(({ labels, value }) => ({
+      name: this.name,
+      labels,
+      value,
+    }));
+  }
+
+  protected initial(): number {
+    return 0;
+  }
+}
@@ -0,0 +1,66 @@
+import { Metric } from './Metric';
+import {
+  DEFAULT_BUCKETS,
+  HistogramOptions,
+  LabelValues,
+  MetricSample,
+} from './types';
+
+interface HistogramValue {
+  counts: number[]; // observations per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+// Distribution of observed values, e.g. latencies, in cumulative buckets
+export class Histogram extends Metric<HistogramValue> {
+  readonly type = 'histogram';
+  readonly buckets: readonly number[];
+
+  constructor(name: string, help: string, options: HistogramOptions = {}) {
+    super(name, help, options);
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort(
+      (a, b) => a - b,
+    );
+  }
+
+  observe(labels: LabelValues, value: number): void {
+    const series = this.get(labels).value;
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+
+    if (bucket !== -1) {
+      series.counts[bucket]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  samples(): MetricSample[] {
+    return this.entries().flatMap(({ labels, value }) => {
+      let cumulative = 0;
+      const buckets = this.buckets.map((bound, index) => {
+        cumulative += value.counts[index];
+        return {
+          name: `${this.name}_bucket`,
+          labels: { ...labels, le: bound },
+          value: cumulative,
+        };
+      });
+
+      return [
+        ...buckets,
+        {
+          name: `${this.name}_bucket`,
+          labels: { ...labels, le: '+Inf' },
+          value: value.count,
+        },
+        { name: `${this.name}_sum`, labels, value: value.sum },
+        { name: `${this.name}_count`, labels, value: value.count },
+      ];
+    });
+  }
+
+  protected initial(): HistogramValue {
+    return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+}
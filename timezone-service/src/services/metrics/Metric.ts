@@ -0,0 +1,64 @@
+import type {
+  LabelValues,
+  MetricOptions,
+  MetricSample,
+  MetricType,
+} from './types';
+
+/**
+ * Series of one metric, one per combination of label values
+ */
+export abstract class Metric<T> {
+  abstract readonly type: MetricType;
+  readonly labelNames: readonly string[];
+  private series: Map<string, { labels: LabelValues; value: T }> = new Map();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    options: MetricOptions = {},
+  ) {
+    this.labelNames = options.labelNames ?? [];
+  }
+
+  // Samples of every series, in the order they were first observed
+  abstract samples(): MetricSample[];
+
+  // Forget every series, e.g. before a collector sets the current ones
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected abstract initial(): T;
+
+  /**
+   * Value of the series with the given labels, created on first use
+   * @throws Error when the labels differ from the label names of the metric
+   */
+  protected get(labels: LabelValues): { labels: LabelValues; value: T } {
+    const names = Object.keys(labels);
+
+    if (
+      names.length !== this.labelNames.length ||
+      !names.every((name) => this.labelNames.includes(name))
+    ) {
+      throw new Error(
+        `Metric ${this.name} expects the labels [${this.labelNames.join(', ')}], got [${names.join(', ')}]`,
+      );
+    }
+
+    const key = JSON.stringify(this.labelNames.map((name) => labels[name]));
+    let entry = this.series.get(key);
+
+    if (!entry) {
+      entry = { labels, value: this.initial() };
+      this.series.set(key, entry);
+    }
+
+    return entry;
+  }
+
+  protected entries(): { labels: LabelValues; value: T }[] {
+    return [...this.series.values()];
+  }
+}
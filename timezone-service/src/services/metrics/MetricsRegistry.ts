@@ -0,0 +1,161 @@
+import { Logger, ServiceRegistry } from '@shared';
+
+import { Counter } from './Counter';
+import { Gauge } from './Gauge';
+import { Histogram } from './Histogram';
+import { Metric } from './Metric';
+import { registerProcessMetrics } from './processMetrics';
+import type {
+  HistogramOptions,
+  LabelValues,
+  MetricOptions,
+  MetricSample,
+  MetricsCollector,
+} from './types';
+
+export interface MetricsRegistryOptions {
+  processMetrics?: boolean; // CPU, memory and heap of the process, on by default
+}
+
+// Content-Type of the Prometheus text exposition format
+export const PROMETHEUS_CONTENT_TYPE =
+  'text/plain; version=0.0.4; charset=utf-8';
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+
+type MetricClass<T> = new (
+  name: string,
+  help: string,
+  options: HistogramOptions,
+) => T;
+
+/**
+ * Counters, gauges and histograms exposed by GET /metrics
+ * Asking for a metric that is already registered returns the existing one, so
+ * every Router or transport instance records into the same series
+ * @example
+ * registry.counter('jobs_total', 'Finished jobs', { labelNames: ['status'] }).inc({ status: 'ok' })
+ */
+export class MetricsRegistry {
+  private metrics: Map<string, Metric<unknown>> = new Map();
+  private collectors: Set<MetricsCollector> = new Set();
+  private logger =
+    ServiceRegistry.getInstance().getOrCreateService<Logger>(Logger);
+
+  constructor(options: MetricsRegistryOptions = {}) {
+    if (options.processMetrics ?? true) {
+      registerProcessMetrics(this);
+    }
+  }
+
+  counter(name: string, help: string, options: MetricOptions = {}): Counter {
+    return this.getOrCreate(Counter, name, help, options);
+  }
+
+  gauge(name: string, help: string, options: MetricOptions = {}): Gauge {
+    return this.getOrCreate(Gauge, name, help, options);
+  }
+
+  histogram(
+    name: string,
+    help: string,
+    options: HistogramOptions = {},
+  ): Histogram {
+    return this.getOrCreate(Histogram, name, help, options);
+  }
+
+  /**
+   * Register a function run before each scrape
+   * @returns Function removing the collector again
+   */
+  addCollector(collector: MetricsCollector): () => void {
+    this.collectors.add(collector);
+    return () => this.collectors.delete(collector);
+  }
+
+  getMetric(name: string): Metric<unknown> | undefined {
+    return this.metrics.get(name);
+  }
+
+  /**
+   * Every metric in the Prometheus text format
+   * A failing collector is logged and leaves its metrics at their last values
+   */
+  render(): string {
+    for (const collector of this.collectors) {
+      try {
+        collector();
+      } catch (error) {
+        this.logger.error('Metrics collector error', { error });
+      }
+    }
+
+    const lines: string[] = [];
+
+    for (const metric of this.metrics.values()) {
+      lines.push(
+        `# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+        `# TYPE ${metric.name} ${metric.type}`,
+        ...metric.samples().map(formatSample),
+      );
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * @throws Error for invalid names, or a name registered with another metric type
+   */
+  private getOrCreate<T extends Metric<unknown>>(
+    type: MetricClass<T>,
+    name: string,
+    help: string,
+    options: HistogramOptions,
+  ): T {
+    const existing = this.metrics.get(name);
+
+    if (existing) {
+      if (!(existing instanceof type)) {
+        throw new Error(
+          `Metric ${name} is already registered as a ${existing.type}`,
+        );
+      }
+      return existing;
+    }
+
+    if (!METRIC_NAME.test(name)) {
+      throw new Error(`Invalid metric name '${name}'`);
+    }
+
+    const metric = new type(name, help, options);
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+// `name{label="value"} 1`
+function formatSample({ name, labels, value }: MetricSample): string {
+  const pairs = Object.entries(labels).map(
+    ([label, labelValue]) => `${label}="${escapeLabel(labelValue)}"`,
+  );
+
+  return `${name}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${formatValue(value)}`;
+}
+
+function escapeLabel(value: LabelValues[string]): string {
+  return String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+
+  return String(value);
+}
@@ -0,0 +1,12 @@
+// Export metrics types
+export * from './types';
+
+// Export metric kinds
+export * from './Metric';
+export * from './Counter';
+export * from './Gauge';
+export * from './Histogram';
+
+// Export metrics registry and the process metrics it registers
+export * from './MetricsRegistry';
+export * from './processMetrics';
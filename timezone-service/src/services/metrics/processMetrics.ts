@@ -0,0 +1,60 @@
+import type { MetricsRegistry } from './MetricsRegistry';
+
+/**
+ * CPU time, memory and heap of the Node.js process, named like the default
+ * metrics of the official Prometheus client libraries
+ */
+export function registerProcessMetrics(registry: MetricsRegistry): void {
+  const cpuUser = registry.counter(
+    'process_cpu_user_seconds_total',
+    'User CPU time spent in seconds',
+  );
+  const cpuSystem = registry.counter(
+    'process_cpu_system_seconds_total',
+    'System CPU time spent in seconds',
+  );
+  const startTime = registry.gauge(
+    'process_start_time_seconds',
+    'Start time of the process since unix epoch in seconds',
+  );
+  const residentMemory = registry.gauge(
+    'process_resident_memory_bytes',
+    'Resident memory size in bytes',
+  );
+  const heapTotal = registry.gauge(
+    'nodejs_heap_size_total_bytes',
+    'Process heap size from Node.js in bytes',
+  );
+  const heapUsed = registry.gauge(
+    'nodejs_heap_size_used_bytes',
+    'Process heap size used from Node.js in bytes',
+  );
+  const external = registry.gauge(
+    'nodejs_external_memory_bytes',
+    'Node.js external memory size in bytes',
+  );
+  const version = registry.gauge(
+    'nodejs_version_info',
+    'Node.js version info',
+    { labelNames: ['version'] },
+  );
+
+  startTime.set({}, Math.round((Date.now() - process.uptime() * 1000) / 1000));
+  version.set({ version: process.version }, 1);
+
+  // Counters only take increments, the CPU time since the previous scrape
+  let lastCpu = { user: 0, system: 0 };
+
+  registry.addCollector(() => {
+    const cpu = process.cpuUsage();
+    cpuUser.inc({}, (cpu.user - lastCpu.user) / 1e6);
+    cpuSystem.inc({}, (cpu.system - lastCpu.system) / 1e6);
+    lastCpu = cpu;
+
+    const memory = process.memoryUsage();
+    residentMemory.set({}, memory.rss);
+    heapTotal.set({}, memory.heapTotal);
+    heapUsed.set({}, memory.heapUsed);
+    external.set({}, memory.external);
+  });
+}
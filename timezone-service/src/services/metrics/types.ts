@@ -0,0 +1,27 @@
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+// Label values of one series, keyed by label name
+export type LabelValues = Record<string, string | number>;
+
+export interface MetricOptions {
+  labelNames?: readonly string[]; // every observation sets exactly these labels
+}
+
+export interface HistogramOptions extends MetricOptions {
+  buckets?: readonly number[]; // upper bounds, defaults to DEFAULT_BUCKETS
+}
+
+// One line of the Prometheus text format
+export interface MetricSample {
+  name: string;
+  labels: LabelValues;
+  value: number;
+}
+
+// Runs before each scrape, e.g. to set gauges from the current state
+export type MetricsCollector = () => void;
+
+// Latency buckets in seconds, from 5 ms to 10 s
+export const DEFAULT_BUCKETS: readonly number[] = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
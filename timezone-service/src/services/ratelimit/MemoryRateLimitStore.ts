@@ -0,0 +1,47 @@
+import type { RateLimitPolicy } from '@shared';
+
+import { takeToken } from './tokenBucket';
+import type { RateLimitResult, RateLimitStore, TokenBucket } from './types';
+
+// How often buckets that refilled completely are dropped
+const SWEEP_MS = 60 * 1000;
+
+interface StoredBucket extends TokenBucket {
+  fullAt: number; // a full bucket is the same as no bucket
+}
+
+/**
+ * Keeps token buckets in process memory, for a single server instance
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets: Map<string, StoredBucket> = new Map();
+  private lastSweep = Date.now();
+
+  take(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const { bucket, result } = takeToken(this.buckets.get(key), policy, now);
+    this.buckets.set(key, { ...bucket, fullAt: now + result.resetMs });
+
+    return Promise.resolve(result);
+  }
+
+  // Number of buckets kept, for testing purposes
+  getSize(): number {
+    return this.buckets.size;
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < SWEEP_MS) {
+      return;
+    }
+
+    this.lastSweep = now;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.fullAt <= now) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
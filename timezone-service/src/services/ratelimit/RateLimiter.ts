@@ -0,0 +1,80 @@
+import { Logger, Principal, RateLimitPolicy, ServiceRegistry } from '@shared';
+import * as http from 'http';
+
+import { MemoryRateLimitStore } from './MemoryRateLimitStore';
+import { RateLimitResult, RateLimitStore } from './types';
+
+export interface RateLimiterOptions {
+  store?: RateLimitStore; // defaults to a MemoryRateLimitStore
+  trustProxy?: boolean; // take the client IP address from X-Forwarded-For
+}
+
+/**
+ * Token bucket rate limiting, used by the rateLimit() middleware and @RateLimit
+ * Register an instance with another store in ServiceRegistry to share buckets
+ * between server instances
+ */
+export class RateLimiter {
+  private store: RateLimitStore;
+  private trustProxy: boolean;
+  private logger =
+    ServiceRegistry.getInstance().getOrCreateService<Logger>(Logger);
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.store = options.store ?? new MemoryRateLimitStore();
+    this.trustProxy = options.trustProxy ?? false;
+  }
+
+  /**
+   * Take a token from the bucket of a client
+   * The call is allowed when the store fails, so an unavailable backend does not take the API down
+   */
+  async consume(
+    key: string,
+    policy: RateLimitPolicy,
+  ): Promise<RateLimitResult> {
+    try {
+      return await this.store.take(key, policy);
+    } catch (error) {
+      this.logger.error('Rate limit store error', { key, error });
+      return {
+        allowed: true,
+        limit: policy.limit,
+        remaining: policy.limit,
+        resetMs: 0,
+        retryAfterMs: 0,
+      };
+    }
+  }
+
+  /**
+   * Identify the client a bucket belongs to
+   * Authenticated clients share one bucket per principal whatever their address
+   */
+  clientKey(
+    principal: Principal | undefined,
+    address: string | undefined,
+  ): string {
+    return principal
+      ? `principal:${principal.id}`
+      : `ip:${address ?? 'unknown'}`;
+  }
+
+  /**
+   * IP address of a client, the first X-Forwarded-For entry when behind a trusted proxy
+   * @param headers - Request headers
+   * @param remoteAddress - Address of the socket the request came from
+   */
+  clientAddress(
+    headers: http.IncomingHttpHeaders,
+    remoteAddress: string | undefined,
+  ): string | undefined {
+    const forwarded = headers['x-forwarded-for'];
+
+    if (this.trustProxy && typeof forwarded === 'string') {
+      return forwarded.split(',')[0].trim();
+    }
+
+    return remoteAddress;
+  }
+}
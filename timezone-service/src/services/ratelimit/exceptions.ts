@@ -0,0 +1,18 @@
+import { TooManyRequestsException } from '@shared';
+
+import type { RateLimitResult } from './types';
+
+/**
+ * Raised when a client has no tokens left in its rate limit bucket
+ */
+export class RateLimitExceededException extends TooManyRequestsException {
+  constructor(result: RateLimitResult) {
+    const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+
+    super(`Rate limit exceeded, retry in ${retryAfter}s`, {
+      error: 'Rate limit exceeded',
+      code: 'RATE_LIMITED',
+      details: { limit: result.limit, retry_after: retryAfter },
+    });
+  }
+}
@@ -0,0 +1,12 @@
+// Export rate limit types
+export * from './types';
+
+// Export rate limit exceptions
+export * from './exceptions';
+
+// Export token bucket algorithm and the in-memory store
+export * from './tokenBucket';
+export * from './MemoryRateLimitStore';
+
+// Export rate limiter service
+export * from './RateLimiter';
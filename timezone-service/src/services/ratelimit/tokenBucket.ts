@@ -0,0 +1,39 @@
+import type { RateLimitPolicy } from '@shared';
+
+import type { RateLimitResult, TokenBucket } from './types';
+
+/**
+ * Refills a bucket for the time passed and takes one token when available
+ * Buckets refill continuously at `limit / windowMs` tokens per millisecond and
+ * start full; a missing bucket is a full one
+ * @returns The new bucket state and the outcome of the call
+ */
+export function takeToken(
+  bucket: TokenBucket | undefined,
+  { limit, windowMs }: RateLimitPolicy,
+  now: number,
+): { bucket: TokenBucket; result: RateLimitResult } {
+  const rate = limit / windowMs;
+  let tokens = bucket
+    ? Math.min(
+        limit,
+        bucket.tokens + Math.max(0, now - bucket.updatedAt) * rate,
+      )
+    : limit;
+
+  const allowed = tokens >= 1;
+  if (allowed) {
+    tokens -= 1;
+  }
+
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((limit - tokens) / rate),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / rate),
+    },
+  };
+}
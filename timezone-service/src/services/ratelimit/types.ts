@@ -0,0 +1,25 @@
+import type { RateLimitPolicy } from '@shared';
+
+// Outcome of taking a token from a bucket
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number; // whole tokens left after this call
+  resetMs: number; // until the bucket is full again
+  retryAfterMs: number; // until the next token, 0 when allowed
+}
+
+/**
+ * Keeps the token buckets
+ * `take` must refill and take atomically, e.g. a Lua script on a Redis-compatible
+ * backend shared by several server instances
+ */
+export interface RateLimitStore {
+  take(key: string, policy: RateLimitPolicy): Promise<RateLimitResult>;
+}
+
+// Bucket state as stored between calls
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number; // epoch milliseconds of the last refill
+}
@@ -0,0 +1,99 @@
+import { Logger, OnModuleDestroy, ServiceRegistry } from '@shared';
+
+export type TickListener = (tick: Date) => void;
+
+/**
+ * Single timer shared by every live time broadcast. Ticks are aligned to
+ * wall-clock interval boundaries (the start of each second by default) and
+ * the timer only runs while someone listens
+ */
+export class TickScheduler implements OnModuleDestroy {
+  private listeners: Set<TickListener> = new Set();
+  private timer: NodeJS.Timeout | undefined;
+  private nextTick = 0;
+  private logger =
+    ServiceRegistry.getInstance().getOrCreateService<Logger>(Logger);
+
+  constructor(private intervalMs: number = 1000) {}
+
+  /**
+   * Register a listener called on every tick with the boundary time
+   * @param listener - Callback receiving the tick time
+   * @returns Function removing the listener again
+   */
+  subscribe(listener: TickListener): () => void {
+    this.listeners.add(listener);
+
+    if (!this.timer) {
+      this.scheduleNext(this.nextBoundary(Date.now()));
+    }
+
+    return () => this.unsubscribe(listener);
+  }
+
+  unsubscribe(listener: TickListener): void {
+    this.listeners.delete(listener);
+
+    if (this.listeners.size === 0) {
+      this.stop();
+    }
+  }
+
+  // Stop the timer, listeners are kept for a later subscribe
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  onModuleDestroy(): void {
+    this.stop();
+    this.listeners.clear();
+  }
+
+  isRunning(): boolean {
+    return this.timer !== undefined;
+  }
+
+  getListenerCount(): number {
+    return this.listeners.size;
+  }
+
+  private tick(): void {
+    // Fired more than an interval late (blocked event loop, clock change)
+    const latestBoundary = this.nextBoundary(Date.now()) - this.intervalMs;
+    const tick = new Date(Math.max(this.nextTick, latestBoundary));
+    this.nextTick = tick.getTime();
+
+    for (const listener of this.listeners) {
+      try {
+        listener(tick);
+      } catch (error) {
+        this.logger.error('Error in tick listener', { error });
+      }
+    }
+
+    // Stopped during this tick, e.g. the last listener left
+    if (!this.timer) {
+      return;
+    }
+
+    // Skip the boundaries missed while the event loop was blocked
+    const now = Date.now();
+    const next = this.nextTick + this.intervalMs;
+    this.scheduleNext(next > now ? next : this.nextBoundary(now));
+  }
+
+  private scheduleNext(boundary: number): void {
+    this.nextTick = boundary;
+    this.timer = setTimeout(
+      () => this.tick(),
+      Math.max(0, boundary - Date.now()),
+    );
+  }
+
+  private nextBoundary(now: number): number {
+    return now - (now % this.intervalMs) + this.intervalMs;
+  }
+}
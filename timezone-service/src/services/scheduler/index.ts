@@ -0,0 +1,2 @@
+// Export tick scheduler
+export * from './TickScheduler';
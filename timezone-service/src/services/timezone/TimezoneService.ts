@@ -1,8 +1,16 @@
+import { ServiceRegistry, TimezoneSchema } from '@shared';
 import { format, utcToZonedTime } from 'date-fns-tz';
 
-import type { TimezoneValidationResult } from './types';
+import type { OffsetTransition, TimezoneValidationResult } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Offsets change at most a few times a year, look one year ahead
+const TRANSITION_SEARCH_DAYS = 366;
 
 export class TimezoneService {
+  private offsetFormatters: Map<string, Intl.DateTimeFormat> = new Map();
+
   /**
    * Validates if a timezone identifier is valid
    * @param timezone - Timezone identifier to validate
@@ -22,15 +30,14 @@ export class TimezoneService {
   /**
    * Gets current time in specified timezone as ISO string
    * @param timezone - Valid timezone identifier
+   * @param at - Instant to convert, defaults to now
    * @returns ISO string with timezone offset
    * @throws Error if timezone processing fails
    */
-  getTimeInTimezone(timezone: string): string {
+  getTimeInTimezone(timezone: string, at: Date = new Date()): string {
     try {
-      const now = new Date();
-
-      // Convert current UTC time to the specified timezone
-      const zonedTime = utcToZonedTime(now, timezone);
+      // Convert the UTC instant to the specified timezone
+      const zonedTime = utcToZonedTime(at, timezone);
 
       // Format the time as ISO string with timezone offset
       return format(zonedTime, "yyyy-MM-dd'T'HH:mm:ssXXX", {
@@ -41,21 +48,94 @@ export class TimezoneService {
     }
   }
 
+  /**
+   * Gets the UTC offset of a timezone at an instant
+   * @param timezone - Valid timezone identifier
+   * @param at - Instant to look up, defaults to now
+   * @returns Offset in minutes, positive east of UTC
+   */
+  getUtcOffset(timezone: string, at: Date = new Date()): number {
+    // date-fns-tz getTimezoneOffset reads the date as wall-clock time, compare Intl's wall clock with UTC instead
+    const parts = this.getOffsetFormatter(timezone).formatToParts(at);
+    const part = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find((candidate) => candidate.type === type)?.value);
+    const wallClock = Date.UTC(
+      part('year'),
+      part('month') - 1,
+      part('day'),
+      part('hour'),
+      part('minute'),
+      part('second'),
+    );
+
+    return Math.round(
+      (wallClock - Math.floor(at.getTime() / 1000) * 1000) / 60000,
+    );
+  }
+
+  /**
+   * Finds the next change of UTC offset of a timezone, e.g. a DST transition
+   * @param timezone - Valid timezone identifier
+   * @param from - Instant to search from, defaults to now
+   * @returns The transition, or undefined when the offset stays the same for a year
+   */
+  getNextOffsetTransition(
+    timezone: string,
+    from: Date = new Date(),
+  ): OffsetTransition | undefined {
+    const offsetBefore = this.getUtcOffset(timezone, from);
+    const offsetAt = (time: number) =>
+      this.getUtcOffset(timezone, new Date(time));
+
+    // Scan a day at a time, two transitions within one day are not detected
+    let low = from.getTime();
+    for (let day = 1; day <= TRANSITION_SEARCH_DAYS; day++) {
+      let high = from.getTime() + day * DAY_MS;
+
+      if (offsetAt(high) !== offsetBefore) {
+        // Narrow down to the first millisecond with the new offset
+        while (high - low > 1) {
+          const middle = Math.floor((low + high) / 2);
+          if (offsetAt(middle) === offsetBefore) {
+            low = middle;
+          } else {
+            high = middle;
+          }
+        }
+
+        return {
+          at: new Date(high),
+          offsetBefore,
+          offsetAfter: offsetAt(high),
+        };
+      }
+
+      low = high;
+    }
+
+    return undefined;
+  }
+
   /**
    * Gets current time in specified timezone with validation
    * @param timezone - Timezone identifier to validate and use
+   * @param at - Instant to convert, defaults to now
    * @returns Object with success status and either time or error message
    */
-  getValidatedTimeInTimezone(timezone: string): TimezoneValidationResult {
+  getValidatedTimeInTimezone(
+    timezone: string,
+    at: Date = new Date(),
+  ): TimezoneValidationResult {
     if (!this.isValidTimezone(timezone)) {
       return {
         success: false,
+        code: 'INVALID_TIMEZONE',
         error: `The timezone identifier '${timezone}' is not valid`,
       };
     }
 
     try {
-      const time = this.getTimeInTimezone(timezone);
+      const time = this.getTimeInTimezone(timezone, at);
       return {
         success: true,
         time,
@@ -63,8 +143,38 @@ export class TimezoneService {
     } catch {
       return {
         success: false,
+        code: 'TIMEZONE_CONVERSION_FAILED',
         error: 'Failed to get time in timezone',
       };
     }
   }
+
+  // Formatters are expensive to create and offset lookups come in bursts
+  private getOffsetFormatter(timezone: string): Intl.DateTimeFormat {
+    let formatter = this.offsetFormatters.get(timezone);
+
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+      this.offsetFormatters.set(timezone, formatter);
+    }
+
+    return formatter;
+  }
 }
+
+// s.timezone() checks identifiers with the TimezoneService of ServiceRegistry,
+// so a provider replacing it applies to validation too
+TimezoneSchema.useValidator((timezone) =>
+  ServiceRegistry.getInstance()
+    .getOrCreateService<TimezoneService>(TimezoneService)
+    .isValidTimezone(timezone),
+);
@@ -0,0 +1,14 @@
+import { BadRequestException } from '@shared';
+
+/**
+ * Raised when a timezone identifier is not a valid IANA zone
+ */
+export class InvalidTimezoneException extends BadRequestException {
+  constructor(timezone: string) {
+    super(`The timezone identifier '${timezone}' is not valid`, {
+      error: 'Invalid timezone',
+      code: 'INVALID_TIMEZONE',
+      details: { requested_timezone: timezone },
+    });
+  }
+}
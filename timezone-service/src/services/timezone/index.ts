@@ -1,5 +1,11 @@
 // Export all timezone types
 export * from './types';
 
+// Export timezone exceptions
+export * from './exceptions';
+
 // Export timezone service
 export * from './TimezoneService';
+
+// Export offset helpers
+export * from './offsets';
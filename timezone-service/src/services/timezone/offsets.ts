@@ -0,0 +1,12 @@
+/**
+ * Formats a UTC offset for display
+ * @param minutes - Offset in minutes east of UTC
+ * @returns Offset as ±HH:MM, e.g. 330 → "+05:30", -300 → "-05:00"
+ */
+export function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  const hours = String(Math.floor(absolute / 60)).padStart(2, '0');
+
+  return `${sign}${hours}:${String(absolute % 60).padStart(2, '0')}`;
+}
@@ -3,9 +3,21 @@ export interface TimezoneResult {
   time: string;
 }
 
+export type TimezoneErrorCode =
+  | 'INVALID_TIMEZONE'
+  | 'TIMEZONE_CONVERSION_FAILED';
+
 export interface TimezoneError {
   success: false;
+  code: TimezoneErrorCode;
   error: string;
 }
 
 export type TimezoneValidationResult = TimezoneResult | TimezoneError;
+
+// A change of UTC offset, offsets in minutes east of UTC
+export interface OffsetTransition {
+  at: Date;
+  offsetBefore: number;
+  offsetAfter: number;
+}
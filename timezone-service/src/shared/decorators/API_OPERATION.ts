@@ -0,0 +1,19 @@
+import { ApiOperationOptions, RoutingRegistry } from '@/shared';
+
+/**
+ * ApiOperation decorator for documenting a route in the generated OpenAPI document
+ * @param operation - Summary, description, tags and deprecation flag
+ * @example
+ * @ApiOperation({ summary: 'Get current time in specified timezone' })
+ */
+export function ApiOperation(operation: ApiOperationOptions) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor,
+  ) {
+    const registry = RoutingRegistry.getInstance();
+    registry.registerApiOperation(target.constructor, propertyKey, operation);
+    return descriptor;
+  };
+}
@@ -0,0 +1,23 @@
+import { ApiResponseOptions, RoutingRegistry } from '@/shared';
+
+/**
+ * ApiResponse decorator for documenting a response of a route
+ * @param status - HTTP status code of the response
+ * @param options - Description and optional body schema
+ * @example
+ * @ApiResponse(200, { description: 'Current time', schema: s.object({ timezone: s.string() }) })
+ */
+export function ApiResponse(status: number, options: ApiResponseOptions) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor,
+  ) {
+    const registry = RoutingRegistry.getInstance();
+    registry.registerApiResponse(target.constructor, propertyKey, {
+      status,
+      ...options,
+    });
+    return descriptor;
+  };
+}
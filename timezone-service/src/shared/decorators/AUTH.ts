@@ -0,0 +1,21 @@
+import { RoutingRegistry } from '@/shared';
+
+/**
+ * Auth decorator for protecting a controller or a route with API keys
+ * Clients send their key as `X-API-Key` or `Authorization: Bearer`. A missing
+ * or unknown key responds with 401, a key lacking a scope with 403; scopes the
+ * Router grants to anonymous clients need no key
+ * @param scopes - Scopes the key needs, none only requires a valid key
+ */
+export function Auth(...scopes: string[]) {
+  return function (target: any, propertyKey?: string) {
+    const registry = RoutingRegistry.getInstance();
+
+    if (propertyKey === undefined) {
+      // Class decorator: applies to every route of the controller
+      registry.registerAuth(target, undefined, scopes);
+    } else {
+      registry.registerAuth(target.constructor, propertyKey, scopes);
+    }
+  };
+}
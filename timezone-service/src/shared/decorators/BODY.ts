@@ -0,0 +1,18 @@
+import { ParameterOptions, RoutingRegistry } from '@/shared';
+
+/**
+ * BODY decorator for injecting the parsed JSON request body
+ * @param name - Optional property to pick from the body instead of the whole payload
+ * @param options - Set `required` to respond with 400 when the body (or property) is missing
+ */
+export function BODY(name?: string, options: ParameterOptions = {}) {
+  return function (target: any, propertyKey: string, parameterIndex: number) {
+    const registry = RoutingRegistry.getInstance();
+    registry.registerParameter(target.constructor, propertyKey, {
+      index: parameterIndex,
+      type: 'body',
+      ...(name !== undefined ? { name } : {}),
+      required: options.required ?? false,
+    });
+  };
+}
@@ -0,0 +1,16 @@
+import { RoutingRegistry } from '@/shared';
+
+/**
+ * Catch decorator for exception filter classes
+ * @param exceptionTypes - Exception classes handled by the filter; none means every exception
+ * @example
+ * @Catch(InvalidTimezoneException)
+ * class InvalidTimezoneFilter implements ExceptionFilter<InvalidTimezoneException> {}
+ */
+export function Catch(...exceptionTypes: Function[]) {
+  return function <T extends Function>(constructor: T): T {
+    const registry = RoutingRegistry.getInstance();
+    registry.registerCatch(constructor, exceptionTypes);
+    return constructor;
+  };
+}
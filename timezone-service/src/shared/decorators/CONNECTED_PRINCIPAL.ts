@@ -0,0 +1,19 @@
+import { RoutingRegistry } from '@/shared';
+
+/**
+ * ConnectedPrincipal decorator for injecting the Principal the connection authenticated as
+ * Undefined for anonymous clients, when RealtimeGateway authentication is optional or disabled
+ */
+export function ConnectedPrincipal() {
+  return function (target: any, propertyKey: string, parameterIndex: number) {
+    const registry = RoutingRegistry.getInstance();
+    registry.registerWebSocketHandlerParameter(
+      target.constructor,
+      propertyKey,
+      {
+        index: parameterIndex,
+        type: 'principal',
+      },
+    );
+  };
+}
@@ -0,0 +1,19 @@
+import { RoutingRegistry } from '@/shared';
+
+/**
+ * ConnectedSocket decorator for injecting the RealtimeConnection that sent the event
+ * The raw Socket.io socket is available as `socket` on Socket.io connections
+ */
+export function ConnectedSocket() {
+  return function (target: any, propertyKey: string, parameterIndex: number) {
+    const registry = RoutingRegistry.getInstance();
+    registry.registerWebSocketHandlerParameter(
+      target.constructor,
+      propertyKey,
+      {
+        index: parameterIndex,
+        type: 'socket',
+      },
+    );
+  };
+}
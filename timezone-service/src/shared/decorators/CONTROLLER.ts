@@ -0,0 +1,18 @@
+import 'reflect-metadata';
+
+import { RoutingRegistry } from '../types/routing';
+
+/**
+ * Controller decorator for HTTP controller classes
+ * Prefixes the paths of every route of the class and lets createApp discover
+ * the class when no controllers are listed. Constructor parameters are
+ * injected from ServiceRegistry
+ * @param prefix - Path the routes are mounted under (e.g., "/admin/api-keys")
+ */
+export function Controller(prefix = '') {
+  return function <T extends { new (...args: any[]): any }>(constructor: T): T {
+    const registry = RoutingRegistry.getInstance();
+    registry.registerController(constructor, prefix);
+    return constructor;
+  };
+}
@@ -0,0 +1,9 @@
+import { Route } from './ROUTE';
+
+/**
+ * DELETE decorator for marking methods as DELETE route handlers
+ * @param path - The URL path pattern (e.g., "/time/:timezone")
+ */
+export function DELETE(path: string) {
+  return Route('DELETE', path);
+}
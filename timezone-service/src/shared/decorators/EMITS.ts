@@ -0,0 +1,41 @@
+import {
+  RoutingRegistry,
+  Schema,
+  WebSocketEventMetadata,
+  WebSocketEventOptions,
+} from '@/shared';
+
+/**
+ * Emits decorator for documenting a Socket.io event sent to clients
+ * Applies to a WebSocket controller class or the handler that emits the event
+ * Declaring the same event more than once documents alternative payloads
+ * @param event - Socket.io event name (e.g., "time-update")
+ * @param payload - Schema of the event payload
+ * @param options - Summary and description for the AsyncAPI document
+ * @example
+ * @Emits('time-update', s.object({ timezone: s.timezone(), current_time: s.string() }))
+ */
+export function Emits(
+  event: string,
+  payload?: Schema,
+  options: WebSocketEventOptions = {},
+) {
+  return function (target: any, propertyKey?: string) {
+    const metadata: WebSocketEventMetadata = {
+      event,
+      direction: 'send',
+      ...options,
+    };
+    if (payload) metadata.payload = payload;
+
+    if (propertyKey === undefined) {
+      RoutingRegistry.getInstance().registerWebSocketEvent(target, metadata);
+    } else {
+      metadata.handler = propertyKey;
+      RoutingRegistry.getInstance().registerWebSocketEvent(
+        target.constructor,
+        metadata,
+      );
+    }
+  };
+}
@@ -1,13 +1,10 @@
-import { RoutingRegistry } from '@/shared';
+import { Route } from './ROUTE';
 
 /**
  * GET decorator for marking methods as GET route handlers
+ * GET routes also answer HEAD requests unless a @HEAD handler is declared
  * @param path - The URL path pattern (e.g., "/time/:timezone")
  */
 export function GET(path: string) {
-  return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
-    const registry = RoutingRegistry.getInstance();
-    registry.registerRoute(target.constructor, 'GET', path, propertyKey);
-    return descriptor;
-  };
+  return Route('GET', path);
 }
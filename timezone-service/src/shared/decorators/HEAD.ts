@@ -0,0 +1,9 @@
+import { Route } from './ROUTE';
+
+/**
+ * HEAD decorator for marking methods as HEAD route handlers
+ * @param path - The URL path pattern (e.g., "/time/:timezone")
+ */
+export function HEAD(path: string) {
+  return Route('HEAD', path);
+}
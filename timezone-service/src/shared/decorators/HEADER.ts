@@ -0,0 +1,19 @@
+import { ParameterOptions, RoutingRegistry } from '@/shared';
+
+/**
+ * HEADER decorator for extracting request header values
+ * Values are coerced to the declared parameter type (number, boolean, Date, array)
+ * @param name - The header name, case-insensitive (e.g., "X-Request-Id")
+ * @param options - Set `required` to respond with 400 when the header is missing
+ */
+export function HEADER(name: string, options: ParameterOptions = {}) {
+  return function (target: any, propertyKey: string, parameterIndex: number) {
+    const registry = RoutingRegistry.getInstance();
+    registry.registerParameter(target.constructor, propertyKey, {
+      index: parameterIndex,
+      type: 'header',
+      name: name.toLowerCase(),
+      required: options.required ?? false,
+    });
+  };
+}
@@ -0,0 +1,26 @@
+import { InjectionToken, defineInjectToken } from '../types/injection';
+
+/**
+ * Inject decorator for injecting the service registered under a token
+ * Needed for string and symbol tokens and for interface types, which have no
+ * class to inject by. Works on constructor and handler parameters
+ * @param token - Class, string or symbol the service is registered with
+ */
+export function Inject(token: InjectionToken) {
+  return function (
+    target: any,
+    propertyKey: string | symbol | undefined,
+    parameterIndex: number,
+  ) {
+    if (propertyKey === undefined) {
+      defineInjectToken(target, undefined, parameterIndex, token);
+    } else {
+      defineInjectToken(
+        target.constructor,
+        String(propertyKey),
+        parameterIndex,
+        token,
+      );
+    }
+  };
+}
@@ -0,0 +1,15 @@
+import { InjectableOptions, defineInjectable } from '../types/injection';
+
+/**
+ * Injectable decorator for services created by ServiceRegistry
+ * Constructor parameters are injected by their declared class, or by the
+ * token given with @Inject; parameters of other types are left undefined so
+ * their defaults apply
+ * @param options - Scope of the instances, singleton by default
+ */
+export function Injectable(options: InjectableOptions = {}) {
+  return function <T extends { new (...args: any[]): any }>(constructor: T): T {
+    defineInjectable(constructor, options);
+    return constructor;
+  };
+}
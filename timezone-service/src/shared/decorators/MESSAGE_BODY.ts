@@ -0,0 +1,22 @@
+import { ParameterOptions, RoutingRegistry } from '@/shared';
+
+/**
+ * MessageBody decorator for injecting the payload of a client event
+ * @param name - Optional property to pick from the payload instead of the whole payload
+ * @param options - Set `required` to reject the event when the payload (or property) is missing
+ */
+export function MessageBody(name?: string, options: ParameterOptions = {}) {
+  return function (target: any, propertyKey: string, parameterIndex: number) {
+    const registry = RoutingRegistry.getInstance();
+    registry.registerWebSocketHandlerParameter(
+      target.constructor,
+      propertyKey,
+      {
+        index: parameterIndex,
+        type: 'body',
+        ...(name !== undefined ? { name } : {}),
+        required: options.required ?? false,
+      },
+    );
+  };
+}
@@ -0,0 +1,27 @@
+import { RoutingRegistry, Schema } from '@/shared';
+
+/**
+ * OnConnect decorator for running a handler when a client connects
+ * Use @MessageBody() to receive the path parameters of the @WebSocket route merged
+ * over the query string, e.g. `timezone` for a plain WebSocket or Server-Sent Events
+ * client connected to /time/live/Europe/London
+ * A failing handler rejects the connection
+ * @param payload - Schema the connection parameters must match
+ */
+export function OnConnect(payload?: Schema) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor,
+  ) {
+    const registry = RoutingRegistry.getInstance();
+    registry.registerWebSocketHandler(
+      target.constructor,
+      propertyKey,
+      'connect',
+      'connect',
+      payload,
+    );
+    return descriptor;
+  };
+}
@@ -0,0 +1,22 @@
+import { RoutingRegistry } from '@/shared';
+
+/**
+ * OnDisconnect decorator for running a handler when a client disconnects, whatever its transport
+ * Use @MessageBody() to receive the disconnect reason
+ */
+export function OnDisconnect() {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor,
+  ) {
+    const registry = RoutingRegistry.getInstance();
+    registry.registerWebSocketHandler(
+      target.constructor,
+      propertyKey,
+      'disconnect',
+      'disconnect',
+    );
+    return descriptor;
+  };
+}
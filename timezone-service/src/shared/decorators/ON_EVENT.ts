@@ -0,0 +1,40 @@
+import {
+  RoutingRegistry,
+  Schema,
+  WebSocketEventMetadata,
+  WebSocketEventOptions,
+} from '@/shared';
+
+/**
+ * OnEvent decorator for documenting a Socket.io event sent by clients
+ * Applies to a WebSocket controller class or the handler that listens for the event
+ * @param event - Socket.io event name (e.g., "get-time")
+ * @param payload - Schema of the event payload, omitted for events without data
+ * @param options - Summary and description for the AsyncAPI document
+ * @example
+ * @OnEvent('change-timezone', s.object({ timezone: s.timezone() }))
+ */
+export function OnEvent(
+  event: string,
+  payload?: Schema,
+  options: WebSocketEventOptions = {},
+) {
+  return function (target: any, propertyKey?: string) {
+    const metadata: WebSocketEventMetadata = {
+      event,
+      direction: 'receive',
+      ...options,
+    };
+    if (payload) metadata.payload = payload;
+
+    if (propertyKey === undefined) {
+      RoutingRegistry.getInstance().registerWebSocketEvent(target, metadata);
+    } else {
+      metadata.handler = propertyKey;
+      RoutingRegistry.getInstance().registerWebSocketEvent(
+        target.constructor,
+        metadata,
+      );
+    }
+  };
+}
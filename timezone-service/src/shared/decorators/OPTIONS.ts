@@ -0,0 +1,10 @@
+import { Route } from './ROUTE';
+
+/**
+ * OPTIONS decorator for marking methods as OPTIONS route handlers
+ * Paths without an OPTIONS handler get an automatic 204 response with an Allow header
+ * @param path - The URL path pattern (e.g., "/time/:timezone")
+ */
+export function OPTIONS(path: string) {
+  return Route('OPTIONS', path);
+}
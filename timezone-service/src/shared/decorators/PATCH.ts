@@ -0,0 +1,9 @@
+import { Route } from './ROUTE';
+
+/**
+ * PATCH decorator for marking methods as PATCH route handlers
+ * @param path - The URL path pattern (e.g., "/time/:timezone")
+ */
+export function PATCH(path: string) {
+  return Route('PATCH', path);
+}
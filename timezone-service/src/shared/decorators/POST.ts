@@ -0,0 +1,9 @@
+import { Route } from './ROUTE';
+
+/**
+ * POST decorator for marking methods as POST route handlers
+ * @param path - The URL path pattern (e.g., "/time/:timezone")
+ */
+export function POST(path: string) {
+  return Route('POST', path);
+}
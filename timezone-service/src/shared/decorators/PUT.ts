@@ -0,0 +1,9 @@
+import { Route } from './ROUTE';
+
+/**
+ * PUT decorator for marking methods as PUT route handlers
+ * @param path - The URL path pattern (e.g., "/time/:timezone")
+ */
+export function PUT(path: string) {
+  return Route('PUT', path);
+}
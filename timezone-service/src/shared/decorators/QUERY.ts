@@ -0,0 +1,19 @@
+import { ParameterOptions, RoutingRegistry } from '@/shared';
+
+/**
+ * QUERY decorator for extracting query string parameters
+ * Values are coerced to the declared parameter type (number, boolean, Date, array)
+ * @param name - The name of the query parameter (e.g., "format" for ?format=)
+ * @param options - Set `required` to respond with 400 when the parameter is missing
+ */
+export function QUERY(name: string, options: ParameterOptions = {}) {
+  return function (target: any, propertyKey: string, parameterIndex: number) {
+    const registry = RoutingRegistry.getInstance();
+    registry.registerParameter(target.constructor, propertyKey, {
+      index: parameterIndex,
+      type: 'query',
+      name,
+      required: options.required ?? false,
+    });
+  };
+}
@@ -0,0 +1,27 @@
+import { Duration, RoutingRegistry, parseDuration } from '@/shared';
+
+/**
+ * RateLimit decorator for limiting how often a client calls a route or a WebSocket handler
+ * Each client (API key, or IP address when anonymous) gets a token bucket of `limit`
+ * calls refilled over `window`; an empty bucket responds with 429. On a class the
+ * bucket is shared by every handler, a handler-level limit replaces it
+ * @param limit - Calls allowed in a burst
+ * @param window - Time to refill the bucket, in milliseconds or e.g. '1m'
+ */
+export function RateLimit(limit: number, window: Duration) {
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Rate limit must be a positive integer, got ${limit}`);
+  }
+
+  const policy = { limit, windowMs: parseDuration(window) };
+
+  return function (target: any, propertyKey?: string) {
+    const registry = RoutingRegistry.getInstance();
+
+    if (propertyKey === undefined) {
+      registry.registerRateLimit(target, undefined, policy);
+    } else {
+      registry.registerRateLimit(target.constructor, propertyKey, policy);
+    }
+  };
+}
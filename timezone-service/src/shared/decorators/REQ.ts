@@ -0,0 +1,14 @@
+import { RoutingRegistry } from '@/shared';
+
+/**
+ * REQ decorator for injecting the raw http.IncomingMessage
+ */
+export function REQ() {
+  return function (target: any, propertyKey: string, parameterIndex: number) {
+    const registry = RoutingRegistry.getInstance();
+    registry.registerParameter(target.constructor, propertyKey, {
+      index: parameterIndex,
+      type: 'req',
+    });
+  };
+}
@@ -0,0 +1,15 @@
+import { RoutingRegistry } from '@/shared';
+
+/**
+ * RES decorator for injecting the raw http.ServerResponse
+ * Handlers that write to the response directly should return undefined
+ */
+export function RES() {
+  return function (target: any, propertyKey: string, parameterIndex: number) {
+    const registry = RoutingRegistry.getInstance();
+    registry.registerParameter(target.constructor, propertyKey, {
+      index: parameterIndex,
+      type: 'res',
+    });
+  };
+}
@@ -0,0 +1,18 @@
+import { HttpMethod, RoutingRegistry } from '@/shared';
+
+/**
+ * Generic route decorator used by the HTTP verb decorators
+ * @param method - HTTP verb handled by the decorated method
+ * @param path - The URL path pattern (e.g., "/time/:timezone")
+ */
+export function Route(method: HttpMethod, path: string) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor,
+  ) {
+    const registry = RoutingRegistry.getInstance();
+    registry.registerRoute(target.constructor, method, path, propertyKey);
+    return descriptor;
+  };
+}
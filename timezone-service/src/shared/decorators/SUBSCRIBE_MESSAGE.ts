@@ -0,0 +1,49 @@
+import {
+  RoutingRegistry,
+  Schema,
+  WebSocketEventMetadata,
+  WebSocketEventOptions,
+} from '@/shared';
+
+/**
+ * SubscribeMessage decorator for handling an event sent by clients
+ * RealtimeGateway handles the event on every connection, validates the payload,
+ * runs guards and interceptors and passes the return value to the acknowledgement
+ * The event is also documented in the AsyncAPI document
+ * @param event - Event name (e.g., "get-time")
+ * @param payload - Schema the payload must match, failures are reported as VALIDATION_FAILED
+ * @param options - Summary and description for the AsyncAPI document
+ * @example
+ * @SubscribeMessage('change-timezone', s.object({ timezone: s.timezone() }))
+ */
+export function SubscribeMessage(
+  event: string,
+  payload?: Schema,
+  options: WebSocketEventOptions = {},
+) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor,
+  ) {
+    const registry = RoutingRegistry.getInstance();
+    registry.registerWebSocketHandler(
+      target.constructor,
+      propertyKey,
+      'message',
+      event,
+      payload,
+    );
+
+    const metadata: WebSocketEventMetadata = {
+      event,
+      direction: 'receive',
+      handler: propertyKey,
+      ...options,
+    };
+    if (payload) metadata.payload = payload;
+    registry.registerWebSocketEvent(target.constructor, metadata);
+
+    return descriptor;
+  };
+}
@@ -0,0 +1,19 @@
+import { ExceptionFilterType, RoutingRegistry } from '@/shared';
+
+/**
+ * UseFilters decorator for attaching exception filters to a controller or a route
+ * Route filters run before controller filters, which run before global filters
+ * @param filters - Filter instances or classes resolved through ServiceRegistry
+ */
+export function UseFilters(...filters: ExceptionFilterType[]) {
+  return function (target: any, propertyKey?: string) {
+    const registry = RoutingRegistry.getInstance();
+
+    if (propertyKey === undefined) {
+      // Class decorator: applies to every route of the controller
+      registry.registerFilters(target, undefined, filters);
+    } else {
+      registry.registerFilters(target.constructor, propertyKey, filters);
+    }
+  };
+}
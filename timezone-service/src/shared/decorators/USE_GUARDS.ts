@@ -0,0 +1,19 @@
+import { GuardType, RoutingRegistry } from '@/shared';
+
+/**
+ * UseGuards decorator for protecting a controller or a single handler
+ * Applies to HTTP routes and Socket.io handlers; class guards run before handler guards
+ * A guard returning false produces a 403, guards may also throw (e.g. UnauthorizedException)
+ * @param guards - Guard instances or classes resolved through ServiceRegistry
+ */
+export function UseGuards(...guards: GuardType[]) {
+  return function (target: any, propertyKey?: string) {
+    const registry = RoutingRegistry.getInstance();
+
+    if (propertyKey === undefined) {
+      registry.registerGuards(target, undefined, guards);
+    } else {
+      registry.registerGuards(target.constructor, propertyKey, guards);
+    }
+  };
+}
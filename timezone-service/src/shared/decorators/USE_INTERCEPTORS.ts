@@ -0,0 +1,22 @@
+import { InterceptorType, RoutingRegistry } from '@/shared';
+
+/**
+ * UseInterceptors decorator for wrapping handler invocation
+ * Applies to HTTP routes and Socket.io handlers; class interceptors wrap handler interceptors
+ * @param interceptors - Interceptor instances or classes resolved through ServiceRegistry
+ */
+export function UseInterceptors(...interceptors: InterceptorType[]) {
+  return function (target: any, propertyKey?: string) {
+    const registry = RoutingRegistry.getInstance();
+
+    if (propertyKey === undefined) {
+      registry.registerInterceptors(target, undefined, interceptors);
+    } else {
+      registry.registerInterceptors(
+        target.constructor,
+        propertyKey,
+        interceptors,
+      );
+    }
+  };
+}
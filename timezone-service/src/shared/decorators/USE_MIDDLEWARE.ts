@@ -0,0 +1,19 @@
+import { Middleware, RoutingRegistry } from '@/shared';
+
+/**
+ * UseMiddleware decorator for attaching middleware to a controller or a route
+ * Order: global middleware, then controller middleware, then route middleware
+ * @param middleware - `(context, next)` functions; skipping next() short-circuits the request
+ */
+export function UseMiddleware(...middleware: Middleware[]) {
+  return function (target: any, propertyKey?: string) {
+    const registry = RoutingRegistry.getInstance();
+
+    if (propertyKey === undefined) {
+      // Class decorator: applies to every route of the controller
+      registry.registerMiddleware(target, undefined, middleware);
+    } else {
+      registry.registerMiddleware(target.constructor, propertyKey, middleware);
+    }
+  };
+}
@@ -0,0 +1,20 @@
+import { RouteValidation, RoutingRegistry } from '@/shared';
+
+/**
+ * Validate decorator for checking request input before the handler runs
+ * Every failing field is reported in a single 400 response
+ * @param validation - Schemas for path params, query string, body and headers
+ * @example
+ * @Validate({ params: s.object({ timezone: s.timezone() }) })
+ */
+export function Validate(validation: RouteValidation) {
+  return function (
+    target: any,
+    propertyKey: string,
+    descriptor: PropertyDescriptor,
+  ) {
+    const registry = RoutingRegistry.getInstance();
+    registry.registerValidation(target.constructor, propertyKey, validation);
+    return descriptor;
+  };
+}
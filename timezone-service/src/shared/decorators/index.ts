@@ -1,3 +1,36 @@
+export { Controller } from './CONTROLLER';
+export { Route } from './ROUTE';
 export { GET } from './GET';
+export { POST } from './POST';
+export { PUT } from './PUT';
+export { PATCH } from './PATCH';
+export { DELETE } from './DELETE';
+export { HEAD } from './HEAD';
+export { OPTIONS } from './OPTIONS';
 export { PARAM } from './PARAM';
+export { QUERY } from './QUERY';
+export { BODY } from './BODY';
+export { HEADER } from './HEADER';
+export { REQ } from './REQ';
+export { RES } from './RES';
+export { Validate } from './VALIDATE';
+export { ApiOperation } from './API_OPERATION';
+export { ApiResponse } from './API_RESPONSE';
+export { Catch } from './CATCH';
+export { UseFilters } from './USE_FILTERS';
+export { UseMiddleware } from './USE_MIDDLEWARE';
+export { Auth } from './AUTH';
+export { RateLimit } from './RATE_LIMIT';
+export { UseGuards } from './USE_GUARDS';
+export { UseInterceptors } from './USE_INTERCEPTORS';
 export { WebSocket } from './WEBSOCKET';
+export { OnEvent } from './ON_EVENT';
+export { Emits } from './EMITS';
+export { SubscribeMessage } from './SUBSCRIBE_MESSAGE';
+export { MessageBody } from './MESSAGE_BODY';
+export { ConnectedSocket } from './CONNECTED_SOCKET';
+export { ConnectedPrincipal } from './CONNECTED_PRINCIPAL';
+export { OnConnect } from './ON_CONNECT';
+export { OnDisconnect } from './ON_DISCONNECT';
+export { Injectable } from './INJECTABLE';
+export { Inject } from './INJECT';
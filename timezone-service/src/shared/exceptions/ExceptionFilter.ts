@@ -0,0 +1,12 @@
+import type { RequestContext } from '../types/routing';
+
+/**
+ * Handles exceptions thrown while processing a request
+ * Decorate implementations with @Catch to restrict the exception types they receive
+ */
+export interface ExceptionFilter<T = unknown> {
+  catch(exception: T, context: RequestContext): void | Promise<void>;
+}
+
+// Filters can be given as instances or as classes resolved through ServiceRegistry
+export type ExceptionFilterType = ExceptionFilter | (new () => ExceptionFilter);
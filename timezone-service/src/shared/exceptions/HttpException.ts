@@ -0,0 +1,45 @@
+import type { ErrorResponse } from '../types/responseTypes';
+
+export interface HttpExceptionOptions {
+  code?: string; // machine-readable error code, defaults to the status title in CONSTANT_CASE
+  error?: string; // human-readable title, defaults to the status title
+  details?: unknown; // extra structured data sent with the error
+}
+
+/**
+ * Base class for errors that map to an HTTP response
+ * Anything else thrown from a handler is treated as a 500
+ */
+export class HttpException extends Error {
+  readonly error: string;
+  readonly code: string;
+  readonly details?: unknown;
+
+  constructor(
+    public readonly status: number,
+    title: string,
+    message: string,
+    options: HttpExceptionOptions = {},
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.error = options.error ?? title;
+    this.code = options.code ?? title.toUpperCase().replace(/\s+/g, '_');
+
+    if (options.details !== undefined) {
+      this.details = options.details;
+    }
+  }
+
+  /**
+   * Body sent by sendExceptionResponse
+   */
+  toResponse(): ErrorResponse {
+    return {
+      error: this.error,
+      code: this.code,
+      message: this.message,
+      ...(this.details !== undefined ? { details: this.details } : {}),
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import type { ValidationErrorDetail } from '../types/responseTypes';
+import { HttpException, HttpExceptionOptions } from './HttpException';
+
+export class BadRequestException extends HttpException {
+  constructor(message = 'Bad request', options?: HttpExceptionOptions) {
+    super(400, 'Bad request', message, options);
+  }
+}
+
+export class UnauthorizedException extends HttpException {
+  constructor(
+    message = 'Authentication is required',
+    options?: HttpExceptionOptions,
+  ) {
+    super(401, 'Unauthorized', message, options);
+  }
+}
+
+export class ForbiddenException extends HttpException {
+  constructor(
+    message = 'Access to this resource is forbidden',
+    options?: HttpExceptionOptions,
+  ) {
+    super(403, 'Forbidden', message, options);
+  }
+}
+
+export class NotFoundException extends HttpException {
+  constructor(message = 'Resource not found', options?: HttpExceptionOptions) {
+    super(404, 'Not found', message, options);
+  }
+}
+
+export class MethodNotAllowedException extends HttpException {
+  constructor(message = 'Method not allowed', options?: HttpExceptionOptions) {
+    super(405, 'Method not allowed', message, options);
+  }
+}
+
+export class ConflictException extends HttpException {
+  constructor(message = 'Conflict', options?: HttpExceptionOptions) {
+    super(409, 'Conflict', message, options);
+  }
+}
+
+export class PayloadTooLargeException extends HttpException {
+  constructor(message = 'Payload too large', options?: HttpExceptionOptions) {
+    super(413, 'Payload too large', message, options);
+  }
+}
+
+export class UnsupportedMediaTypeException extends HttpException {
+  constructor(
+    message = 'Unsupported media type',
+    options?: HttpExceptionOptions,
+  ) {
+    super(415, 'Unsupported media type', message, options);
+  }
+}
+
+export class UnprocessableEntityException extends HttpException {
+  constructor(
+    message = 'Unprocessable entity',
+    options?: HttpExceptionOptions,
+  ) {
+    super(422, 'Unprocessable entity', message, options);
+  }
+}
+
+export class TooManyRequestsException extends HttpException {
+  constructor(message = 'Too many requests', options?: HttpExceptionOptions) {
+    super(429, 'Too many requests', message, options);
+  }
+}
+
+export class InternalServerErrorException extends HttpException {
+  constructor(
+    message = 'An unexpected error occurred',
+    options?: HttpExceptionOptions,
+  ) {
+    super(500, 'Internal server error', message, options);
+  }
+}
+
+export class ServiceUnavailableException extends HttpException {
+  constructor(
+    message = 'Service temporarily unavailable',
+    options?: HttpExceptionOptions,
+  ) {
+    super(503, 'Service unavailable', message, options);
+  }
+}
+
+/**
+ * Raised by @Validate with every failing field in `details`
+ */
+export class ValidationException extends BadRequestException {
+  declare readonly details: ValidationErrorDetail[];
+
+  constructor(message: string, details: ValidationErrorDetail[]) {
+    super(message, {
+      error: 'Validation failed',
+      code: 'VALIDATION_FAILED',
+      details,
+    });
+  }
+}
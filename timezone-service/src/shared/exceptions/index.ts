@@ -0,0 +1,3 @@
+export * from './HttpException';
+export * from './exceptions';
+export * from './ExceptionFilter';
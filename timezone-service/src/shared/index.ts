@@ -4,8 +4,14 @@ export * from './decorators';
 // Export types
 export * from './types';
 
+// Export HTTP exceptions and filters
+export * from './exceptions';
+
 // Export utilities
 export * from './utils';
 
 // Export services
 export * from './services';
+
+// Export validation schemas
+export * from './validation';
@@ -0,0 +1,138 @@
+// Severity threshold of log output
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+// JSON lines for log collectors, pretty lines for reading in a terminal
+export type LogFormat = 'json' | 'pretty';
+
+// Structured data of a log line, Error values are serialised with their stack
+export type LogFields = Record<string, unknown>;
+
+export interface LoggerOptions {
+  level?: LogLevel; // defaults to LOG_LEVEL, or info
+  format?: LogFormat; // defaults to json when NODE_ENV is production, pretty otherwise
+  fields?: LogFields; // bound to every line
+}
+
+const LEVEL_RANK: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+/**
+ * Leveled, structured logger
+ * Register a configured instance in ServiceRegistry at startup; child loggers
+ * bind fields such as the request id to every line they write
+ * @example
+ * logger.child({ request_id: id }).info('Request completed', { status: 200 })
+ */
+export class Logger {
+  readonly level: LogLevel;
+  readonly format: LogFormat;
+  private fields: LogFields;
+
+  constructor(options: LoggerOptions = {}) {
+    const envLevel = process.env.LOG_LEVEL as LogLevel | undefined;
+
+    this.level =
+      options.level ??
+      (envLevel && LOG_LEVELS.includes(envLevel) ? envLevel : 'info');
+    this.format =
+      options.format ??
+      (process.env.NODE_ENV === 'production' ? 'json' : 'pretty');
+    this.fields = options.fields ?? {};
+  }
+
+  /**
+   * Logger writing the given fields on every line, on top of the fields of this logger
+   */
+  child(fields: LogFields): Logger {
+    return new Logger({
+      level: this.level,
+      format: this.format,
+      fields: { ...this.fields, ...fields },
+    });
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LEVEL_RANK[level] >= LEVEL_RANK[this.level];
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const entry: LogFields = {};
+    for (const [key, value] of Object.entries({ ...this.fields, ...fields })) {
+      entry[key] = value instanceof Error ? serializeError(value) : value;
+    }
+
+    const time = new Date().toISOString();
+    const line =
+      this.format === 'json'
+        ? JSON.stringify({ time, level, message, ...entry })
+        : formatPretty(time, level, message, entry);
+
+    // Warnings and errors go to stderr
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+function serializeError(error: Error): LogFields {
+  return { name: error.name, message: error.message, stack: error.stack };
+}
+
+// `12:00:00.000 INFO  Request completed method=GET status=200`, error stacks on the following lines
+function formatPretty(
+  time: string,
+  level: LogLevel,
+  message: string,
+  fields: LogFields,
+): string {
+  const stacks: string[] = [];
+  const pairs = Object.entries(fields).map(([key, value]) => {
+    const stack = (value as LogFields | undefined)?.stack;
+    if (typeof stack === 'string') {
+      stacks.push(stack);
+      return `${key}=${JSON.stringify((value as LogFields).message)}`;
+    }
+
+    const text =
+      typeof value === 'string' && /^[^\s"=]+$/.test(value)
+        ? value
+        : JSON.stringify(value);
+    return `${key}=${text}`;
+  });
+
+  return [
+    `${time.slice(11, 23)} ${level.toUpperCase().padEnd(5)} ${message}`,
+    ...pairs,
+  ]
+    .join(' ')
+    .concat(stacks.map((stack) => `\n${stack}`).join(''));
+}
@@ -1,10 +1,51 @@
+import 'reflect-metadata';
+
+import {
+  InjectionToken,
+  Provider,
+  RequestScope,
+  ServiceScope,
+  getInjectTokens,
+  getInjectableOptions,
+  tokenName,
+} from '../types/injection';
+import {
+  CircularDependencyException,
+  DependencyResolutionException,
+} from './exceptions';
+
+// A provider in one shape: how to create the service and how long it lives
+interface Registration {
+  scope: ServiceScope;
+  create: (requestScope: RequestScope | undefined) => unknown;
+}
+
+// Parameter types that name no service, they are left to their defaults
+const BUILT_IN_TYPES: Function[] = [
+  Object,
+  String,
+  Number,
+  Boolean,
+  Array,
+  Function,
+  Date,
+  RegExp,
+  Promise,
+];
+
 /**
  * Service registry for dependency injection
- * Manages service instances and their lifecycle
+ * Manages service instances and their lifecycle. Services are created with
+ * their constructor dependencies, found through the `design:paramtypes`
+ * metadata of @Injectable classes and the tokens given with @Inject
  */
 export class ServiceRegistry {
   private static instance: ServiceRegistry;
-  private services: Map<Function, any> = new Map();
+  // Created singletons and registered values
+  private services: Map<InjectionToken, any> = new Map();
+  private registrations: Map<InjectionToken, Registration> = new Map();
+  // Tokens being created, innermost last, to detect cycles
+  private resolving: InjectionToken[] = [];
 
   static getInstance(): ServiceRegistry {
     if (!ServiceRegistry.instance) {
@@ -15,43 +56,200 @@ export class ServiceRegistry {
 
   /**
    * Register a service instance
-   * @param serviceType - Service constructor function
+   * @param serviceType - Service constructor function or token
    * @param serviceInstance - Instance of the service
    */
-  registerService<T>(serviceType: Function, serviceInstance: T): void {
+  registerService<T>(serviceType: InjectionToken, serviceInstance: T): void {
+    this.registrations.delete(serviceType);
     this.services.set(serviceType, serviceInstance);
   }
 
+  /**
+   * Register how a service is created, replacing an earlier registration
+   * Class and factory providers are only created once injected
+   * @param provider - A class, or a class, value or factory provider
+   */
+  register(provider: Provider): void {
+    if (typeof provider === 'function') {
+      provider = { provide: provider, useClass: provider };
+    }
+
+    if ('useValue' in provider) {
+      this.registerService(provider.provide, provider.useValue);
+      return;
+    }
+
+    this.services.delete(provider.provide);
+
+    if ('useClass' in provider) {
+      const { useClass } = provider;
+      this.registrations.set(provider.provide, {
+        scope:
+          provider.scope ??
+          getInjectableOptions(useClass)?.scope ??
+          'singleton',
+        create: (requestScope) => this.instantiate(useClass, requestScope),
+      });
+    } else {
+      const { useFactory, inject = [] } = provider;
+      this.registrations.set(provider.provide, {
+        scope: provider.scope ?? 'singleton',
+        create: (requestScope) =>
+          useFactory(
+            ...inject.map((token) => this.resolve(token, requestScope)),
+          ),
+      });
+    }
+  }
+
   /**
    * Get service instance by type
-   * @param serviceType - Service constructor function
-   * @returns Service instance or undefined if not found
+   * @param serviceType - Service constructor function or token
+   * @returns Service instance or undefined if not created yet
    */
-  getService<T>(serviceType: Function): T | undefined {
+  getService<T>(serviceType: InjectionToken): T | undefined {
     return this.services.get(serviceType);
   }
 
   /**
    * Get or create service instance
-   * @param serviceType - Service constructor function
+   * @param serviceType - Service constructor function or token
    * @returns Service instance
+   * @throws DependencyResolutionException when it or one of its dependencies cannot be created
    */
-  getOrCreateService<T>(serviceType: Function): T {
-    let service = this.services.get(serviceType);
-    
-    if (!service) {
-      // Create new instance using constructor
-      service = new (serviceType as any)();
-      this.services.set(serviceType, service);
+  getOrCreateService<T>(serviceType: InjectionToken): T {
+    return this.resolve<T>(serviceType);
+  }
+
+  /**
+   * Get the instance of a token for its scope
+   * Classes without a registration are created as singletons, or in the scope
+   * of their @Injectable decorator
+   * @param requestScope - Request-scoped instances, needed for request-scoped services
+   * @throws DependencyResolutionException when it or one of its dependencies cannot be created
+   */
+  resolve<T>(token: InjectionToken, requestScope?: RequestScope): T {
+    if (requestScope?.has(token)) {
+      return requestScope.get(token) as T;
+    }
+    if (this.services.has(token)) {
+      return this.services.get(token);
+    }
+
+    const registration =
+      this.registrations.get(token) ?? this.implicitRegistration(token);
+    const path = [...this.resolving, token].map(tokenName);
+
+    if (this.resolving.includes(token)) {
+      throw new CircularDependencyException(
+        path.slice(this.resolving.indexOf(token)),
+      );
+    }
+    if (registration.scope === 'request' && !requestScope) {
+      throw new DependencyResolutionException(
+        `${tokenName(token)} is request scoped and can only be injected into handlers and other request-scoped services`,
+        path,
+      );
+    }
+
+    this.resolving.push(token);
+    let instance: unknown;
+
+    try {
+      // Singletons outlive the request, so they cannot hold request-scoped services
+      instance = registration.create(
+        registration.scope === 'singleton' ? undefined : requestScope,
+      );
+    } finally {
+      this.resolving.pop();
+    }
+
+    if (registration.scope === 'singleton') {
+      this.services.set(token, instance);
+    } else if (registration.scope === 'request') {
+      requestScope!.set(token, instance);
     }
-    
-    return service;
+
+    return instance as T;
+  }
+
+  /**
+   * Create an instance of a class with its constructor dependencies, without registering it
+   * @param requestScope - Request-scoped instances the dependencies may come from
+   */
+  instantiate<T>(
+    type: new (...args: any[]) => T,
+    requestScope?: RequestScope,
+  ): T {
+    const paramTypes: unknown[] =
+      Reflect.getMetadata('design:paramtypes', type) || [];
+    const tokens = getInjectTokens(type);
+
+    const args = Array.from(
+      { length: Math.max(paramTypes.length, tokens.length) },
+      (_, index) => {
+        const token = tokens[index] ?? paramTypes[index];
+        return this.isServiceToken(token)
+          ? this.resolve(token, requestScope)
+          : undefined;
+      },
+    );
+
+    return new type(...args);
+  }
+
+  /**
+   * Get every registered service instance, once each
+   * @returns Instances in registration order
+   */
+  getServices(): unknown[] {
+    return [...new Set(this.services.values())];
   }
 
   /**
-   * Clear all registered services
+   * Remember the registered services and providers, e.g. before an application adds its own
+   * @returns Function restoring them, forgetting everything registered or created since
+   */
+  checkpoint(): () => void {
+    const services = new Map(this.services);
+    const registrations = new Map(this.registrations);
+
+    return () => {
+      this.services = services;
+      this.registrations = registrations;
+    };
+  }
+
+  /**
+   * Clear all registered services and providers
    */
   clear(): void {
     this.services.clear();
+    this.registrations.clear();
+    this.resolving = [];
+  }
+
+  private implicitRegistration(token: InjectionToken): Registration {
+    if (typeof token !== 'function') {
+      throw new DependencyResolutionException(
+        `No provider for ${tokenName(token)}, register one with ServiceRegistry.register()`,
+        [...this.resolving, token].map(tokenName),
+      );
+    }
+
+    const type = token as new (...args: any[]) => unknown;
+
+    return {
+      scope: getInjectableOptions(type)?.scope ?? 'singleton',
+      create: (requestScope) => this.instantiate(type, requestScope),
+    };
+  }
+
+  private isServiceToken(token: unknown): token is InjectionToken {
+    return (
+      typeof token === 'string' ||
+      typeof token === 'symbol' ||
+      (typeof token === 'function' && !BUILT_IN_TYPES.includes(token))
+    );
   }
 }
@@ -0,0 +1,21 @@
+/**
+ * Raised when ServiceRegistry cannot create a service
+ * The message ends with the chain of services being resolved, e.g.
+ * `(TimezoneWebSocket -> TimezoneService -> clock)`
+ */
+export class DependencyResolutionException extends Error {
+  constructor(
+    message: string,
+    readonly path: string[],
+  ) {
+    super(path.length > 1 ? `${message} (${path.join(' -> ')})` : message);
+    this.name = new.target.name;
+  }
+}
+
+// Raised when services depend on each other, the path starts and ends with the same service
+export class CircularDependencyException extends DependencyResolutionException {
+  constructor(path: string[]) {
+    super('Circular dependency', path);
+  }
+}
@@ -1,2 +1,6 @@
 // Export service registry
 export * from './ServiceRegistry';
+export * from './exceptions';
+
+// Export logger
+export * from './Logger';
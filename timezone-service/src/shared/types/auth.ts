@@ -0,0 +1,29 @@
+// How a client proved its identity
+export type PrincipalType = 'api-key' | 'token';
+
+// An authenticated client and the scopes it was granted
+export interface Principal {
+  id: string;
+  type: PrincipalType;
+  scopes: string[];
+}
+
+// Credentials presented by a client, e.g. in the Socket.io `handshake.auth` object
+export interface Credentials {
+  apiKey?: string;
+  token?: string; // HMAC-signed token, see signToken
+}
+
+/**
+ * Turns credentials into a principal
+ * Resolves with undefined for unknown credentials, or throws an HttpException
+ * to reject them with a more specific error
+ */
+export interface Authenticator {
+  authenticate(
+    credentials: Credentials,
+  ): Principal | undefined | Promise<Principal | undefined>;
+}
+
+// Authenticators can be given as instances or as classes resolved through ServiceRegistry
+export type AuthenticatorType = Authenticator | (new () => Authenticator);
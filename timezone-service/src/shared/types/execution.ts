@@ -0,0 +1,50 @@
+import type { RealtimeConnection } from './realtime';
+import type { RequestContext } from './routing';
+
+// Transport a handler is invoked from
+export type ExecutionType = 'http' | 'ws';
+
+// Realtime side of an execution context, for every transport
+export interface WsContext {
+  socket: RealtimeConnection;
+  event: string;
+  data: unknown;
+}
+
+// Describes the handler about to run, shared by guards and interceptors
+export interface ExecutionContext {
+  type: ExecutionType;
+  controllerClass: Function;
+  handler: string; // method name on the controller
+  http?: RequestContext; // set for HTTP routes
+  ws?: WsContext; // set for WebSocket controller handlers
+}
+
+// Guards decide whether a handler may run; returning false responds with 403
+export interface CanActivate {
+  canActivate(context: ExecutionContext): boolean | Promise<boolean>;
+}
+
+// Invokes the handler (or the next interceptor) and resolves with its result
+export type CallHandler = () => Promise<unknown>;
+
+// Interceptors wrap handler invocation to transform results, measure or cache
+export interface Interceptor {
+  intercept(context: ExecutionContext, next: CallHandler): unknown;
+}
+
+// Guards and interceptors can be given as instances or as classes resolved through ServiceRegistry
+export type GuardType = CanActivate | (new () => CanActivate);
+export type InterceptorType = Interceptor | (new () => Interceptor);
+
+// Token bucket of @RateLimit: `limit` tokens, refilled evenly over `windowMs`
+export interface RateLimitPolicy {
+  limit: number;
+  windowMs: number;
+}
+
+// Rate limit of a handler, with the name of the bucket shared by its calls
+export interface HandlerRateLimit {
+  policy: RateLimitPolicy;
+  bucket: string; // `Class` for class-level limits, `Class.handler` for handler-level ones
+}
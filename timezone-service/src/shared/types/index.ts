@@ -1,2 +1,7 @@
 export * from './responseTypes';
-export * from './routing';
\ No newline at end of file
+export * from './routing';
+export * from './execution';
+export * from './realtime';
+export * from './auth';
+export * from './lifecycle';
+export * from './injection';
@@ -0,0 +1,101 @@
+import 'reflect-metadata';
+
+// Class of a service, possibly abstract when it only serves as a token
+export type ServiceType<T = unknown> = abstract new (...args: any[]) => T;
+
+// Key a service is registered and injected by, a class or a name for @Inject
+export type InjectionToken<T = unknown> = ServiceType<T> | string | symbol;
+
+/**
+ * How long an instance lives
+ * - singleton: one instance, created on first use
+ * - transient: a new instance for every injection
+ * - request: one instance per HTTP request or WebSocket event
+ */
+export type ServiceScope = 'singleton' | 'transient' | 'request';
+
+export interface InjectableOptions {
+  scope?: ServiceScope; // defaults to singleton
+}
+
+export interface ClassProvider<T = unknown> {
+  provide: InjectionToken<T>;
+  useClass: new (...args: any[]) => T;
+  scope?: ServiceScope; // defaults to the @Injectable scope of the class
+}
+
+export interface ValueProvider<T = unknown> {
+  provide: InjectionToken<T>;
+  useValue: T;
+}
+
+export interface FactoryProvider<T = unknown> {
+  provide: InjectionToken<T>;
+  useFactory: (...dependencies: any[]) => T;
+  inject?: InjectionToken[]; // resolved and passed to the factory in order
+  scope?: ServiceScope; // defaults to singleton
+}
+
+// A class is short for { provide: Class, useClass: Class }
+export type Provider<T = unknown> =
+  | (new (...args: any[]) => T)
+  | ClassProvider<T>
+  | ValueProvider<T>
+  | FactoryProvider<T>;
+
+// Instances of request-scoped services, created for each HTTP request or WebSocket event
+export type RequestScope = Map<InjectionToken, unknown>;
+
+const INJECTABLE_KEY = 'injection:injectable';
+const INJECT_KEY = 'injection:inject';
+
+export function defineInjectable(
+  target: Function,
+  options: InjectableOptions,
+): void {
+  Reflect.defineMetadata(INJECTABLE_KEY, options, target);
+}
+
+export function getInjectableOptions(
+  target: Function,
+): InjectableOptions | undefined {
+  return Reflect.getMetadata(INJECTABLE_KEY, target);
+}
+
+/**
+ * Record the @Inject token of a parameter
+ * @param propertyKey - Method of the parameter, undefined for constructor parameters
+ */
+export function defineInjectToken(
+  target: Function,
+  propertyKey: string | undefined,
+  index: number,
+  token: InjectionToken,
+): void {
+  const tokens = getInjectTokens(target, propertyKey);
+  tokens[index] = token;
+
+  if (propertyKey === undefined) {
+    Reflect.defineMetadata(INJECT_KEY, tokens, target);
+  } else {
+    Reflect.defineMetadata(INJECT_KEY, tokens, target, propertyKey);
+  }
+}
+
+// @Inject tokens of the parameters of a method, or of the constructor without a method
+export function getInjectTokens(
+  target: Function,
+  propertyKey?: string,
+): InjectionToken[] {
+  const tokens: InjectionToken[] | undefined =
+    propertyKey === undefined
+      ? Reflect.getOwnMetadata(INJECT_KEY, target)
+      : Reflect.getOwnMetadata(INJECT_KEY, target, propertyKey);
+
+  return [...(tokens || [])];
+}
+
+// Name of a token in error messages
+export function tokenName(token: InjectionToken): string {
+  return typeof token === 'function' ? token.name : token.toString();
+}
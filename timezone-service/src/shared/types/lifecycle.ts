@@ -0,0 +1,18 @@
+/**
+ * Implemented by services in ServiceRegistry that release resources on
+ * shutdown, such as timers or pending writes. LifecycleManager calls the hook
+ * once HTTP requests are drained and realtime clients are disconnected
+ */
+export interface OnModuleDestroy {
+  onModuleDestroy(signal?: string): void | Promise<void>;
+}
+
+export function hasOnModuleDestroy(
+  service: unknown,
+): service is OnModuleDestroy {
+  return (
+    typeof service === 'object' &&
+    service !== null &&
+    typeof (service as Partial<OnModuleDestroy>).onModuleDestroy === 'function'
+  );
+}
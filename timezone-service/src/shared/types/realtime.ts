@@ -0,0 +1,58 @@
+import type { ParsedUrlQuery } from 'querystring';
+
+import type { Logger } from '../services/Logger';
+import type { AuthenticatorType, Principal } from './auth';
+
+// Transport a realtime client is connected over
+export type RealtimeTransport = 'socket.io' | 'websocket' | 'sse';
+
+/**
+ * A client connected to a WebSocket controller, whatever its transport.
+ * Controllers only talk to clients through this interface, so one handler
+ * serves Socket.io, plain WebSocket and Server-Sent Events clients alike
+ */
+export interface RealtimeConnection {
+  readonly id: string;
+  readonly transport: RealtimeTransport;
+  readonly params: Record<string, string>; // path parameters of the @WebSocket route
+  readonly query: ParsedUrlQuery;
+  readonly principal?: Principal | undefined; // set when the client authenticated
+  readonly address?: string | undefined; // client IP address, keys anonymous rate limits
+  readonly logger: Logger; // writes the connection id and the X-Request-Id of the handshake
+  join(room: string): void | Promise<void>;
+  leave(room: string): void | Promise<void>;
+  emit(event: string, data: unknown): void;
+  disconnect(): void;
+}
+
+// Sent to every realtime client when a graceful shutdown begins, before it is disconnected
+export const SERVER_SHUTDOWN_EVENT = 'server-shutdown';
+
+export interface ServerShutdownNotice {
+  reason: string;
+  reconnect: boolean; // another instance serves clients that reconnect
+  reconnect_after_ms: number; // wait before reconnecting, clients should add jitter
+}
+
+// Delivers room broadcasts to the clients of one transport
+export interface RealtimeBroadcaster {
+  emitToRoom(room: string, event: string, data: unknown): void;
+}
+
+/**
+ * Scopes a principal needs to connect to a Socket.io namespace or join a room.
+ * Names match exactly or with `*` wildcards, e.g. `{ room: 'timezone-*', scopes: ['time:read'] }`.
+ * Plain WebSocket and Server-Sent Events clients connect to the `/` namespace
+ */
+export interface RealtimeAuthorizationRule {
+  namespace?: string;
+  room?: string;
+  scopes: string[]; // every scope is required
+}
+
+// Authentication of the realtime transports, see RealtimeGateway.useAuthentication
+export interface RealtimeAuthOptions {
+  authenticator: AuthenticatorType;
+  anonymousScopes?: string[]; // scopes of clients without credentials, which are rejected while it is empty (the default)
+  rules?: RealtimeAuthorizationRule[];
+}
@@ -1,8 +1,14 @@
+export interface ValidationErrorDetail {
+    location: 'params' | 'query' | 'body' | 'headers';
+    field: string;
+    message: string;
+  }
+
 export interface ErrorResponse {
     error: string;
+    code: string;
     message: string;
-    requested_timezone?: string;
-    example?: string;
+    details?: unknown;
   }
 
   export type SuccessResponse = string;
\ No newline at end of file
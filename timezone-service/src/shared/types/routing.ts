@@ -1,22 +1,83 @@
 
 import * as http from 'http';
+import { ParsedUrlQuery } from 'querystring';
 import 'reflect-metadata';
 
+import type { ExceptionFilterType } from '../exceptions';
+import type { Logger } from '../services/Logger';
+import type { Schema } from '../validation';
+import type { Principal } from './auth';
+import type {
+  GuardType,
+  HandlerRateLimit,
+  InterceptorType,
+  RateLimitPolicy,
+} from './execution';
+import { InjectionToken, RequestScope, getInjectTokens } from './injection';
+
+// Supported HTTP verbs for route decorators
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS';
+
+export const HTTP_METHODS: readonly HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// Sources a handler parameter can be resolved from
+export type ParameterType = 'param' | 'query' | 'body' | 'header' | 'req' | 'res' | 'service' | 'socket' | 'principal';
+
 // Parameter metadata for dependency injection
 export interface ParameterMetadata {
   index: number;
-  type: 'param' | 'service';
-  name?: string; // for @Param decorators
+  type: ParameterType;
+  name?: string; // for @PARAM, @QUERY, @HEADER, @BODY and @MessageBody decorators
   serviceType?: Function; // for service injection
+  token?: InjectionToken; // for service injection with @Inject, takes precedence over serviceType
+  valueType?: Function; // declared type from design:paramtypes, used for coercion
+  required?: boolean; // respond with 400 when the input is missing
+}
+
+// Options accepted by @QUERY, @BODY and @HEADER
+export interface ParameterOptions {
+  required?: boolean;
+}
+
+// Request validation schemas attached with @Validate
+export interface RouteValidation {
+  params?: Schema;
+  query?: Schema;
+  body?: Schema;
+  headers?: Schema;
+}
+
+// Operation documentation attached with @ApiOperation
+export interface ApiOperationOptions {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+}
+
+// Response documentation attached with @ApiResponse
+export interface ApiResponseOptions {
+  description: string;
+  schema?: Schema; // response body, documented as JSON
+}
+
+export interface ApiResponseMetadata extends ApiResponseOptions {
+  status: number;
 }
 
 // Route metadata interface
 export interface RouteMetadata {
-  method: string;
+  method: HttpMethod | ''; // empty until the route decorator runs
   path: string;
   handler: string; // method name
   paramNames: string[];
   parameters: ParameterMetadata[]; // for dependency injection
+  validation?: RouteValidation; // checked before the handler runs
+  filters?: ExceptionFilterType[]; // exception filters applied with @UseFilters
+  middleware?: Middleware[]; // middleware applied with @UseMiddleware
+  auth?: string[]; // scopes required with @Auth, an empty list only requires authentication
+  operation?: ApiOperationOptions; // OpenAPI documentation from @ApiOperation
+  responses?: ApiResponseMetadata[]; // OpenAPI documentation from @ApiResponse
 }
 
 // WebSocket metadata interface
@@ -26,11 +87,74 @@ export interface WebSocketMetadata {
   parameters: ParameterMetadata[]; // for dependency injection
 }
 
+// A connect handler (@OnConnect), a client event handler (@SubscribeMessage) or a disconnect handler (@OnDisconnect)
+export type WebSocketHandlerKind = 'connect' | 'message' | 'disconnect';
+
+// WebSocket controller handler metadata, discovered by RealtimeGateway for every connection
+export interface WebSocketHandlerMetadata {
+  kind: WebSocketHandlerKind;
+  event: string; // empty until the handler decorator runs
+  handler: string; // method name
+  payload?: Schema; // validated before the handler runs
+  parameters: ParameterMetadata[]; // for @MessageBody, @ConnectedSocket and services
+}
+
+// Direction of a Socket.io event as seen from the server
+export type WebSocketEventDirection = 'receive' | 'send';
+
+// Documentation options for @OnEvent and @Emits
+export interface WebSocketEventOptions {
+  summary?: string;
+  description?: string;
+}
+
+// Socket.io event declared on a WebSocket controller, used for the AsyncAPI document
+export interface WebSocketEventMetadata extends WebSocketEventOptions {
+  event: string;
+  direction: WebSocketEventDirection;
+  handler?: string; // undefined when declared on the class
+  payload?: Schema;
+}
+
+// Guards, interceptors and rate limit attached to a class or one of its handlers
+export interface HandlerEnhancers {
+  guards: GuardType[];
+  interceptors: InterceptorType[];
+  rateLimit?: RateLimitPolicy;
+}
+
 // Controller metadata interface
 export interface ControllerMetadata {
   routes: RouteMetadata[];
+  prefix?: string; // path prefix from @Controller, only decorated classes are discovered by createApp
+  filters?: ExceptionFilterType[]; // exception filters applied with @UseFilters on the class
+  middleware?: Middleware[]; // middleware applied with @UseMiddleware on the class
+  auth?: string[]; // scopes required with @Auth on the class
 }
 
+// Per-request state shared by middleware, parameter resolution and exception filters
+export interface RequestContext {
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: ParsedUrlQuery;
+  body?: unknown;
+  route?: RouteMetadata; // set once the request is matched to a route
+  principal?: Principal; // set when the client authenticated, see @Auth
+  requestId: string; // X-Request-Id of the request, generated when missing
+  logger: Logger; // writes the request id on every line
+  services: RequestScope; // request-scoped service instances, with the request logger as Logger
+  state: Record<string, unknown>; // free-form data passed between middleware
+}
+
+// Continues with the next middleware (or the route handler)
+export type NextFunction = () => Promise<void>;
+
+// Koa-style middleware: not calling next() short-circuits the request
+export type Middleware = (context: RequestContext, next: NextFunction) => void | Promise<void>;
+
 // Route handler function type
 export type RouteHandler = (req: http.IncomingMessage, res: http.ServerResponse, params: Record<string, string>) => void | Promise<void>;
 
@@ -47,6 +171,10 @@ export class RoutingRegistry {
   private static instance: RoutingRegistry;
   private controllers: Map<Function, ControllerMetadata> = new Map();
   private webSockets: Map<Function, WebSocketMetadata> = new Map();
+  private catchTypes: Map<Function, Function[]> = new Map();
+  private enhancers: Map<Function, Map<string | undefined, HandlerEnhancers>> = new Map();
+  private webSocketEvents: Map<Function, WebSocketEventMetadata[]> = new Map();
+  private webSocketHandlers: Map<Function, WebSocketHandlerMetadata[]> = new Map();
 
   static getInstance(): RoutingRegistry {
     if (!RoutingRegistry.instance) {
@@ -55,7 +183,7 @@ export class RoutingRegistry {
     return RoutingRegistry.instance;
   }
 
-  registerRoute(target: Function, method: string, path: string, handler: string): void {
+  registerRoute(target: Function, method: HttpMethod, path: string, handler: string): void {
     if (!this.controllers.has(target)) {
       this.controllers.set(target, { routes: [] });
     }
@@ -66,8 +194,11 @@ export class RoutingRegistry {
     if (existingRoute) {
       existingRoute.method = method;
       existingRoute.path = path;
+
+      // Parameter decorators run before the route decorator, so fill in the remaining services now
+      this.autoDetectServiceParameters(target, handler, existingRoute);
     } else {
-      const route = {
+      const route: RouteMetadata = {
         method,
         path,
         handler,
@@ -82,71 +213,195 @@ export class RoutingRegistry {
   }
 
   registerParam(target: Function, handler: string, paramName: string, paramIndex: number): void {
-    if (!this.controllers.has(target)) {
-      this.controllers.set(target, { routes: [] });
-    }
-    
-    const metadata = this.controllers.get(target)!;
-    let route = metadata.routes.find(r => r.handler === handler);
-    
-    if (!route) {
-      route = {
-        method: '',
-        path: '',
-        handler,
-        paramNames: [],
-        parameters: []
-      };
-      metadata.routes.push(route);
-    }
-    
+    const route = this.getOrCreateRoute(target, handler);
     route.paramNames[paramIndex] = paramName;
-    
-    // Register parameter metadata for dependency injection
-    const existingParam = route.parameters.find(p => p.index === paramIndex);
-    if (existingParam) {
-      existingParam.type = 'param';
-      existingParam.name = paramName;
+
+    this.registerParameter(target, handler, {
+      index: paramIndex,
+      type: 'param',
+      name: paramName,
+      required: true
+    });
+  }
+
+  registerServiceParameter(target: Function, handler: string, paramIndex: number, serviceType: Function): void {
+    this.registerParameter(target, handler, {
+      index: paramIndex,
+      type: 'service',
+      serviceType
+    });
+  }
+
+  /**
+   * Register any handler parameter (path, query, body, header, req/res or service)
+   * The declared parameter type is captured for coercion when not provided
+   */
+  registerParameter(target: Function, handler: string, parameter: ParameterMetadata): void {
+    const route = this.getOrCreateRoute(target, handler);
+
+    if (!parameter.valueType) {
+      const paramTypes = Reflect.getMetadata('design:paramtypes', target.prototype, handler) || [];
+      const valueType = paramTypes[parameter.index];
+      if (valueType) {
+        parameter = { ...parameter, valueType };
+      }
+    }
+
+    const existingIndex = route.parameters.findIndex(p => p.index === parameter.index);
+    if (existingIndex !== -1) {
+      route.parameters[existingIndex] = parameter;
     } else {
-      route.parameters.push({
-        index: paramIndex,
-        type: 'param',
-        name: paramName
-      });
+      route.parameters.push(parameter);
     }
   }
 
-  registerServiceParameter(target: Function, handler: string, paramIndex: number, serviceType: Function): void {
-    if (!this.controllers.has(target)) {
-      this.controllers.set(target, { routes: [] });
+  registerValidation(target: Function, handler: string, validation: RouteValidation): void {
+    const route = this.getOrCreateRoute(target, handler);
+    route.validation = { ...route.validation, ...validation };
+  }
+
+  registerApiOperation(target: Function, handler: string, operation: ApiOperationOptions): void {
+    const route = this.getOrCreateRoute(target, handler);
+    route.operation = { ...route.operation, ...operation };
+  }
+
+  /**
+   * Document a response of a route
+   * Decorators are applied bottom-up, so responses are prepended to keep declaration order
+   */
+  registerApiResponse(target: Function, handler: string, response: ApiResponseMetadata): void {
+    const route = this.getOrCreateRoute(target, handler);
+    route.responses = [response, ...(route.responses || []).filter(existing => existing.status !== response.status)];
+  }
+
+  /**
+   * Attach exception filters to a controller class (handler undefined) or a single route
+   */
+  registerFilters(target: Function, handler: string | undefined, filters: ExceptionFilterType[]): void {
+    if (handler === undefined) {
+      if (!this.controllers.has(target)) {
+        this.controllers.set(target, { routes: [] });
+      }
+      const metadata = this.controllers.get(target)!;
+      metadata.filters = [...(metadata.filters || []), ...filters];
+      return;
     }
-    
-    const metadata = this.controllers.get(target)!;
-    let route = metadata.routes.find(r => r.handler === handler);
-    
-    if (!route) {
-      route = {
-        method: '',
-        path: '',
-        handler,
-        paramNames: [],
-        parameters: []
-      };
-      metadata.routes.push(route);
+
+    const route = this.getOrCreateRoute(target, handler);
+    route.filters = [...(route.filters || []), ...filters];
+  }
+
+  /**
+   * Attach middleware to a controller class (handler undefined) or a single route
+   */
+  registerMiddleware(target: Function, handler: string | undefined, middleware: Middleware[]): void {
+    if (handler === undefined) {
+      if (!this.controllers.has(target)) {
+        this.controllers.set(target, { routes: [] });
+      }
+      const metadata = this.controllers.get(target)!;
+      metadata.middleware = [...(metadata.middleware || []), ...middleware];
+      return;
     }
-    
-    // Register service parameter metadata
-    const existingParam = route.parameters.find(p => p.index === paramIndex);
-    if (existingParam) {
-      existingParam.type = 'service';
-      existingParam.serviceType = serviceType;
-    } else {
-      route.parameters.push({
-        index: paramIndex,
-        type: 'service',
-        serviceType
-      });
+
+    const route = this.getOrCreateRoute(target, handler);
+    route.middleware = [...(route.middleware || []), ...middleware];
+  }
+
+  /**
+   * Require authentication and scopes for a controller class (handler undefined) or a single route
+   */
+  registerAuth(target: Function, handler: string | undefined, scopes: string[]): void {
+    if (handler === undefined) {
+      if (!this.controllers.has(target)) {
+        this.controllers.set(target, { routes: [] });
+      }
+      const metadata = this.controllers.get(target)!;
+      metadata.auth = [...(metadata.auth || []), ...scopes];
+      return;
+    }
+
+    const route = this.getOrCreateRoute(target, handler);
+    route.auth = [...(route.auth || []), ...scopes];
+  }
+
+  /**
+   * Scopes required by the class and the route, undefined when neither uses @Auth
+   */
+  getAuthScopes(target: Function, handler: string): string[] | undefined {
+    const metadata = this.controllers.get(target);
+    const classScopes = metadata?.auth;
+    const routeScopes = metadata?.routes.find(r => r.handler === handler)?.auth;
+
+    if (!classScopes && !routeScopes) {
+      return undefined;
     }
+
+    return [...new Set([...(classScopes || []), ...(routeScopes || [])])];
+  }
+
+  /**
+   * Record the exception types an exception filter class handles (empty means all)
+   */
+  registerCatch(filterClass: Function, exceptionTypes: Function[]): void {
+    this.catchTypes.set(filterClass, exceptionTypes);
+  }
+
+  getCatchTypes(filterClass: Function): Function[] {
+    return this.catchTypes.get(filterClass) || [];
+  }
+
+  /**
+   * Attach guards to a class (handler undefined) or one of its handlers
+   * Works for HTTP controllers and WebSocket controllers alike
+   */
+  registerGuards(target: Function, handler: string | undefined, guards: GuardType[]): void {
+    this.getOrCreateEnhancers(target, handler).guards.push(...guards);
+  }
+
+  /**
+   * Attach interceptors to a class (handler undefined) or one of its handlers
+   */
+  registerInterceptors(target: Function, handler: string | undefined, interceptors: InterceptorType[]): void {
+    this.getOrCreateEnhancers(target, handler).interceptors.push(...interceptors);
+  }
+
+  /**
+   * Class-level guards followed by handler-level guards
+   */
+  getGuards(target: Function, handler: string): GuardType[] {
+    const enhancers = this.enhancers.get(target);
+    return [...(enhancers?.get(undefined)?.guards || []), ...(enhancers?.get(handler)?.guards || [])];
+  }
+
+  /**
+   * Class-level interceptors followed by handler-level interceptors
+   */
+  getInterceptors(target: Function, handler: string): InterceptorType[] {
+    const enhancers = this.enhancers.get(target);
+    return [...(enhancers?.get(undefined)?.interceptors || []), ...(enhancers?.get(handler)?.interceptors || [])];
+  }
+
+  /**
+   * Set the rate limit of a class (handler undefined) or one of its handlers
+   */
+  registerRateLimit(target: Function, handler: string | undefined, policy: RateLimitPolicy): void {
+    this.getOrCreateEnhancers(target, handler).rateLimit = policy;
+  }
+
+  /**
+   * Handler-level rate limit, or the class-level one shared by every handler of the class
+   */
+  getRateLimit(target: Function, handler: string): HandlerRateLimit | undefined {
+    const enhancers = this.enhancers.get(target);
+    const handlerPolicy = enhancers?.get(handler)?.rateLimit;
+
+    if (handlerPolicy) {
+      return { policy: handlerPolicy, bucket: `${target.name}.${handler}` };
+    }
+
+    const classPolicy = enhancers?.get(undefined)?.rateLimit;
+    return classPolicy ? { policy: classPolicy, bucket: target.name } : undefined;
   }
 
   getControllerMetadata(target: Function): ControllerMetadata | undefined {
@@ -157,6 +412,30 @@ export class RoutingRegistry {
     return this.controllers;
   }
 
+  /**
+   * Register a class decorated with @Controller, prefixing the paths of its routes
+   * Method decorators run before @Controller, so every route is known by now
+   */
+  registerController(target: Function, prefix: string): void {
+    if (!this.controllers.has(target)) {
+      this.controllers.set(target, { routes: [] });
+    }
+
+    const metadata = this.controllers.get(target)!;
+    metadata.prefix = prefix;
+
+    for (const route of metadata.routes) {
+      route.path = this.joinPaths(prefix, route.path);
+    }
+  }
+
+  // Classes decorated with @Controller, in declaration order
+  getDecoratedControllers(): Function[] {
+    return [...this.controllers]
+      .filter(([, metadata]) => metadata.prefix !== undefined)
+      .map(([target]) => target);
+  }
+
   registerWebSocketRoute(target: Function, path: string): void {
     const webSocketMetadata: WebSocketMetadata = {
       path,
@@ -178,25 +457,76 @@ export class RoutingRegistry {
     return this.webSockets;
   }
 
+  /**
+   * Declare an event a WebSocket controller receives or sends
+   * Kept apart from WebSocketMetadata because method decorators run before @WebSocket
+   */
+  registerWebSocketEvent(target: Function, event: WebSocketEventMetadata): void {
+    if (!this.webSocketEvents.has(target)) {
+      this.webSocketEvents.set(target, []);
+    }
+    this.webSocketEvents.get(target)!.push(event);
+  }
+
+  getWebSocketEvents(target: Function): WebSocketEventMetadata[] {
+    return this.webSocketEvents.get(target) || [];
+  }
+
+  /**
+   * Register a connect, message or disconnect handler of a WebSocket controller
+   * Handlers are kept apart from WebSocketMetadata because method decorators run before @WebSocket
+   */
+  registerWebSocketHandler(target: Function, handler: string, kind: WebSocketHandlerKind, event: string, payload?: Schema): void {
+    const metadata = this.getOrCreateWebSocketHandler(target, handler);
+    metadata.kind = kind;
+    metadata.event = event;
+    if (payload) {
+      metadata.payload = payload;
+    }
+
+    // Parameter decorators run before the handler decorator, so fill in the remaining services now
+    this.autoDetectServiceParameters(target, handler, metadata);
+  }
+
+  /**
+   * Register a WebSocket controller handler parameter (message body, connection or service)
+   */
+  registerWebSocketHandlerParameter(target: Function, handler: string, parameter: ParameterMetadata): void {
+    const metadata = this.getOrCreateWebSocketHandler(target, handler);
+    const existingIndex = metadata.parameters.findIndex(p => p.index === parameter.index);
+    if (existingIndex !== -1) {
+      metadata.parameters[existingIndex] = parameter;
+    } else {
+      metadata.parameters.push(parameter);
+    }
+  }
+
+  getWebSocketHandlers(target: Function): WebSocketHandlerMetadata[] {
+    return (this.webSocketHandlers.get(target) || []).filter(handler => handler.event);
+  }
+
   /**
    * Auto-detect service parameters using reflection metadata
    * This identifies parameters that should be dependency injected
    */
-  private autoDetectServiceParameters(target: Function, handler: string, route: RouteMetadata): void {
+  private autoDetectServiceParameters(target: Function, handler: string, route: { parameters: ParameterMetadata[] }): void {
     try {
       // Get parameter types from reflection metadata
       const paramTypes = Reflect.getMetadata('design:paramtypes', target.prototype, handler) || [];
+      const tokens = getInjectTokens(target, handler);
       
-      // Register service parameters for non-primitive types
+      // Register service parameters for non-primitive types and @Inject tokens
       paramTypes.forEach((paramType: any, index: number) => {
-        if (paramType && this.isServiceType(paramType)) {
+        const token = tokens[index];
+        if (token !== undefined || (paramType && this.isServiceType(paramType))) {
           // Check if this parameter index is already registered as a @Param
           const existingParam = route.parameters.find(p => p.index === index);
           if (!existingParam) {
             route.parameters.push({
               index,
               type: 'service',
-              serviceType: paramType
+              serviceType: paramType,
+              ...(token !== undefined && { token })
             });
           }
         }
@@ -257,6 +587,63 @@ export class RoutingRegistry {
     }
   }
 
+  private getOrCreateEnhancers(target: Function, handler: string | undefined): HandlerEnhancers {
+    if (!this.enhancers.has(target)) {
+      this.enhancers.set(target, new Map());
+    }
+
+    const byHandler = this.enhancers.get(target)!;
+    if (!byHandler.has(handler)) {
+      byHandler.set(handler, { guards: [], interceptors: [] });
+    }
+
+    return byHandler.get(handler)!;
+  }
+
+  private getOrCreateWebSocketHandler(target: Function, handler: string): WebSocketHandlerMetadata {
+    if (!this.webSocketHandlers.has(target)) {
+      this.webSocketHandlers.set(target, []);
+    }
+
+    const handlers = this.webSocketHandlers.get(target)!;
+    let metadata = handlers.find(h => h.handler === handler);
+
+    if (!metadata) {
+      metadata = { kind: 'message', event: '', handler, parameters: [] };
+      handlers.push(metadata);
+    }
+
+    return metadata;
+  }
+
+  private getOrCreateRoute(target: Function, handler: string): RouteMetadata {
+    if (!this.controllers.has(target)) {
+      this.controllers.set(target, { routes: [] });
+    }
+
+    const metadata = this.controllers.get(target)!;
+    let route = metadata.routes.find(r => r.handler === handler);
+
+    if (!route) {
+      route = {
+        method: '',
+        path: '',
+        handler,
+        paramNames: [],
+        parameters: []
+      };
+      metadata.routes.push(route);
+    }
+
+    return route;
+  }
+
+  // Join a controller prefix and a route path, e.g. `/admin/api-keys` and `/:id`
+  private joinPaths(prefix: string, path: string): string {
+    const segments = [prefix, path].map(part => part.replace(/^\/+|\/+$/g, '')).filter(Boolean);
+    return `/${segments.join('/')}`;
+  }
+
   /**
    * Determines if a type should be treated as a service for dependency injection
    * Services are typically classes (functions with prototype) that aren't primitive types
@@ -268,7 +655,7 @@ export class RoutingRegistry {
     }
     
     // Exclude built-in types
-    const builtInTypes = [String, Number, Boolean, Date, Array, Object, RegExp];
+    const builtInTypes = [String, Number, Boolean, Date, Array, Object, RegExp, http.IncomingMessage, http.ServerResponse];
     if (builtInTypes.includes(type)) {
       return false;
     }
@@ -0,0 +1,54 @@
+import * as http from 'http';
+import { ParsedUrlQuery } from 'querystring';
+
+import type { Credentials } from '../../types';
+
+/**
+ * Reads the `apiKey` and `token` fields of an object
+ * @param source - Socket.io `handshake.auth` object or a parsed query string
+ * @returns Credentials found, empty when there are none
+ */
+export function credentialsFrom(source: unknown): Credentials {
+  const { apiKey, token } =
+    source !== null && typeof source === 'object'
+      ? (source as Record<string, unknown>)
+      : {};
+
+  return {
+    ...(typeof apiKey === 'string' && { apiKey }),
+    ...(typeof token === 'string' && { token }),
+  };
+}
+
+/**
+ * Reads the credentials of an HTTP request: the X-API-Key header or an
+ * `Authorization: Bearer` value, which is a signed token when it contains a
+ * dot and an API key otherwise
+ * @param headers - Request headers
+ * @param query - Query string, for clients that cannot set headers such as browser EventSource
+ * @returns Credentials found, empty when there are none
+ */
+export function requestCredentials(
+  headers: http.IncomingHttpHeaders,
+  query: ParsedUrlQuery = {},
+): Credentials {
+  const apiKey = headers['x-api-key'];
+  const bearer = /^Bearer\s+(\S+)$/i.exec(headers.authorization ?? '')?.[1];
+
+  if (typeof apiKey === 'string') {
+    return { apiKey };
+  }
+
+  if (bearer) {
+    return bearer.includes('.') ? { token: bearer } : { apiKey: bearer };
+  }
+
+  return credentialsFrom(query);
+}
+
+/**
+ * Whether credentials were presented at all
+ */
+export function hasCredentials(credentials: Credentials): boolean {
+  return credentials.apiKey !== undefined || credentials.token !== undefined;
+}
@@ -0,0 +1,37 @@
+const UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// Milliseconds, or a number followed by a unit: '500ms', '30s', '1m', '1h', '1d'
+export type Duration = number | string;
+
+/**
+ * Converts a duration to milliseconds
+ * @param duration - Milliseconds, or a string such as '30s' or '1m'
+ * @returns Duration in milliseconds
+ * @throws Error for malformed or non-positive durations
+ */
+export function parseDuration(duration: Duration): number {
+  const match =
+    typeof duration === 'string'
+      ? /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)$/.exec(duration.trim())
+      : null;
+  const ms =
+    typeof duration === 'number'
+      ? duration
+      : match
+        ? Number(match[1]) * UNIT_MS[match[2]]
+        : NaN;
+
+  if (!Number.isFinite(ms) || ms <= 0) {
+    throw new Error(
+      `Invalid duration '${duration}', expected milliseconds or e.g. '30s', '1m'`,
+    );
+  }
+
+  return ms;
+}
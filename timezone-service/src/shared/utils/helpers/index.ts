@@ -1 +1,4 @@
+export * from './requestHelpers';
 export * from './responseHelpers';
+export * from './authHelpers';
+export * from './durationHelpers';
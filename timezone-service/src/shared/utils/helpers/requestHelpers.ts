@@ -0,0 +1,181 @@
+import { randomUUID } from 'crypto';
+import * as http from 'http';
+
+import {
+  BadRequestException,
+  HttpException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '../../exceptions';
+
+/**
+ * Default maximum accepted request body size (1 MiB)
+ */
+export const DEFAULT_BODY_LIMIT = 1024 * 1024;
+
+// Incoming ids are only trusted when short and free of control characters
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Correlation id of a request or connection
+ * @param headers - Request headers, possibly carrying an X-Request-Id from a client or proxy
+ * @returns The incoming X-Request-Id when valid, otherwise a new UUID
+ */
+export function requestIdFrom(headers: http.IncomingHttpHeaders): string {
+  const incoming = headers['x-request-id'];
+
+  return typeof incoming === 'string' && REQUEST_ID_PATTERN.test(incoming)
+    ? incoming
+    : randomUUID();
+}
+
+/**
+ * Reads and parses the request body
+ * JSON bodies are parsed, text bodies are returned as strings
+ * @param req - HTTP Request object
+ * @param limit - Maximum body size in bytes
+ * @returns Parsed body or undefined when the request has no body
+ * @throws HttpException (413, 400 or 415) for oversized, malformed or unsupported bodies
+ */
+export function readRequestBody(
+  req: http.IncomingMessage,
+  limit: number = DEFAULT_BODY_LIMIT,
+): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const declaredLength = Number(req.headers['content-length']);
+    if (declaredLength > limit) {
+      req.resume();
+      reject(payloadTooLarge(limit));
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let settled = false;
+
+    req.on('data', (chunk: Buffer) => {
+      if (settled) return;
+
+      size += chunk.length;
+      if (size > limit) {
+        settled = true;
+        reject(payloadTooLarge(limit));
+        return;
+      }
+
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      if (settled) return;
+      settled = true;
+
+      try {
+        resolve(parseBody(Buffer.concat(chunks).toString('utf8'), req));
+      } catch (error) {
+        reject(error as Error);
+      }
+    });
+
+    req.on('error', (error) => {
+      if (settled) return;
+      settled = true;
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Converts a raw string input to the declared parameter type
+ * @param raw - Raw value from the path, query string or headers
+ * @param valueType - Declared type (String, Number, Boolean, Date or Array)
+ * @param name - Parameter name used in error messages
+ * @returns Coerced value or undefined when the input is missing
+ * @throws BadRequestException when the value cannot be converted
+ */
+export function coerceValue(
+  raw: string | string[] | undefined,
+  valueType: Function | undefined,
+  name: string,
+): unknown {
+  if (raw === undefined) {
+    return undefined;
+  }
+
+  if (valueType === Array) {
+    return Array.isArray(raw) ? raw : [raw];
+  }
+
+  const value = Array.isArray(raw) ? raw[raw.length - 1] : raw;
+
+  if (valueType === Number) {
+    const number = Number(value);
+    if (value.trim() === '' || Number.isNaN(number)) {
+      throw invalidParameter(name, 'a number', value);
+    }
+    return number;
+  }
+
+  if (valueType === Boolean) {
+    if (value === 'true' || value === '1' || value === '') return true;
+    if (value === 'false' || value === '0') return false;
+    throw invalidParameter(name, 'a boolean', value);
+  }
+
+  if (valueType === Date) {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw invalidParameter(name, 'a valid date', value);
+    }
+    return date;
+  }
+
+  return value;
+}
+
+function parseBody(text: string, req: http.IncomingMessage): unknown {
+  if (text.length === 0) {
+    return undefined;
+  }
+
+  const contentType = (req.headers['content-type'] || 'application/json')
+    .split(';')[0]
+    .trim()
+    .toLowerCase();
+
+  if (contentType === 'application/json' || contentType.endsWith('+json')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new BadRequestException('Request body is not valid JSON', {
+        code: 'INVALID_JSON',
+      });
+    }
+  }
+
+  if (contentType.startsWith('text/')) {
+    return text;
+  }
+
+  throw new UnsupportedMediaTypeException(
+    `Content type '${contentType}' is not supported`,
+  );
+}
+
+function payloadTooLarge(limit: number): HttpException {
+  return new PayloadTooLargeException(
+    `Request body exceeds the limit of ${limit} bytes`,
+    { details: { limit } },
+  );
+}
+
+function invalidParameter(
+  name: string,
+  expected: string,
+  value: string,
+): BadRequestException {
+  return new BadRequestException(`Parameter '${name}' must be ${expected}`, {
+    code: 'INVALID_PARAMETER',
+    details: { parameter: name, value },
+  });
+}
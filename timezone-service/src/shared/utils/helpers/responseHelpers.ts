@@ -1,5 +1,7 @@
 import * as http from 'http';
 
+import type { HttpException } from '../../exceptions';
+
 /**
  * Sends JSON response with proper formatting
  * @param res - HTTP Response object
@@ -35,6 +37,15 @@ export function sendErrorResponse(
   sendJsonResponse(res, statusCode, errorResponse);
 }
 
+/**
+ * Sends the standard error body for an HTTP exception
+ * @param res - HTTP Response object
+ * @param exception - Exception carrying status, code, message and details
+ */
+export function sendExceptionResponse(res: http.ServerResponse, exception: HttpException): void {
+  sendJsonResponse(res, exception.status, exception.toResponse());
+}
+
 /**
  * Sends successful response
  * @param res - HTTP Response object
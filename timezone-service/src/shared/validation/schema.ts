@@ -0,0 +1,491 @@
+/**
+ * Single failing rule reported by a schema
+ * `path` is the dotted location inside the validated value (e.g. "items[0].name")
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Where the validated value comes from
+export interface ValidateOptions {
+  strings?: boolean; // the value comes from a path, query string or headers
+}
+
+/**
+ * JSON Schema (draft 2020-12, the dialect of OpenAPI 3.1) describing a schema
+ */
+export interface JsonSchema {
+  type?: string;
+  format?: string;
+  description?: string;
+  examples?: unknown[];
+  enum?: readonly unknown[];
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  $ref?: string;
+}
+
+/**
+ * Base class for all schema types
+ * Values coming from paths and query strings are strings, so number and
+ * boolean schemas also accept their string representations, and array schemas
+ * a single string when validated with `strings`
+ */
+export abstract class Schema<T = unknown> {
+  protected isOptional = false;
+  protected description?: string;
+
+  /**
+   * Whether the value must be present
+   */
+  get required(): boolean {
+    return !this.isOptional;
+  }
+
+  /**
+   * Allow the value to be missing (undefined)
+   */
+  optional(): this {
+    this.isOptional = true;
+    return this;
+  }
+
+  /**
+   * Attach a human readable description, used in generated API documentation
+   */
+  describe(description: string): this {
+    this.description = description;
+    return this;
+  }
+
+  /**
+   * Validates a value and collects every failing rule
+   * @param value - Value to validate
+   * @param path - Location of the value, used as prefix in issues
+   * @returns List of issues, empty when the value is valid
+   */
+  validate(
+    value: unknown,
+    path: string = '',
+    options: ValidateOptions = {},
+  ): ValidationIssue[] {
+    if (value === undefined) {
+      return this.isOptional ? [] : [{ path, message: 'is required' }];
+    }
+
+    const issues: ValidationIssue[] = [];
+    this.check(value, path, issues, options);
+    return issues;
+  }
+
+  /**
+   * Converts a valid value to the schema type, e.g. numeric strings to numbers
+   * @param value - Value validate() reported no issues for, with the same options
+   */
+  coerce(value: unknown, options: ValidateOptions = {}): unknown {
+    return value === undefined ? value : this.convert(value, options);
+  }
+
+  /**
+   * Type guard variant of validate
+   */
+  isValid(value: unknown): value is T {
+    return this.validate(value).length === 0;
+  }
+
+  /**
+   * JSON Schema representation, used in generated API documentation
+   */
+  toJsonSchema(): JsonSchema {
+    const schema = this.buildJsonSchema();
+    return this.description
+      ? { ...schema, description: this.description }
+      : schema;
+  }
+
+  protected abstract buildJsonSchema(): JsonSchema;
+
+  protected abstract check(
+    value: unknown,
+    path: string,
+    issues: ValidationIssue[],
+    options: ValidateOptions,
+  ): void;
+
+  // Valid values of most schemas already have their type
+  protected convert(value: unknown, _options: ValidateOptions): unknown {
+    return value;
+  }
+}
+
+export interface StringSchemaOptions {
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+}
+
+export class StringSchema extends Schema<string> {
+  constructor(private readonly options: StringSchemaOptions = {}) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, issues: ValidationIssue[]) {
+    if (typeof value !== 'string') {
+      issues.push({ path, message: 'must be a string' });
+      return;
+    }
+
+    const { min, max, pattern } = this.options;
+    if (min !== undefined && value.length < min) {
+      issues.push({ path, message: `must be at least ${min} characters` });
+    }
+    if (max !== undefined && value.length > max) {
+      issues.push({ path, message: `must be at most ${max} characters` });
+    }
+    if (pattern && !pattern.test(value)) {
+      issues.push({ path, message: `must match pattern ${pattern.source}` });
+    }
+  }
+
+  protected buildJsonSchema(): JsonSchema {
+    const { min, max, pattern } = this.options;
+    return {
+      type: 'string',
+      ...(min !== undefined && { minLength: min }),
+      ...(max !== undefined && { maxLength: max }),
+      ...(pattern && { pattern: pattern.source }),
+    };
+  }
+}
+
+export class EnumSchema<T extends string> extends Schema<T> {
+  constructor(private readonly values: readonly T[]) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, issues: ValidationIssue[]) {
+    if (!this.values.includes(value as T)) {
+      issues.push({
+        path,
+        message: `must be one of: ${this.values.join(', ')}`,
+      });
+    }
+  }
+
+  protected buildJsonSchema(): JsonSchema {
+    return { type: 'string', enum: this.values };
+  }
+}
+
+export interface NumberSchemaOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+export class NumberSchema extends Schema<number> {
+  constructor(private readonly options: NumberSchemaOptions = {}) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, issues: ValidationIssue[]) {
+    const number =
+      typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+
+    if (typeof number !== 'number' || Number.isNaN(number)) {
+      issues.push({ path, message: 'must be a number' });
+      return;
+    }
+
+    const { min, max, integer } = this.options;
+    if (integer && !Number.isInteger(number)) {
+      issues.push({ path, message: 'must be an integer' });
+    }
+    if (min !== undefined && number < min) {
+      issues.push({
+        path,
+        message: `must be greater than or equal to ${min}`,
+      });
+    }
+    if (max !== undefined && number > max) {
+      issues.push({ path, message: `must be less than or equal to ${max}` });
+    }
+  }
+
+  protected convert(value: unknown): unknown {
+    return typeof value === 'string' ? Number(value) : value;
+  }
+
+  protected buildJsonSchema(): JsonSchema {
+    const { min, max, integer } = this.options;
+    return {
+      type: integer ? 'integer' : 'number',
+      ...(min !== undefined && { minimum: min }),
+      ...(max !== undefined && { maximum: max }),
+    };
+  }
+}
+
+export class BooleanSchema extends Schema<boolean> {
+  protected check(value: unknown, path: string, issues: ValidationIssue[]) {
+    const accepted = [true, false, 'true', 'false', '1', '0'];
+    if (!accepted.includes(value as boolean | string)) {
+      issues.push({ path, message: 'must be a boolean' });
+    }
+  }
+
+  protected convert(value: unknown): unknown {
+    return typeof value === 'string'
+      ? value === 'true' || value === '1'
+      : value;
+  }
+
+  protected buildJsonSchema(): JsonSchema {
+    return { type: 'boolean' };
+  }
+}
+
+export interface ArraySchemaOptions {
+  min?: number;
+  max?: number;
+}
+
+export class ArraySchema<T> extends Schema<T[]> {
+  constructor(
+    private readonly items: Schema<T>,
+    private readonly options: ArraySchemaOptions = {},
+  ) {
+    super();
+  }
+
+  protected check(
+    value: unknown,
+    path: string,
+    issues: ValidationIssue[],
+    options: ValidateOptions,
+  ) {
+    const list = this.toList(value, options);
+
+    if (!Array.isArray(list)) {
+      issues.push({ path, message: 'must be an array' });
+      return;
+    }
+
+    const { min, max } = this.options;
+    if (min !== undefined && list.length < min) {
+      issues.push({ path, message: `must contain at least ${min} items` });
+    }
+    if (max !== undefined && list.length > max) {
+      issues.push({ path, message: `must contain at most ${max} items` });
+    }
+
+    list.forEach((item: unknown, index: number) => {
+      issues.push(...this.items.validate(item, `${path}[${index}]`, options));
+    });
+  }
+
+  protected convert(value: unknown, options: ValidateOptions): unknown {
+    const list = this.toList(value, options) as unknown[];
+    return list.map((item) => this.items.coerce(item, options));
+  }
+
+  // A repeated query parameter or header given once arrives as a single string
+  private toList(value: unknown, { strings }: ValidateOptions): unknown {
+    return strings && typeof value === 'string' ? [value] : value;
+  }
+
+  protected buildJsonSchema(): JsonSchema {
+    const { min, max } = this.options;
+    return {
+      type: 'array',
+      items: this.items.toJsonSchema(),
+      ...(min !== undefined && { minItems: min }),
+      ...(max !== undefined && { maxItems: max }),
+    };
+  }
+}
+
+export type ObjectShape = Record<string, Schema>;
+
+export interface ObjectSchemaOptions {
+  strict?: boolean; // report properties that are not part of the shape
+}
+
+export class ObjectSchema<T = Record<string, unknown>> extends Schema<T> {
+  constructor(
+    private readonly shape: ObjectShape,
+    private readonly options: ObjectSchemaOptions = {},
+  ) {
+    super();
+  }
+
+  protected check(
+    value: unknown,
+    path: string,
+    issues: ValidationIssue[],
+    options: ValidateOptions,
+  ) {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      issues.push({ path, message: 'must be an object' });
+      return;
+    }
+
+    const record = value as Record<string, unknown>;
+
+    for (const [key, schema] of Object.entries(this.shape)) {
+      issues.push(
+        ...schema.validate(record[key], joinPath(path, key), options),
+      );
+    }
+
+    if (this.options.strict) {
+      for (const key of Object.keys(record)) {
+        if (!(key in this.shape)) {
+          issues.push({ path: joinPath(path, key), message: 'is not allowed' });
+        }
+      }
+    }
+  }
+
+  protected convert(value: unknown, options: ValidateOptions): unknown {
+    const record = { ...(value as Record<string, unknown>) };
+
+    for (const [key, schema] of Object.entries(this.shape)) {
+      if (record[key] !== undefined) {
+        record[key] = schema.coerce(record[key], options);
+      }
+    }
+
+    return record;
+  }
+
+  protected buildJsonSchema(): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const [key, schema] of Object.entries(this.shape)) {
+      properties[key] = schema.toJsonSchema();
+      if (schema.required) {
+        required.push(key);
+      }
+    }
+
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 && { required }),
+      ...(this.options.strict && { additionalProperties: false }),
+    };
+  }
+}
+
+/**
+ * Object with any keys whose values share one schema, e.g. settings keyed by name
+ */
+export class RecordSchema<T> extends Schema<Record<string, T>> {
+  constructor(private readonly values: Schema<T>) {
+    super();
+  }
+
+  protected check(
+    value: unknown,
+    path: string,
+    issues: ValidationIssue[],
+    options: ValidateOptions,
+  ) {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      issues.push({ path, message: 'must be an object' });
+      return;
+    }
+
+    for (const [key, item] of Object.entries(value)) {
+      issues.push(...this.values.validate(item, joinPath(path, key), options));
+    }
+  }
+
+  protected convert(value: unknown, options: ValidateOptions): unknown {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+        key,
+        this.values.coerce(item, options),
+      ]),
+    );
+  }
+
+  protected buildJsonSchema(): JsonSchema {
+    return { type: 'object', additionalProperties: this.values.toJsonSchema() };
+  }
+}
+
+export type TimezoneValidator = (timezone: string) => boolean;
+
+/**
+ * IANA timezone identifier
+ * The services layer registers TimezoneService.isValidTimezone as validator,
+ * until then identifiers are checked with Intl
+ */
+export class TimezoneSchema extends Schema<string> {
+  private static validator: TimezoneValidator = (timezone) => {
+    try {
+      Intl.DateTimeFormat(undefined, { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  /**
+   * Check identifiers of every timezone schema with the given function
+   */
+  static useValidator(validator: TimezoneValidator): void {
+    TimezoneSchema.validator = validator;
+  }
+
+  protected check(value: unknown, path: string, issues: ValidationIssue[]) {
+    if (typeof value !== 'string' || !TimezoneSchema.validator(value)) {
+      issues.push({ path, message: 'must be a valid timezone identifier' });
+    }
+  }
+
+  protected buildJsonSchema(): JsonSchema {
+    return {
+      type: 'string',
+      description: 'IANA timezone identifier',
+      examples: ['Etc/UTC', 'America/New_York'],
+    };
+  }
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Schema builders
+ * @example
+ * s.object({ timezone: s.timezone(), limit: s.number({ min: 1 }).optional() })
+ */
+export const s = {
+  string: (options?: StringSchemaOptions) => new StringSchema(options),
+  enum: <T extends string>(values: readonly T[]) => new EnumSchema<T>(values),
+  number: (options?: NumberSchemaOptions) => new NumberSchema(options),
+  boolean: () => new BooleanSchema(),
+  array: <T>(items: Schema<T>, options?: ArraySchemaOptions) =>
+    new ArraySchema<T>(items, options),
+  object: <T = Record<string, unknown>>(
+    shape: ObjectShape,
+    options?: ObjectSchemaOptions,
+  ) => new ObjectSchema<T>(shape, options),
+  record: <T>(values: Schema<T>) => new RecordSchema<T>(values),
+  timezone: () => new TimezoneSchema(),
+};